@@ -0,0 +1,17 @@
+-- Migration: Add task_dependencies table
+-- Date: 2026-10-19
+-- Purpose: "Blocked by" relationships between tasks. A task is blocked while any
+-- of its blockers is still open; completing the last blocker unblocks it.
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,               -- The task that is waiting
+  blocked_by_task_id TEXT NOT NULL,    -- The task that must finish first
+  created_at TEXT NOT NULL,
+  UNIQUE(task_id, blocked_by_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_deps_task ON task_dependencies(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_deps_blocker ON task_dependencies(blocked_by_task_id);
+CREATE INDEX IF NOT EXISTS idx_task_deps_user ON task_dependencies(user_id);
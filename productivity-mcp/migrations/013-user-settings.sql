@@ -0,0 +1,11 @@
+-- Migration: Add user_settings table
+-- Date: 2026-10-19
+-- Purpose: Per-user preferences. Starts with the IANA timezone used to decide what
+-- "today" means for due dates, overdue checks, daily logs and patterns.
+
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id TEXT PRIMARY KEY,
+  timezone TEXT NOT NULL DEFAULT 'America/Chicago',  -- IANA name, e.g. 'Europe/London'
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,20 @@
+-- Migration: Add job_runs table
+-- Date: 2026-10-19
+-- Purpose: History of scheduled background jobs (cron handler) and manual runs -
+-- recurring catch-up, pattern analysis, message cleanup, stale sessions, digests.
+
+CREATE TABLE IF NOT EXISTS job_runs (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  job_name TEXT NOT NULL,           -- 'recurring_catchup', 'pattern_analysis', ...
+  trigger_type TEXT NOT NULL,       -- 'cron' or 'manual'
+  status TEXT NOT NULL,             -- 'running', 'success', 'error'
+  summary TEXT,                     -- Human-readable result
+  error TEXT,                       -- Error message when status = 'error'
+  started_at TEXT NOT NULL,
+  finished_at TEXT,
+  duration_ms INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runs_user_job ON job_runs(user_id, job_name, started_at);
+CREATE INDEX IF NOT EXISTS idx_job_runs_status ON job_runs(status);
@@ -0,0 +1,33 @@
+-- Migration: Add tags and task_tags tables
+-- Date: 2026-10-19
+-- Purpose: Many-to-many tags on tasks, so a task can be both "Email" and "Launch X".
+-- Existing task categories are copied into tags the first time this runs.
+
+CREATE TABLE IF NOT EXISTS tags (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  UNIQUE(user_id, name COLLATE NOCASE)
+);
+
+CREATE TABLE IF NOT EXISTS task_tags (
+  task_id TEXT NOT NULL,
+  tag_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (task_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tags_user ON tags(user_id);
+CREATE INDEX IF NOT EXISTS idx_task_tags_tag ON task_tags(tag_id);
+
+-- Categories → tags (one tag per distinct category per user; case-insensitive)
+INSERT OR IGNORE INTO tags (id, user_id, name, created_at)
+SELECT lower(hex(randomblob(16))), user_id, TRIM(category), datetime('now')
+FROM (SELECT DISTINCT user_id, category FROM tasks WHERE category IS NOT NULL AND TRIM(category) != '');
+
+INSERT OR IGNORE INTO task_tags (task_id, tag_id, created_at)
+SELECT t.id, g.id, datetime('now')
+FROM tasks t
+JOIN tags g ON g.user_id = t.user_id AND g.name = TRIM(t.category) COLLATE NOCASE
+WHERE t.category IS NOT NULL AND TRIM(t.category) != '';
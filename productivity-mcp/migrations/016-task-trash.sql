@@ -0,0 +1,12 @@
+-- Migration: Soft-delete tasks into a trash
+-- Date: 2026-10-19
+-- Purpose: delete_task moves tasks to status 'deleted' instead of removing the row.
+-- They can be restored until the per-user retention window passes, then a
+-- scheduled job purges them for good.
+
+ALTER TABLE tasks ADD COLUMN deleted_at TEXT;              -- When the task went to the trash
+ALTER TABLE tasks ADD COLUMN deleted_from_status TEXT;     -- 'open' or 'done' - restored to this
+
+ALTER TABLE user_settings ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted ON tasks(user_id, status, deleted_at);
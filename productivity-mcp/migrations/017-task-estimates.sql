@@ -0,0 +1,10 @@
+-- Migration: Time estimates and daily capacity
+-- Date: 2026-10-19
+-- Purpose: Estimated minutes per task (actuals are rolled up from progress_logs),
+-- and a per-user daily capacity that plan_week fills day by day.
+
+ALTER TABLE tasks ADD COLUMN estimated_minutes INTEGER;
+
+ALTER TABLE user_settings ADD COLUMN daily_capacity_minutes INTEGER NOT NULL DEFAULT 360;
+
+CREATE INDEX IF NOT EXISTS idx_progress_logs_task ON progress_logs(task_id);
@@ -0,0 +1,200 @@
+-- Migration: Full-text search index
+-- Date: 2026-10-19
+-- Purpose: One FTS5 index over tasks, notes, incubation ideas, check-ins, work logs,
+-- journal entries, skills and launch docs for search_everything and /api/search.
+-- Triggers keep it in sync on every write, so no tool has to remember to reindex.
+-- Skills and launch docs are shared, so their user_id is NULL.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+  title,
+  body,
+  entity_type UNINDEXED,   -- 'task', 'note', 'idea', 'check_in', 'work_log', 'journal', 'skill', 'launch_doc'
+  entity_id UNINDEXED,
+  user_id UNINDEXED,
+  occurred_at UNINDEXED,   -- created_at, or entry_date for journal entries, or updated_at for skills/docs
+  tokenize = 'porter unicode61'
+);
+
+-- ==================
+-- TASKS (trashed tasks drop out of the index; restore puts them back)
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_tasks_ai AFTER INSERT ON tasks WHEN new.status != 'deleted' BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.text, TRIM(COALESCE(new.notes, '') || ' ' || COALESCE(new.category, '') || ' ' || COALESCE(new.project, '')), 'task', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_tasks_au AFTER UPDATE OF text, notes, category, project, status, user_id ON tasks BEGIN
+  DELETE FROM search_index WHERE entity_type = 'task' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT new.text, TRIM(COALESCE(new.notes, '') || ' ' || COALESCE(new.category, '') || ' ' || COALESCE(new.project, '')), 'task', new.id, new.user_id, new.created_at
+  WHERE new.status != 'deleted';
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_tasks_ad AFTER DELETE ON tasks BEGIN
+  DELETE FROM search_index WHERE entity_type = 'task' AND entity_id = old.id;
+END;
+
+-- ==================
+-- NOTES
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_notes_ai AFTER INSERT ON notes BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.title, COALESCE(new.content, ''), 'note', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_notes_au AFTER UPDATE OF title, content ON notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'note' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.title, COALESCE(new.content, ''), 'note', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_notes_ad AFTER DELETE ON notes BEGIN
+  DELETE FROM search_index WHERE entity_type = 'note' AND entity_id = old.id;
+END;
+
+-- ==================
+-- INCUBATION IDEAS
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_incubation_ai AFTER INSERT ON incubation BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.title, COALESCE(new.content, ''), 'idea', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_incubation_au AFTER UPDATE OF title, content ON incubation BEGIN
+  DELETE FROM search_index WHERE entity_type = 'idea' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.title, COALESCE(new.content, ''), 'idea', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_incubation_ad AFTER DELETE ON incubation BEGIN
+  DELETE FROM search_index WHERE entity_type = 'idea' AND entity_id = old.id;
+END;
+
+-- ==================
+-- CHECK-INS
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_check_ins_ai AFTER INSERT ON check_ins BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (COALESCE(new.project_name, ''), new.thread_summary || ' ' || new.full_recap, 'check_in', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_check_ins_au AFTER UPDATE OF project_name, thread_summary, full_recap ON check_ins BEGIN
+  DELETE FROM search_index WHERE entity_type = 'check_in' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (COALESCE(new.project_name, ''), new.thread_summary || ' ' || new.full_recap, 'check_in', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_check_ins_ad AFTER DELETE ON check_ins BEGIN
+  DELETE FROM search_index WHERE entity_type = 'check_in' AND entity_id = old.id;
+END;
+
+-- ==================
+-- WORK LOGS
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_work_logs_ai AFTER INSERT ON work_logs BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES ('', new.narrative || ' ' || COALESCE(new.shipped, ''), 'work_log', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_work_logs_au AFTER UPDATE OF narrative, shipped ON work_logs BEGIN
+  DELETE FROM search_index WHERE entity_type = 'work_log' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES ('', new.narrative || ' ' || COALESCE(new.shipped, ''), 'work_log', new.id, new.user_id, new.created_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_work_logs_ad AFTER DELETE ON work_logs BEGIN
+  DELETE FROM search_index WHERE entity_type = 'work_log' AND entity_id = old.id;
+END;
+
+-- ==================
+-- JOURNAL ENTRIES
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_journal_ai AFTER INSERT ON journal_entries BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (COALESCE(new.title, ''), TRIM(new.raw_content || ' ' || COALESCE(new.refined_content, '') || ' ' || COALESCE(new.mood, '')), 'journal', new.id, new.user_id, new.entry_date);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_journal_au AFTER UPDATE OF title, raw_content, refined_content, mood ON journal_entries BEGIN
+  DELETE FROM search_index WHERE entity_type = 'journal' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (COALESCE(new.title, ''), TRIM(new.raw_content || ' ' || COALESCE(new.refined_content, '') || ' ' || COALESCE(new.mood, '')), 'journal', new.id, new.user_id, new.entry_date);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_journal_ad AFTER DELETE ON journal_entries BEGIN
+  DELETE FROM search_index WHERE entity_type = 'journal' AND entity_id = old.id;
+END;
+
+-- ==================
+-- SKILLS (shared)
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_skills_ai AFTER INSERT ON skills BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'skill', new.id, NULL, new.updated_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_skills_au AFTER UPDATE OF name, description, content ON skills BEGIN
+  DELETE FROM search_index WHERE entity_type = 'skill' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'skill', new.id, NULL, new.updated_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_skills_ad AFTER DELETE ON skills BEGIN
+  DELETE FROM search_index WHERE entity_type = 'skill' AND entity_id = old.id;
+END;
+
+-- ==================
+-- LAUNCH DOCS (shared)
+-- ==================
+
+CREATE TRIGGER IF NOT EXISTS search_launch_docs_ai AFTER INSERT ON launch_docs BEGIN
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'launch_doc', new.id, NULL, new.updated_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_launch_docs_au AFTER UPDATE OF name, description, content ON launch_docs BEGIN
+  DELETE FROM search_index WHERE entity_type = 'launch_doc' AND entity_id = old.id;
+  INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+  VALUES (new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'launch_doc', new.id, NULL, new.updated_at);
+END;
+
+CREATE TRIGGER IF NOT EXISTS search_launch_docs_ad AFTER DELETE ON launch_docs BEGIN
+  DELETE FROM search_index WHERE entity_type = 'launch_doc' AND entity_id = old.id;
+END;
+
+-- ==================
+-- BACKFILL
+-- ==================
+
+DELETE FROM search_index;
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT text, TRIM(COALESCE(notes, '') || ' ' || COALESCE(category, '') || ' ' || COALESCE(project, '')), 'task', id, user_id, created_at
+FROM tasks WHERE status != 'deleted';
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT title, COALESCE(content, ''), 'note', id, user_id, created_at FROM notes;
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT title, COALESCE(content, ''), 'idea', id, user_id, created_at FROM incubation;
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT COALESCE(project_name, ''), thread_summary || ' ' || full_recap, 'check_in', id, user_id, created_at FROM check_ins;
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT '', narrative || ' ' || COALESCE(shipped, ''), 'work_log', id, user_id, created_at FROM work_logs;
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT COALESCE(title, ''), TRIM(raw_content || ' ' || COALESCE(refined_content, '') || ' ' || COALESCE(mood, '')), 'journal', id, user_id, entry_date FROM journal_entries;
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT name, TRIM(COALESCE(description, '') || ' ' || content), 'skill', id, NULL, updated_at FROM skills;
+
+INSERT INTO search_index (title, body, entity_type, entity_id, user_id, occurred_at)
+SELECT name, TRIM(COALESCE(description, '') || ' ' || content), 'launch_doc', id, NULL, updated_at FROM launch_docs;
@@ -0,0 +1,27 @@
+-- Migration: Task templates
+-- Date: 2026-10-19
+-- Purpose: Reusable task trees (a root task plus nested subtasks) with {{placeholders}},
+-- default priority/category and due dates relative to the day the template is used.
+
+CREATE TABLE IF NOT EXISTS task_templates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  text TEXT NOT NULL,                  -- Root task text; may contain {{placeholders}}
+  priority INTEGER NOT NULL DEFAULT 3,
+  category TEXT,
+  project TEXT,
+  notes TEXT,
+  due_offset_days INTEGER,             -- Root due date = start date + offset (NULL = no due date)
+  estimated_minutes INTEGER,
+  tags TEXT NOT NULL DEFAULT '[]',     -- JSON array of tag names
+  subtasks TEXT NOT NULL DEFAULT '[]', -- JSON tree: [{ text, priority?, due_offset_days?, estimated_minutes?, subtasks? }]
+  use_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE (user_id, name COLLATE NOCASE)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_user ON task_templates(user_id);
@@ -0,0 +1,24 @@
+-- Migration: Focus timers
+-- Date: 2026-10-19
+-- Purpose: Start/pause/stop timers bound to a task. Stopping writes a progress_logs
+-- row (so actual minutes roll up) and a checkpoint. One open timer per user.
+
+CREATE TABLE IF NOT EXISTS task_timers (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  task_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',    -- 'running', 'paused', 'stopped'
+  started_at TEXT NOT NULL,
+  segment_started_at TEXT,                   -- Start of the current running stretch (NULL while paused)
+  accumulated_seconds INTEGER NOT NULL DEFAULT 0,  -- Time from finished stretches
+  planned_minutes INTEGER,                   -- Pomodoro length, if set
+  pause_count INTEGER NOT NULL DEFAULT 0,
+  stopped_at TEXT,
+  minutes_logged INTEGER,                    -- Written to progress_logs on stop
+  progress_log_id TEXT,
+  created_at TEXT NOT NULL
+);
+
+-- Enforces "only one timer per user" for running and paused timers
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_timers_open ON task_timers(user_id) WHERE status IN ('running', 'paused');
+CREATE INDEX IF NOT EXISTS idx_task_timers_task ON task_timers(task_id);
@@ -0,0 +1,9 @@
+-- Migration: Subtask rollups and parent auto-completion
+-- Date: 2026-10-19
+-- Purpose: Per-user switch to complete a parent task automatically when its last
+-- subtask is done (off = complete_task suggests it instead), and an index for the
+-- parent_task_id lookups behind subtask progress rollups.
+
+ALTER TABLE user_settings ADD COLUMN auto_complete_parents INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_task_id);
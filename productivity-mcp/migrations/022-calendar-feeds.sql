@@ -0,0 +1,16 @@
+-- Migration: Calendar feeds
+-- Date: 2026-10-19
+-- Purpose: Secret per-user tokens for the iCalendar feed at /api/calendar/:token.ics
+-- (due tasks, sprint ends, launch dates). Revoking a token keeps the row for history.
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  token TEXT NOT NULL UNIQUE,
+  label TEXT,
+  created_at TEXT NOT NULL,
+  last_fetched_at TEXT,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_user ON calendar_feeds(user_id);
@@ -0,0 +1,20 @@
+-- Migration: Sprint burndown and velocity history
+-- Date: 2026-10-19
+-- Purpose: One snapshot per active sprint per day (written by the sprint_snapshots
+-- job) for burndown charts, and final task counts frozen onto the sprint when it
+-- ends so velocity survives end_sprint returning open tasks to their categories.
+
+CREATE TABLE IF NOT EXISTS sprint_snapshots (
+  id TEXT PRIMARY KEY,
+  sprint_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  snapshot_date TEXT NOT NULL,
+  total_tasks INTEGER NOT NULL,
+  completed_tasks INTEGER NOT NULL,
+  created_at TEXT NOT NULL,
+  UNIQUE(sprint_id, snapshot_date)
+);
+
+ALTER TABLE sprints ADD COLUMN ended_at TEXT;
+ALTER TABLE sprints ADD COLUMN final_total_tasks INTEGER;
+ALTER TABLE sprints ADD COLUMN final_completed_tasks INTEGER;
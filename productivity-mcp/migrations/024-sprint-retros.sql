@@ -0,0 +1,19 @@
+-- Migration: Sprint retrospectives
+-- Date: 2026-10-19
+-- Purpose: One retro per ended sprint - wins, misses and lessons plus a JSON stats
+-- snapshot taken at end_sprint, and the sprint unfinished tasks were carried into.
+
+CREATE TABLE IF NOT EXISTS sprint_retros (
+  id TEXT PRIMARY KEY,
+  sprint_id TEXT NOT NULL UNIQUE,
+  user_id TEXT NOT NULL,
+  wins TEXT,
+  misses TEXT,
+  lessons TEXT,
+  stats TEXT,
+  carried_to_sprint_id TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_sprint_retros_user ON sprint_retros(user_id, created_at);
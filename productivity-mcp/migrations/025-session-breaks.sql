@@ -0,0 +1,18 @@
+-- Migration: Work session breaks
+-- Date: 2026-10-19
+-- Purpose: Breaks (take_break / resume_work) as intervals inside a work session, so
+-- total_minutes can be net worked time. break_minutes is stored when a session closes.
+
+CREATE TABLE IF NOT EXISTS session_breaks (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  started_at TEXT NOT NULL,
+  ended_at TEXT,
+  reason TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_breaks_session ON session_breaks(session_id, started_at);
+
+ALTER TABLE work_sessions ADD COLUMN break_minutes INTEGER;
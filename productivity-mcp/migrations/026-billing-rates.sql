@@ -0,0 +1,19 @@
+-- Migration: Billing rates for timesheets
+-- Date: 2026-10-19
+-- Purpose: Map a project, category, launch or tag to a client with an hourly rate
+-- and a billable flag, so generate_timesheet can price logged time.
+
+CREATE TABLE IF NOT EXISTS billing_rates (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  match_type TEXT NOT NULL,
+  match_value TEXT NOT NULL COLLATE NOCASE,
+  client TEXT,
+  hourly_rate REAL,
+  billable INTEGER DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE(user_id, match_type, match_value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_billing_rates_user ON billing_rates(user_id);
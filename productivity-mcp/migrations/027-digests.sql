@@ -0,0 +1,33 @@
+-- Migration: Digest emails
+-- Date: 2026-10-19
+-- Purpose: Per-user schedule and sections for the morning, evening and weekly digest
+-- emails, and a log of each send so a digest goes out at most once per day.
+
+CREATE TABLE IF NOT EXISTS digest_settings (
+  user_id TEXT PRIMARY KEY,
+  enabled INTEGER NOT NULL DEFAULT 0,
+  account TEXT NOT NULL DEFAULT 'personal',
+  email_to TEXT,
+  morning_hour INTEGER DEFAULT 7,
+  evening_hour INTEGER DEFAULT 18,
+  weekly_day INTEGER DEFAULT 5,
+  weekly_hour INTEGER DEFAULT 16,
+  sections TEXT,
+  skip_inactive INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS digest_sends (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  digest_type TEXT NOT NULL,
+  digest_date TEXT NOT NULL,
+  status TEXT NOT NULL,
+  subject TEXT,
+  detail TEXT,
+  created_at TEXT NOT NULL,
+  UNIQUE(user_id, digest_type, digest_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_sends_user ON digest_sends(user_id, created_at);
@@ -0,0 +1,23 @@
+-- Migration: Pattern analysis settings and evidence
+-- Date: 2026-10-19
+-- Purpose: Per-user window and thresholds for pattern analysis, plus the sample size,
+-- evidence and last-confirmed confidence behind each stored pattern so patterns that
+-- stop holding decay and expire.
+
+ALTER TABLE user_settings ADD COLUMN pattern_window_days INTEGER NOT NULL DEFAULT 30;
+ALTER TABLE user_settings ADD COLUMN pattern_min_samples INTEGER NOT NULL DEFAULT 4;
+ALTER TABLE user_settings ADD COLUMN pattern_min_confidence REAL NOT NULL DEFAULT 0.6;
+ALTER TABLE user_settings ADD COLUMN pattern_half_life_days INTEGER NOT NULL DEFAULT 14;
+
+ALTER TABLE user_patterns ADD COLUMN sample_size INTEGER;
+ALTER TABLE user_patterns ADD COLUMN evidence TEXT;
+ALTER TABLE user_patterns ADD COLUMN confirmed_confidence REAL;
+ALTER TABLE user_patterns ADD COLUMN confirmed_at TEXT;
+
+ALTER TABLE journal_patterns ADD COLUMN sample_size INTEGER;
+ALTER TABLE journal_patterns ADD COLUMN evidence TEXT;
+ALTER TABLE journal_patterns ADD COLUMN confirmed_confidence REAL;
+ALTER TABLE journal_patterns ADD COLUMN confirmed_at TEXT;
+
+-- Rows written before this migration were inserted without an id, so updates by id never matched
+UPDATE user_patterns SET id = lower(hex(randomblob(16))) WHERE id IS NULL;
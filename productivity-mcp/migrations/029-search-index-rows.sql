@@ -0,0 +1,243 @@
+-- Migration: Search index row map
+-- Date: 2026-10-19
+-- Purpose: entity_type and entity_id are UNINDEXED columns of the FTS5 table, so the
+-- sync triggers' DELETE ... WHERE entity_type = ? AND entity_id = ? scanned the whole
+-- index on every write. search_index_rows maps each entity to its FTS rowid; the
+-- triggers are recreated to write the FTS row under that rowid and delete by it.
+
+CREATE TABLE IF NOT EXISTS search_index_rows (
+  id INTEGER PRIMARY KEY,             -- rowid of the entity's search_index row
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  UNIQUE(entity_type, entity_id)
+);
+
+-- Map what's already indexed (one full scan, here instead of on every write)
+DELETE FROM search_index_rows;
+INSERT OR IGNORE INTO search_index_rows (id, entity_type, entity_id)
+SELECT rowid, entity_type, entity_id FROM search_index;
+
+-- ==================
+-- TASKS (trashed tasks drop out of the index; restore puts them back)
+-- ==================
+
+DROP TRIGGER IF EXISTS search_tasks_ai;
+DROP TRIGGER IF EXISTS search_tasks_au;
+DROP TRIGGER IF EXISTS search_tasks_ad;
+
+CREATE TRIGGER search_tasks_ai AFTER INSERT ON tasks WHEN new.status != 'deleted' BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('task', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.text, TRIM(COALESCE(new.notes, '') || ' ' || COALESCE(new.category, '') || ' ' || COALESCE(new.project, '')), 'task', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'task' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_tasks_au AFTER UPDATE OF text, notes, category, project, status, user_id ON tasks BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'task' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('task', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.text, TRIM(COALESCE(new.notes, '') || ' ' || COALESCE(new.category, '') || ' ' || COALESCE(new.project, '')), 'task', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'task' AND r.entity_id = new.id
+  AND new.status != 'deleted';
+END;
+
+CREATE TRIGGER search_tasks_ad AFTER DELETE ON tasks BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'task' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'task' AND entity_id = old.id;
+END;
+
+-- ==================
+-- NOTES
+-- ==================
+
+DROP TRIGGER IF EXISTS search_notes_ai;
+DROP TRIGGER IF EXISTS search_notes_au;
+DROP TRIGGER IF EXISTS search_notes_ad;
+
+CREATE TRIGGER search_notes_ai AFTER INSERT ON notes BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('note', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.title, COALESCE(new.content, ''), 'note', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'note' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_notes_au AFTER UPDATE OF title, content ON notes BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'note' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('note', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.title, COALESCE(new.content, ''), 'note', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'note' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_notes_ad AFTER DELETE ON notes BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'note' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'note' AND entity_id = old.id;
+END;
+
+-- ==================
+-- INCUBATION IDEAS
+-- ==================
+
+DROP TRIGGER IF EXISTS search_incubation_ai;
+DROP TRIGGER IF EXISTS search_incubation_au;
+DROP TRIGGER IF EXISTS search_incubation_ad;
+
+CREATE TRIGGER search_incubation_ai AFTER INSERT ON incubation BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('idea', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.title, COALESCE(new.content, ''), 'idea', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'idea' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_incubation_au AFTER UPDATE OF title, content ON incubation BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'idea' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('idea', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.title, COALESCE(new.content, ''), 'idea', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'idea' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_incubation_ad AFTER DELETE ON incubation BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'idea' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'idea' AND entity_id = old.id;
+END;
+
+-- ==================
+-- CHECK-INS
+-- ==================
+
+DROP TRIGGER IF EXISTS search_check_ins_ai;
+DROP TRIGGER IF EXISTS search_check_ins_au;
+DROP TRIGGER IF EXISTS search_check_ins_ad;
+
+CREATE TRIGGER search_check_ins_ai AFTER INSERT ON check_ins BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('check_in', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, COALESCE(new.project_name, ''), new.thread_summary || ' ' || new.full_recap, 'check_in', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'check_in' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_check_ins_au AFTER UPDATE OF project_name, thread_summary, full_recap ON check_ins BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'check_in' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('check_in', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, COALESCE(new.project_name, ''), new.thread_summary || ' ' || new.full_recap, 'check_in', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'check_in' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_check_ins_ad AFTER DELETE ON check_ins BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'check_in' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'check_in' AND entity_id = old.id;
+END;
+
+-- ==================
+-- WORK LOGS
+-- ==================
+
+DROP TRIGGER IF EXISTS search_work_logs_ai;
+DROP TRIGGER IF EXISTS search_work_logs_au;
+DROP TRIGGER IF EXISTS search_work_logs_ad;
+
+CREATE TRIGGER search_work_logs_ai AFTER INSERT ON work_logs BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('work_log', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, '', new.narrative || ' ' || COALESCE(new.shipped, ''), 'work_log', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'work_log' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_work_logs_au AFTER UPDATE OF narrative, shipped ON work_logs BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'work_log' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('work_log', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, '', new.narrative || ' ' || COALESCE(new.shipped, ''), 'work_log', new.id, new.user_id, new.created_at
+  FROM search_index_rows r WHERE r.entity_type = 'work_log' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_work_logs_ad AFTER DELETE ON work_logs BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'work_log' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'work_log' AND entity_id = old.id;
+END;
+
+-- ==================
+-- JOURNAL ENTRIES
+-- ==================
+
+DROP TRIGGER IF EXISTS search_journal_ai;
+DROP TRIGGER IF EXISTS search_journal_au;
+DROP TRIGGER IF EXISTS search_journal_ad;
+
+CREATE TRIGGER search_journal_ai AFTER INSERT ON journal_entries BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('journal', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, COALESCE(new.title, ''), TRIM(new.raw_content || ' ' || COALESCE(new.refined_content, '') || ' ' || COALESCE(new.mood, '')), 'journal', new.id, new.user_id, new.entry_date
+  FROM search_index_rows r WHERE r.entity_type = 'journal' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_journal_au AFTER UPDATE OF title, raw_content, refined_content, mood ON journal_entries BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'journal' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('journal', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, COALESCE(new.title, ''), TRIM(new.raw_content || ' ' || COALESCE(new.refined_content, '') || ' ' || COALESCE(new.mood, '')), 'journal', new.id, new.user_id, new.entry_date
+  FROM search_index_rows r WHERE r.entity_type = 'journal' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_journal_ad AFTER DELETE ON journal_entries BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'journal' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'journal' AND entity_id = old.id;
+END;
+
+-- ==================
+-- SKILLS (shared)
+-- ==================
+
+DROP TRIGGER IF EXISTS search_skills_ai;
+DROP TRIGGER IF EXISTS search_skills_au;
+DROP TRIGGER IF EXISTS search_skills_ad;
+
+CREATE TRIGGER search_skills_ai AFTER INSERT ON skills BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('skill', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'skill', new.id, NULL, new.updated_at
+  FROM search_index_rows r WHERE r.entity_type = 'skill' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_skills_au AFTER UPDATE OF name, description, content ON skills BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'skill' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('skill', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'skill', new.id, NULL, new.updated_at
+  FROM search_index_rows r WHERE r.entity_type = 'skill' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_skills_ad AFTER DELETE ON skills BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'skill' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'skill' AND entity_id = old.id;
+END;
+
+-- ==================
+-- LAUNCH DOCS (shared)
+-- ==================
+
+DROP TRIGGER IF EXISTS search_launch_docs_ai;
+DROP TRIGGER IF EXISTS search_launch_docs_au;
+DROP TRIGGER IF EXISTS search_launch_docs_ad;
+
+CREATE TRIGGER search_launch_docs_ai AFTER INSERT ON launch_docs BEGIN
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('launch_doc', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'launch_doc', new.id, NULL, new.updated_at
+  FROM search_index_rows r WHERE r.entity_type = 'launch_doc' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_launch_docs_au AFTER UPDATE OF name, description, content ON launch_docs BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'launch_doc' AND entity_id = old.id);
+  INSERT OR IGNORE INTO search_index_rows (entity_type, entity_id) VALUES ('launch_doc', new.id);
+  INSERT INTO search_index (rowid, title, body, entity_type, entity_id, user_id, occurred_at)
+  SELECT r.id, new.name, TRIM(COALESCE(new.description, '') || ' ' || new.content), 'launch_doc', new.id, NULL, new.updated_at
+  FROM search_index_rows r WHERE r.entity_type = 'launch_doc' AND r.entity_id = new.id;
+END;
+
+CREATE TRIGGER search_launch_docs_ad AFTER DELETE ON launch_docs BEGIN
+  DELETE FROM search_index WHERE rowid = (SELECT id FROM search_index_rows WHERE entity_type = 'launch_doc' AND entity_id = old.id);
+  DELETE FROM search_index_rows WHERE entity_type = 'launch_doc' AND entity_id = old.id;
+END;
@@ -1,5 +1,38 @@
 // api-routes.ts - REST API endpoints for the Productivity Dashboard
 
+import { parseDateInput, DATE_INPUT_HINT, getNextDueDate } from './helpers/utils';
+import { isRecurrenceDueOn, remainingRecurrence, pinAnchorDay } from './helpers/recurrence';
+import { getUserClock, getUserTimezone, setUserTimezone, isValidTimezone, daysBetween, shiftDate, dayOfWeekOf } from './helpers/datetime';
+import { getOpenBlockers, getDependencyEdges, wouldCreateCycle, findUnblockedBy } from './helpers/dependencies';
+import { BULK_ACTIONS, MAX_BULK_TASKS, findBulkTargets, resolveBulkValue, applyBulkAction, type BulkAction } from './helpers/bulk';
+import { getTaskTagMap, tagFilterClause, tagTask, setTaskTags, listTags } from './helpers/tags';
+import { trashTask, restoreTask, listTrash, getTrashRetentionDays, setTrashRetentionDays } from './helpers/trash';
+import { getActualMinutesByTask, getDailyCapacity, setDailyCapacity } from './helpers/planning';
+import { SEARCH_TYPES, searchEverything, type SearchType } from './helpers/search';
+import { getOpenTimer, startTimer, pauseTimer, stopTimer, stopTaskTimers, timerToJson } from './helpers/timers';
+import {
+  getSubtaskProgress, nestTasks, handleSubtaskCompleted, countSubtasks, trashSubtasks, restoreSubtasks, reparentSubtasks,
+  getAutoCompleteParents, setAutoCompleteParents, type TaskTreeNode,
+} from './helpers/subtasks';
+import { findSimilarTasks } from './helpers/duplicates';
+import { getPatternSettings, setPatternSettings, patternSettingsToJson, type PatternSettings } from './helpers/patterns';
+import { DEFAULT_FORECAST_HISTORY_DAYS, SUMMARY_FORECAST_TRIALS, forecastCompletion, forecastToJson } from './helpers/forecast';
+import { getSprintBurndown, getVelocityHistory, burndownToJson, endSprint, saveRetroNotes, listRetros } from './helpers/sprints';
+import { getFeedByToken, buildCalendar, createCalendarFeed, listCalendarFeeds, revokeCalendarFeed, calendarFeedUrl } from './helpers/calendar';
+import { getCurrentSession, getSessionBreaks, startBreak, endBreak, sessionToJson } from './helpers/work-sessions';
+import {
+  BILLING_MATCH_TYPES, TIMESHEET_GROUPS, TIMESHEET_PERIODS, TIMESHEET_FORMATS,
+  resolveTimesheetRange, buildTimesheet, formatTimesheet, timesheetFilename, timesheetToJson,
+  listBillingRates, setBillingRate, removeBillingRate,
+  type BillingMatchType, type TimesheetGroupBy, type TimesheetPeriod, type TimesheetFormat,
+} from './helpers/timesheets';
+import {
+  DIGEST_TYPES, DIGEST_SECTIONS, DIGEST_WEEKDAYS,
+  getDigestSettings, updateDigestSettings, isValidDigestAddress, digestSettingsToJson, listDigestSends,
+  buildDigest, renderDigestHtml, renderDigestText, sendDigest,
+  type DigestType, type DigestSettings,
+} from './helpers/digests';
+
 interface Env {
   DB: D1Database;
   USER_ID: string;
@@ -90,10 +123,9 @@ export function createApiRoutes(env: Env) {
         
         // GET /api/tasks/stats - Dashboard statistics
         if (path === '/tasks/stats' && method === 'GET') {
-          const today = new Date().toISOString().split('T')[0];
-          const startOfWeek = new Date();
-          startOfWeek.setDate(startOfWeek.getDate() - startOfWeek.getDay());
-          const weekStart = startOfWeek.toISOString().split('T')[0];
+          const clock = await getUserClock(env, userId);
+          const today = clock.today;
+          const weekStart = clock.daysAgo(clock.dayOfWeek);
           
           const openResult = await db.prepare(
             `SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'open'`
@@ -104,16 +136,16 @@ export function createApiRoutes(env: Env) {
           ).bind(userId).first() as any;
           
           const doneTodayResult = await db.prepare(
-            `SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'done' AND date(completed_at) = ?`
-          ).bind(userId, today).first() as any;
+            `SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ?`
+          ).bind(userId, clock.startOf(today)).first() as any;
           
           const doneWeekResult = await db.prepare(
-            `SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'done' AND date(completed_at) >= ?`
-          ).bind(userId, weekStart).first() as any;
+            `SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ?`
+          ).bind(userId, clock.startOf(weekStart)).first() as any;
           
           const overdueResult = await db.prepare(
-            `SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'open' AND due_date < date('now')`
-          ).bind(userId).first() as any;
+            `SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'open' AND due_date < ?`
+          ).bind(userId, today).first() as any;
           
           return jsonResponse({
             open_count: openResult?.count || 0,
@@ -160,22 +192,21 @@ export function createApiRoutes(env: Env) {
             });
           }
           
-          const now = new Date();
-          const endDate = new Date(sprint.end_date);
-          const daysRemaining = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+          const clock = await getUserClock(env, userId);
+          const { today } = clock;
+          const daysRemaining = daysBetween(today, sprint.end_date);
           
           let workDays = 0;
-          const tempDate = new Date(now);
-          while (tempDate <= endDate) {
-            const dow = tempDate.getDay();
+          for (let d = today; d <= sprint.end_date; d = shiftDate(d, 1)) {
+            const dow = dayOfWeekOf(d);
             if (dow !== 0 && dow !== 6) workDays++;
-            tempDate.setDate(tempDate.getDate() + 1);
           }
           
           const totalOpen = objectivesWithCounts.reduce((sum, o) => sum + o.open_tasks, 0);
           const totalDone = objectivesWithCounts.reduce((sum, o) => sum + o.done_tasks, 0);
           const totalTasks = totalOpen + totalDone;
           const progress = totalTasks > 0 ? Math.round((totalDone / totalTasks) * 100) : 0;
+          const forecast = await forecastCompletion(env, userId, clock, { sprintId: sprint.id }, { trials: SUMMARY_FORECAST_TRIALS });
           
           return jsonResponse({
             sprint: {
@@ -185,43 +216,58 @@ export function createApiRoutes(env: Env) {
               progress,
               total_tasks: totalTasks,
               done_tasks: totalDone,
-              objectives: objectivesWithCounts
+              objectives: objectivesWithCounts,
+              forecast: 'error' in forecast ? null : forecastToJson(forecast)
             }
           });
         }
 
+        // ==================== FORECAST ====================
+
+        // GET /api/forecast?project=&category=&sprint_id=&launch_id=&target_date=&history_days= - Monte Carlo completion dates
+        if (path === '/forecast' && method === 'GET') {
+          const clock = await getUserClock(env, userId);
+          const params = url.searchParams;
+          const historyDays = params.has('history_days') ? parseInt(params.get('history_days') || '') : DEFAULT_FORECAST_HISTORY_DAYS;
+          if (!Number.isInteger(historyDays) || historyDays < 14 || historyDays > 180) {
+            return jsonResponse({ error: 'history_days must be a whole number from 14 to 180' }, 400);
+          }
+
+          let targetDate: string | undefined;
+          if (params.get('target_date')) {
+            const parsed = parseDateInput(params.get('target_date')!, clock.timeZone);
+            if (!parsed) return jsonResponse({ error: `Couldn't understand target_date. ${DATE_INPUT_HINT}` }, 400);
+            targetDate = parsed;
+          }
+
+          const forecast = await forecastCompletion(env, userId, clock, {
+            project: params.get('project') || undefined,
+            category: params.get('category') || undefined,
+            sprintId: params.get('sprint_id') || undefined,
+            launchId: params.get('launch_id') || undefined,
+          }, { historyDays, targetDate });
+          if ('error' in forecast) {
+            return jsonResponse({ error: forecast.error }, forecast.error.endsWith('not found') ? 404 : 409);
+          }
+          return jsonResponse({ forecast: forecastToJson(forecast) });
+        }
+
         // ==================== ROUTINES/TODAY (NEW) ====================
         
         // GET /api/routines/today - Today's recurring tasks
         if (path === '/routines/today' && method === 'GET') {
-          const today = new Date();
-          const dayOfWeek = today.getDay();
-          const dayNames = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
-          const todayName = dayNames[dayOfWeek];
-          const isWeekday = dayOfWeek !== 0 && dayOfWeek !== 6;
-          const todayStr = today.toISOString().split('T')[0];
+          const { today: todayStr } = await getUserClock(env, userId);
           
           const routines = await db.prepare(`
             SELECT * FROM tasks 
             WHERE user_id = ? AND status = 'open' AND recurrence IS NOT NULL
-            AND (snoozed_until IS NULL OR snoozed_until <= date('now'))
+            AND (snoozed_until IS NULL OR snoozed_until <= ?)
             ORDER BY priority DESC, text ASC
-          `).bind(userId).all();
+          `).bind(userId, todayStr).all();
           
-          const todayRoutines = (routines.results || []).filter((task: any) => {
-            const rec = task.recurrence?.toLowerCase() || '';
-            if (rec === 'daily') return true;
-            if (rec === 'weekdays' && isWeekday) return true;
-            if (rec === 'weekly' || rec === 'biweekly' || rec === 'monthly' || rec === 'yearly') {
-              if (!task.due_date) return true;
-              return task.due_date === todayStr;
-            }
-            if (rec.includes(',') || dayNames.some(d => rec === d)) {
-              const days = rec.split(',').map((d: string) => d.trim().toLowerCase());
-              return days.includes(todayName);
-            }
-            return false;
-          });
+          const todayRoutines = (routines.results || []).filter((task: any) =>
+            isRecurrenceDueOn(task.recurrence, todayStr, task.due_date)
+          );
           
           return jsonResponse({ routines: todayRoutines });
         }
@@ -231,9 +277,8 @@ export function createApiRoutes(env: Env) {
         // GET /api/upcoming - Tasks due in next N days
         if (path === '/upcoming' && method === 'GET') {
           const days = parseInt(url.searchParams.get('days') || '7');
-          const futureDate = new Date();
-          futureDate.setDate(futureDate.getDate() + days);
-          const futureDateStr = futureDate.toISOString().split('T')[0];
+          const clock = await getUserClock(env, userId);
+          const futureDateStr = clock.daysFromNow(days);
           
           const upcoming = await db.prepare(`
             SELECT t.*, o.statement as objective_statement
@@ -243,10 +288,10 @@ export function createApiRoutes(env: Env) {
               AND t.status = 'open' 
               AND t.due_date IS NOT NULL 
               AND t.due_date <= ?
-              AND t.due_date >= date('now')
-              AND (t.snoozed_until IS NULL OR t.snoozed_until <= date('now'))
+              AND t.due_date >= ?
+              AND (t.snoozed_until IS NULL OR t.snoozed_until <= ?)
             ORDER BY t.due_date ASC, t.priority DESC
-          `).bind(userId, futureDateStr).all();
+          `).bind(userId, futureDateStr, clock.today, clock.today).all();
           
           return jsonResponse({ tasks: upcoming.results || [] });
         }
@@ -259,6 +304,10 @@ export function createApiRoutes(env: Env) {
           const category = url.searchParams.get('category');
           const activeOnly = url.searchParams.get('active_only') === 'true';
           const includeSnoozed = url.searchParams.get('include_snoozed') === 'true';
+          const hideBlocked = url.searchParams.get('hide_blocked') === 'true';
+          const tags = url.searchParams.get('tags');
+          const matchAllTags = url.searchParams.get('tag_mode') === 'all';
+          const asTree = url.searchParams.get('tree') === 'true';
           
           let query = `
             SELECT t.*, o.statement as objective_statement 
@@ -271,6 +320,8 @@ export function createApiRoutes(env: Env) {
           if (status !== 'all') {
             query += ` AND t.status = ?`;
             params.push(status);
+          } else {
+            query += ` AND t.status != 'deleted'`;
           }
           
           if (category) {
@@ -283,13 +334,81 @@ export function createApiRoutes(env: Env) {
           }
           
           if (!includeSnoozed) {
-            query += ` AND (t.snoozed_until IS NULL OR t.snoozed_until <= date('now'))`;
+            query += ` AND (t.snoozed_until IS NULL OR t.snoozed_until <= ?)`;
+            params.push((await getUserClock(env, userId)).today);
+          }
+          
+          if (tags) {
+            const tagFilter = tagFilterClause(userId, tags.split(','), matchAllTags);
+            query += tagFilter.sql;
+            params.push(...tagFilter.bindings);
           }
           
           query += ` ORDER BY t.priority DESC, t.due_date ASC NULLS LAST, t.created_at ASC`;
           
           const tasks = await db.prepare(query).bind(...params).all();
-          return jsonResponse({ tasks: tasks.results || [] });
+          const blockers = await getOpenBlockers(env, userId);
+          const tagMap = await getTaskTagMap(env, userId);
+          const actuals = await getActualMinutesByTask(env, userId);
+          const progress = await getSubtaskProgress(env, userId);
+          const withBlockers = (tasks.results || []).map((t: any) => {
+            const blockedBy = t.status === 'open' ? blockers.get(t.id) || [] : [];
+            return {
+              ...t, tags: tagMap.get(t.id) || [], actual_minutes: actuals.get(t.id) || 0, blocked_by: blockedBy, is_blocked: blockedBy.length > 0,
+              subtask_progress: progress.get(t.id) || null,
+            };
+          }).filter((t: any) => !hideBlocked || !t.is_blocked);
+          
+          // ?tree=true nests subtasks under their parent (when the parent is in the result too)
+          if (asTree) {
+            const toJson = (node: TaskTreeNode): any => ({ ...node.task, subtasks: node.children.map(toJson) });
+            return jsonResponse({ tasks: nestTasks(withBlockers).map(toJson) });
+          }
+          return jsonResponse({ tasks: withBlockers });
+        }
+
+        // ==================== TASK DEPENDENCIES ====================
+
+        // GET /api/tasks/dependencies - Full "blocked by" graph for the dashboard
+        if (path === '/tasks/dependencies' && method === 'GET') {
+          const edges = await getDependencyEdges(env, userId);
+          return jsonResponse({ dependencies: edges });
+        }
+
+        // POST /api/tasks/:id/dependencies - Mark a task as blocked by another
+        const addDependencyMatch = path.match(/^\/tasks\/([^/]+)\/dependencies$/);
+        if (addDependencyMatch && method === 'POST') {
+          const taskId = addDependencyMatch[1];
+          const body = await request.json() as any;
+          const blockedById = body.blocked_by_task_id || body.blockedBy;
+
+          if (!blockedById) return jsonResponse({ error: 'blocked_by_task_id required' }, 400);
+
+          const task = await db.prepare('SELECT id FROM tasks WHERE id = ? AND user_id = ?').bind(taskId, userId).first();
+          if (!task) return jsonResponse({ error: 'Task not found' }, 404);
+          const blocker = await db.prepare('SELECT id FROM tasks WHERE id = ? AND user_id = ?').bind(blockedById, userId).first();
+          if (!blocker) return jsonResponse({ error: 'Blocking task not found' }, 404);
+
+          if (await wouldCreateCycle(env, taskId, blockedById)) {
+            return jsonResponse({ error: 'Dependency would create a cycle' }, 400);
+          }
+
+          await db.prepare(`
+            INSERT OR IGNORE INTO task_dependencies (id, user_id, task_id, blocked_by_task_id, created_at)
+            VALUES (?, ?, ?, ?, ?)
+          `).bind(crypto.randomUUID(), userId, taskId, blockedById, new Date().toISOString()).run();
+
+          return jsonResponse({ success: true, message: 'Dependency added' });
+        }
+
+        // DELETE /api/tasks/:id/dependencies/:blockerId
+        const removeDependencyMatch = path.match(/^\/tasks\/([^/]+)\/dependencies\/([^/]+)$/);
+        if (removeDependencyMatch && method === 'DELETE') {
+          const [, taskId, blockedById] = removeDependencyMatch;
+          await db.prepare(
+            'DELETE FROM task_dependencies WHERE task_id = ? AND blocked_by_task_id = ? AND user_id = ?'
+          ).bind(taskId, blockedById, userId).run();
+          return jsonResponse({ success: true, message: 'Dependency removed' });
         }
 
         // ==================== ENHANCED COMPLETE TASK ====================
@@ -302,95 +421,159 @@ export function createApiRoutes(env: Env) {
             'SELECT * FROM tasks WHERE id = ? AND user_id = ?'
           ).bind(taskId, userId).first() as any;
           
-          if (!task) return jsonResponse({ error: 'Task not found' }, 404);
+          if (!task || task.status === 'deleted') return jsonResponse({ error: 'Task not found' }, 404);
+          if (task.status === 'done') return jsonResponse({ error: 'Task is already done' }, 409);
           
           const completedAt = new Date().toISOString();
+          await stopTaskTimers(env, taskId);
           
-          // Handle recurring tasks
+          // Handle recurring tasks - roll the same task forward unless the series is over
           if (task.recurrence) {
-            let nextDate = new Date();
-            const recurrence = task.recurrence.toLowerCase();
+            const { today: todayStr } = await getUserClock(env, userId);
+            const nextDate = getNextDueDate(task.due_date, task.recurrence, todayStr);
+            const nextRecurrence = remainingRecurrence(task.due_date ? pinAnchorDay(task.recurrence, task.due_date) : task.recurrence);
             
-            if (recurrence === 'daily') {
-              nextDate.setDate(nextDate.getDate() + 1);
-            } else if (recurrence === 'weekdays') {
-              do {
-                nextDate.setDate(nextDate.getDate() + 1);
-              } while (nextDate.getDay() === 0 || nextDate.getDay() === 6);
-            } else if (recurrence === 'weekly') {
-              nextDate.setDate(nextDate.getDate() + 7);
-            } else if (recurrence === 'biweekly') {
-              nextDate.setDate(nextDate.getDate() + 14);
-            } else if (recurrence === 'monthly') {
-              nextDate.setMonth(nextDate.getMonth() + 1);
-            } else if (recurrence === 'yearly') {
-              nextDate.setFullYear(nextDate.getFullYear() + 1);
-            } else if (recurrence.includes(',')) {
-              const days = recurrence.split(',').map((d: string) => d.trim().toLowerCase());
-              const dayMap: Record<string, number> = { sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6 };
-              const targetDays = days.map((d: string) => dayMap[d]).filter((d: number) => d !== undefined);
+            if (nextDate && nextRecurrence) {
+              await db.prepare(`
+                UPDATE tasks SET due_date = ?, recurrence = ?, last_touched = ? WHERE id = ? AND user_id = ?
+              `).bind(nextDate, nextRecurrence, completedAt, taskId, userId).run();
               
-              if (targetDays.length > 0) {
-                do {
-                  nextDate.setDate(nextDate.getDate() + 1);
-                } while (!targetDays.includes(nextDate.getDay()));
-              }
+              try {
+                await db.prepare(`
+                  INSERT INTO task_events (id, user_id, task_id, event_type, event_data, created_at)
+                  VALUES (?, ?, ?, 'recurring_completed', ?, ?)
+                `).bind(crypto.randomUUID(), userId, taskId, JSON.stringify({ next_date: nextDate }), completedAt).run();
+              } catch (e) { /* ignore */ }
+              
+              return jsonResponse({ 
+                success: true, 
+                recurring: true,
+                next_date: nextDate,
+                message: 'Recurring task reset to next occurrence' 
+              });
             }
-            
-            await db.prepare(`
-              UPDATE tasks SET due_date = ?, last_touched = ? WHERE id = ? AND user_id = ?
-            `).bind(nextDate.toISOString().split('T')[0], completedAt, taskId, userId).run();
-            
-            try {
-              await db.prepare(`
-                INSERT INTO task_events (id, user_id, task_id, event_type, event_data, created_at)
-                VALUES (?, ?, ?, 'recurring_completed', ?, ?)
-              `).bind(crypto.randomUUID(), userId, taskId, JSON.stringify({ next_date: nextDate.toISOString().split('T')[0] }), completedAt).run();
-            } catch (e) { /* ignore */ }
-            
-            return jsonResponse({ 
-              success: true, 
-              recurring: true,
-              next_date: nextDate.toISOString().split('T')[0],
-              message: 'Recurring task reset to next occurrence' 
-            });
           }
           
           await db.prepare(`
             UPDATE tasks SET status = 'done', completed_at = ?, is_active = 0 WHERE id = ? AND user_id = ?
           `).bind(completedAt, taskId, userId).run();
           
-          return jsonResponse({ success: true, recurring: false, message: 'Task completed' });
+          const unblocked = await findUnblockedBy(env, taskId);
+          const rollup = await handleSubtaskCompleted(env, userId, task);
+          
+          return jsonResponse({
+            success: true,
+            recurring: false,
+            unblocked: unblocked.map((t: any) => ({ id: t.id, text: t.text })),
+            parents_completed: rollup.completed.map((t: any) => ({ id: t.id, text: t.text })),
+            parent_ready: rollup.ready ? { id: rollup.ready.id, text: rollup.ready.text } : null,
+            message: 'Task completed'
+          });
         }
 
         // ==================== CREATE TASK ====================
         
         if (path === '/tasks' && method === 'POST') {
           const body = await request.json() as any;
-          const { text, category, priority, due_date, dueDate, project, notes, is_active } = body;
+          const { text, category, priority, due_date, dueDate, project, notes, is_active, tags, estimated_minutes } = body;
           
           if (!text?.trim()) {
             return jsonResponse({ error: 'text is required' }, 400);
           }
+          if (estimated_minutes != null && !(Number.isInteger(estimated_minutes) && estimated_minutes > 0)) {
+            return jsonResponse({ error: 'estimated_minutes must be a positive whole number' }, 400);
+          }
+          
+          const dueInput = due_date || dueDate;
+          const timeZone = await getUserTimezone(env, userId);
+          const resolvedDue = dueInput ? parseDateInput(String(dueInput), timeZone) : null;
+          if (dueInput && !resolvedDue) {
+            return jsonResponse({ error: `Unrecognized due_date "${dueInput}". ${DATE_INPUT_HINT}` }, 400);
+          }
           
           const id = crypto.randomUUID();
           const now = new Date().toISOString();
           
           await db.prepare(`
-            INSERT INTO tasks (id, user_id, text, category, priority, due_date, project, notes, is_active, status, created_at, last_touched) 
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)
+            INSERT INTO tasks (id, user_id, text, category, priority, due_date, project, notes, is_active, estimated_minutes, status, created_at, last_touched) 
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'open', ?, ?)
           `).bind(
             id, userId, text.trim(), 
             category || 'General', 
             priority || 3, 
-            due_date || dueDate || null,
+            resolvedDue,
             project || null,
             notes || null,
             is_active ? 1 : 0,
+            estimated_minutes || null,
             now, now
           ).run();
           
-          return jsonResponse({ success: true, id, message: 'Task created' });
+          const tagNames = [...(Array.isArray(tags) ? tags : []), ...(category ? [category] : [])];
+          const addedTags = tagNames.length > 0 ? await tagTask(env, userId, id, tagNames) : [];
+          
+          return jsonResponse({ success: true, id, due_date: resolvedDue, tags: addedTags, message: 'Task created' });
+        }
+
+        // ==================== BULK UPDATE ====================
+        
+        // POST /api/tasks/bulk - { filter, action, value, dry_run } (dry_run defaults to true)
+        if (path === '/tasks/bulk' && method === 'POST') {
+          const body = await request.json() as any;
+          const action = body.action as BulkAction;
+          if (!BULK_ACTIONS.includes(action)) {
+            return jsonResponse({ error: `action must be one of: ${BULK_ACTIONS.join(', ')}` }, 400);
+          }
+          
+          const clock = await getUserClock(env, userId);
+          const teammates = (env.TEAM || 'micaiah,irene').split(',').map(t => t.trim()).filter(t => t !== userId);
+          const resolved = resolveBulkValue(action, body.value, clock, teammates);
+          if ('error' in resolved) return jsonResponse({ error: resolved.error }, 400);
+          
+          const found = await findBulkTargets(env, userId, body.filter || {}, clock);
+          if ('error' in found) return jsonResponse({ error: found.error }, 400);
+          
+          const matched = found.tasks.map((t: any) => ({ id: t.id, text: t.text, category: t.category, priority: t.priority, due_date: t.due_date }));
+          if (body.dry_run !== false) {
+            return jsonResponse({ dry_run: true, action, value: resolved.value, matched: matched.length, max_tasks: MAX_BULK_TASKS, tasks: matched });
+          }
+          if (matched.length > MAX_BULK_TASKS) {
+            return jsonResponse({ error: `${matched.length} tasks match - one run can change at most ${MAX_BULK_TASKS}. Narrow the filter.` }, 400);
+          }
+          
+          const changed = await applyBulkAction(env, userId, found.tasks, action, resolved.value);
+          return jsonResponse({ success: true, action, value: resolved.value, matched: matched.length, changed });
+        }
+
+        // ==================== TAGS ====================
+        
+        // GET /api/tags - Tags with open/total task counts
+        if (path === '/tags' && method === 'GET') {
+          return jsonResponse({ tags: await listTags(env, userId) });
+        }
+
+        // ==================== SEARCH ====================
+        
+        // GET /api/search?q=launch&types=task,note&since=2026-01-01&until=today&limit=20
+        if (path === '/search' && method === 'GET') {
+          const q = url.searchParams.get('q') || '';
+          const typesParam = url.searchParams.get('types');
+          const types = typesParam ? typesParam.split(',').map(t => t.trim()).filter(Boolean) : undefined;
+          const unknown = (types || []).filter(t => !SEARCH_TYPES.includes(t as SearchType));
+          if (unknown.length > 0) {
+            return jsonResponse({ error: `Unknown type(s): ${unknown.join(', ')}. Use: ${SEARCH_TYPES.join(', ')}` }, 400);
+          }
+          
+          const limit = Math.min(Math.max(Number(url.searchParams.get('limit')) || 20, 1), 100);
+          const timeZone = await getUserTimezone(env, userId);
+          const found = await searchEverything(env, userId, q, timeZone, {
+            types: types as SearchType[] | undefined,
+            since: url.searchParams.get('since') || undefined,
+            until: url.searchParams.get('until') || undefined,
+            limit,
+          });
+          if ('error' in found) return jsonResponse({ error: found.error }, 400);
+          return jsonResponse({ query: q, results: found.results });
         }
 
         // ==================== TASK ACTIONS ====================
@@ -400,7 +583,16 @@ export function createApiRoutes(env: Env) {
         if (updateTaskMatch && method === 'PUT') {
           const taskId = updateTaskMatch[1];
           const body = await request.json() as any;
-          const { text, category, priority, due_date, project, notes, is_active } = body;
+          const { text, category, priority, due_date, project, notes, is_active, tags, estimated_minutes } = body;
+          
+          const timeZone = await getUserTimezone(env, userId);
+          const resolvedDue = due_date ? parseDateInput(String(due_date), timeZone) : null;
+          if (due_date && !resolvedDue) {
+            return jsonResponse({ error: `Unrecognized due_date "${due_date}". ${DATE_INPUT_HINT}` }, 400);
+          }
+          if (estimated_minutes != null && !(Number.isInteger(estimated_minutes) && estimated_minutes >= 0)) {
+            return jsonResponse({ error: 'estimated_minutes must be a whole number (0 or null clears it)' }, 400);
+          }
           
           const updates: string[] = [];
           const params: any[] = [];
@@ -408,12 +600,19 @@ export function createApiRoutes(env: Env) {
           if (text !== undefined) { updates.push('text = ?'); params.push(text); }
           if (category !== undefined) { updates.push('category = ?'); params.push(category); }
           if (priority !== undefined) { updates.push('priority = ?'); params.push(priority); }
-          if (due_date !== undefined) { updates.push('due_date = ?'); params.push(due_date); }
+          if (due_date !== undefined) { updates.push('due_date = ?'); params.push(resolvedDue); }
           if (project !== undefined) { updates.push('project = ?'); params.push(project); }
           if (notes !== undefined) { updates.push('notes = ?'); params.push(notes); }
           if (is_active !== undefined) { updates.push('is_active = ?'); params.push(is_active ? 1 : 0); }
+          if (estimated_minutes !== undefined) { updates.push('estimated_minutes = ?'); params.push(estimated_minutes || null); }
+          
+          if (Array.isArray(tags)) {
+            const task = await db.prepare('SELECT id FROM tasks WHERE id = ? AND user_id = ?').bind(taskId, userId).first();
+            if (!task) return jsonResponse({ error: 'Task not found' }, 404);
+            await setTaskTags(env, userId, taskId, tags);
+          }
           
-          if (updates.length === 0) {
+          if (updates.length === 0 && !Array.isArray(tags)) {
             return jsonResponse({ error: 'No fields to update' }, 400);
           }
           
@@ -427,12 +626,30 @@ export function createApiRoutes(env: Env) {
           return jsonResponse({ success: true, message: 'Task updated' });
         }
 
-        // DELETE /api/tasks/:id
+        // DELETE /api/tasks/:id?subtasks=cascade|reparent (required when the task has subtasks)
         const deleteTaskMatch = path.match(/^\/tasks\/([^/]+)$/);
         if (deleteTaskMatch && method === 'DELETE') {
           const taskId = deleteTaskMatch[1];
-          await db.prepare('DELETE FROM tasks WHERE id = ? AND user_id = ?').bind(taskId, userId).run();
-          return jsonResponse({ success: true, message: 'Task deleted' });
+          const task = await db.prepare("SELECT * FROM tasks WHERE id = ? AND user_id = ? AND status != 'deleted'").bind(taskId, userId).first();
+          if (!task) return jsonResponse({ error: 'Task not found' }, 404);
+          
+          const mode = url.searchParams.get('subtasks');
+          if (mode && mode !== 'cascade' && mode !== 'reparent') {
+            return jsonResponse({ error: 'subtasks must be "cascade" or "reparent"' }, 400);
+          }
+          const children = await countSubtasks(env, taskId);
+          if (children.total > 0 && !mode) {
+            return jsonResponse({
+              error: 'Task has subtasks - pass ?subtasks=cascade to trash them too or ?subtasks=reparent to move them up a level',
+              subtask_count: children.total,
+              open_subtask_count: children.open,
+            }, 409);
+          }
+          
+          const reparented = children.total > 0 && mode === 'reparent' ? await reparentSubtasks(env, task) : 0;
+          await trashTask(env, userId, task, mode ? { subtasks: mode } : {});
+          const trashed = children.total > 0 && mode === 'cascade' ? await trashSubtasks(env, userId, taskId) : 0;
+          return jsonResponse({ success: true, subtasks_trashed: trashed, subtasks_reparented: reparented, message: 'Task moved to trash' });
         }
 
         // POST /api/tasks/:id/activate
@@ -455,8 +672,24 @@ export function createApiRoutes(env: Env) {
         const restoreMatch = path.match(/^\/tasks\/([^/]+)\/restore$/);
         if (restoreMatch && method === 'POST') {
           const taskId = restoreMatch[1];
+          const task = await db.prepare('SELECT * FROM tasks WHERE id = ? AND user_id = ?').bind(taskId, userId).first();
+          if (!task) return jsonResponse({ error: 'Task not found' }, 404);
+          
+          // Trashed tasks come back in the state they were deleted from; done tasks reopen
+          if (task.status === 'deleted') {
+            const status = await restoreTask(env, userId, task);
+            const subtasksRestored = await restoreSubtasks(env, userId, task);
+            return jsonResponse({ success: true, status, subtasks_restored: subtasksRestored, message: 'Task restored from trash' });
+          }
+          
           await db.prepare(`UPDATE tasks SET status = 'open', completed_at = NULL, last_touched = datetime('now') WHERE id = ? AND user_id = ?`).bind(taskId, userId).run();
-          return jsonResponse({ success: true, message: 'Task restored' });
+          return jsonResponse({ success: true, status: 'open', message: 'Task restored' });
+        }
+
+        // GET /api/trash - Soft-deleted tasks awaiting purge
+        if (path === '/trash' && method === 'GET') {
+          const retentionDays = await getTrashRetentionDays(env, userId);
+          return jsonResponse({ tasks: await listTrash(env, userId), retention_days: retentionDays });
         }
 
         // POST /api/tasks/:id/claim
@@ -585,12 +818,63 @@ export function createApiRoutes(env: Env) {
           const sprintId = endSprintMatch[1];
           const body = await request.json() as any;
           const status = body.status || 'completed';
+          if (status !== 'completed' && status !== 'abandoned') return jsonResponse({ error: "status must be 'completed' or 'abandoned'" }, 400);
+          
+          const sprint = await db.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(sprintId, userId).first();
+          if (!sprint) return jsonResponse({ error: 'Sprint not found' }, 404);
+          if (sprint.status !== 'active') return jsonResponse({ error: `Sprint already ${sprint.status}` }, 400);
+          
+          // carry_over: 'new_sprint' needs next_end_date; anything else returns unfinished tasks to their categories
+          const clock = await getUserClock(env, userId);
+          let nextSprint: { name: string; endDate: string } | undefined;
+          if (body.carry_over === 'new_sprint') {
+            const endDate = body.next_end_date ? parseDateInput(String(body.next_end_date), clock.timeZone) : null;
+            if (!endDate) return jsonResponse({ error: `next_end_date is required for carry_over 'new_sprint'. ${DATE_INPUT_HINT}` }, 400);
+            nextSprint = { name: body.next_sprint_name || `${sprint.name} (continued)`, endDate };
+          }
+          
+          const result = await endSprint(env, userId, sprint, clock, {
+            status,
+            carryOver: nextSprint ? 'new_sprint' : 'return',
+            nextSprint,
+            retro: { wins: body.wins, misses: body.misses, lessons: body.lessons },
+          });
           
-          await db.prepare(`
-            UPDATE sprints SET status = ?, updated_at = datetime('now') WHERE id = ? AND user_id = ?
-          `).bind(status, sprintId, userId).run();
-          
-          return jsonResponse({ success: true, message: `Sprint ${status}` });
+          return jsonResponse({ success: true, message: `Sprint ${status}`, retro_id: result.retroId, stats: result.stats, next_sprint: result.nextSprint });
+        }
+
+        // GET /api/sprints/retros
+        if (path === '/sprints/retros' && method === 'GET') {
+          const retros = await listRetros(env, userId, { sprintId: url.searchParams.get('sprint_id') || undefined, limit: parseInt(url.searchParams.get('limit') || '10') || 10 });
+          return jsonResponse({ retros });
+        }
+
+        // PUT /api/sprints/:id/retro - wins, misses, lessons
+        const retroMatch = path.match(/^\/sprints\/([^/]+)\/retro$/);
+        if (retroMatch && method === 'PUT') {
+          const body = await request.json() as any;
+          const sprint = await db.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(retroMatch[1], userId).first();
+          if (!sprint) return jsonResponse({ error: 'Sprint not found' }, 404);
+          if (sprint.status === 'active') return jsonResponse({ error: 'Sprint is still active' }, 400);
+          const retro = await saveRetroNotes(env, userId, sprint, { wins: body.wins, misses: body.misses, lessons: body.lessons }, await getUserClock(env, userId));
+          return jsonResponse({ success: true, retro });
+        }
+
+        // GET /api/sprints/:id/burndown - daily remaining-task series
+        const burndownMatch = path.match(/^\/sprints\/([^/]+)\/burndown$/);
+        if (burndownMatch && method === 'GET') {
+          const sprint = await db.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(burndownMatch[1], userId).first();
+          if (!sprint) return jsonResponse({ error: 'Sprint not found' }, 404);
+          const burndown = await getSprintBurndown(env, userId, sprint, await getUserClock(env, userId));
+          return jsonResponse(burndownToJson(burndown));
+        }
+
+        // GET /api/sprints/velocity - throughput of recent completed sprints
+        if (path === '/sprints/velocity' && method === 'GET') {
+          const { timeZone } = await getUserClock(env, userId);
+          const count = Math.min(20, Math.max(1, parseInt(url.searchParams.get('count') || '5') || 5));
+          const velocity = await getVelocityHistory(env, userId, timeZone, count);
+          return jsonResponse({ average_per_work_day: velocity.average, sprints: velocity.sprints });
         }
 
         // ==================== ANALYTICS API ====================
@@ -1208,7 +1492,7 @@ export function createApiRoutes(env: Env) {
           
           const id = crypto.randomUUID();
           const now = new Date().toISOString();
-          const entryDate = now.split('T')[0];
+          const { today: entryDate } = await getUserClock(env, userId);
           
           await db.prepare(`
             INSERT INTO journal_entries (id, user_id, entry_date, entry_type, content, mood, energy_level, created_at, updated_at)
@@ -1220,21 +1504,20 @@ export function createApiRoutes(env: Env) {
 
         if (path === '/journal/streak' && method === 'GET') {
           const entries = await db.prepare(`
-            SELECT DISTINCT date(created_at) as entry_date FROM journal_entries 
+            SELECT DISTINCT entry_date FROM journal_entries 
             WHERE user_id = ? ORDER BY entry_date DESC LIMIT 30
           `).bind(userId).all();
           
           let streak = 0;
-          const today = new Date().toISOString().split('T')[0];
-          let checkDate = new Date(today);
+          const { today } = await getUserClock(env, userId);
+          let expectedDate = today;
           
           for (const entry of (entries.results || []) as any[]) {
             const entryDate = entry.entry_date;
-            const expectedDate = checkDate.toISOString().split('T')[0];
             
             if (entryDate === expectedDate) {
               streak++;
-              checkDate.setDate(checkDate.getDate() - 1);
+              expectedDate = shiftDate(expectedDate, -1);
             } else if (entryDate < expectedDate) {
               break;
             }
@@ -1243,24 +1526,332 @@ export function createApiRoutes(env: Env) {
           return jsonResponse({ streak, last_entry: (entries.results?.[0] as any)?.entry_date || null });
         }
 
+        // ==================== SETTINGS ====================
+
+        if (path === '/settings' && method === 'GET') {
+          const clock = await getUserClock(env, userId);
+          const retentionDays = await getTrashRetentionDays(env, userId);
+          const capacity = await getDailyCapacity(env, userId);
+          const autoCompleteParents = await getAutoCompleteParents(env, userId);
+          const patterns = patternSettingsToJson(await getPatternSettings(env, userId));
+          return jsonResponse({ timezone: clock.timeZone, today: clock.today, trash_retention_days: retentionDays, daily_capacity_minutes: capacity, auto_complete_parents: autoCompleteParents, pattern_analysis: patterns });
+        }
+
+        if (path === '/settings' && method === 'PUT') {
+          const body = await request.json() as any;
+
+          if (body.timezone !== undefined) {
+            const timezone = typeof body.timezone === 'string' ? body.timezone.trim() : '';
+            if (!isValidTimezone(timezone)) {
+              return jsonResponse({ error: `Unknown timezone "${body.timezone}". Use an IANA name like 'America/Chicago'.` }, 400);
+            }
+            await setUserTimezone(env, userId, timezone);
+          }
+
+          if (body.trash_retention_days !== undefined) {
+            const days = Number(body.trash_retention_days);
+            if (!Number.isInteger(days) || days < 1) {
+              return jsonResponse({ error: 'trash_retention_days must be a whole number of days (1 or more)' }, 400);
+            }
+            await setTrashRetentionDays(env, userId, days);
+          }
+
+          if (body.daily_capacity_minutes !== undefined) {
+            const minutes = Number(body.daily_capacity_minutes);
+            if (!Number.isInteger(minutes) || minutes < 30 || minutes > 960) {
+              return jsonResponse({ error: 'daily_capacity_minutes must be a whole number from 30 to 960' }, 400);
+            }
+            await setDailyCapacity(env, userId, minutes);
+          }
+
+          if (body.auto_complete_parents !== undefined) {
+            if (typeof body.auto_complete_parents !== 'boolean') {
+              return jsonResponse({ error: 'auto_complete_parents must be true or false' }, 400);
+            }
+            await setAutoCompleteParents(env, userId, body.auto_complete_parents);
+          }
+
+          // pattern_analysis: { window_days?, min_samples?, min_confidence?, half_life_days? }
+          if (body.pattern_analysis !== undefined) {
+            const p = body.pattern_analysis || {};
+            const inRange = (v: any, min: number, max: number, whole = true) => v === undefined || (typeof v === 'number' && (!whole || Number.isInteger(v)) && v >= min && v <= max);
+            if (!inRange(p.window_days, 7, 365) || !inRange(p.min_samples, 2, 100) || !inRange(p.min_confidence, 0.5, 0.99, false) || !inRange(p.half_life_days, 1, 180)) {
+              return jsonResponse({ error: 'pattern_analysis needs window_days 7-365, min_samples 2-100, min_confidence 0.5-0.99 and half_life_days 1-180' }, 400);
+            }
+            const changes: Partial<PatternSettings> = { windowDays: p.window_days, minSamples: p.min_samples, minConfidence: p.min_confidence, halfLifeDays: p.half_life_days };
+            await setPatternSettings(env, userId, changes);
+          }
+
+          const clock = await getUserClock(env, userId);
+          const retentionDays = await getTrashRetentionDays(env, userId);
+          const capacity = await getDailyCapacity(env, userId);
+          const autoCompleteParents = await getAutoCompleteParents(env, userId);
+          const patterns = patternSettingsToJson(await getPatternSettings(env, userId));
+          return jsonResponse({ success: true, timezone: clock.timeZone, today: clock.today, trash_retention_days: retentionDays, daily_capacity_minutes: capacity, auto_complete_parents: autoCompleteParents, pattern_analysis: patterns });
+        }
+
+        // ==================== CALENDAR FEEDS ====================
+
+        // GET /api/calendar/:token.ics - iCalendar subscription (the token is the only auth)
+        const calendarFeedMatch = path.match(/^\/calendar\/([A-Za-z0-9_-]+)\.ics$/);
+        if (calendarFeedMatch && method === 'GET') {
+          const feed = await getFeedByToken(env, calendarFeedMatch[1]);
+          if (!feed) return new Response('Calendar feed not found', { status: 404, headers: corsHeaders });
+
+          const { timeZone } = await getUserClock(env, feed.user_id);
+          const ics = await buildCalendar(env, feed.user_id, { timeZone, tasksAsTodos: url.searchParams.get('tasks') === 'todo' });
+          return new Response(ics, {
+            headers: {
+              'Content-Type': 'text/calendar; charset=utf-8',
+              'Content-Disposition': 'inline; filename="tasks.ics"',
+              'Cache-Control': 'private, max-age=300',
+              ...corsHeaders,
+            },
+          });
+        }
+
+        if (path === '/calendar/feeds' && method === 'GET') {
+          const feeds = await listCalendarFeeds(env, userId, url.searchParams.get('include_revoked') === 'true');
+          return jsonResponse({ feeds: feeds.map(f => ({ ...f, url: calendarFeedUrl(env, f.token) })) });
+        }
+
+        if (path === '/calendar/feeds' && method === 'POST') {
+          const body = await request.json().catch(() => ({})) as any;
+          const feed = await createCalendarFeed(env, userId, typeof body.label === 'string' ? body.label : null);
+          return jsonResponse({ success: true, feed: { ...feed, url: calendarFeedUrl(env, feed.token) } });
+        }
+
+        const revokeFeedMatch = path.match(/^\/calendar\/feeds\/([^/]+)$/);
+        if (revokeFeedMatch && method === 'DELETE') {
+          const result = await revokeCalendarFeed(env, userId, revokeFeedMatch[1]);
+          if ('error' in result) return jsonResponse({ error: result.error }, 404);
+          return jsonResponse({ success: true, feed: result });
+        }
+
         // ==================== WORK SESSIONS ====================
         
+        // GET /api/work-sessions/current - Today's session (or one left open overnight) with breaks and net minutes
         if (path === '/work-sessions/current' && method === 'GET') {
-          const today = new Date().toISOString().split('T')[0];
-          const session = await db.prepare(`
-            SELECT * FROM work_sessions WHERE user_id = ? AND session_date = ? ORDER BY created_at DESC LIMIT 1
-          `).bind(userId, today).first();
+          const { today } = await getUserClock(env, userId);
+          const session = await getCurrentSession(env, userId, today);
+          const timer = await getOpenTimer(env, userId);
           
-          return jsonResponse({ session: session || null });
+          return jsonResponse({
+            session: session ? sessionToJson(session, await getSessionBreaks(env, session.id)) : null,
+            timer: timer ? timerToJson(timer) : null,
+          });
+        }
+        
+        // POST /api/work-sessions/break - { reason? } (pauses a running timer too)
+        if (path === '/work-sessions/break' && method === 'POST') {
+          const body = await request.json().catch(() => ({})) as any;
+          const result = await startBreak(env, userId, await getUserClock(env, userId), typeof body.reason === 'string' ? body.reason : null);
+          if ('error' in result) return jsonResponse({ error: result.error }, 409);
+          return jsonResponse({
+            success: true,
+            session: sessionToJson(result.session, await getSessionBreaks(env, result.session.id)),
+            timer_paused: result.pausedTimer ? timerToJson(result.pausedTimer) : null,
+          });
+        }
+        
+        // POST /api/work-sessions/resume
+        if (path === '/work-sessions/resume' && method === 'POST') {
+          const result = await endBreak(env, userId, await getUserClock(env, userId));
+          if ('error' in result) return jsonResponse({ error: result.error }, 409);
+          return jsonResponse({
+            success: true,
+            break_minutes: result.minutes,
+            session: sessionToJson(result.session, await getSessionBreaks(env, result.session.id)),
+          });
+        }
+
+        // ==================== TIMERS ====================
+        
+        // GET /api/timers/current - The user's running or paused timer, if any
+        if (path === '/timers/current' && method === 'GET') {
+          const timer = await getOpenTimer(env, userId);
+          return jsonResponse({ timer: timer ? timerToJson(timer) : null });
+        }
+        
+        // POST /api/timers/start - { task_id, minutes? } (resumes a paused timer on the same task)
+        if (path === '/timers/start' && method === 'POST') {
+          const body = await request.json() as any;
+          if (!body.task_id) return jsonResponse({ error: 'task_id is required' }, 400);
+          if (body.minutes != null && !(Number.isInteger(body.minutes) && body.minutes > 0)) {
+            return jsonResponse({ error: 'minutes must be a positive whole number' }, 400);
+          }
+          const result = await startTimer(env, userId, body.task_id, body.minutes);
+          if ('error' in result) return jsonResponse({ error: result.error }, 409);
+          return jsonResponse({ success: true, resumed: result.resumed, timer: timerToJson(result.timer) });
+        }
+        
+        // POST /api/timers/pause
+        if (path === '/timers/pause' && method === 'POST') {
+          const result = await pauseTimer(env, userId);
+          if ('error' in result) return jsonResponse({ error: result.error }, 409);
+          return jsonResponse({ success: true, timer: timerToJson(result.timer) });
+        }
+        
+        // POST /api/timers/stop - { description?, discard? }
+        if (path === '/timers/stop' && method === 'POST') {
+          const body = await request.json().catch(() => ({})) as any;
+          const result = await stopTimer(env, userId, body.description, body.discard === true);
+          if ('error' in result) return jsonResponse({ error: result.error }, 409);
+          return jsonResponse({ success: true, minutes_logged: result.minutes, timer: timerToJson(result.timer) });
+        }
+
+        // ==================== TIMESHEETS ====================
+        
+        // GET /api/timesheets?period=|start=&end=&group_by=&client=&billable_only=&include_sessions=&format=csv|markdown
+        if (path === '/timesheets' && method === 'GET') {
+          const params = url.searchParams;
+          const period = params.get('period');
+          const groupBy = params.get('group_by') || 'client';
+          const format = params.get('format');
+          if (period && !TIMESHEET_PERIODS.includes(period as TimesheetPeriod)) {
+            return jsonResponse({ error: 'period must be one of: ' + TIMESHEET_PERIODS.join(', ') }, 400);
+          }
+          if (!TIMESHEET_GROUPS.includes(groupBy as TimesheetGroupBy)) {
+            return jsonResponse({ error: 'group_by must be one of: ' + TIMESHEET_GROUPS.join(', ') }, 400);
+          }
+          if (format && format !== 'json' && !TIMESHEET_FORMATS.includes(format as TimesheetFormat)) {
+            return jsonResponse({ error: 'format must be json, ' + TIMESHEET_FORMATS.join(' or ') }, 400);
+          }
+
+          const clock = await getUserClock(env, userId);
+          const range = resolveTimesheetRange(clock, { period: period as TimesheetPeriod | null, start: params.get('start'), end: params.get('end') });
+          if ('error' in range) return jsonResponse({ error: range.error }, 400);
+
+          const sheet = await buildTimesheet(env, userId, clock, range, {
+            groupBy: groupBy as TimesheetGroupBy,
+            client: params.get('client'),
+            billableOnly: params.get('billable_only') === 'true',
+            includeSessions: params.get('include_sessions') !== 'false',
+          });
+          if (format === 'csv' || format === 'markdown') {
+            return new Response(formatTimesheet(sheet, format), {
+              headers: {
+                'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'text/markdown; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${timesheetFilename(sheet, format)}"`,
+                ...corsHeaders,
+              },
+            });
+          }
+          return jsonResponse({ success: true, timesheet: timesheetToJson(sheet) });
+        }
+        
+        // GET /api/timesheets/rates
+        if (path === '/timesheets/rates' && method === 'GET') {
+          return jsonResponse({ rates: await listBillingRates(env, userId) });
+        }
+        
+        // POST /api/timesheets/rates - { match_type, match_value, client?, hourly_rate?, billable? } (updates the rate for that match if there is one)
+        if (path === '/timesheets/rates' && method === 'POST') {
+          const body = await request.json() as any;
+          if (!BILLING_MATCH_TYPES.includes(body.match_type)) {
+            return jsonResponse({ error: 'match_type must be one of: ' + BILLING_MATCH_TYPES.join(', ') }, 400);
+          }
+          if (typeof body.match_value !== 'string' || !body.match_value.trim()) return jsonResponse({ error: 'match_value is required' }, 400);
+          if (body.hourly_rate != null && !(typeof body.hourly_rate === 'number' && body.hourly_rate >= 0)) {
+            return jsonResponse({ error: 'hourly_rate must be a number of at least 0' }, 400);
+          }
+          const rate = await setBillingRate(env, userId, {
+            matchType: body.match_type as BillingMatchType,
+            matchValue: body.match_value,
+            client: body.client,
+            hourlyRate: body.hourly_rate,
+            billable: typeof body.billable === 'boolean' ? body.billable : undefined,
+          });
+          return jsonResponse({ success: true, rate });
+        }
+        
+        // DELETE /api/timesheets/rates/:id
+        const billingRateMatch = path.match(/^\/timesheets\/rates\/([^/]+)$/);
+        if (billingRateMatch && method === 'DELETE') {
+          const result = await removeBillingRate(env, userId, decodeURIComponent(billingRateMatch[1]));
+          if ('error' in result) return jsonResponse({ error: result.error }, 404);
+          return jsonResponse({ success: true, rate: result });
+        }
+
+        // ==================== DIGESTS ====================
+        
+        // GET /api/digests/settings
+        if (path === '/digests/settings' && method === 'GET') {
+          return jsonResponse({ settings: digestSettingsToJson(await getDigestSettings(env, userId)) });
+        }
+        
+        // PUT /api/digests/settings - { enabled?, account?, email_to?, morning_hour?, evening_hour?, weekly_day?, weekly_hour?, sections?, skip_inactive? }
+        if (path === '/digests/settings' && method === 'PUT') {
+          const body = await request.json() as any;
+          const isHour = (v: any) => v === undefined || v === null || (Number.isInteger(v) && v >= 0 && v <= 23);
+          if (body.account !== undefined && body.account !== 'personal' && body.account !== 'company') {
+            return jsonResponse({ error: 'account must be personal or company' }, 400);
+          }
+          if (!isHour(body.morning_hour) || !isHour(body.evening_hour) || !isHour(body.weekly_hour)) {
+            return jsonResponse({ error: 'Hours must be whole numbers from 0 to 23, or null to turn that digest off' }, 400);
+          }
+          if (body.weekly_day !== undefined && !DIGEST_WEEKDAYS.includes(body.weekly_day)) {
+            return jsonResponse({ error: 'weekly_day must be one of: ' + DIGEST_WEEKDAYS.join(', ') }, 400);
+          }
+          if (body.sections !== undefined && !(Array.isArray(body.sections) && body.sections.every((s: any) => DIGEST_SECTIONS.includes(s)))) {
+            return jsonResponse({ error: 'sections must be a list of: ' + DIGEST_SECTIONS.join(', ') }, 400);
+          }
+          if (typeof body.email_to === 'string' && body.email_to.trim() && !isValidDigestAddress(body.email_to.trim())) {
+            return jsonResponse({ error: 'email_to must be a single email address' }, 400);
+          }
+          const changes: Partial<DigestSettings> = {
+            enabled: typeof body.enabled === 'boolean' ? body.enabled : undefined,
+            account: body.account,
+            emailTo: body.email_to === undefined ? undefined : (typeof body.email_to === 'string' && body.email_to.trim() ? body.email_to.trim() : null),
+            morningHour: body.morning_hour,
+            eveningHour: body.evening_hour,
+            weeklyDay: body.weekly_day === undefined ? undefined : DIGEST_WEEKDAYS.indexOf(body.weekly_day),
+            weeklyHour: body.weekly_hour,
+            sections: body.sections,
+            skipInactive: typeof body.skip_inactive === 'boolean' ? body.skip_inactive : undefined,
+          };
+          return jsonResponse({ success: true, settings: digestSettingsToJson(await updateDigestSettings(env, userId, changes)) });
+        }
+        
+        // GET /api/digests/preview?type=morning|evening|weekly&format=html|text
+        if (path === '/digests/preview' && method === 'GET') {
+          const type = url.searchParams.get('type') || 'morning';
+          const format = url.searchParams.get('format') || 'html';
+          if (!DIGEST_TYPES.includes(type as DigestType)) return jsonResponse({ error: 'type must be one of: ' + DIGEST_TYPES.join(', ') }, 400);
+          if (format !== 'html' && format !== 'text') return jsonResponse({ error: 'format must be html or text' }, 400);
+
+          const settings = await getDigestSettings(env, userId);
+          const report = await buildDigest(env, userId, type as DigestType, await getUserClock(env, userId), settings.sections);
+          return new Response(format === 'html' ? renderDigestHtml(report) : renderDigestText(report), {
+            headers: { 'Content-Type': format === 'html' ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8', ...corsHeaders },
+          });
+        }
+        
+        // POST /api/digests/send - { type } (sends now, even on a quiet day)
+        if (path === '/digests/send' && method === 'POST') {
+          const body = await request.json() as any;
+          const type = body.type || 'morning';
+          if (!DIGEST_TYPES.includes(type)) return jsonResponse({ error: 'type must be one of: ' + DIGEST_TYPES.join(', ') }, 400);
+
+          const result = await sendDigest(env, userId, type, await getUserClock(env, userId), await getDigestSettings(env, userId), true);
+          if (result.status !== 'sent') return jsonResponse({ error: result.detail }, 409);
+          return jsonResponse({ success: true, ...result });
+        }
+        
+        // GET /api/digests/history?limit=
+        if (path === '/digests/history' && method === 'GET') {
+          const limit = Math.min(parseInt(url.searchParams.get('limit') || '20') || 20, 100);
+          return jsonResponse({ sends: await listDigestSends(env, userId, limit) });
         }
 
         // ==================== MORNING BRIEFING ====================
         
         if (path === '/morning' && method === 'GET') {
           const now = new Date();
-          const today = now.toISOString().split('T')[0];
-          const dayOfWeek = now.toLocaleDateString('en-US', { weekday: 'long' });
-          const dateStr = now.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+          const clock = await getUserClock(env, userId, now);
+          const today = clock.today;
+          const dayOfWeek = now.toLocaleDateString('en-US', { timeZone: clock.timeZone, weekday: 'long' });
+          const dateStr = now.toLocaleDateString('en-US', { timeZone: clock.timeZone, month: 'short', day: 'numeric' });
 
           const allTasks = await db.prepare(`
             SELECT t.id, t.text, t.priority, t.due_date, t.category, t.project, 
@@ -1275,24 +1866,22 @@ export function createApiRoutes(env: Env) {
 
           const overdueTasks = await db.prepare(`
             SELECT id, text, priority, due_date, category FROM tasks 
-            WHERE user_id = ? AND status = 'open' AND due_date < date('now')
+            WHERE user_id = ? AND status = 'open' AND due_date < ?
             ORDER BY due_date ASC
-          `).bind(userId).all();
+          `).bind(userId, today).all();
 
           let sprintData = null;
           try {
             const sprint = await db.prepare(`SELECT * FROM sprints WHERE user_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1`).bind(userId).first();
             if (sprint) {
               const objectives = await db.prepare(`SELECT * FROM objectives WHERE sprint_id = ? ORDER BY sort_order ASC`).bind(sprint.id).all();
-              const endDate = new Date(sprint.end_date as string);
-              const daysRemaining = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+              const endDate = sprint.end_date as string;
+              const daysRemaining = daysBetween(today, endDate);
               
               let workDays = 0;
-              const tempDate = new Date(now);
-              while (tempDate <= endDate) {
-                const dow = tempDate.getDay();
+              for (let d = today; d <= endDate; d = shiftDate(d, 1)) {
+                const dow = dayOfWeekOf(d);
                 if (dow !== 0 && dow !== 6) workDays++;
-                tempDate.setDate(tempDate.getDate() + 1);
               }
 
               const objectivesWithProgress = [];
@@ -1378,7 +1967,7 @@ export function createApiRoutes(env: Env) {
           }
 
           return jsonResponse({
-            greeting: { dayOfWeek, date: dateStr, time: now.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) },
+            greeting: { dayOfWeek, date: dateStr, time: now.toLocaleTimeString('en-US', { timeZone: clock.timeZone, hour: 'numeric', minute: '2-digit' }) },
             whereYouLeftOff: null,
             activeTasks,
             sprintTasks,
@@ -1749,6 +2338,17 @@ export function createApiRoutes(env: Env) {
             return jsonResponse({ success: true, message: 'Deleted' });
           }
           
+          // Same text as an open task - hand back the candidates unless force is set
+          if (!body.force) {
+            const similar = await findSimilarTasks(env, userId, item.text as string);
+            if (similar.length > 0) {
+              return jsonResponse({
+                error: 'This looks like a task you already have. Send force: true to create it anyway.',
+                duplicates: similar.map(m => ({ id: m.task.id, text: m.task.text, due_date: m.task.due_date, score: Math.round(m.score * 100) / 100 })),
+              }, 409);
+            }
+          }
+
           const taskId = crypto.randomUUID();
           await db.prepare(`
             INSERT INTO tasks (id, user_id, text, category, priority, status, is_active, created_at, last_touched) 
@@ -1820,14 +2420,21 @@ export function createApiRoutes(env: Env) {
             FROM launch_projects lp WHERE lp.user_id = ? AND lp.status != 'complete' ORDER BY lp.created_at DESC
           `).bind(userId).all();
 
-          return jsonResponse({
-            launches: (launches.results || []).map((l: any) => ({
+          // Forecasts only on request (?forecast=1) - one simulation per launch is too much for every list load
+          const withForecast = url.searchParams.get('forecast') === '1';
+          const clock = await getUserClock(env, userId);
+          const result = [];
+          for (const l of (launches.results || []) as any[]) {
+            const forecast = withForecast ? await forecastCompletion(env, userId, clock, { launchId: l.id }, { trials: SUMMARY_FORECAST_TRIALS }) : null;
+            result.push({
               id: l.id, title: l.title, phase: l.current_phase, status: l.status,
               completed: l.done_count || 0, total: l.total_count || 0,
               progress: l.total_count > 0 ? Math.round((l.done_count / l.total_count) * 100) : 0,
-              targetDate: l.target_launch_date
-            }))
-          });
+              targetDate: l.target_launch_date,
+              forecast: !forecast || 'error' in forecast ? null : forecastToJson(forecast)
+            });
+          }
+          return jsonResponse({ launches: result });
         }
 
         const checklistMatch = path.match(/^\/launches\/([^/]+)\/checklist$/);
@@ -0,0 +1,174 @@
+// Bulk task updates - shared by the bulk_update_tasks tool and POST /api/tasks/bulk.
+// A filter picks the user's tasks, an action is applied to each, and every
+// touched task gets its own task_events entry.
+
+import { normalizeUser, parseDateInput, DATE_INPUT_HINT } from './utils';
+import { logEvent } from './intelligence';
+import { completeTask } from './completion';
+import { tagFilterClause, tagTask } from './tags';
+import { trashTask } from './trash';
+import type { UserClock } from './datetime';
+
+export const BULK_ACTIONS = ['reprioritize', 'recategorize', 'snooze', 'reassign', 'activate', 'deactivate', 'complete', 'delete'] as const;
+export type BulkAction = typeof BULK_ACTIONS[number];
+
+// Each task costs several D1 queries (update, event, daily log; completing also checks
+// dependents, parents and recurrence), so larger runs would hit the per-invocation
+// query limit partway through - narrow the filter instead
+export const MAX_BULK_TASKS = 100;
+
+export interface BulkTaskFilter {
+  status?: 'open' | 'done' | 'all';
+  category?: string;
+  project?: string;
+  tags?: string[];
+  priority?: number;
+  min_priority?: number;
+  max_priority?: number;
+  older_than_days?: number;   // created at least N days ago
+  newer_than_days?: number;   // created within the last N days
+  due_after?: string;         // inclusive; natural language allowed
+  due_before?: string;        // inclusive; natural language allowed
+  no_due_date?: boolean;
+  text_contains?: string;
+  has_recurrence?: boolean;
+}
+
+// Any criterion besides status - refuse to touch every task by accident
+function hasCriteria(filter: BulkTaskFilter): boolean {
+  return Object.entries(filter).some(([key, value]) =>
+    key !== 'status' && value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0));
+}
+
+export function buildBulkQuery(userId: string, filter: BulkTaskFilter, clock: UserClock): { sql: string; bindings: any[] } | { error: string } {
+  if (!hasCriteria(filter)) return { error: 'Add at least one filter (category, project, tags, priority, age, due range, text or recurrence)' };
+
+  let sql = 'SELECT t.* FROM tasks t WHERE t.user_id = ?';
+  const bindings: any[] = [userId];
+  const status = filter.status || 'open';
+
+  if (status !== 'all') { sql += ' AND t.status = ?'; bindings.push(status); }
+  else sql += " AND t.status != 'deleted'";
+  if (filter.category) { sql += ' AND t.category = ? COLLATE NOCASE'; bindings.push(filter.category); }
+  if (filter.project) { sql += ' AND t.project = ? COLLATE NOCASE'; bindings.push(filter.project); }
+  if (filter.priority !== undefined) { sql += ' AND t.priority = ?'; bindings.push(filter.priority); }
+  if (filter.min_priority !== undefined) { sql += ' AND t.priority >= ?'; bindings.push(filter.min_priority); }
+  if (filter.max_priority !== undefined) { sql += ' AND t.priority <= ?'; bindings.push(filter.max_priority); }
+  if (filter.older_than_days !== undefined) { sql += ' AND t.created_at < ?'; bindings.push(clock.startOf(clock.daysAgo(filter.older_than_days - 1))); }
+  if (filter.newer_than_days !== undefined) { sql += ' AND t.created_at >= ?'; bindings.push(clock.startOf(clock.daysAgo(filter.newer_than_days))); }
+  if (filter.text_contains) { sql += ' AND t.text LIKE ?'; bindings.push('%' + filter.text_contains + '%'); }
+  if (filter.has_recurrence !== undefined) sql += filter.has_recurrence ? ' AND t.recurrence IS NOT NULL' : ' AND t.recurrence IS NULL';
+  if (filter.no_due_date) sql += ' AND t.due_date IS NULL';
+
+  for (const [key, op] of [['due_after', '>='], ['due_before', '<=']] as const) {
+    const input = filter[key];
+    if (!input) continue;
+    const date = parseDateInput(input, clock.timeZone);
+    if (!date) return { error: `Couldn't understand ${key} "${input}". ${DATE_INPUT_HINT}` };
+    sql += ` AND t.due_date IS NOT NULL AND t.due_date ${op} ?`;
+    bindings.push(date);
+  }
+
+  if (filter.tags && filter.tags.length > 0) {
+    const tagFilter = tagFilterClause(userId, filter.tags);
+    sql += tagFilter.sql;
+    bindings.push(...tagFilter.bindings);
+  }
+
+  sql += ' ORDER BY t.priority DESC, t.created_at ASC';
+  return { sql, bindings };
+}
+
+export async function findBulkTargets(env: any, userId: string, filter: BulkTaskFilter, clock: UserClock): Promise<{ tasks: any[] } | { error: string }> {
+  const query = buildBulkQuery(userId, filter, clock);
+  if ('error' in query) return query;
+  const result = await env.DB.prepare(query.sql).bind(...query.bindings).all();
+  return { tasks: result.results || [] };
+}
+
+// Check and normalize the action's value before anything is touched; reassign
+// only goes to someone on the team
+export function resolveBulkValue(action: BulkAction, value: any, clock: UserClock, teammates: string[]): { value: any } | { error: string } {
+  switch (action) {
+    case 'reprioritize': {
+      const priority = Number(value);
+      if (!Number.isInteger(priority) || priority < 1 || priority > 5) return { error: 'reprioritize needs a value from 1 to 5' };
+      return { value: priority };
+    }
+    case 'recategorize':
+      if (!value || !String(value).trim()) return { error: 'recategorize needs a category name' };
+      return { value: String(value).trim() };
+    case 'snooze': {
+      const until = parseDateInput(value ? String(value) : 'tomorrow', clock.timeZone);
+      if (!until) return { error: `Couldn't understand snooze date "${value}". ${DATE_INPUT_HINT}` };
+      return { value: until };
+    }
+    case 'reassign': {
+      if (!value || !String(value).trim()) return { error: 'reassign needs a username' };
+      const user = normalizeUser(String(value));
+      if (!teammates.map(normalizeUser).includes(user)) return { error: `"${user}" is not on your team. Teammates: ${teammates.join(', ')}` };
+      return { value: user };
+    }
+    default:
+      return { value: null };
+  }
+}
+
+export function describeBulkAction(action: BulkAction, value: any): string {
+  switch (action) {
+    case 'reprioritize': return `set priority to ${value}`;
+    case 'recategorize': return `move to [${value}]`;
+    case 'snooze': return `snooze until ${value}`;
+    case 'reassign': return `reassign to ${value}`;
+    case 'activate': return 'add to Active';
+    case 'deactivate': return 'remove from Active';
+    case 'complete': return 'mark done';
+    case 'delete': return 'move to trash';
+  }
+}
+
+// Apply an already-resolved action to each task; returns how many were changed
+export async function applyBulkAction(env: any, actorId: string, tasks: any[], action: BulkAction, value: any): Promise<number> {
+  const ts = new Date().toISOString();
+  let changed = 0;
+
+  for (const task of tasks) {
+    switch (action) {
+      case 'reprioritize':
+        await env.DB.prepare('UPDATE tasks SET priority = ?, last_touched = ? WHERE id = ?').bind(value, ts, task.id).run();
+        await logEvent(env, actorId, 'updated', task.id, { priority: value, was: task.priority, bulk: true });
+        break;
+      case 'recategorize':
+        await env.DB.prepare('UPDATE tasks SET category = ?, last_touched = ? WHERE id = ?').bind(value, ts, task.id).run();
+        try { await tagTask(env, task.user_id, task.id, [value]); } catch { /* Tags table might not exist yet */ }
+        await logEvent(env, actorId, 'updated', task.id, { category: value, was: task.category, bulk: true });
+        break;
+      case 'snooze':
+        await env.DB.prepare('UPDATE tasks SET snoozed_until = ?, last_touched = ? WHERE id = ?').bind(value, ts, task.id).run();
+        await logEvent(env, actorId, 'snoozed', task.id, { until: value, bulk: true });
+        break;
+      case 'reassign':
+        if (task.user_id === value) continue;
+        await env.DB.prepare('UPDATE tasks SET user_id = ?, assigned_by = ?, is_active = 0, last_touched = ? WHERE id = ?').bind(value, actorId, ts, task.id).run();
+        await logEvent(env, actorId, 'reassigned', task.id, { from: task.user_id, to: value, bulk: true });
+        break;
+      case 'activate':
+      case 'deactivate': {
+        const active = action === 'activate' ? 1 : 0;
+        if (task.is_active === active) continue;
+        await env.DB.prepare('UPDATE tasks SET is_active = ?, last_touched = ? WHERE id = ?').bind(active, ts, task.id).run();
+        await logEvent(env, actorId, 'updated', task.id, { is_active: active, bulk: true });
+        break;
+      }
+      case 'complete':
+        if (task.status !== 'open' || !(await completeTask(env, actorId, task, { bulk: true }))) continue;
+        break;
+      case 'delete':
+        await trashTask(env, actorId, task, { bulk: true });
+        break;
+    }
+    changed++;
+  }
+
+  return changed;
+}
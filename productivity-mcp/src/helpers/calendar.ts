@@ -0,0 +1,243 @@
+// Calendar feeds - an iCalendar (.ics) view of due tasks, sprint ends, launch dates
+// and dated launch checklist items, served at /api/calendar/:token.ics. Each feed
+// has its own secret token so one can be revoked without breaking the others.
+
+import { parseRecurrence, normalizeRecurrence } from './recurrence';
+import { shiftDate } from './datetime';
+
+export interface CalendarFeed {
+  id: string;
+  user_id: string;
+  token: string;
+  label: string | null;
+  created_at: string;
+  last_fetched_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface CalendarOptions {
+  timeZone: string;
+  tasksAsTodos?: boolean;   // VTODO instead of all-day VEVENTs (Google Calendar ignores VTODO)
+  now?: Date;
+}
+
+// Same host the OAuth callbacks use
+export function getWorkerUrl(env: any): string {
+  const workerName = env.WORKER_NAME || `productivity-${env.USER_ID === 'micaiah' ? 'mcp-server' : env.USER_ID}`;
+  return `https://${workerName}.micaiah-tasks.workers.dev`;
+}
+
+export function calendarFeedUrl(env: any, token: string): string {
+  return getWorkerUrl(env) + '/api/calendar/' + token + '.ics';
+}
+
+// ==================
+// FEED TOKENS
+// ==================
+
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createCalendarFeed(env: any, userId: string, label?: string | null): Promise<CalendarFeed> {
+  const feed: CalendarFeed = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    token: generateToken(),
+    label: label?.trim() || null,
+    created_at: new Date().toISOString(),
+    last_fetched_at: null,
+    revoked_at: null,
+  };
+  await env.DB.prepare(
+    'INSERT INTO calendar_feeds (id, user_id, token, label, created_at) VALUES (?, ?, ?, ?, ?)'
+  ).bind(feed.id, userId, feed.token, feed.label, feed.created_at).run();
+  return feed;
+}
+
+export async function listCalendarFeeds(env: any, userId: string, includeRevoked = false): Promise<CalendarFeed[]> {
+  const result = await env.DB.prepare(
+    'SELECT * FROM calendar_feeds WHERE user_id = ?' + (includeRevoked ? '' : ' AND revoked_at IS NULL') + ' ORDER BY created_at DESC'
+  ).bind(userId).all();
+  return result.results || [];
+}
+
+// Revoke by feed id, full token, or the first characters of the token
+export async function revokeCalendarFeed(env: any, userId: string, idOrToken: string): Promise<CalendarFeed | { error: string }> {
+  const key = idOrToken.trim();
+  const matches = (await listCalendarFeeds(env, userId)).filter(f => f.id === key || (key.length >= 6 && f.token.startsWith(key)));
+  if (matches.length === 0) return { error: 'No active calendar feed matches "' + key + '"' };
+  if (matches.length > 1) return { error: 'More than one feed matches "' + key + '" - use its ID' };
+
+  const feed = matches[0];
+  const ts = new Date().toISOString();
+  await env.DB.prepare('UPDATE calendar_feeds SET revoked_at = ? WHERE id = ?').bind(ts, feed.id).run();
+  return { ...feed, revoked_at: ts };
+}
+
+// The active feed for a token, marking it fetched. Null for unknown or revoked tokens.
+export async function getFeedByToken(env: any, token: string): Promise<CalendarFeed | null> {
+  try {
+    const feed = await env.DB.prepare('SELECT * FROM calendar_feeds WHERE token = ? AND revoked_at IS NULL').bind(token).first();
+    if (!feed) return null;
+    await env.DB.prepare('UPDATE calendar_feeds SET last_fetched_at = ? WHERE id = ?').bind(new Date().toISOString(), feed.id).run();
+    return feed;
+  } catch {
+    // Table might not exist yet
+    return null;
+  }
+}
+
+// ==================
+// ICS RENDERING
+// ==================
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    if (size + bytes > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function icsDate(date: string): string {
+  return date.split('T')[0].replace(/-/g, '');
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// tasks.recurrence -> RRULE value; UNTIL dates need the basic YYYYMMDD form
+function toRRule(recurrence: string): string | null {
+  if (!parseRecurrence(recurrence)) return null;
+  const rule = normalizeRecurrence(recurrence);
+  return rule ? rule.replace(/UNTIL=(\d{4})-(\d{2})-(\d{2})/, 'UNTIL=$1$2$3') : null;
+}
+
+// Task priority 5 (highest) .. 1 -> iCalendar 1 (highest) .. 9
+function icsPriority(priority: number): number {
+  return Math.max(1, Math.min(9, 11 - 2 * (priority || 3)));
+}
+
+interface CalendarEntry {
+  uid: string;
+  date: string;           // YYYY-MM-DD, all-day
+  summary: string;
+  description?: string;
+  categories?: string[];
+  rrule?: string | null;
+  priority?: number;
+  todo?: boolean;
+}
+
+function renderEntry(entry: CalendarEntry, stamp: string): string[] {
+  const lines = [entry.todo ? 'BEGIN:VTODO' : 'BEGIN:VEVENT', 'UID:' + entry.uid, 'DTSTAMP:' + stamp];
+  lines.push('DTSTART;VALUE=DATE:' + icsDate(entry.date));
+  if (entry.todo) {
+    lines.push('DUE;VALUE=DATE:' + icsDate(entry.date), 'STATUS:NEEDS-ACTION');
+  } else {
+    lines.push('DTEND;VALUE=DATE:' + icsDate(shiftDate(entry.date, 1)), 'TRANSP:TRANSPARENT');
+  }
+  if (entry.rrule) lines.push('RRULE:' + entry.rrule);
+  lines.push('SUMMARY:' + escapeText(entry.summary));
+  if (entry.description) lines.push('DESCRIPTION:' + escapeText(entry.description));
+  if (entry.categories && entry.categories.length > 0) lines.push('CATEGORIES:' + entry.categories.map(escapeText).join(','));
+  if (entry.priority) lines.push('PRIORITY:' + entry.priority);
+  lines.push(entry.todo ? 'END:VTODO' : 'END:VEVENT');
+  return lines;
+}
+
+async function optionalRows(env: any, sql: string, ...bindings: any[]): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare(sql).bind(...bindings).all();
+    return result.results || [];
+  } catch {
+    // Table might not exist yet
+    return [];
+  }
+}
+
+export async function buildCalendar(env: any, userId: string, options: CalendarOptions): Promise<string> {
+  const stamp = icsTimestamp(options.now || new Date());
+  const entries: CalendarEntry[] = [];
+
+  const tasks = await optionalRows(env, "SELECT * FROM tasks WHERE user_id = ? AND status = 'open' AND due_date IS NOT NULL ORDER BY due_date ASC", userId);
+  for (const t of tasks) {
+    const details = [t.project ? 'Project: ' + t.project : null, 'Priority: P' + (t.priority || 3), t.notes].filter(Boolean);
+    entries.push({
+      uid: 'task-' + t.id + '@productivity-mcp',
+      date: t.due_date,
+      summary: (options.tasksAsTodos ? '' : '✅ ') + t.text,
+      description: details.join('\n'),
+      categories: t.category ? [t.category] : [],
+      rrule: t.recurrence ? toRRule(t.recurrence) : null,
+      priority: icsPriority(t.priority),
+      todo: options.tasksAsTodos,
+    });
+  }
+
+  const sprints = await optionalRows(env, "SELECT * FROM sprints WHERE user_id = ? AND status = 'active' AND end_date IS NOT NULL", userId);
+  for (const s of sprints) {
+    entries.push({ uid: 'sprint-' + s.id + '@productivity-mcp', date: s.end_date, summary: '🏁 Sprint ends: ' + s.name, categories: ['Sprint'] });
+  }
+
+  const launches = await optionalRows(env, "SELECT * FROM launch_projects WHERE user_id = ? AND status != 'complete' AND target_launch_date IS NOT NULL", userId);
+  for (const l of launches) {
+    entries.push({
+      uid: 'launch-' + l.id + '@productivity-mcp',
+      date: l.target_launch_date,
+      summary: '🚀 Launch: ' + l.title,
+      description: l.current_phase ? 'Current phase: ' + l.current_phase : undefined,
+      categories: ['Launch'],
+    });
+
+    // Checklist items are due relative to the launch date, e.g. [DUE:LAUNCH-14]
+    const items = await optionalRows(env, 'SELECT * FROM launch_checklist WHERE project_id = ? AND completed = 0 AND due_offset IS NOT NULL ORDER BY sort_order ASC', l.id);
+    for (const item of items) {
+      const tags: string[] = JSON.parse(item.tags || '[]');
+      entries.push({
+        uid: 'launch-item-' + item.id + '@productivity-mcp',
+        date: shiftDate(l.target_launch_date, item.due_offset),
+        summary: '📋 ' + l.title + ': ' + item.item_text + (tags.includes('CRITICAL') ? ' 🔴' : ''),
+        description: [item.phase, item.section].filter(Boolean).join(' › '),
+        categories: ['Launch'],
+        todo: options.tasksAsTodos,
+        priority: tags.includes('CRITICAL') ? 1 : undefined,
+      });
+    }
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Productivity MCP//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:' + escapeText('Tasks & launches (' + userId + ')'),
+    'X-WR-TIMEZONE:' + options.timeZone,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+  for (const entry of entries) lines.push(...renderEntry(entry, stamp));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,81 @@
+// Task completion - shared by complete_task and bulk complete so both mark the
+// linked launch checklist item, release dependents, roll up the subtask tree and
+// carry a recurring series on to its next occurrence.
+
+import { getNextDueDate } from './utils';
+import { logEvent, updateDailyLog } from './intelligence';
+import { findUnblockedBy } from './dependencies';
+import { remainingRecurrence, pinAnchorDay } from './recurrence';
+import { handleSubtaskCompleted } from './subtasks';
+import { copyTaskTags } from './tags';
+import { stopTaskTimers } from './timers';
+import { getUserClock } from './datetime';
+
+export interface CompletionResult {
+  daysToComplete: number;
+  checklistItem: any | null;
+  unblocked: any[];
+  stoppedTimers: { userId: string; minutes: number }[];
+  rollup: { completed: any[]; ready: any | null };
+  // Recurring tasks only: the next occurrence, or seriesEnded when there is none
+  next: { id: string; dueDate: string } | null;
+  seriesEnded: boolean;
+}
+
+// Returns null when the task was no longer open (done or trashed in the meantime)
+export async function completeTask(env: any, actorId: string, task: any, eventData: any = {}): Promise<CompletionResult | null> {
+  const completedAt = new Date().toISOString();
+  const updated = await env.DB.prepare(
+    "UPDATE tasks SET status = 'done', completed_at = ?, is_active = 0 WHERE id = ? AND status = 'open'"
+  ).bind(completedAt, task.id).run();
+  if (!updated.meta?.changes) return null;
+  const stoppedTimers = await stopTaskTimers(env, task.id);
+
+  const checklistItem = await env.DB.prepare('SELECT * FROM launch_checklist WHERE task_id = ?').bind(task.id).first();
+  if (checklistItem) {
+    await env.DB.prepare('UPDATE launch_checklist SET completed = 1, completed_at = ? WHERE id = ?').bind(completedAt, checklistItem.id).run();
+  }
+
+  const daysToComplete = Math.round((Date.now() - new Date(task.created_at).getTime()) / 86400000);
+  await logEvent(env, task.user_id, 'completed', task.id, {
+    text: task.text, daysToComplete, focusLevel: task.focus_level, category: task.category, completedBy: actorId, ...eventData,
+  });
+  await updateDailyLog(env, task.user_id, 'tasks_completed');
+
+  // Release anything that was only waiting on this task
+  const unblocked = await findUnblockedBy(env, task.id);
+  for (const u of unblocked) {
+    await logEvent(env, u.user_id, 'unblocked', u.id, { text: u.text, unblockedBy: task.id });
+  }
+
+  let next: CompletionResult['next'] = null;
+  let seriesEnded = false;
+  if (task.recurrence) {
+    const { today } = await getUserClock(env, task.user_id);
+    const nextDue = getNextDueDate(task.due_date || today, task.recurrence, today);
+    const nextRecurrence = remainingRecurrence(pinAnchorDay(task.recurrence, task.due_date || today));
+
+    if (nextDue && nextRecurrence) {
+      const newId = crypto.randomUUID();
+      const ts = new Date().toISOString();
+
+      await env.DB.prepare(
+        'INSERT INTO tasks (id, user_id, text, priority, due_date, category, project, status, created_at, last_touched, focus_level, notes, recurrence, estimated_minutes, parent_task_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).bind(newId, task.user_id, task.text, task.priority, nextDue, task.category, task.project, 'open', ts, ts, task.focus_level, task.notes, nextRecurrence, task.estimated_minutes ?? null, task.parent_task_id ?? null).run();
+      await copyTaskTags(env, task.id, newId);
+
+      await logEvent(env, task.user_id, 'created', newId, { text: task.text, recurrence: nextRecurrence, source: 'recurring', previousTaskId: task.id });
+      await logEvent(env, task.user_id, 'recurred', task.id, { nextTaskId: newId, nextDue });
+      next = { id: newId, dueDate: nextDue };
+    } else {
+      seriesEnded = true;
+    }
+  }
+
+  // After the next occurrence exists, so a recurring subtask keeps its parent open
+  const rollup = task.parent_task_id
+    ? await handleSubtaskCompleted(env, actorId, task)
+    : { completed: [], ready: null };
+
+  return { daysToComplete, checklistItem, unblocked, stoppedTimers, rollup, next, seriesEnded };
+}
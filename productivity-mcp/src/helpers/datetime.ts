@@ -0,0 +1,140 @@
+// Date/time helpers - everything that needs to know what "today" or "now"
+// means for a user goes through here, using the timezone in user_settings.
+
+// Timezone used until a user picks their own
+export const DEFAULT_TIMEZONE = 'America/Chicago';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Today's calendar date (YYYY-MM-DD) in the given timezone
+export function getTodayInTimezone(timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string {
+  return now.toLocaleDateString('en-CA', { timeZone });
+}
+
+// Wall-clock hour (0-23) in the given timezone
+export function getHourInTimezone(timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): number {
+  return Number(now.toLocaleString('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }));
+}
+
+// Shift a YYYY-MM-DD date by whole days (UTC arithmetic, so DST never moves the day)
+export function shiftDate(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('T')[0].split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().split('T')[0];
+}
+
+// 0 = Sunday, for a YYYY-MM-DD date
+export function dayOfWeekOf(dateStr: string): number {
+  const [y, m, d] = dateStr.split('T')[0].split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
+
+// Monday of the week containing the date
+export function getWeekStart(dateStr: string): string {
+  return shiftDate(dateStr, -((dayOfWeekOf(dateStr) + 6) % 7));
+}
+
+// Whole days from one YYYY-MM-DD date to another (negative if `to` is earlier)
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('T')[0].split('-').map(Number);
+  const [ty, tm, td] = to.split('T')[0].split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000);
+}
+
+// Minutes the timezone is ahead of UTC at a given instant
+function offsetMinutes(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUTC = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return Math.round((asUTC - instant) / 60000);
+}
+
+// UTC instant (ISO string) at which a local calendar day begins - use it to
+// compare stored UTC timestamps (completed_at, created_at) against local days
+export function startOfLocalDay(dateStr: string, timeZone: string = DEFAULT_TIMEZONE): string {
+  const [y, m, d] = dateStr.split('T')[0].split('-').map(Number);
+  const midnightUTC = Date.UTC(y, m - 1, d);
+  // Second pass corrects for a DST change between UTC and local midnight
+  let instant = midnightUTC - offsetMinutes(timeZone, midnightUTC) * 60000;
+  instant = midnightUTC - offsetMinutes(timeZone, instant) * 60000;
+  return new Date(instant).toISOString();
+}
+
+// Calendar date (YYYY-MM-DD) of an instant (e.g. a stored created_at) in the given timezone
+export function toLocalDate(isoTimestamp: string, timeZone: string = DEFAULT_TIMEZONE): string {
+  return getTodayInTimezone(timeZone, new Date(isoTimestamp));
+}
+
+export function getTimeOfDayForHour(hour: number): string {
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+}
+
+// 0-23 -> "12am", "9am", "4pm"
+export function formatHour(hour: number): string {
+  if (hour === 0) return '12am';
+  if (hour === 12) return '12pm';
+  return hour < 12 ? hour + 'am' : (hour - 12) + 'pm';
+}
+
+// Snapshot of "now" as the user sees it
+export interface UserClock {
+  timeZone: string;
+  today: string;        // YYYY-MM-DD
+  hour: number;         // 0-23
+  dayOfWeek: number;    // 0 = Sunday
+  dayName: string;      // 'monday'
+  timeOfDay: string;    // morning / afternoon / evening
+  daysAgo: (days: number) => string;
+  daysFromNow: (days: number) => string;
+  startOf: (date: string) => string;  // UTC instant a local day begins
+}
+
+export function clockFor(timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): UserClock {
+  const today = getTodayInTimezone(timeZone, now);
+  const hour = getHourInTimezone(timeZone, now);
+  const dayOfWeek = dayOfWeekOf(today);
+  return {
+    timeZone,
+    today,
+    hour,
+    dayOfWeek,
+    dayName: WEEKDAYS[dayOfWeek],
+    timeOfDay: getTimeOfDayForHour(hour),
+    daysAgo: (days: number) => shiftDate(today, -days),
+    daysFromNow: (days: number) => shiftDate(today, days),
+    startOf: (date: string) => startOfLocalDay(date, timeZone),
+  };
+}
+
+export async function getUserTimezone(env: any, userId: string): Promise<string> {
+  try {
+    const row = await env.DB.prepare('SELECT timezone FROM user_settings WHERE user_id = ?').bind(userId).first();
+    if (row?.timezone && isValidTimezone(row.timezone)) return row.timezone;
+  } catch {
+    // Table might not exist yet
+  }
+  return DEFAULT_TIMEZONE;
+}
+
+export async function setUserTimezone(env: any, userId: string, timeZone: string) {
+  const ts = new Date().toISOString();
+  await env.DB.prepare(
+    'INSERT INTO user_settings (user_id, timezone, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET timezone = excluded.timezone, updated_at = excluded.updated_at'
+  ).bind(userId, timeZone, ts, ts).run();
+}
+
+export async function getUserClock(env: any, userId: string, now: Date = new Date()): Promise<UserClock> {
+  return clockFor(await getUserTimezone(env, userId), now);
+}
@@ -0,0 +1,102 @@
+// Task dependency helpers - "blocked by" relationships between tasks
+
+// Open blockers for every dependent task, keyed by the dependent task's id.
+// Pass null for userId to include every user's dependencies (teammate views).
+export async function getOpenBlockers(env: any, userId: string | null): Promise<Map<string, any[]>> {
+  const blockers = new Map<string, any[]>();
+  try {
+    let query = `
+      SELECT d.task_id, b.id, b.text, b.user_id, b.due_date
+      FROM task_dependencies d
+      JOIN tasks b ON b.id = d.blocked_by_task_id
+      WHERE b.status = 'open'`;
+    const bindings: any[] = [];
+    if (userId) {
+      query += ' AND d.user_id = ?';
+      bindings.push(userId);
+    }
+    const result = await env.DB.prepare(query).bind(...bindings).all();
+    for (const row of result.results as any[]) {
+      if (!blockers.has(row.task_id)) blockers.set(row.task_id, []);
+      blockers.get(row.task_id)!.push({ id: row.id, text: row.text, user_id: row.user_id, due_date: row.due_date });
+    }
+  } catch {
+    // Table might not exist yet - treat everything as unblocked
+  }
+  return blockers;
+}
+
+// Every edge touching the given user's tasks, with both ends' text and status
+export async function getDependencyEdges(env: any, userId: string): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare(`
+      SELECT d.id, d.task_id, t.text as task_text, t.status as task_status,
+             d.blocked_by_task_id, b.text as blocked_by_text, b.status as blocked_by_status,
+             d.created_at
+      FROM task_dependencies d
+      JOIN tasks t ON t.id = d.task_id
+      JOIN tasks b ON b.id = d.blocked_by_task_id
+      WHERE d.user_id = ?
+      ORDER BY d.created_at ASC
+    `).bind(userId).all();
+    return result.results || [];
+  } catch {
+    return [];
+  }
+}
+
+// True if making taskId wait on blockedById would close a loop
+// (i.e. blockedById is already waiting on taskId, directly or transitively)
+export async function wouldCreateCycle(env: any, taskId: string, blockedById: string): Promise<boolean> {
+  if (taskId === blockedById) return true;
+
+  const seen = new Set<string>();
+  let frontier = [blockedById];
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const result = await env.DB.prepare(
+        'SELECT blocked_by_task_id FROM task_dependencies WHERE task_id = ?'
+      ).bind(id).all();
+      for (const row of result.results as any[]) {
+        if (row.blocked_by_task_id === taskId) return true;
+        next.push(row.blocked_by_task_id);
+      }
+    }
+    frontier = next;
+  }
+  return false;
+}
+
+// Called after a task is completed: returns the open tasks that were waiting
+// on it and have no other open blockers left
+export async function findUnblockedBy(env: any, completedTaskId: string): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare(`
+      SELECT t.* FROM task_dependencies d
+      JOIN tasks t ON t.id = d.task_id
+      WHERE d.blocked_by_task_id = ? AND t.status = 'open'
+        AND NOT EXISTS (
+          SELECT 1 FROM task_dependencies d2
+          JOIN tasks b ON b.id = d2.blocked_by_task_id
+          WHERE d2.task_id = t.id AND b.status = 'open'
+        )
+    `).bind(completedTaskId).all();
+    return result.results || [];
+  } catch {
+    return [];
+  }
+}
+
+// Drop every edge touching a task (used when the task itself goes away)
+export async function removeTaskDependencies(env: any, taskId: string) {
+  try {
+    await env.DB.prepare(
+      'DELETE FROM task_dependencies WHERE task_id = ? OR blocked_by_task_id = ?'
+    ).bind(taskId, taskId).run();
+  } catch {
+    // Table might not exist yet
+  }
+}
@@ -0,0 +1,618 @@
+// Digest emails - the morning briefing, end-of-day recap and weekly recap rendered
+// to HTML and sent through Gmail on each user's own schedule. The daily_digest job
+// asks every tick which digests are due; each type goes out at most once a day,
+// and quiet days are skipped unless the user turns that off.
+
+import { type UserClock, shiftDate, daysBetween, getWeekStart, formatHour } from './datetime';
+import { getPatterns, generateEnhancedNudges } from './intelligence';
+import { getSprintTasks, getVelocityHistory, countWorkDays, overloadWarning } from './sprints';
+import { getSessionBreaks, computeSessionTime } from './work-sessions';
+import { formatMinutes } from './planning';
+import { getValidToken, getGmailAddress, sendGmail, ANALYTICS_DATA_API } from '../oauth';
+
+export const DIGEST_TYPES = ['morning', 'evening', 'weekly'] as const;
+export type DigestType = typeof DIGEST_TYPES[number];
+
+export const DIGEST_SECTIONS = ['tasks', 'sprint', 'launches', 'journal', 'deploys', 'analytics'] as const;
+export type DigestSection = typeof DIGEST_SECTIONS[number];
+
+export const DIGEST_WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+// A digest whose hour was missed (cron hiccup, schedule changed mid-day) still
+// goes out within this many hours - but not at midnight
+const CATCH_UP_HOURS = 3;
+
+const LIST_LIMIT = 10;
+
+export interface DigestSettings {
+  enabled: boolean;
+  account: 'personal' | 'company';
+  emailTo: string | null;           // null = the Gmail account's own address
+  morningHour: number | null;       // null turns that digest off
+  eveningHour: number | null;
+  weeklyDay: number;                // 0 = Sunday
+  weeklyHour: number | null;
+  sections: DigestSection[];
+  skipInactive: boolean;
+}
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  enabled: false,
+  account: 'personal',
+  emailTo: null,
+  morningHour: 7,
+  eveningHour: 18,
+  weeklyDay: 5,
+  weeklyHour: 16,
+  sections: ['tasks', 'sprint', 'launches'],
+  skipInactive: true,
+};
+
+export interface DigestItem {
+  text: string;
+  meta?: string;
+  tone?: 'good' | 'warn' | 'bad';
+}
+
+export interface DigestBlock {
+  key: DigestSection;
+  title: string;
+  stats: { label: string; value: string }[];
+  items: DigestItem[];
+  note?: string;
+}
+
+export interface DigestReport {
+  type: DigestType;
+  date: string;
+  subject: string;
+  title: string;
+  subtitle: string;
+  blocks: DigestBlock[];
+  active: boolean;                  // Anything happened (or, in the morning, anything is due)
+}
+
+export interface DigestSendResult {
+  type: DigestType;
+  status: 'sent' | 'skipped' | 'failed';
+  subject: string;
+  detail: string;
+}
+
+// ==================== SETTINGS ====================
+
+function parseSections(value: string | null): DigestSection[] {
+  if (!value) return DEFAULT_DIGEST_SETTINGS.sections;
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return DIGEST_SECTIONS.filter(s => parsed.includes(s));
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_DIGEST_SETTINGS.sections;
+}
+
+export async function getDigestSettings(env: any, userId: string): Promise<DigestSettings> {
+  try {
+    const row = await env.DB.prepare('SELECT * FROM digest_settings WHERE user_id = ?').bind(userId).first();
+    if (row) {
+      return {
+        enabled: !!row.enabled,
+        account: row.account === 'company' ? 'company' : 'personal',
+        emailTo: row.email_to || null,
+        morningHour: row.morning_hour,
+        eveningHour: row.evening_hour,
+        weeklyDay: row.weekly_day ?? DEFAULT_DIGEST_SETTINGS.weeklyDay,
+        weeklyHour: row.weekly_hour,
+        sections: parseSections(row.sections),
+        skipInactive: !!row.skip_inactive,
+      };
+    }
+  } catch {
+    // Table might not exist yet
+  }
+  return { ...DEFAULT_DIGEST_SETTINGS };
+}
+
+// email_to goes straight into the To: header, so it must be one plain address -
+// no lists, display names or line breaks that could smuggle in more headers
+const DIGEST_ADDRESS = /^[^\s@,;<>"]+@[^\s@,;<>"]+\.[^\s@,;<>"]+$/;
+
+export function isValidDigestAddress(address: string): boolean {
+  return DIGEST_ADDRESS.test(address);
+}
+
+// Fields left undefined keep their current value
+export async function updateDigestSettings(env: any, userId: string, changes: Partial<DigestSettings>): Promise<DigestSettings> {
+  const current = await getDigestSettings(env, userId);
+  const next: DigestSettings = { ...current };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value !== undefined) (next as any)[key] = value;
+  }
+  next.sections = DIGEST_SECTIONS.filter(s => next.sections.includes(s));
+
+  const ts = new Date().toISOString();
+  await env.DB.prepare(
+    `INSERT INTO digest_settings (user_id, enabled, account, email_to, morning_hour, evening_hour, weekly_day, weekly_hour, sections, skip_inactive, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET enabled = excluded.enabled, account = excluded.account, email_to = excluded.email_to,
+       morning_hour = excluded.morning_hour, evening_hour = excluded.evening_hour, weekly_day = excluded.weekly_day, weekly_hour = excluded.weekly_hour,
+       sections = excluded.sections, skip_inactive = excluded.skip_inactive, updated_at = excluded.updated_at`
+  ).bind(
+    userId, next.enabled ? 1 : 0, next.account, next.emailTo, next.morningHour, next.eveningHour, next.weeklyDay, next.weeklyHour,
+    JSON.stringify(next.sections), next.skipInactive ? 1 : 0, ts, ts
+  ).run();
+  return next;
+}
+
+// "morning 7am, evening off, weekly fridays 4pm"
+export function describeDigestSchedule(settings: DigestSettings): string {
+  const weekday = DIGEST_WEEKDAYS[settings.weeklyDay];
+  return [
+    'morning ' + (settings.morningHour === null ? 'off' : formatHour(settings.morningHour)),
+    'evening ' + (settings.eveningHour === null ? 'off' : formatHour(settings.eveningHour)),
+    'weekly ' + (settings.weeklyHour === null ? 'off' : weekday.charAt(0).toUpperCase() + weekday.slice(1) + 's ' + formatHour(settings.weeklyHour)),
+  ].join(', ');
+}
+
+export function digestSettingsToJson(settings: DigestSettings) {
+  return {
+    enabled: settings.enabled,
+    account: settings.account,
+    email_to: settings.emailTo,
+    morning_hour: settings.morningHour,
+    evening_hour: settings.eveningHour,
+    weekly_day: DIGEST_WEEKDAYS[settings.weeklyDay],
+    weekly_hour: settings.weeklyHour,
+    sections: settings.sections,
+    skip_inactive: settings.skipInactive,
+  };
+}
+
+// ==================== SCHEDULE ====================
+
+function scheduledHour(settings: DigestSettings, type: DigestType, clock: UserClock): number | null {
+  if (type === 'morning') return settings.morningHour;
+  if (type === 'evening') return settings.eveningHour;
+  return clock.dayOfWeek === settings.weeklyDay ? settings.weeklyHour : null;
+}
+
+async function alreadySent(env: any, userId: string, type: DigestType, date: string): Promise<boolean> {
+  try {
+    // Failed sends are retried on the next tick
+    const row = await env.DB.prepare(
+      "SELECT id FROM digest_sends WHERE user_id = ? AND digest_type = ? AND digest_date = ? AND status IN ('sent', 'skipped')"
+    ).bind(userId, type, date).first();
+    return !!row;
+  } catch {
+    return false;
+  }
+}
+
+export async function getDueDigests(env: any, userId: string, clock: UserClock, settings: DigestSettings): Promise<DigestType[]> {
+  if (!settings.enabled) return [];
+  const due: DigestType[] = [];
+  for (const type of DIGEST_TYPES) {
+    const hour = scheduledHour(settings, type, clock);
+    if (hour === null || clock.hour < hour || clock.hour >= hour + CATCH_UP_HOURS) continue;
+    if (await alreadySent(env, userId, type, clock.today)) continue;
+    due.push(type);
+  }
+  return due;
+}
+
+async function recordSend(env: any, userId: string, date: string, result: DigestSendResult) {
+  try {
+    await env.DB.prepare(
+      'INSERT OR REPLACE INTO digest_sends (id, user_id, digest_type, digest_date, status, subject, detail, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(crypto.randomUUID(), userId, result.type, date, result.status, result.subject, result.detail, new Date().toISOString()).run();
+  } catch {
+    // Table might not exist yet
+  }
+}
+
+export async function listDigestSends(env: any, userId: string, limit = 10): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare('SELECT * FROM digest_sends WHERE user_id = ? ORDER BY created_at DESC LIMIT ?').bind(userId, limit).all();
+    return result.results || [];
+  } catch {
+    return [];
+  }
+}
+
+// ==================== BUILDING ====================
+
+interface DigestWindow {
+  from: string;       // UTC instants
+  to: string;
+  label: string;      // "yesterday", "today", "this week"
+}
+
+function digestWindow(type: DigestType, clock: UserClock): DigestWindow {
+  if (type === 'morning') return { from: clock.startOf(clock.daysAgo(1)), to: clock.startOf(clock.today), label: 'yesterday' };
+  if (type === 'evening') return { from: clock.startOf(clock.today), to: clock.startOf(clock.daysFromNow(1)), label: 'today' };
+  return { from: clock.startOf(clock.daysAgo(6)), to: clock.startOf(clock.daysFromNow(1)), label: 'the last 7 days' };
+}
+
+async function optionalCount(env: any, sql: string, ...bindings: any[]): Promise<number> {
+  try {
+    const row = await env.DB.prepare(sql).bind(...bindings).first();
+    return row?.c || 0;
+  } catch {
+    // Table might not exist yet
+    return 0;
+  }
+}
+
+// Anything the user did in the window - tasks done or added, progress, checkpoints, journal
+async function countActivity(env: any, userId: string, window: DigestWindow): Promise<number> {
+  const counts = await Promise.all([
+    optionalCount(env, "SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ? AND completed_at < ?", userId, window.from, window.to),
+    optionalCount(env, 'SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND created_at >= ? AND created_at < ?', userId, window.from, window.to),
+    optionalCount(env, 'SELECT COUNT(*) as c FROM progress_logs WHERE user_id = ? AND logged_at >= ? AND logged_at < ?', userId, window.from, window.to),
+    optionalCount(env, 'SELECT COUNT(*) as c FROM checkpoints WHERE user_id = ? AND checkpoint_time >= ? AND checkpoint_time < ?', userId, window.from, window.to),
+    optionalCount(env, 'SELECT COUNT(*) as c FROM journal_entries WHERE user_id = ? AND created_at >= ? AND created_at < ?', userId, window.from, window.to),
+  ]);
+  return counts.reduce((a, b) => a + b, 0);
+}
+
+async function workedMinutes(env: any, userId: string, type: DigestType, clock: UserClock): Promise<number> {
+  const from = type === 'weekly' ? clock.daysAgo(6) : type === 'morning' ? clock.daysAgo(1) : clock.today;
+  const to = type === 'morning' ? clock.daysAgo(1) : clock.today;
+  const sessions = await env.DB.prepare(
+    'SELECT * FROM work_sessions WHERE user_id = ? AND session_date >= ? AND session_date <= ? AND started_at IS NOT NULL'
+  ).bind(userId, from, to).all();
+  let minutes = 0;
+  for (const s of sessions.results as any[]) {
+    minutes += s.ended_at && s.total_minutes != null ? s.total_minutes : computeSessionTime(s, await getSessionBreaks(env, s.id), new Date()).netMinutes;
+  }
+  return minutes;
+}
+
+async function tasksBlock(env: any, userId: string, type: DigestType, clock: UserClock, window: DigestWindow): Promise<{ block: DigestBlock; dueToday: number }> {
+  const completed = await env.DB.prepare(
+    "SELECT text, category FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ? AND completed_at < ? ORDER BY completed_at ASC"
+  ).bind(userId, window.from, window.to).all();
+  const added = await optionalCount(env, 'SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND created_at >= ? AND created_at < ?', userId, window.from, window.to);
+  const dueDate = type === 'evening' ? clock.daysFromNow(1) : clock.today;
+  const due = await env.DB.prepare(
+    "SELECT text, category, priority FROM tasks WHERE user_id = ? AND status = 'open' AND substr(due_date, 1, 10) = ? AND (snoozed_until IS NULL OR snoozed_until <= ?) ORDER BY priority DESC"
+  ).bind(userId, dueDate, dueDate).all();
+  const overdue = await env.DB.prepare(
+    "SELECT text, due_date FROM tasks WHERE user_id = ? AND status = 'open' AND substr(due_date, 1, 10) < ? ORDER BY due_date ASC"
+  ).bind(userId, clock.today).all();
+  const worked = await workedMinutes(env, userId, type, clock);
+
+  const done = completed.results as any[];
+  const block: DigestBlock = { key: 'tasks', title: 'Tasks', stats: [], items: [] };
+  block.stats.push({ label: 'Done ' + window.label, value: String(done.length) });
+  block.stats.push({ label: 'Added', value: String(added) });
+  if (worked > 0) block.stats.push({ label: 'Worked', value: formatMinutes(worked) });
+  block.stats.push({ label: type === 'evening' ? 'Due tomorrow' : 'Due today', value: String(due.results.length) });
+  if (overdue.results.length > 0) block.stats.push({ label: 'Overdue', value: String(overdue.results.length) });
+
+  if (type === 'morning') {
+    for (const t of (due.results as any[]).slice(0, LIST_LIMIT)) block.items.push({ text: t.text, meta: t.category || undefined, tone: t.priority >= 4 ? 'warn' : undefined });
+    for (const t of (overdue.results as any[]).slice(0, 5)) block.items.push({ text: t.text, meta: 'was due ' + String(t.due_date).split('T')[0], tone: 'bad' });
+  } else {
+    for (const t of done.slice(0, LIST_LIMIT)) block.items.push({ text: t.text, meta: t.category || undefined, tone: 'good' });
+    if (done.length > LIST_LIMIT) block.note = '…and ' + (done.length - LIST_LIMIT) + ' more done';
+  }
+
+  if (type === 'weekly') {
+    const days = await env.DB.prepare(
+      'SELECT log_date, tasks_completed, tasks_created FROM daily_logs WHERE user_id = ? AND log_date >= ? ORDER BY log_date ASC'
+    ).bind(userId, clock.daysAgo(6)).all();
+    if (days.results.length > 0) {
+      const byDay = (days.results as any[]).map(d => DIGEST_WEEKDAYS[new Date(d.log_date + 'T12:00:00Z').getUTCDay()].slice(0, 3) + ' ' + d.tasks_completed + '/' + d.tasks_created);
+      block.note = (block.note ? block.note + ' · ' : '') + 'Done/added by day: ' + byDay.join(', ');
+    }
+  }
+
+  return { block, dueToday: due.results.length };
+}
+
+async function sprintBlock(env: any, userId: string, clock: UserClock, window: DigestWindow): Promise<DigestBlock | null> {
+  const sprint = await env.DB.prepare(
+    "SELECT * FROM sprints WHERE user_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1"
+  ).bind(userId).first();
+  if (!sprint) return null;
+
+  const tasks = await getSprintTasks(env, userId, sprint.id);
+  const done = tasks.filter(t => t.status === 'done');
+  const open = tasks.length - done.length;
+  const doneInWindow = done.filter(t => t.completed_at && t.completed_at >= window.from && t.completed_at < window.to).length;
+  const daysLeft = daysBetween(clock.today, sprint.end_date);
+
+  const block: DigestBlock = {
+    key: 'sprint',
+    title: 'Sprint: ' + sprint.name,
+    stats: [
+      { label: 'Progress', value: done.length + '/' + tasks.length + (tasks.length > 0 ? ' (' + Math.round((done.length / tasks.length) * 100) + '%)' : '') },
+      { label: 'Done ' + window.label, value: String(doneInWindow) },
+      { label: daysLeft < 0 ? 'Overdue by' : 'Days left', value: String(Math.abs(daysLeft)) },
+    ],
+    items: [],
+  };
+
+  if (daysLeft >= 0 && open > 0) {
+    const warning = overloadWarning(open, await getVelocityHistory(env, userId, clock.timeZone), countWorkDays(shiftDate(clock.today, 1), sprint.end_date));
+    if (warning) block.items.push({ text: warning.replace(/^⚠️ /, ''), tone: 'warn' });
+  }
+  if (daysLeft < 0) block.items.push({ text: 'Ended ' + sprint.end_date + ' - run end_sprint to wrap it up', tone: 'warn' });
+  return block;
+}
+
+async function launchesBlock(env: any, userId: string, clock: UserClock): Promise<DigestBlock | null> {
+  let launches: any[] = [];
+  try {
+    const result = await env.DB.prepare(
+      `SELECT lp.*, (SELECT COUNT(*) FROM launch_checklist WHERE project_id = lp.id) as total_items, (SELECT COUNT(*) FROM launch_checklist WHERE project_id = lp.id AND completed = 1) as done_items, (SELECT MAX(completed_at) FROM launch_checklist WHERE project_id = lp.id AND completed = 1) as last_activity FROM launch_projects lp WHERE lp.user_id = ? AND lp.status != 'complete' ORDER BY lp.target_launch_date ASC NULLS LAST`
+    ).bind(userId).all();
+    launches = result.results as any[];
+  } catch {
+    // Tables might not exist yet
+  }
+  if (launches.length === 0) return null;
+
+  const block: DigestBlock = { key: 'launches', title: 'Launches', stats: [], items: [] };
+  for (const lp of launches.slice(0, LIST_LIMIT)) {
+    const pct = lp.total_items > 0 ? Math.round((lp.done_items / lp.total_items) * 100) : 0;
+    const idleDays = lp.last_activity ? daysBetween(String(lp.last_activity).split('T')[0], clock.today) : null;
+    let meta = pct + '% (' + lp.done_items + '/' + lp.total_items + ')';
+    if (lp.target_launch_date) {
+      const until = daysBetween(clock.today, lp.target_launch_date);
+      meta += until >= 0 ? ' · launches in ' + until + ' day' + (until === 1 ? '' : 's') : ' · launch date passed';
+    }
+    const stalled = idleDays === null || idleDays >= 7;
+    if (stalled) meta += ' · stalled';
+    block.items.push({ text: lp.title, meta, tone: stalled ? 'warn' : undefined });
+  }
+  return block;
+}
+
+async function journalBlock(env: any, userId: string, clock: UserClock, window: DigestWindow): Promise<DigestBlock | null> {
+  const openTasks = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'open'").bind(userId).all();
+  const nudges = await generateEnhancedNudges(env, userId, await getPatterns(env, userId), openTasks.results as any[]);
+  const entries = await optionalCount(env, 'SELECT COUNT(*) as c FROM journal_entries WHERE user_id = ? AND created_at >= ? AND created_at < ?', userId, window.from, window.to);
+  const thisWeek = await optionalCount(env, 'SELECT COUNT(*) as c FROM journal_entries WHERE user_id = ? AND entry_date >= ?', userId, getWeekStart(clock.today));
+  let goal = 3;
+  try {
+    const settings = await env.DB.prepare('SELECT weekly_goal FROM journal_settings WHERE user_id = ?').bind(userId).first();
+    if (settings?.weekly_goal) goal = settings.weekly_goal;
+  } catch {
+    // Table might not exist yet
+  }
+
+  if (nudges.length === 0 && entries === 0 && thisWeek === 0) return null;
+  return {
+    key: 'journal',
+    title: 'Journal & nudges',
+    stats: [
+      { label: 'Entries ' + window.label, value: String(entries) },
+      { label: 'This week', value: thisWeek + '/' + goal },
+    ],
+    items: nudges.map(text => ({ text })),
+  };
+}
+
+async function deploysBlock(env: any, window: DigestWindow): Promise<DigestBlock | null> {
+  let deploys: any[] = [];
+  try {
+    const result = await env.DB.prepare('SELECT * FROM deploys WHERE created_at >= ? AND created_at < ? ORDER BY created_at DESC').bind(window.from, window.to).all();
+    deploys = result.results as any[];
+  } catch {
+    // Table might not exist yet
+    return null;
+  }
+
+  const failed = deploys.filter(d => d.status === 'failure');
+  const block: DigestBlock = {
+    key: 'deploys',
+    title: 'Deploys',
+    stats: [
+      { label: 'Succeeded', value: String(deploys.filter(d => d.status === 'success').length) },
+      { label: 'Failed', value: String(failed.length) },
+    ],
+    items: failed.slice(0, LIST_LIMIT).map(d => ({
+      text: d.repo + ' · ' + d.workflow,
+      meta: (d.commit_message || '').split('\n')[0].slice(0, 80) || undefined,
+      tone: 'bad' as const,
+    })),
+  };
+  if (deploys.length === 0) block.note = 'No deploys ' + window.label + '.';
+  return block;
+}
+
+function percentChange(current: number, previous: number): string {
+  if (previous === 0) return current > 0 ? 'new' : '±0%';
+  const change = Math.round(((current - previous) / previous) * 100);
+  return (change > 0 ? '+' : change < 0 ? '' : '±') + change + '%';
+}
+
+async function analyticsBlock(env: any, userId: string, type: DigestType): Promise<DigestBlock | null> {
+  const token = await getValidToken(env, userId, 'google_analytics');
+  if (!token) return null;
+  let properties: any[] = [];
+  try {
+    const result = await env.DB.prepare('SELECT property_id, name FROM analytics_properties WHERE user_id = ? LIMIT 5').bind(userId).all();
+    properties = result.results as any[];
+  } catch {
+    return null;
+  }
+  if (properties.length === 0) return null;
+
+  // Yesterday vs the day before; weekly compares the last 7 full days with the 7 before
+  const ranges = type === 'weekly'
+    ? [{ startDate: '7daysAgo', endDate: 'yesterday' }, { startDate: '14daysAgo', endDate: '8daysAgo' }]
+    : [{ startDate: 'yesterday', endDate: 'yesterday' }, { startDate: '2daysAgo', endDate: '2daysAgo' }];
+
+  const block: DigestBlock = { key: 'analytics', title: 'Analytics', stats: [], items: [], note: type === 'weekly' ? 'Last 7 days vs the week before' : 'Yesterday vs the day before' };
+  for (const prop of properties) {
+    try {
+      const resp = await fetch(`${ANALYTICS_DATA_API}/properties/${prop.property_id}:runReport`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ dateRanges: ranges, metrics: [{ name: 'screenPageViews' }, { name: 'activeUsers' }] }),
+      });
+      if (!resp.ok) {
+        block.items.push({ text: prop.name || prop.property_id, meta: 'report failed', tone: 'warn' });
+        continue;
+      }
+      const data: any = await resp.json();
+      const totals = [[0, 0], [0, 0]];
+      for (const row of data.rows || []) {
+        const range = row.dimensionValues?.[0]?.value === 'date_range_1' ? 1 : 0;
+        totals[range][0] += parseFloat(row.metricValues?.[0]?.value) || 0;
+        totals[range][1] += parseFloat(row.metricValues?.[1]?.value) || 0;
+      }
+      const [views, users] = totals[0];
+      const change = percentChange(views, totals[1][0]);
+      const swing = totals[1][0] > 0 ? (views - totals[1][0]) / totals[1][0] : 0;
+      block.items.push({
+        text: prop.name || prop.property_id,
+        meta: Math.round(views).toLocaleString('en-US') + ' views (' + change + ') · ' + Math.round(users).toLocaleString('en-US') + ' users',
+        tone: swing >= 0.2 ? 'good' : swing <= -0.2 ? 'bad' : undefined,
+      });
+    } catch {
+      block.items.push({ text: prop.name || prop.property_id, meta: 'report failed', tone: 'warn' });
+    }
+  }
+  return block;
+}
+
+// Local calendar date -> "Mon, Oct 19"
+function formatDay(date: string): string {
+  return new Date(date + 'T12:00:00Z').toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export async function buildDigest(env: any, userId: string, type: DigestType, clock: UserClock, sections: DigestSection[]): Promise<DigestReport> {
+  const window = digestWindow(type, clock);
+  const blocks: DigestBlock[] = [];
+  let dueToday = 0;
+
+  for (const section of sections) {
+    let block: DigestBlock | null = null;
+    if (section === 'tasks') {
+      const tasks = await tasksBlock(env, userId, type, clock, window);
+      block = tasks.block;
+      dueToday = tasks.dueToday;
+    } else if (section === 'sprint') block = await sprintBlock(env, userId, clock, window);
+    else if (section === 'launches') block = await launchesBlock(env, userId, clock);
+    else if (section === 'journal') block = await journalBlock(env, userId, clock, window);
+    else if (section === 'deploys') block = await deploysBlock(env, window);
+    else if (section === 'analytics') block = await analyticsBlock(env, userId, type);
+    if (block) blocks.push(block);
+  }
+
+  const activity = await countActivity(env, userId, window);
+  const today = formatDay(clock.today);
+  const weekRange = formatDay(clock.daysAgo(6)) + ' – ' + today;
+  const titles: Record<DigestType, { subject: string; title: string; subtitle: string }> = {
+    morning: { subject: '☀️ Morning digest — ' + today, title: 'Good morning', subtitle: today },
+    evening: { subject: '🌙 End of day — ' + today, title: 'End of day recap', subtitle: today },
+    weekly: { subject: '📊 Weekly recap — ' + weekRange, title: 'Weekly recap', subtitle: weekRange },
+  };
+
+  return {
+    type,
+    date: clock.today,
+    ...titles[type],
+    blocks,
+    // The morning digest also matters when something is due, even after a quiet day
+    active: activity > 0 || (type === 'morning' && dueToday > 0),
+  };
+}
+
+// ==================== RENDERING ====================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const TONE_COLORS: Record<string, string> = { good: '#1a7f37', warn: '#9a6700', bad: '#cf222e' };
+const TONE_MARKS: Record<string, string> = { good: '✓', warn: '!', bad: '✗' };
+
+export function renderDigestText(report: DigestReport): string {
+  let out = report.title + ' — ' + report.subtitle + '\n';
+  for (const block of report.blocks) {
+    out += '\n== ' + block.title.toUpperCase() + ' ==\n';
+    if (block.stats.length > 0) out += block.stats.map(s => s.label + ': ' + s.value).join(' · ') + '\n';
+    for (const item of block.items) out += (item.tone ? TONE_MARKS[item.tone] : '•') + ' ' + item.text + (item.meta ? ' — ' + item.meta : '') + '\n';
+    if (block.note) out += block.note + '\n';
+  }
+  if (report.blocks.length === 0) out += '\nNo sections selected - configure_digest to pick some.\n';
+  return out;
+}
+
+export function renderDigestHtml(report: DigestReport): string {
+  let html = '<!DOCTYPE html><html><body style="margin:0;padding:0;background:#f6f8fa;">';
+  html += '<div style="max-width:600px;margin:0 auto;padding:24px;font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',Helvetica,Arial,sans-serif;color:#1f2328;">';
+  html += `<h1 style="font-size:22px;margin:0 0 4px;">${escapeHtml(report.title)}</h1>`;
+  html += `<div style="color:#656d76;font-size:14px;margin-bottom:20px;">${escapeHtml(report.subtitle)}</div>`;
+
+  for (const block of report.blocks) {
+    html += '<div style="background:#ffffff;border:1px solid #d0d7de;border-radius:8px;padding:16px;margin-bottom:16px;">';
+    html += `<h2 style="font-size:16px;margin:0 0 12px;">${escapeHtml(block.title)}</h2>`;
+    if (block.stats.length > 0) {
+      html += '<table role="presentation" cellspacing="0" cellpadding="0" style="margin-bottom:8px;"><tr>';
+      for (const stat of block.stats) {
+        html += `<td style="padding-right:20px;vertical-align:top;"><div style="font-size:20px;font-weight:600;">${escapeHtml(stat.value)}</div><div style="font-size:12px;color:#656d76;">${escapeHtml(stat.label)}</div></td>`;
+      }
+      html += '</tr></table>';
+    }
+    if (block.items.length > 0) {
+      html += '<ul style="margin:8px 0 0;padding-left:20px;font-size:14px;line-height:1.5;">';
+      for (const item of block.items) {
+        const color = item.tone ? `color:${TONE_COLORS[item.tone]};` : '';
+        html += `<li style="${color}">${escapeHtml(item.text)}${item.meta ? ` <span style="color:#656d76;">— ${escapeHtml(item.meta)}</span>` : ''}</li>`;
+      }
+      html += '</ul>';
+    }
+    if (block.note) html += `<div style="font-size:13px;color:#656d76;margin-top:8px;">${escapeHtml(block.note)}</div>`;
+    html += '</div>';
+  }
+
+  if (report.blocks.length === 0) html += '<p style="color:#656d76;">No sections selected - use configure_digest to pick some.</p>';
+  html += '<div style="font-size:12px;color:#8c959f;margin-top:24px;">Sent by your productivity server. Change the schedule or sections with configure_digest.</div>';
+  html += '</div></body></html>';
+  return html;
+}
+
+// ==================== SENDING ====================
+
+// Build and email one digest. Quiet days are skipped unless forced; every outcome is logged.
+export async function sendDigest(env: any, userId: string, type: DigestType, clock: UserClock, settings: DigestSettings, force = false): Promise<DigestSendResult> {
+  const report = await buildDigest(env, userId, type, clock, settings.sections);
+  const finish = async (status: DigestSendResult['status'], detail: string) => {
+    const result: DigestSendResult = { type, status, subject: report.subject, detail };
+    await recordSend(env, userId, clock.today, result);
+    return result;
+  };
+
+  if (!force && settings.skipInactive && !report.active) return finish('skipped', 'No activity ' + digestWindow(type, clock).label);
+
+  const provider = settings.account === 'company' ? 'gmail_company' : 'gmail_personal';
+  const token = await getValidToken(env, userId, provider);
+  if (!token) return finish('failed', `Gmail (${settings.account}) not connected - connect_service ${provider}`);
+
+  const to = settings.emailTo || await getGmailAddress(token);
+  if (!to) return finish('failed', 'No address to send to - set email_to with configure_digest');
+
+  const sent = await sendGmail(token, { to, subject: report.subject, text: renderDigestText(report), html: renderDigestHtml(report) });
+  if ('error' in sent) return finish('failed', sent.error.slice(0, 200));
+  return finish('sent', 'to ' + to);
+}
+
+// The daily_digest job: send whatever is due this hour
+export async function sendDueDigests(env: any, userId: string, clock: UserClock, settings: DigestSettings): Promise<string> {
+  const due = await getDueDigests(env, userId, clock, settings);
+  if (due.length === 0) return 'No digests due';
+
+  const parts: string[] = [];
+  for (const type of due) {
+    const result = await sendDigest(env, userId, type, clock, settings);
+    parts.push(`${type}: ${result.status} (${result.detail})`);
+  }
+  return parts.join('; ');
+}
@@ -0,0 +1,239 @@
+// Duplicate task detection - compares task text by normalized words so
+// "Email Sarah re: contract" and "email sarah about the contract" match.
+// Used before inserts (add_task, email_to_task, surface_launch_tasks, scratchpad)
+// and by find_duplicate_tasks / merge_tasks to clean up an existing backlog.
+
+import { logEvent } from './intelligence';
+import { trashTask } from './trash';
+
+export const DUPLICATE_THRESHOLD = 0.75;
+
+// Containment score lost for each word the longer text has beyond the shorter one,
+// so one extra word still reads as the same task but a more specific one doesn't
+const EXTRA_WORD_PENALTY = 0.1;
+
+export interface SimilarTask {
+  task: any;
+  score: number;   // 0..1
+}
+
+export interface DuplicateGroup {
+  keep: any;       // Oldest task - the suggested merge target
+  duplicates: SimilarTask[];
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'for', 'of', 'on', 'in', 'at', 'and', 'or', 'with', 'about', 're', 'fw', 'fwd', 'my', 'our', 'some', 'up',
+]);
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Words that carry meaning, with a plural "s" dropped so "posts" matches "post"
+export function taskTokens(text: string): Set<string> {
+  const tokens = new Set<string>();
+  for (const word of normalize(text).split(' ')) {
+    if (!word || STOPWORDS.has(word)) continue;
+    tokens.add(word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+  }
+  return tokens;
+}
+
+// 1 for the same text after normalizing; otherwise the better of word overlap
+// (Jaccard) and containment of the shorter text in the longer, discounted a little
+// and then per extra word, so "Write blog post" vs "Write blog post for launch week"
+// (two extra words) stays under the threshold.
+export function textSimilarity(a: string, b: string, tokensA = taskTokens(a), tokensB = taskTokens(b)): number {
+  if (normalize(a) === normalize(b)) return 1;
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of tokensA) if (tokensB.has(token)) shared++;
+  if (shared === 0) return 0;
+
+  const jaccard = shared / (tokensA.size + tokensB.size - shared);
+  const smaller = Math.min(tokensA.size, tokensB.size);
+  const extraWords = Math.max(tokensA.size, tokensB.size) - smaller;
+  const containment = smaller >= 2 ? (shared / smaller) * 0.9 - extraWords * EXTRA_WORD_PENALTY : 0;
+  return Math.max(jaccard, containment);
+}
+
+// Open tasks that look like the same thing as `text`, best match first
+export async function findSimilarTasks(
+  env: any,
+  userId: string,
+  text: string,
+  options: { excludeId?: string; threshold?: number; limit?: number } = {}
+): Promise<SimilarTask[]> {
+  const threshold = options.threshold ?? DUPLICATE_THRESHOLD;
+  const result = await env.DB.prepare(
+    "SELECT * FROM tasks WHERE user_id = ? AND status = 'open'"
+  ).bind(userId).all();
+
+  const tokens = taskTokens(text);
+  const matches: SimilarTask[] = [];
+  for (const task of result.results as any[]) {
+    if (task.id === options.excludeId) continue;
+    const score = textSimilarity(text, task.text || '', tokens);
+    if (score >= threshold) matches.push({ task, score });
+  }
+  matches.sort((a, b) => b.score - a.score);
+  return matches.slice(0, options.limit ?? 3);
+}
+
+// "• "Email Sarah" (92%) · ID: …" lines for tool output
+export function formatSimilarTasks(matches: SimilarTask[]): string {
+  return matches.map(m => {
+    let line = '• "' + m.task.text + '" (' + Math.round(m.score * 100) + '%)';
+    if (m.task.due_date) line += ' due ' + m.task.due_date;
+    return line + ' · ID: ' + m.task.id;
+  }).join('\n');
+}
+
+// Group the open backlog into clusters of likely duplicates. Parent/child pairs
+// are skipped - a subtask often repeats its parent's wording on purpose.
+export async function findDuplicateGroups(
+  env: any,
+  userId: string,
+  options: { threshold?: number; category?: string } = {}
+): Promise<DuplicateGroup[]> {
+  const threshold = options.threshold ?? DUPLICATE_THRESHOLD;
+  let query = "SELECT * FROM tasks WHERE user_id = ? AND status = 'open'";
+  const bindings: any[] = [userId];
+  if (options.category) {
+    query += ' AND category = ?';
+    bindings.push(options.category);
+  }
+  const result = await env.DB.prepare(query + ' ORDER BY created_at ASC').bind(...bindings).all();
+  const tasks = result.results as any[];
+  const tokens = tasks.map(t => taskTokens(t.text || ''));
+
+  // Union-find so A~B and B~C land in one group
+  const parent = tasks.map((_, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) i = parent[i];
+    return i;
+  };
+  const best = new Map<number, number>();
+
+  for (let i = 0; i < tasks.length; i++) {
+    for (let j = i + 1; j < tasks.length; j++) {
+      if (tasks[i].parent_task_id === tasks[j].id || tasks[j].parent_task_id === tasks[i].id) continue;
+      const score = textSimilarity(tasks[i].text || '', tasks[j].text || '', tokens[i], tokens[j]);
+      if (score < threshold) continue;
+      parent[root(j)] = root(i);
+      best.set(j, Math.max(best.get(j) || 0, score));
+      best.set(i, Math.max(best.get(i) || 0, score));
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  for (let i = 0; i < tasks.length; i++) {
+    if (!best.has(i)) continue;
+    const r = root(i);
+    if (!clusters.has(r)) clusters.set(r, []);
+    clusters.get(r)!.push(i);
+  }
+
+  // Tasks are ordered oldest first, so the first member is the one to keep
+  const groups: DuplicateGroup[] = [];
+  for (const members of clusters.values()) {
+    const [keep, ...rest] = members;
+    groups.push({
+      keep: tasks[keep],
+      duplicates: rest.map(i => ({ task: tasks[i], score: textSimilarity(tasks[keep].text || '', tasks[i].text || '', tokens[keep], tokens[i]) })),
+    });
+  }
+  return groups.sort((a, b) => b.duplicates.length - a.duplicates.length || Math.max(...b.duplicates.map(d => d.score)) - Math.max(...a.duplicates.map(d => d.score)));
+}
+
+async function optionalRun(env: any, sql: string, ...bindings: any[]) {
+  try {
+    await env.DB.prepare(sql).bind(...bindings).run();
+  } catch {
+    // Table might not exist yet
+  }
+}
+
+// Fold duplicates into one task: notes are appended, the strongest priority,
+// earliest due date and any estimate win, and history, progress, tags, subtasks,
+// dependencies and launch checklist links move over. The duplicates go to the
+// trash, so restore_task can undo a bad merge (minus the moved history).
+export async function mergeTasks(env: any, actorId: string, keepId: string, mergeIds: string[]): Promise<{ keep: any; merged: any[] } | { error: string }> {
+  const keep = await env.DB.prepare('SELECT * FROM tasks WHERE id = ? AND user_id = ?').bind(keepId, actorId).first();
+  if (!keep || keep.status === 'deleted') return { error: 'Task to keep not found: ' + keepId };
+
+  const merged: any[] = [];
+  for (const id of [...new Set(mergeIds)]) {
+    if (id === keepId) continue;
+    const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(id).first();
+    if (!task || task.status === 'deleted') return { error: 'Task not found: ' + id };
+    if (task.user_id !== keep.user_id) return { error: `"${task.text}" belongs to ${task.user_id} - only your own tasks can be merged` };
+    merged.push(task);
+  }
+  if (merged.length === 0) return { error: 'Nothing to merge - give at least one task other than the one to keep' };
+
+  const notes: string[] = keep.notes ? [keep.notes] : [];
+  for (const task of merged) {
+    const sameText = normalize(task.text || '') === normalize(keep.text || '');
+    if (task.notes) notes.push('— merged from "' + task.text + '" —\n' + task.notes);
+    else if (!sameText) notes.push('— merged from "' + task.text + '" —');
+  }
+  // Subtasks of merged tasks move under the kept task, so the kept task and its own
+  // ancestors must not be among them (they'd loop back onto it). Any of those sitting
+  // under a merged task are lifted to the nearest ancestor that isn't being merged.
+  const mergedIds = new Set(merged.map(t => t.id));
+  const ancestors: any[] = [];
+  for (let parentId = keep.parent_task_id; parentId;) {
+    const parent = await env.DB.prepare('SELECT id, parent_task_id FROM tasks WHERE id = ?').bind(parentId).first();
+    if (!parent || parent.id === keep.id || ancestors.some(a => a.id === parent.id)) break;
+    ancestors.push(parent);
+    parentId = parent.parent_task_id;
+  }
+  const liftFrom = (index: number) => ancestors.slice(index).find(a => !mergedIds.has(a.id))?.id || null;
+  // [keep, ...ancestors][i] has ancestors[i] as its parent
+  const lifts = [keep, ...ancestors]
+    .map((task, i) => ({ task, i }))
+    .filter(({ task, i }) => ancestors[i] && mergedIds.has(ancestors[i].id) && !mergedIds.has(task.id));
+  for (const { task, i } of lifts) {
+    const newParent = liftFrom(i);
+    await env.DB.prepare('UPDATE tasks SET parent_task_id = ?, last_touched = ? WHERE id = ?').bind(newParent, new Date().toISOString(), task.id).run();
+    if (task.id === keep.id) keep.parent_task_id = newParent;
+  }
+
+  const all = [keep, ...merged];
+  const dueDates = all.map(t => t.due_date).filter(Boolean).sort();
+  const ts = new Date().toISOString();
+
+  await env.DB.prepare(
+    'UPDATE tasks SET notes = ?, priority = ?, due_date = ?, is_active = ?, estimated_minutes = ?, category = ?, project = ?, last_touched = ? WHERE id = ?'
+  ).bind(
+    notes.join('\n\n') || null,
+    Math.max(...all.map(t => t.priority || 3)),
+    dueDates[0] || null,
+    all.some(t => t.is_active) ? 1 : 0,
+    keep.estimated_minutes || merged.find(t => t.estimated_minutes)?.estimated_minutes || null,
+    keep.category || merged.find(t => t.category)?.category || null,
+    keep.project || merged.find(t => t.project)?.project || null,
+    ts,
+    keep.id
+  ).run();
+
+  for (const task of merged) {
+    // The duplicate keeps its own 'created' event so creation counts stay right
+    await env.DB.prepare("UPDATE task_events SET task_id = ? WHERE task_id = ? AND event_type != 'created'").bind(keep.id, task.id).run();
+    await env.DB.prepare('UPDATE progress_logs SET task_id = ? WHERE task_id = ?').bind(keep.id, task.id).run();
+    await env.DB.prepare('UPDATE tasks SET parent_task_id = ? WHERE parent_task_id = ? AND id != ?').bind(keep.id, task.id, keep.id).run();
+    await optionalRun(env, 'INSERT OR IGNORE INTO task_tags (task_id, tag_id, created_at) SELECT ?, tag_id, created_at FROM task_tags WHERE task_id = ?', keep.id, task.id);
+    await optionalRun(env, 'DELETE FROM task_dependencies WHERE (task_id = ? AND blocked_by_task_id = ?) OR (task_id = ? AND blocked_by_task_id = ?)', keep.id, task.id, task.id, keep.id);
+    await optionalRun(env, 'UPDATE OR IGNORE task_dependencies SET task_id = ? WHERE task_id = ?', keep.id, task.id);
+    await optionalRun(env, 'UPDATE OR IGNORE task_dependencies SET blocked_by_task_id = ? WHERE blocked_by_task_id = ?', keep.id, task.id);
+    await optionalRun(env, 'UPDATE launch_checklist SET task_id = ? WHERE task_id = ?', keep.id, task.id);
+    await optionalRun(env, "UPDATE task_timers SET task_id = ? WHERE task_id = ? AND status IN ('running', 'paused')", keep.id, task.id);
+    await trashTask(env, actorId, task, { mergedInto: keep.id });
+  }
+
+  await logEvent(env, actorId, 'merged', keep.id, { merged: merged.map(t => ({ id: t.id, text: t.text })) });
+  return { keep: { ...keep, notes: notes.join('\n\n') || null }, merged };
+}
@@ -0,0 +1,306 @@
+// Backlog forecasting - "at this rate, when will it be done?" answered with a Monte
+// Carlo simulation. Each trial walks forward from tomorrow, drawing every day's
+// completions from a random past day of the same weekday, until the remaining work
+// runs out; the spread of finish dates across trials gives the P50/P85 dates and
+// the chance of making a target.
+
+import { type UserClock, shiftDate, toLocalDate, dayOfWeekOf } from './datetime';
+
+export const DEFAULT_FORECAST_HISTORY_DAYS = 42;
+const DEFAULT_TRIALS = 2000;
+
+// Enough for the one-line forecast on sprint and launch views, which can run once
+// per launch on a list - the full run is for forecast_completion and /api/forecast
+export const SUMMARY_FORECAST_TRIALS = 300;
+
+// Two years out counts as "not at this pace"
+const MAX_FORECAST_DAYS = 730;
+
+// Fewer in-scope completions than this and the scope's own pace is too thin to
+// sample, so the forecast falls back to the user's overall throughput
+const MIN_SCOPED_COMPLETIONS = 5;
+
+// Chance of finishing by the target: at or above ON_TRACK is on track, below
+// UNREACHABLE is flagged as unreachable, anything between is at risk
+const ON_TRACK_PROBABILITY = 0.85;
+const UNREACHABLE_PROBABILITY = 0.15;
+
+export interface ForecastFilter {
+  project?: string;
+  category?: string;
+  sprintId?: string;
+  launchId?: string;
+}
+
+export type ForecastTargetStatus = 'on_track' | 'at_risk' | 'unreachable';
+
+export interface Forecast {
+  label: string;
+  unit: 'tasks' | 'checklist items';
+  remaining: number;
+  trials: number;
+  history: {
+    from: string;
+    to: string;
+    days: number;
+    completions: number;
+    perDay: number;
+    scoped: boolean;          // false = the user's overall throughput stood in for the scope's
+  };
+  p50: string | null;         // null = not within two years at this pace
+  p85: string | null;
+  target: { date: string; label: string; probability: number; status: ForecastTargetStatus } | null;
+}
+
+interface ForecastScope {
+  label: string;
+  unit: Forecast['unit'];
+  ownerId: string;
+  remaining: number;
+  target: { date: string; label: string } | null;
+  // UTC timestamps of in-scope completions since the given instant
+  completions: (since: string) => Promise<string[]>;
+}
+
+// SQLite's datetime('now') has no T or Z - read it as UTC like everything else
+function normalizeTimestamp(value: string): string {
+  return value.includes('T') ? value : value.replace(' ', 'T') + 'Z';
+}
+
+async function resolveScope(env: any, userId: string, filter: ForecastFilter): Promise<ForecastScope | { error: string }> {
+  if (filter.launchId) {
+    const launch = await env.DB.prepare('SELECT * FROM launch_projects WHERE id = ?').bind(filter.launchId).first();
+    if (!launch) return { error: 'Launch not found' };
+    const open = await env.DB.prepare('SELECT COUNT(*) as c FROM launch_checklist WHERE project_id = ? AND completed = 0').bind(launch.id).first();
+    return {
+      label: `Launch: ${launch.title}`,
+      unit: 'checklist items',
+      ownerId: launch.user_id,
+      remaining: open?.c || 0,
+      target: launch.target_launch_date ? { date: launch.target_launch_date.split('T')[0], label: 'launch date' } : null,
+      completions: async (since) => {
+        const rows = await env.DB.prepare(
+          'SELECT completed_at FROM launch_checklist WHERE project_id = ? AND completed = 1 AND completed_at IS NOT NULL'
+        ).bind(launch.id).all();
+        return (rows.results as any[]).map(r => normalizeTimestamp(r.completed_at)).filter(ts => ts >= since);
+      },
+    };
+  }
+
+  if (filter.sprintId) {
+    const sprint = await env.DB.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(filter.sprintId, userId).first();
+    if (!sprint) return { error: 'Sprint not found' };
+    const open = await env.DB.prepare(
+      "SELECT COUNT(*) as c FROM tasks t JOIN objectives o ON o.id = t.objective_id WHERE o.sprint_id = ? AND t.user_id = ? AND t.status = 'open'"
+    ).bind(sprint.id, userId).first();
+    return {
+      label: `Sprint: ${sprint.name}`,
+      unit: 'tasks',
+      ownerId: userId,
+      remaining: open?.c || 0,
+      target: { date: sprint.end_date.split('T')[0], label: 'sprint end' },
+      completions: async (since) => {
+        const rows = await env.DB.prepare(`
+          SELECT te.created_at FROM task_events te
+          JOIN tasks t ON t.id = te.task_id
+          JOIN objectives o ON o.id = t.objective_id
+          WHERE te.user_id = ? AND te.event_type = 'completed' AND te.created_at >= ? AND o.sprint_id = ?
+        `).bind(userId, since, sprint.id).all();
+        return (rows.results as any[]).map(r => r.created_at);
+      },
+    };
+  }
+
+  // Project and/or category - or the whole open backlog when neither is given
+  const conditions: string[] = [];
+  const params: any[] = [];
+  if (filter.project) { conditions.push('t.project = ? COLLATE NOCASE'); params.push(filter.project); }
+  if (filter.category) { conditions.push('t.category = ? COLLATE NOCASE'); params.push(filter.category); }
+  const where = conditions.map(c => ' AND ' + c).join('');
+  const labelParts = [filter.project ? `project ${filter.project}` : '', filter.category ? `category ${filter.category}` : ''].filter(Boolean);
+
+  const open = await env.DB.prepare(`SELECT COUNT(*) as c FROM tasks t WHERE t.user_id = ? AND t.status = 'open'${where}`).bind(userId, ...params).first();
+  return {
+    label: labelParts.length > 0 ? capitalize(labelParts.join(', ')) : 'All open tasks',
+    unit: 'tasks',
+    ownerId: userId,
+    remaining: open?.c || 0,
+    target: null,
+    completions: async (since) => {
+      const rows = await env.DB.prepare(`
+        SELECT te.created_at FROM task_events te
+        JOIN tasks t ON t.id = te.task_id
+        WHERE te.user_id = ? AND te.event_type = 'completed' AND te.created_at >= ?${where}
+      `).bind(userId, since, ...params).all();
+      return (rows.results as any[]).map(r => r.created_at);
+    },
+  };
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Small seeded PRNG (mulberry32) so the same backlog gives the same forecast all day
+function seededRandom(seedText: string): () => number {
+  let seed = 0;
+  for (let i = 0; i < seedText.length; i++) seed = (Math.imul(31, seed) + seedText.charCodeAt(i)) | 0;
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Days from today until the remaining work is done in each trial (Infinity past the horizon)
+function simulate(remaining: number, history: { date: string; count: number }[], today: string, trials: number, random: () => number): number[] {
+  const byWeekday: number[][] = [[], [], [], [], [], [], []];
+  for (const day of history) byWeekday[dayOfWeekOf(day.date)].push(day.count);
+  const all = history.map(d => d.count);
+
+  // Weekday of each future day, computed once
+  const weekdays: number[] = [];
+  for (let offset = 1; offset <= MAX_FORECAST_DAYS; offset++) weekdays.push(dayOfWeekOf(shiftDate(today, offset)));
+
+  const results: number[] = [];
+  for (let trial = 0; trial < trials; trial++) {
+    let left = remaining;
+    let offset = 0;
+    while (left > 0 && offset < MAX_FORECAST_DAYS) {
+      const pool = byWeekday[weekdays[offset]].length > 0 ? byWeekday[weekdays[offset]] : all;
+      left -= pool[Math.floor(random() * pool.length)];
+      offset++;
+    }
+    results.push(left > 0 ? Infinity : offset);
+  }
+  return results.sort((a, b) => a - b);
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+export async function forecastCompletion(
+  env: any, userId: string, clock: UserClock, filter: ForecastFilter,
+  options: { historyDays?: number; targetDate?: string; trials?: number } = {}
+): Promise<Forecast | { error: string }> {
+  const scope = await resolveScope(env, userId, filter);
+  if ('error' in scope) return scope;
+
+  // History runs up to yesterday, starting no earlier than the user's first logged day
+  // so the weeks before they used the system don't read as zero-throughput days
+  let from = clock.daysAgo(options.historyDays || DEFAULT_FORECAST_HISTORY_DAYS);
+  const to = clock.daysAgo(1);
+  const first = await env.DB.prepare('SELECT MIN(log_date) as first FROM daily_logs WHERE user_id = ?').bind(scope.ownerId).first();
+  if (first?.first && first.first > from) from = first.first;
+  if (from > to) from = to;
+
+  const dates: string[] = [];
+  for (let d = from; d <= to; d = shiftDate(d, 1)) dates.push(d);
+
+  const counts = new Map<string, number>(dates.map(d => [d, 0]));
+  const scopedCompletions = (await scope.completions(clock.startOf(from)))
+    .map(ts => toLocalDate(ts, clock.timeZone))
+    .filter(d => counts.has(d));
+  const scoped = scopedCompletions.length >= MIN_SCOPED_COMPLETIONS;
+
+  if (scoped) {
+    for (const d of scopedCompletions) counts.set(d, (counts.get(d) || 0) + 1);
+  } else {
+    const logs = await env.DB.prepare(
+      'SELECT log_date, tasks_completed FROM daily_logs WHERE user_id = ? AND log_date >= ? AND log_date <= ?'
+    ).bind(scope.ownerId, from, to).all();
+    for (const row of logs.results as any[]) counts.set(row.log_date, row.tasks_completed || 0);
+  }
+
+  const history = dates.map(date => ({ date, count: counts.get(date) || 0 }));
+  const completions = history.reduce((sum, d) => sum + d.count, 0);
+  const base: Omit<Forecast, 'p50' | 'p85' | 'target'> = {
+    label: scope.label,
+    unit: scope.unit,
+    remaining: scope.remaining,
+    trials: options.trials || DEFAULT_TRIALS,
+    history: { from, to, days: dates.length, completions, perDay: Math.round((completions / Math.max(1, dates.length)) * 10) / 10, scoped },
+  };
+  const targetDate = options.targetDate || scope.target?.date || null;
+  const targetLabel = options.targetDate ? 'target' : scope.target?.label || 'target';
+
+  if (scope.remaining === 0) {
+    return { ...base, p50: clock.today, p85: clock.today, target: targetDate ? { date: targetDate, label: targetLabel, probability: 1, status: 'on_track' } : null };
+  }
+  if (completions === 0) return { error: `No completions between ${from} and ${to} - nothing to project from yet` };
+
+  const random = seededRandom(`${scope.label}|${clock.today}|${scope.remaining}`);
+  const finishes = simulate(scope.remaining, history, clock.today, base.trials, random);
+  const toDate = (offset: number) => (Number.isFinite(offset) ? shiftDate(clock.today, offset) : null);
+
+  let target: Forecast['target'] = null;
+  if (targetDate) {
+    const allowed = Math.max(0, Math.round((Date.parse(targetDate + 'T00:00:00Z') - Date.parse(clock.today + 'T00:00:00Z')) / 86400000));
+    const probability = finishes.filter(f => f <= allowed).length / finishes.length;
+    const status: ForecastTargetStatus = probability >= ON_TRACK_PROBABILITY ? 'on_track' : probability < UNREACHABLE_PROBABILITY ? 'unreachable' : 'at_risk';
+    target = { date: targetDate, label: targetLabel, probability: Math.round(probability * 100) / 100, status };
+  }
+
+  return { ...base, p50: toDate(percentile(finishes, 0.5)), p85: toDate(percentile(finishes, 0.85)), target };
+}
+
+// ==================== FORMATTING ====================
+
+function formatDate(date: string | null): string {
+  if (!date) return 'not within 2 years';
+  return new Date(date + 'T12:00:00Z').toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+// One line for sprint and launch views; the target flag comes first when there is one
+export function formatForecastLine(forecast: Forecast): string {
+  if (forecast.remaining === 0) return `🎲 Forecast: nothing left`;
+  let line = `🎲 Forecast: 50% by ${formatDate(forecast.p50)}, 85% by ${formatDate(forecast.p85)}`;
+  const target = forecast.target;
+  if (!target) return line;
+
+  const chance = `${Math.round(target.probability * 100)}% chance of making the ${target.label} (${formatDate(target.date)})`;
+  if (target.status === 'unreachable') return `⛔ ${target.label.charAt(0).toUpperCase() + target.label.slice(1)} looks unreachable at this pace - ${chance}\n${line}`;
+  line += ` · ${chance}`;
+  return target.status === 'at_risk' ? `${line} ⚠️` : line;
+}
+
+export function formatForecast(forecast: Forecast): string {
+  const h = forecast.history;
+  let out = `🎲 **${forecast.label}**\n\n`;
+  if (forecast.remaining === 0) return out + `Nothing left - all ${forecast.unit} are done.`;
+
+  out += `Remaining: ${forecast.remaining} ${forecast.unit}\n`;
+  out += `50% likely done by **${formatDate(forecast.p50)}**\n`;
+  out += `85% likely done by **${formatDate(forecast.p85)}**\n`;
+  if (forecast.target) {
+    const icon = forecast.target.status === 'on_track' ? '✅' : forecast.target.status === 'at_risk' ? '⚠️' : '⛔';
+    const verdict = forecast.target.status === 'on_track' ? 'on track' : forecast.target.status === 'at_risk' ? 'at risk' : 'looks unreachable at this pace';
+    out += `${icon} ${capitalize(forecast.target.label)} ${formatDate(forecast.target.date)}: ${Math.round(forecast.target.probability * 100)}% chance - ${verdict}\n`;
+  }
+  out += `\nBased on ${h.completions} ${h.scoped ? forecast.unit : 'tasks'} completed over ${h.days} days (${h.from} → ${h.to}, ${h.perDay}/day)`;
+  if (!h.scoped) out += ` - your overall pace, since there weren't enough completions in this scope`;
+  out += `. ${forecast.trials} simulated runs, each day drawn from a past day of the same weekday.`;
+  return out;
+}
+
+export function forecastToJson(forecast: Forecast) {
+  return {
+    label: forecast.label,
+    unit: forecast.unit,
+    remaining: forecast.remaining,
+    trials: forecast.trials,
+    p50: forecast.p50,
+    p85: forecast.p85,
+    target: forecast.target,
+    history: {
+      from: forecast.history.from,
+      to: forecast.history.to,
+      days: forecast.history.days,
+      completions: forecast.history.completions,
+      per_day: forecast.history.perDay,
+      scoped: forecast.history.scoped,
+    },
+  };
+}
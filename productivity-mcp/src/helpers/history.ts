@@ -0,0 +1,76 @@
+// Task history - rebuilds a task's timeline from task_events
+
+// Keys logEvent adds to every event, or that only matter for pattern analysis
+const META_KEYS = new Set(['day', 'time', 'bulk', 'was', 'focusLevel', 'text', 'source', 'template']);
+
+export interface TimelineEntry {
+  at: string;        // ISO timestamp
+  type: string;
+  summary: string;
+  actor: string;
+}
+
+export async function getTaskEvents(env: any, taskId: string): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare(
+      'SELECT * FROM task_events WHERE task_id = ? ORDER BY created_at ASC'
+    ).bind(taskId).all();
+    return result.results || [];
+  } catch {
+    return [];
+  }
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === '') return '(cleared)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  return String(value);
+}
+
+export function describeTaskEvent(eventType: string, data: any): string {
+  const bulk = data.bulk ? ' (bulk)' : '';
+  switch (eventType) {
+    case 'created': {
+      let out = '➕ Created';
+      if (data.source === 'recurring') out += ' as the next occurrence' + (data.previousTaskId ? ' of ' + data.previousTaskId : '');
+      if (data.template) out += ' from template "' + data.template + '"';
+      if (data.parentTask) out += ' as a subtask of ' + data.parentTask;
+      if (data.assignedBy) out += ' (assigned by ' + data.assignedBy + ')';
+      if (data.priority) out += ' · P' + data.priority;
+      if (data.recurrence) out += ' · 🔄' + data.recurrence;
+      if (data.estimatedMinutes) out += ' · ⏱️' + data.estimatedMinutes + 'm';
+      return out;
+    }
+    case 'updated': {
+      const fields = Object.entries(data).filter(([key]) => !META_KEYS.has(key));
+      if (fields.length === 0) return '✏️ Updated' + bulk;
+      return '✏️ Updated ' + fields.map(([key, value]) => key + ' → ' + formatValue(value)).join(', ') + bulk;
+    }
+    case 'snoozed': return '😴 Snoozed until ' + data.until + bulk;
+    case 'completed': return '✅ Completed' + (data.completedBy ? ' by ' + data.completedBy : '') + bulk;
+    case 'recurred': return '🔄 Recurred → next occurrence due ' + data.nextDue + (data.nextTaskId ? ' (ID: ' + data.nextTaskId + ')' : '');
+    case 'recurring_completed': return '🔄 Completed this occurrence, rolled forward to ' + data.next_date;
+    case 'catchup': return '⏭️ Caught up ' + data.oldDate + ' → ' + data.newDate;
+    case 'deleted': return data.mergedInto ? '🔀 Merged into ' + data.mergedInto : '🗑️ Moved to trash' + bulk;
+    case 'merged': return '🔀 Merged in ' + (data.merged || []).map((t: any) => '"' + t.text + '"').join(', ');
+    case 'restored': return '♻️ Restored from trash (' + data.status + ')';
+    case 'reassigned': return '👥 Reassigned ' + data.from + ' → ' + data.to + bulk;
+    case 'tagged': return '🏷️ Tagged ' + formatValue(data.tags);
+    case 'untagged': return '🏷️ Untagged ' + formatValue(data.tags);
+    case 'dependency_added': return '⛓️ Now blocked by ' + data.blockedBy;
+    case 'dependency_removed': return '🔓 Dependency removed (' + data.blockedBy + ')';
+    case 'unblocked': return '🔓 Unblocked (' + data.unblockedBy + ' finished)';
+    case 'broken_down': return '🔨 Broken into ' + data.subtaskCount + ' subtasks' + (data.template ? ' (template "' + data.template + '")' : '');
+    case 'progress': return (data.timer ? '⏱️ Timed: ' : '📝 Progress: ') + data.description + (data.minutes_spent ? ' (' + data.minutes_spent + 'm)' : '');
+    default: return '• ' + eventType;
+  }
+}
+
+export async function getTaskTimeline(env: any, taskId: string): Promise<TimelineEntry[]> {
+  const events = await getTaskEvents(env, taskId);
+  return events.map((e: any) => {
+    let data: any = {};
+    try { data = JSON.parse(e.event_data || '{}'); } catch { /* keep empty */ }
+    return { at: e.created_at, type: e.event_type, summary: describeTaskEvent(e.event_type, data), actor: e.user_id };
+  });
+}
@@ -0,0 +1,597 @@
+// Task import/export - CSV, JSON, Markdown checklists and Todoist's CSV format.
+// Imports are parsed into a plan first (tasks to create, duplicates, problem rows)
+// so import_tasks can show a dry run before anything is written.
+
+import { needsBreakdown, isVagueTask, inferFocusLevel, parseDateInput } from './utils';
+import { logEvent, updateDailyLog } from './intelligence';
+import { parseChecklistLine } from './launch-parser';
+import { parseRecurrence, normalizeRecurrence } from './recurrence';
+import { getTaskTagMap, tagTask, normalizeTagName } from './tags';
+import { DUPLICATE_THRESHOLD, taskTokens, textSimilarity } from './duplicates';
+
+export const TASK_FILE_FORMATS = ['csv', 'json', 'markdown', 'todoist'] as const;
+export type TaskFileFormat = typeof TASK_FILE_FORMATS[number];
+
+// Each imported task costs about six D1 queries (insert, find/create and attach its
+// tags, the created event with its timezone lookup), and one invocation gets roughly
+// 1000 - this keeps an import from failing partway through
+export const MAX_IMPORT_TASKS = 150;
+
+export interface ImportedTask {
+  line: number;                 // row/line in the source, for the report
+  text: string;
+  status: 'open' | 'done';
+  priority: number;
+  due_date: string | null;
+  recurrence: string | null;
+  category: string | null;
+  project: string | null;
+  notes: string | null;
+  tags: string[];
+  estimated_minutes: number | null;
+  completed_at: string | null;
+}
+
+export interface ImportProblem {
+  line: number;
+  text: string;
+  error: string;
+}
+
+export interface ImportPlan {
+  format: TaskFileFormat;
+  create: ImportedTask[];
+  duplicates: (ImportedTask & { existing: boolean; match: string })[];   // match = the text it duplicates
+  problems: ImportProblem[];
+}
+
+// Field values as they appear in the file, before validation
+interface RawTask {
+  line: number;
+  text?: string;
+  status?: string;
+  priority?: string | number;
+  due?: string;
+  recurrence?: string;
+  category?: string;
+  project?: string;
+  notes?: string;
+  tags?: string[];
+  estimated_minutes?: string | number;
+  completed_at?: string;
+}
+
+// Accepted column/key names for each field (CSV headers and JSON keys)
+const FIELD_ALIASES: Record<string, string[]> = {
+  text: ['text', 'title', 'task', 'content', 'name'],
+  status: ['status', 'done', 'completed'],
+  priority: ['priority'],
+  due: ['due_date', 'due', 'duedate', 'deadline', 'date'],
+  recurrence: ['recurrence', 'repeat', 'recurring'],
+  category: ['category', 'section', 'list'],
+  project: ['project'],
+  notes: ['notes', 'description', 'note'],
+  tags: ['tags', 'labels'],
+  estimated_minutes: ['estimated_minutes', 'estimate', 'minutes'],
+  completed_at: ['completed_at', 'completed_date'],
+};
+
+const EXPORT_COLUMNS = ['text', 'status', 'priority', 'due_date', 'recurrence', 'category', 'project', 'notes', 'tags', 'estimated_minutes', 'created_at', 'completed_at'];
+const TODOIST_COLUMNS = ['TYPE', 'CONTENT', 'DESCRIPTION', 'PRIORITY', 'INDENT', 'AUTHOR', 'RESPONSIBLE', 'DATE', 'DATE_LANG', 'TIMEZONE', 'DURATION', 'DURATION_UNIT'];
+
+const PRIORITY_WORDS: Record<string, number> = { critical: 5, urgent: 5, high: 4, medium: 3, normal: 3, low: 2, lowest: 1 };
+
+// Todoist p1 (most urgent) .. p4 (no priority)
+const TODOIST_TO_PRIORITY: Record<string, number> = { '1': 5, '2': 4, '3': 3, '4': 3 };
+
+export function normalizeTaskText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// ==================
+// CSV
+// ==================
+
+// RFC 4180-style: quoted fields may contain commas, "" and newlines.
+// Each row carries the line it started on.
+export function parseCsv(content: string): { cells: string[]; line: number }[] {
+  const rows: { cells: string[]; line: number }[] = [];
+  let cells: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(field);
+    if (cells.some(c => c.trim() !== '')) rows.push({ cells, line: rowLine });
+    cells = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else {
+        if (ch === '\n') line++;
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || cells.length > 0) endRow();
+  return rows;
+}
+
+function csvCell(value: any): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+}
+
+export function toCsv(rows: any[][]): string {
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[,;|]/).map(v => v.trim()).filter(Boolean);
+}
+
+// Map a row's keys onto RawTask fields using FIELD_ALIASES
+function rawFromRecord(record: Record<string, any>, line: number): RawTask {
+  const keys = new Map(Object.keys(record).map(k => [k.trim().toLowerCase(), k]));
+  const pick = (field: string) => {
+    for (const alias of FIELD_ALIASES[field]) {
+      const key = keys.get(alias);
+      if (key !== undefined && record[key] !== null && record[key] !== undefined && record[key] !== '') return record[key];
+    }
+    return undefined;
+  };
+
+  const str = (field: string) => {
+    const value = pick(field);
+    return value === undefined ? undefined : String(value);
+  };
+
+  const tags = pick('tags');
+  const status = pick('status');
+  return {
+    line,
+    text: str('text'),
+    status: typeof status === 'boolean' ? (status ? 'done' : 'open') : str('status'),
+    priority: pick('priority'),
+    due: str('due'),
+    recurrence: str('recurrence'),
+    category: str('category'),
+    project: str('project'),
+    notes: str('notes'),
+    tags: Array.isArray(tags) ? tags.map(String) : tags !== undefined ? splitList(String(tags)) : undefined,
+    estimated_minutes: pick('estimated_minutes'),
+    completed_at: str('completed_at'),
+  };
+}
+
+function parseCsvTasks(content: string): RawTask[] | { error: string } {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return { error: 'The CSV is empty' };
+  const columns = header.cells.map(c => c.trim());
+  if (!columns.some(c => FIELD_ALIASES.text.includes(c.toLowerCase()))) {
+    return { error: 'The CSV needs a header row with a "text" (or "title") column' };
+  }
+  return rows.map(row => rawFromRecord(Object.fromEntries(columns.map((c, i) => [c, row.cells[i] ?? ''])), row.line));
+}
+
+// ==================
+// JSON
+// ==================
+
+function parseJsonTasks(content: string): RawTask[] | { error: string } {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (e: any) {
+    return { error: 'Invalid JSON: ' + e.message };
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.tasks) ? data.tasks : null;
+  if (!list) return { error: 'Expected an array of tasks or an object with a "tasks" array' };
+  return list.map((item: any, i: number) =>
+    typeof item === 'string' ? { line: i + 1, text: item } : rawFromRecord(item && typeof item === 'object' ? item : {}, i + 1)
+  );
+}
+
+// ==================
+// MARKDOWN CHECKLISTS
+// ==================
+
+// Same "- [ ] Item [TAGS]" syntax as launch documents. # headings set the category,
+// ## headings the project. Bracket tags: [P1]-[P5], [CRITICAL], [DUE:friday],
+// [DAILY]/[WEEKLY]/[EVERY:mon,thu], [EST:45], [PROJECT:name]; anything else is a tag.
+// Indented lines under an item become its notes.
+function parseMarkdownTasks(content: string): RawTask[] {
+  const tasks: RawTask[] = [];
+  let category: string | undefined;
+  let project: string | undefined;
+  let current: RawTask | null = null;
+
+  content.split(/\r?\n/).forEach((line, i) => {
+    const heading = line.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      if (heading[1].length === 1) { category = heading[2].trim(); project = undefined; }
+      else project = heading[2].trim();
+      current = null;
+      return;
+    }
+
+    const item = parseChecklistLine(line);
+    if (item) {
+      current = { line: i + 1, text: item.text, status: item.checked ? 'done' : 'open', category, project, tags: [] };
+      for (const tag of item.tags) {
+        const [key, ...rest] = tag.split(':');
+        const value = rest.join(':').trim();
+        const upper = key.trim().toUpperCase();
+        if (/^P[1-5]$/.test(upper) && !value) current.priority = Number(upper[1]);
+        else if (upper === 'CRITICAL' && !value) current.priority = 5;
+        else if (upper === 'PRIORITY' && value) current.priority = value;
+        else if (upper === 'DUE' && value) current.due = value;
+        else if ((upper === 'DAILY' || upper === 'WEEKLY') && !value) current.recurrence = upper.toLowerCase();
+        else if (upper === 'EVERY' && value) current.recurrence = value;
+        else if (upper === 'EST' && value) current.estimated_minutes = value.replace(/m(in)?$/i, '');
+        else if (upper === 'PROJECT' && value) current.project = value;
+        else current.tags!.push(tag.trim());
+      }
+      tasks.push(current);
+      return;
+    }
+
+    // Indented text under an item is its notes
+    const last = current as RawTask | null;
+    if (last && /^\s+\S/.test(line)) {
+      const text = line.trim().replace(/^>\s?/, '');
+      last.notes = last.notes ? last.notes + '\n' + text : text;
+    } else if (line.trim()) {
+      current = null;
+    }
+  });
+
+  return tasks;
+}
+
+// ==================
+// TODOIST
+// ==================
+
+// Todoist's natural-language repeats ("every day", "every other week", "every mon, thu")
+export function todoistRecurrence(date: string): string | null {
+  const text = date.trim().toLowerCase().replace(/^every!?\s+/, '');
+  if (text === date.trim().toLowerCase()) return null;
+
+  const simple: Record<string, string> = {
+    day: 'daily', weekday: 'weekdays', workday: 'weekdays', week: 'weekly', 'other week': 'biweekly',
+    month: 'monthly', year: 'yearly', 'other day': 'FREQ=DAILY;INTERVAL=2', 'other month': 'FREQ=MONTHLY;INTERVAL=2',
+  };
+  if (simple[text]) return simple[text];
+
+  const interval = text.match(/^(\d+)\s+(day|week|month|year)s?$/);
+  if (interval) {
+    const freq = { day: 'DAILY', week: 'WEEKLY', month: 'MONTHLY', year: 'YEARLY' }[interval[2] as 'day' | 'week' | 'month' | 'year'];
+    return 'FREQ=' + freq + ';INTERVAL=' + interval[1];
+  }
+
+  const days = text.replace(/\s+and\s+/g, ',').split(/\s*,\s*/).map(d => d.slice(0, 3)).join(',');
+  return normalizeRecurrence(days) ? days : null;
+}
+
+function parseTodoistTasks(content: string): RawTask[] | { error: string } {
+  const [header, ...rows] = parseCsv(content);
+  const columns = (header?.cells || []).map(c => c.trim().toUpperCase());
+  const col = (name: string) => columns.indexOf(name);
+  if (col('TYPE') === -1 || col('CONTENT') === -1) return { error: 'Not a Todoist export - expected TYPE and CONTENT columns' };
+
+  const tasks: RawTask[] = [];
+  let section: string | undefined;
+  for (const row of rows) {
+    const get = (name: string) => (col(name) === -1 ? '' : (row.cells[col(name)] || '').trim());
+    const type = get('TYPE').toLowerCase();
+
+    if (type === 'section') {
+      section = get('CONTENT') || undefined;
+    } else if (type === 'note' && tasks.length > 0) {
+      const last = tasks[tasks.length - 1];
+      last.notes = last.notes ? last.notes + '\n' + get('CONTENT') : get('CONTENT');
+    } else if (type === 'task') {
+      const content = get('CONTENT');
+      const labels = [...content.matchAll(/(?:^|\s)@([\w-]+)/g)].map(m => m[1].replace(/_/g, ' '));
+      const date = get('DATE');
+      const recurrence = date ? todoistRecurrence(date) : null;
+      const duration = Number(get('DURATION'));
+
+      tasks.push({
+        line: row.line,
+        text: content.replace(/(?:^|\s)@[\w-]+/g, '').trim(),
+        priority: TODOIST_TO_PRIORITY[get('PRIORITY')] ?? 3,
+        due: recurrence ? undefined : date || undefined,
+        recurrence: recurrence || (date && /^every/i.test(date) ? date : undefined),
+        category: section,
+        notes: get('DESCRIPTION') || undefined,
+        tags: labels,
+        estimated_minutes: duration > 0 && get('DURATION_UNIT').toLowerCase().startsWith('minute') ? duration : undefined,
+      });
+    }
+  }
+  return tasks;
+}
+
+// ==================
+// IMPORT
+// ==================
+
+export function detectTaskFileFormat(content: string): TaskFileFormat | null {
+  const text = content.trim();
+  if (text.startsWith('[') || text.startsWith('{')) return 'json';
+  const firstLine = text.split(/\r?\n/)[0].toUpperCase();
+  if (/^"?TYPE"?,\s*"?CONTENT"?/.test(firstLine)) return 'todoist';
+  if (text.split(/\r?\n/).some(line => parseChecklistLine(line))) return 'markdown';
+  if (firstLine.includes(',')) return 'csv';
+  return null;
+}
+
+function resolveTask(raw: RawTask, timeZone: string, today: string, defaultCategory: string | null): ImportedTask | string {
+  const text = (raw.text || '').trim();
+  if (!text) return 'No task text';
+
+  let priority = 3;
+  if (raw.priority !== undefined && raw.priority !== '') {
+    const word = PRIORITY_WORDS[String(raw.priority).trim().toLowerCase()];
+    priority = word ?? Number(String(raw.priority).replace(/^p/i, ''));
+    if (!Number.isInteger(priority) || priority < 1 || priority > 5) return `Priority "${raw.priority}" isn't 1-5`;
+  }
+
+  let dueDate: string | null = null;
+  if (raw.due) {
+    dueDate = parseDateInput(/^\d{4}-\d{2}-\d{2}T/.test(raw.due) ? raw.due.split('T')[0] : raw.due, timeZone);
+    if (!dueDate) return `Couldn't understand due date "${raw.due}"`;
+  }
+
+  let recurrence: string | null = null;
+  if (raw.recurrence) {
+    recurrence = todoistRecurrence(raw.recurrence) || raw.recurrence.trim();
+    if (!parseRecurrence(recurrence)) return `Couldn't understand recurrence "${raw.recurrence}"`;
+  }
+
+  let estimate: number | null = null;
+  if (raw.estimated_minutes !== undefined && raw.estimated_minutes !== '') {
+    estimate = Number(raw.estimated_minutes);
+    if (!Number.isInteger(estimate) || estimate < 1) return `Estimate "${raw.estimated_minutes}" isn't a whole number of minutes`;
+  }
+
+  const done = /^(done|completed?|closed|x|true|yes|1)$/i.test((raw.status || '').trim());
+  const completedAt = done && raw.completed_at && !Number.isNaN(Date.parse(raw.completed_at)) ? new Date(raw.completed_at).toISOString() : null;
+
+  return {
+    line: raw.line,
+    text,
+    status: done ? 'done' : 'open',
+    priority,
+    due_date: dueDate || (recurrence ? today : null),
+    recurrence,
+    category: raw.category?.trim() || defaultCategory,
+    project: raw.project?.trim() || null,
+    notes: raw.notes?.trim() || null,
+    tags: (raw.tags || []).map(normalizeTagName).filter(Boolean),
+    estimated_minutes: estimate,
+    completed_at: completedAt,
+  };
+}
+
+// Parse and validate a file, and sort its tasks into create / duplicate / problem.
+// Duplicates match an existing (non-trashed) task or an earlier row by text, ignoring case
+// and spacing, or look like an open task or earlier row by the same similarity score
+// add_task uses. The open tasks are loaded once rather than through findSimilarTasks per
+// row, which would cost a query per task on top of the import's own.
+export async function planImport(
+  env: any,
+  userId: string,
+  content: string,
+  options: { format?: TaskFileFormat; timeZone: string; today: string; category?: string | null; skipDuplicates?: boolean }
+): Promise<ImportPlan | { error: string }> {
+  const format = options.format || detectTaskFileFormat(content);
+  if (!format) return { error: 'Couldn\'t tell the format - pass format: csv, json, markdown or todoist' };
+
+  const parsed = format === 'csv' ? parseCsvTasks(content)
+    : format === 'json' ? parseJsonTasks(content)
+    : format === 'todoist' ? parseTodoistTasks(content)
+    : parseMarkdownTasks(content);
+  if ('error' in parsed) return parsed;
+  if (parsed.length === 0) return { error: `No tasks found in that ${format} file` };
+  if (parsed.length > MAX_IMPORT_TASKS) return { error: `That's ${parsed.length} tasks - split it into files of ${MAX_IMPORT_TASKS} or fewer` };
+
+  const existing = await env.DB.prepare("SELECT text, status FROM tasks WHERE user_id = ? AND status != 'deleted'").bind(userId).all();
+  const existingTexts = new Map((existing.results as any[]).map(t => [normalizeTaskText(t.text || ''), t.text as string]));
+  const seen = new Map<string, string>();
+  // Candidates for the similarity check: open tasks, then each row as it's accepted
+  const similar = (existing.results as any[])
+    .filter(t => t.status === 'open')
+    .map(t => ({ text: t.text || '', tokens: taskTokens(t.text || ''), existing: true }));
+
+  const plan: ImportPlan = { format, create: [], duplicates: [], problems: [] };
+  for (const raw of parsed) {
+    const task = resolveTask(raw, options.timeZone, options.today, options.category || null);
+    if (typeof task === 'string') {
+      plan.problems.push({ line: raw.line, text: raw.text || '', error: task });
+      continue;
+    }
+
+    const key = normalizeTaskText(task.text);
+    const tokens = taskTokens(task.text);
+    if (options.skipDuplicates !== false) {
+      const exact = existingTexts.get(key) ?? seen.get(key);
+      if (exact !== undefined) {
+        plan.duplicates.push({ ...task, existing: existingTexts.has(key), match: exact });
+        continue;
+      }
+      const lookalike = similar.find(c => textSimilarity(task.text, c.text, tokens, c.tokens) >= DUPLICATE_THRESHOLD);
+      if (lookalike) {
+        plan.duplicates.push({ ...task, existing: lookalike.existing, match: lookalike.text });
+        continue;
+      }
+    }
+    seen.set(key, task.text);
+    similar.push({ text: task.text, tokens, existing: false });
+    plan.create.push(task);
+  }
+  return plan;
+}
+
+// Create the planned tasks; returns how many were created
+export async function importTasks(env: any, userId: string, plan: ImportPlan): Promise<number> {
+  let openCreated = 0;
+  for (const task of plan.create) {
+    const id = crypto.randomUUID();
+    const ts = new Date().toISOString();
+    const completedAt = task.status === 'done' ? task.completed_at || ts : null;
+
+    await env.DB.prepare(
+      'INSERT INTO tasks (id, user_id, text, priority, due_date, category, project, status, created_at, last_touched, completed_at, needs_breakdown, is_vague, focus_level, notes, recurrence, estimated_minutes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(
+      id, userId, task.text, task.priority, task.due_date, task.category, task.project, task.status, ts, ts, completedAt,
+      needsBreakdown(task.text) ? 1 : 0, isVagueTask(task.text) ? 1 : 0, inferFocusLevel(task.text), task.notes, task.recurrence, task.estimated_minutes,
+    ).run();
+
+    let tags: string[] = [];
+    const tagNames = [...task.tags, ...(task.category ? [task.category] : [])];
+    if (tagNames.length > 0) {
+      try {
+        tags = await tagTask(env, userId, id, tagNames);
+      } catch {
+        // Tags table might not exist yet - the task itself is saved
+      }
+    }
+
+    await logEvent(env, userId, 'created', id, { text: task.text, priority: task.priority, category: task.category, tags, recurrence: task.recurrence, source: 'import', format: plan.format });
+    if (task.status === 'open') openCreated++;
+  }
+
+  if (openCreated > 0) await updateDailyLog(env, userId, 'tasks_created', openCreated);
+  return plan.create.length;
+}
+
+// ==================
+// EXPORT
+// ==================
+
+export interface ExportFilter {
+  status: 'open' | 'done' | 'all';
+  category?: string;
+  project?: string;
+}
+
+export async function getExportTasks(env: any, userId: string, filter: ExportFilter): Promise<any[]> {
+  let query = 'SELECT * FROM tasks WHERE user_id = ?';
+  const bindings: any[] = [userId];
+  if (filter.status === 'all') query += " AND status != 'deleted'";
+  else {
+    query += ' AND status = ?';
+    bindings.push(filter.status);
+  }
+  if (filter.category) {
+    query += ' AND category = ?';
+    bindings.push(filter.category);
+  }
+  if (filter.project) {
+    query += ' AND project = ?';
+    bindings.push(filter.project);
+  }
+
+  const result = await env.DB.prepare(query + ' ORDER BY category ASC, priority DESC, created_at ASC').bind(...bindings).all();
+  const tagMap = await getTaskTagMap(env, userId);
+  // The category is also stored as a tag - don't repeat it
+  return (result.results as any[]).map(t => ({
+    ...t,
+    tags: (tagMap.get(t.id) || []).filter(tag => tag.toLowerCase() !== (t.category || '').toLowerCase()),
+  }));
+}
+
+// Stored recurrence -> Todoist's "every ..." wording; RRULEs it can't express fall back to the due date
+function todoistDate(task: any): string {
+  if (!task.recurrence) return task.due_date || '';
+  const simple: Record<string, string> = {
+    daily: 'every day', weekdays: 'every weekday', weekly: 'every week', biweekly: 'every other week', monthly: 'every month', yearly: 'every year',
+  };
+  const lower = task.recurrence.trim().toLowerCase();
+  if (simple[lower]) return simple[lower];
+  if (/^[a-z]{3}(,\s*[a-z]{3})*$/.test(lower)) return 'every ' + lower.split(/,\s*/).join(', ');
+  return task.due_date || '';
+}
+
+function markdownLine(task: any): string {
+  let line = '- [' + (task.status === 'done' ? 'x' : ' ') + '] ' + task.text;
+  if (task.priority && task.priority !== 3) line += ' [P' + task.priority + ']';
+  if (task.due_date && !task.recurrence) line += ' [DUE:' + task.due_date + ']';
+  if (task.recurrence) line += ' [EVERY:' + task.recurrence + ']';
+  if (task.estimated_minutes) line += ' [EST:' + task.estimated_minutes + ']';
+  if (task.project) line += ' [PROJECT:' + task.project + ']';
+  for (const tag of task.tags) line += ' [' + tag + ']';
+  if (task.notes) line += '\n' + task.notes.split('\n').map((n: string) => '  ' + n).join('\n');
+  return line;
+}
+
+// Render tasks (from getExportTasks) in one of the file formats
+export function formatTaskExport(tasks: any[], format: TaskFileFormat, timeZone: string): string {
+  if (format === 'json') {
+    return JSON.stringify({
+      exported_at: new Date().toISOString(),
+      tasks: tasks.map(t => Object.fromEntries(EXPORT_COLUMNS.map(c => [c, t[c] ?? (c === 'tags' ? [] : null)]))),
+    }, null, 2);
+  }
+
+  if (format === 'csv') {
+    return toCsv([EXPORT_COLUMNS, ...tasks.map(t => EXPORT_COLUMNS.map(c => (c === 'tags' ? t.tags.join(', ') : t[c])))]);
+  }
+
+  // Markdown and Todoist group tasks by category
+  const groups = new Map<string, any[]>();
+  for (const t of tasks) {
+    const key = t.category || '';
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(t);
+  }
+
+  // Uncategorized tasks sort first, so they can go above the first heading
+  if (format === 'markdown') {
+    const sections: string[] = [];
+    for (const [category, items] of groups) {
+      sections.push((category ? '# ' + category + '\n\n' : '') + items.map(markdownLine).join('\n'));
+    }
+    return sections.join('\n\n') + '\n';
+  }
+
+  // Todoist imports open tasks only; done tasks are left out
+  const rows: any[][] = [TODOIST_COLUMNS];
+  for (const [category, items] of groups) {
+    const open = items.filter(t => t.status === 'open');
+    if (open.length === 0) continue;
+    if (category) rows.push(['section', category, '', '', '', '', '', '', '', '', '', '']);
+    for (const t of open) {
+      const labels = t.tags.map((tag: string) => ' @' + tag.replace(/\s+/g, '_')).join('');
+      const todoistPriority = t.priority >= 5 ? 1 : t.priority === 4 ? 2 : 4;
+      rows.push([
+        'task', t.text + labels, t.notes || '', todoistPriority, 1, '', '', todoistDate(t), 'en', timeZone,
+        t.estimated_minutes || '', t.estimated_minutes ? 'minute' : '',
+      ]);
+    }
+    rows.push(['', '', '', '', '', '', '', '', '', '', '', '']);
+  }
+  return toCsv(rows);
+}
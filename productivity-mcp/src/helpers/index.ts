@@ -1,4 +1,27 @@
 // Re-export all helpers
 export * from './utils';
 export * from './intelligence';
+export * from './patterns';
 export * from './launch-parser';
+export * from './dependencies';
+export * from './recurrence';
+export * from './datetime';
+export * from './jobs';
+export * from './tags';
+export * from './bulk';
+export * from './trash';
+export * from './completion';
+export * from './history';
+export * from './planning';
+export * from './search';
+export * from './subtasks';
+export * from './templates';
+export * from './timers';
+export * from './import-export';
+export * from './calendar';
+export * from './duplicates';
+export * from './sprints';
+export * from './work-sessions';
+export * from './timesheets';
+export * from './digests';
+export * from './forecast';
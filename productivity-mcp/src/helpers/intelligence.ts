@@ -1,8 +1,12 @@
-// Intelligence helpers - pattern analysis, event logging, nudges
+// Intelligence helpers - pattern analysis, event logging, nudges, wellbeing signals
 
-import { getDayOfWeek, getTimeOfDay } from './utils';
+import { clockFor, getUserClock, getUserTimezone, daysBetween, shiftDate, formatHour, type UserClock } from './datetime';
+import { getOpenBlockers } from './dependencies';
+import { analyzePatterns, NEGATIVE_MOODS } from './patterns';
 
 export async function logEvent(env: any, userId: string, eventType: string, taskId: string | null, eventData: any = {}) {
+  // day/time are recorded in the user's timezone so peak-time patterns match their clock
+  const clock = clockFor(await getUserTimezone(env, userId));
   await env.DB.prepare(
     'INSERT INTO task_events (id, user_id, task_id, event_type, event_data, created_at) VALUES (?, ?, ?, ?, ?, ?)'
   ).bind(
@@ -10,13 +14,13 @@ export async function logEvent(env: any, userId: string, eventType: string, task
     userId,
     taskId,
     eventType,
-    JSON.stringify({ ...eventData, day: getDayOfWeek(), time: getTimeOfDay() }),
+    JSON.stringify({ ...eventData, day: clock.dayName, time: clock.timeOfDay }),
     new Date().toISOString()
   ).run();
 }
 
 export async function updateDailyLog(env: any, userId: string, field: 'tasks_completed' | 'tasks_created', increment: number = 1) {
-  const today = new Date().toISOString().split('T')[0];
+  const { today } = await getUserClock(env, userId);
   
   // Try to update existing row
   const result = await env.DB.prepare(
@@ -44,287 +48,28 @@ export async function getPatterns(env: any, userId: string): Promise<any[]> {
   }
 }
 
-export async function upsertPattern(env: any, userId: string, patternType: string, data: any, confidence: number) {
-  const existing = await env.DB.prepare(
-    'SELECT id FROM user_patterns WHERE user_id = ? AND pattern_type = ?'
-  ).bind(userId, patternType).first();
-  
-  if (existing) {
-    await env.DB.prepare(
-      'UPDATE user_patterns SET pattern_data = ?, confidence = ?, updated_at = ? WHERE id = ?'
-    ).bind(JSON.stringify(data), confidence, new Date().toISOString(), existing.id).run();
-  } else {
-    await env.DB.prepare(
-      'INSERT INTO user_patterns (user_id, pattern_type, pattern_data, confidence, updated_at) VALUES (?, ?, ?, ?, ?)'
-    ).bind(userId, patternType, JSON.stringify(data), confidence, new Date().toISOString()).run();
-  }
-}
-
-// Store journal-specific patterns
-async function upsertJournalPattern(env: any, userId: string, patternType: string, data: any, confidence: number) {
-  const ts = new Date().toISOString();
-  
-  const existing = await env.DB.prepare(
-    'SELECT id FROM journal_patterns WHERE user_id = ? AND pattern_type = ?'
-  ).bind(userId, patternType).first();
-  
-  if (existing) {
-    await env.DB.prepare(
-      'UPDATE journal_patterns SET pattern_data = ?, confidence = ?, updated_at = ? WHERE id = ?'
-    ).bind(JSON.stringify(data), confidence, ts, existing.id).run();
-  } else {
-    await env.DB.prepare(
-      'INSERT INTO journal_patterns (id, user_id, pattern_type, pattern_data, confidence, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
-    ).bind(crypto.randomUUID(), userId, patternType, JSON.stringify(data), confidence, ts, ts).run();
-  }
-}
-
+// Pattern analysis lives in helpers/patterns.ts; this returns just the confirmed insights
 export async function analyzeAndStorePatterns(env: any, userId: string): Promise<string[]> {
-  const insights: string[] = [];
-  const now = new Date();
-  const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
-  
-  // ==================
-  // TASK PATTERNS
-  // ==================
-  
-  // 1. Peak productivity hours
-  const completionsByTime = await env.DB.prepare(`
-    SELECT 
-      json_extract(event_data, '$.time') as time_of_day,
-      COUNT(*) as count
-    FROM task_events 
-    WHERE user_id = ? AND event_type = 'completed' AND created_at >= ?
-    GROUP BY time_of_day
-    ORDER BY count DESC
-  `).bind(userId, thirtyDaysAgo).all();
-  
-  if (completionsByTime.results.length > 0) {
-    const peak = completionsByTime.results[0];
-    if (peak.count >= 3) {
-      insights.push(`Most productive in the ${peak.time_of_day}`);
-      await upsertPattern(env, userId, 'peak_time', { time: peak.time_of_day, count: peak.count }, peak.count / 10);
-    }
-  }
-  
-  // 2. Peak productivity days
-  const completionsByDay = await env.DB.prepare(`
-    SELECT 
-      json_extract(event_data, '$.day') as day_of_week,
-      COUNT(*) as count
-    FROM task_events 
-    WHERE user_id = ? AND event_type = 'completed' AND created_at >= ?
-    GROUP BY day_of_week
-    ORDER BY count DESC
-  `).bind(userId, thirtyDaysAgo).all();
-  
-  if (completionsByDay.results.length > 0) {
-    const peak = completionsByDay.results[0];
-    if (peak.count >= 3) {
-      insights.push(`Most productive on ${peak.day_of_week}s`);
-      await upsertPattern(env, userId, 'peak_day', { day: peak.day_of_week, count: peak.count }, peak.count / 10);
-    }
-  }
-  
-  // 3. Completion rate by focus level
-  const focusStats = await env.DB.prepare(`
-    SELECT 
-      focus_level,
-      COUNT(CASE WHEN status = 'done' THEN 1 END) as completed,
-      COUNT(*) as total
-    FROM tasks 
-    WHERE user_id = ? AND created_at >= ?
-    GROUP BY focus_level
-  `).bind(userId, thirtyDaysAgo).all();
-  
-  for (const stat of focusStats.results) {
-    const rate = stat.total > 0 ? stat.completed / stat.total : 0;
-    if (stat.total >= 5) {
-      if (rate < 0.3) {
-        insights.push(`Struggling with ${stat.focus_level}-focus tasks (${Math.round(rate * 100)}% completion)`);
-      } else if (rate > 0.7) {
-        insights.push(`Great at ${stat.focus_level}-focus tasks (${Math.round(rate * 100)}% completion)`);
-      }
-      await upsertPattern(env, userId, `completion_rate_${stat.focus_level}`, { rate, total: stat.total }, rate);
-    }
-  }
-  
-  // 4. Average time to complete tasks
-  const avgCompletion = await env.DB.prepare(`
-    SELECT 
-      AVG(julianday(completed_at) - julianday(created_at)) as avg_days
-    FROM tasks 
-    WHERE user_id = ? AND status = 'done' AND completed_at IS NOT NULL AND created_at >= ?
-  `).bind(userId, thirtyDaysAgo).first();
-  
-  if (avgCompletion?.avg_days) {
-    const days = Math.round(avgCompletion.avg_days * 10) / 10;
-    insights.push(`Average task completion: ${days} days`);
-    await upsertPattern(env, userId, 'avg_completion_days', { days }, 0.8);
-  }
-  
-  // 5. Avoidance patterns (tasks that sit open > 7 days)
-  const stuckTasks = await env.DB.prepare(`
-    SELECT category, COUNT(*) as count
-    FROM tasks 
-    WHERE user_id = ? AND status = 'open' AND julianday('now') - julianday(created_at) >= 7
-    GROUP BY category
-    ORDER BY count DESC
-  `).bind(userId).all();
-  
-  if (stuckTasks.results.length > 0 && stuckTasks.results[0].count >= 2) {
-    const category = stuckTasks.results[0].category || 'uncategorized';
-    insights.push(`Tends to delay ${category} tasks`);
-    await upsertPattern(env, userId, 'avoidance_category', { category, count: stuckTasks.results[0].count }, 0.7);
-  }
-  
-  // ==================
-  // JOURNAL PATTERNS
-  // ==================
-  
-  try {
-    // 6. Mood patterns by day of week
-    const moodByDay = await env.DB.prepare(`
-      SELECT 
-        CASE CAST(strftime('%w', entry_date) AS INTEGER)
-          WHEN 0 THEN 'sunday' WHEN 1 THEN 'monday' WHEN 2 THEN 'tuesday'
-          WHEN 3 THEN 'wednesday' WHEN 4 THEN 'thursday' WHEN 5 THEN 'friday' WHEN 6 THEN 'saturday'
-        END as day_name,
-        mood,
-        COUNT(*) as count
-      FROM journal_entries
-      WHERE user_id = ? AND entry_date >= ? AND mood IS NOT NULL
-      GROUP BY day_name, mood
-      ORDER BY count DESC
-    `).bind(userId, thirtyDaysAgo.split('T')[0]).all();
-    
-    if (moodByDay.results.length > 0) {
-      // Find dominant mood per day
-      const dayMoods: Record<string, { mood: string; count: number }> = {};
-      for (const row of moodByDay.results as any[]) {
-        if (!dayMoods[row.day_name] || row.count > dayMoods[row.day_name].count) {
-          dayMoods[row.day_name] = { mood: row.mood, count: row.count };
-        }
-      }
-      
-      // Check for consistent patterns
-      const negativeMoods = ['anxious', 'frustrated', 'sad', 'angry', 'overwhelmed', 'scattered'];
-      for (const [day, data] of Object.entries(dayMoods)) {
-        if (data.count >= 2 && negativeMoods.includes(data.mood)) {
-          insights.push(`Often feel ${data.mood} on ${day}s`);
-          await upsertJournalPattern(env, userId, `mood_day_${day}`, data, data.count / 5);
-        }
-      }
-    }
-    
-    // 7. Energy patterns
-    const energyByDay = await env.DB.prepare(`
-      SELECT 
-        CASE CAST(strftime('%w', entry_date) AS INTEGER)
-          WHEN 0 THEN 'sunday' WHEN 1 THEN 'monday' WHEN 2 THEN 'tuesday'
-          WHEN 3 THEN 'wednesday' WHEN 4 THEN 'thursday' WHEN 5 THEN 'friday' WHEN 6 THEN 'saturday'
-        END as day_name,
-        AVG(energy_level) as avg_energy
-      FROM journal_entries
-      WHERE user_id = ? AND entry_date >= ? AND energy_level IS NOT NULL
-      GROUP BY day_name
-    `).bind(userId, thirtyDaysAgo.split('T')[0]).all();
-    
-    if (energyByDay.results.length >= 3) {
-      const sorted = (energyByDay.results as any[]).sort((a, b) => b.avg_energy - a.avg_energy);
-      const highDay = sorted[0];
-      const lowDay = sorted[sorted.length - 1];
-      
-      if (highDay.avg_energy >= 7) {
-        insights.push(`Highest energy on ${highDay.day_name}s (avg ${Math.round(highDay.avg_energy)}/10)`);
-        await upsertJournalPattern(env, userId, 'energy_high_day', { day: highDay.day_name, avg: highDay.avg_energy }, 0.7);
-      }
-      if (lowDay.avg_energy <= 4) {
-        insights.push(`Lowest energy on ${lowDay.day_name}s (avg ${Math.round(lowDay.avg_energy)}/10)`);
-        await upsertJournalPattern(env, userId, 'energy_low_day', { day: lowDay.day_name, avg: lowDay.avg_energy }, 0.7);
-      }
-    }
-    
-    // 8. Mood-productivity correlation
-    const moodProductivity = await env.DB.prepare(`
-      SELECT 
-        je.mood,
-        AVG(dl.tasks_completed) as avg_tasks
-      FROM journal_entries je
-      JOIN daily_logs dl ON je.entry_date = dl.log_date AND je.user_id = dl.user_id
-      WHERE je.user_id = ? AND je.entry_date >= ? AND je.mood IS NOT NULL
-      GROUP BY je.mood
-      HAVING COUNT(*) >= 2
-    `).bind(userId, thirtyDaysAgo.split('T')[0]).all();
-    
-    if (moodProductivity.results.length >= 2) {
-      const sorted = (moodProductivity.results as any[]).sort((a, b) => b.avg_tasks - a.avg_tasks);
-      const mostProductive = sorted[0];
-      const leastProductive = sorted[sorted.length - 1];
-      
-      if (mostProductive.avg_tasks >= 3) {
-        insights.push(`Most productive when feeling ${mostProductive.mood} (avg ${Math.round(mostProductive.avg_tasks)} tasks)`);
-        await upsertJournalPattern(env, userId, 'productive_mood', mostProductive, 0.8);
-      }
-      if (leastProductive.avg_tasks <= 1 && mostProductive.mood !== leastProductive.mood) {
-        insights.push(`Least productive when feeling ${leastProductive.mood}`);
-        await upsertJournalPattern(env, userId, 'unproductive_mood', leastProductive, 0.6);
-      }
-    }
-    
-    // 9. Entity sentiment patterns (who/what affects mood)
-    const entityMoodCorrelation = await env.DB.prepare(`
-      SELECT 
-        ent.entity_value,
-        ent.entity_type,
-        je.mood,
-        COUNT(*) as mentions
-      FROM journal_entities ent
-      JOIN journal_entries je ON ent.entry_id = je.id
-      WHERE je.user_id = ? AND je.entry_date >= ? AND je.mood IS NOT NULL
-      GROUP BY ent.entity_value, ent.entity_type, je.mood
-      HAVING COUNT(*) >= 2
-      ORDER BY mentions DESC
-    `).bind(userId, thirtyDaysAgo.split('T')[0]).all();
-    
-    if (entityMoodCorrelation.results.length > 0) {
-      const negativeMoods = ['anxious', 'frustrated', 'sad', 'angry', 'overwhelmed'];
-      const positiveMoods = ['calm', 'excited', 'grateful', 'hopeful', 'content', 'focused'];
-      
-      for (const row of entityMoodCorrelation.results.slice(0, 10) as any[]) {
-        if (row.mentions >= 3) {
-          if (negativeMoods.includes(row.mood)) {
-            insights.push(`Often feel ${row.mood} when "${row.entity_value}" is mentioned`);
-            await upsertJournalPattern(env, userId, `entity_negative_${row.entity_value}`, row, row.mentions / 5);
-          } else if (positiveMoods.includes(row.mood)) {
-            insights.push(`Often feel ${row.mood} around "${row.entity_value}"`);
-            await upsertJournalPattern(env, userId, `entity_positive_${row.entity_value}`, row, row.mentions / 5);
-          }
-        }
-      }
-    }
-    
-  } catch (e) {
-    // Journal tables might not exist yet - that's okay
-    console.error('Journal pattern analysis error:', e);
-  }
-  
-  return insights;
+  const analysis = await analyzePatterns(env, userId);
+  return analysis.insights;
 }
 
-export function generateNudges(patterns: any[], openTasks: any[]): string[] {
+export function generateNudges(patterns: any[], openTasks: any[], clock: UserClock = clockFor()): string[] {
   const nudges: string[] = [];
   const now = new Date();
-  const currentTime = getTimeOfDay();
-  const currentDay = getDayOfWeek();
+  const currentTime = clock.timeOfDay;
+  const currentDay = clock.dayName;
   
   for (const pattern of patterns) {
     const data = JSON.parse(pattern.pattern_data);
     
     switch (pattern.pattern_type) {
       case 'peak_time':
-        if (data.time === currentTime) {
-          nudges.push(`🔥 It's your peak time (${currentTime}) - tackle something important!`);
+        // Patterns learned before hourly buckets only have the time of day
+        if (typeof data.hour === 'number' ? clock.hour === data.hour : data.time === currentTime) {
+          nudges.push(typeof data.hour === 'number'
+            ? `🔥 ${formatHour(data.hour)} is your peak hour - tackle something important!`
+            : `🔥 It's your peak time (${currentTime}) - tackle something important!`);
         }
         break;
       case 'peak_day':
@@ -349,9 +94,8 @@ export function generateNudges(patterns: any[], openTasks: any[]): string[] {
   // Check for tasks due soon
   const upcoming = openTasks.filter(t => {
     if (!t.due_date) return false;
-    const due = new Date(t.due_date);
-    const daysUntil = (due.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
-    return daysUntil <= 3 && daysUntil >= 0;
+    const due = t.due_date.split('T')[0];
+    return due >= clock.today && due <= clock.daysFromNow(3);
   });
   
   if (upcoming.length > 0) {
@@ -374,8 +118,9 @@ export function generateNudges(patterns: any[], openTasks: any[]): string[] {
 
 // Generate nudges that include journal insights
 export async function generateEnhancedNudges(env: any, userId: string, patterns: any[], openTasks: any[]): Promise<string[]> {
-  const nudges = generateNudges(patterns, openTasks);
-  const currentDay = getDayOfWeek();
+  const clock = await getUserClock(env, userId);
+  const nudges = generateNudges(patterns, openTasks, clock);
+  const currentDay = clock.dayName;
   
   try {
     // Check for journal-based nudges
@@ -403,9 +148,8 @@ export async function generateEnhancedNudges(env: any, userId: string, patterns:
     }
     
     // Journal streak reminder
-    const today = new Date().toISOString().split('T')[0];
-    const dayOfWeek = new Date().getDay();
-    const isTargetDay = [1, 3, 5].includes(dayOfWeek); // Mon, Wed, Fri
+    const today = clock.today;
+    const isTargetDay = [1, 3, 5].includes(clock.dayOfWeek); // Mon, Wed, Fri
     
     if (isTargetDay) {
       const todayEntry = await env.DB.prepare(
@@ -420,10 +164,370 @@ export async function generateEnhancedNudges(env: any, userId: string, patterns:
   } catch (e) {
     // Journal tables might not exist yet
   }
+
+  const wellbeing = await getWellbeing(env, userId, clock);
+  for (const signal of wellbeing.signals) nudges.push(signal.nudge);
   
   return nudges;
 }
 
+// ==================
+// WELLBEING SIGNALS
+// ==================
+
+// Weeks are rolling 7-day windows ending today, oldest first
+export interface WellbeingWeek {
+  from: string;
+  to: string;
+  workedMinutes: number;
+  longSessions: number;
+  created: number;
+  completed: number;
+  energy: number | null;      // average journal energy (1-10), null without entries
+  moods: number;              // journal entries with a mood
+  negativeMoods: number;
+}
+
+export type WellbeingSignalKey = 'long_sessions' | 'negative_flow' | 'declining_energy' | 'negative_moods' | 'stalled_launches';
+
+export interface WellbeingSignal {
+  key: WellbeingSignalKey;
+  severity: 'watch' | 'warning';
+  summary: string;
+  nudge: string;
+}
+
+export interface WellbeingReport {
+  weeks: WellbeingWeek[];
+  signals: WellbeingSignal[];
+  level: 'ok' | 'watch' | 'strained';
+}
+
+export const DEFAULT_WELLBEING_WEEKS = 4;
+
+// A closed session with at least this much net work is a long day; this many in a week is sustained
+const LONG_SESSION_MINUTES = 9 * 60;
+const SUSTAINED_LONG_SESSIONS = 3;
+
+// Energy is on the journal's 1-10 scale
+const ENERGY_DROP = 1.5;
+const LOW_ENERGY = 4;
+
+const NEGATIVE_MOOD_SHARE = 0.5;
+const MIN_MOOD_ENTRIES = 3;
+const STALLED_LAUNCH_DAYS = 7;
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+export async function getWellbeing(env: any, userId: string, clock: UserClock, weekCount: number = DEFAULT_WELLBEING_WEEKS): Promise<WellbeingReport> {
+  const weeks: WellbeingWeek[] = [];
+  for (let i = weekCount - 1; i >= 0; i--) {
+    const to = clock.daysAgo(7 * i);
+    weeks.push({ from: shiftDate(to, -6), to, workedMinutes: 0, longSessions: 0, created: 0, completed: 0, energy: null, moods: 0, negativeMoods: 0 });
+  }
+  const weekOf = (date: string) => weeks.find(w => date >= w.from && date <= w.to);
+  const from = weeks[0].from;
+
+  try {
+    // Closed sessions only - an open session has no net total yet
+    const sessions = await env.DB.prepare(
+      'SELECT session_date, total_minutes FROM work_sessions WHERE user_id = ? AND session_date >= ? AND ended_at IS NOT NULL'
+    ).bind(userId, from).all();
+    for (const s of sessions.results as any[]) {
+      const week = weekOf(s.session_date);
+      if (!week) continue;
+      week.workedMinutes += s.total_minutes || 0;
+      if ((s.total_minutes || 0) >= LONG_SESSION_MINUTES) week.longSessions++;
+    }
+  } catch {
+    // Table might not exist yet
+  }
+
+  const logs = await env.DB.prepare(
+    'SELECT log_date, tasks_created, tasks_completed FROM daily_logs WHERE user_id = ? AND log_date >= ?'
+  ).bind(userId, from).all();
+  for (const log of logs.results as any[]) {
+    const week = weekOf(log.log_date);
+    if (!week) continue;
+    week.created += log.tasks_created || 0;
+    week.completed += log.tasks_completed || 0;
+  }
+
+  try {
+    const entries = await env.DB.prepare(
+      'SELECT entry_date, mood, energy_level FROM journal_entries WHERE user_id = ? AND entry_date >= ?'
+    ).bind(userId, from).all();
+    const energies = new Map<WellbeingWeek, number[]>();
+    for (const e of entries.results as any[]) {
+      const week = weekOf(e.entry_date);
+      if (!week) continue;
+      if (typeof e.energy_level === 'number') energies.set(week, [...(energies.get(week) || []), e.energy_level]);
+      if (e.mood) {
+        week.moods++;
+        if (NEGATIVE_MOODS.includes(e.mood)) week.negativeMoods++;
+      }
+    }
+    for (const [week, values] of energies) week.energy = average(values);
+  } catch {
+    // Journal tables might not exist yet
+  }
+
+  const signals: WellbeingSignal[] = [];
+  const latest = weeks[weeks.length - 1];
+  const earlier = weeks.slice(0, -1);
+  const previous = earlier[earlier.length - 1];
+
+  if (latest.longSessions >= SUSTAINED_LONG_SESSIONS) {
+    const hours = Math.round(latest.workedMinutes / 60);
+    signals.push({
+      key: 'long_sessions',
+      severity: previous && previous.longSessions >= SUSTAINED_LONG_SESSIONS ? 'warning' : 'watch',
+      summary: `${latest.longSessions} days of ${LONG_SESSION_MINUTES / 60}h+ this week (${hours}h worked)`,
+      nudge: `🕯️ ${latest.longSessions} days over ${LONG_SESSION_MINUTES / 60} hours this week - protect an evening off`,
+    });
+  }
+
+  // Consecutive weeks, counting back from this one, where more tasks came in than got done
+  let shrinkingWeeks = 0;
+  let growth = 0;
+  for (let i = weeks.length - 1; i >= 0 && weeks[i].created > weeks[i].completed; i--) {
+    shrinkingWeeks++;
+    growth += weeks[i].created - weeks[i].completed;
+  }
+  if (shrinkingWeeks >= 2) {
+    signals.push({
+      key: 'negative_flow',
+      severity: shrinkingWeeks >= 3 ? 'warning' : 'watch',
+      summary: `Backlog grew by ${growth} tasks over ${shrinkingWeeks} weeks - more added than done each week`,
+      nudge: `📥 More tasks are coming in than going out (+${growth} over ${shrinkingWeeks} weeks) - drop or defer a few`,
+    });
+  }
+
+  const baseline = average(earlier.map(w => w.energy).filter((e): e is number => e !== null));
+  if (latest.energy !== null && baseline !== null && baseline - latest.energy >= ENERGY_DROP) {
+    const now = latest.energy.toFixed(1);
+    signals.push({
+      key: 'declining_energy',
+      severity: latest.energy <= LOW_ENERGY ? 'warning' : 'watch',
+      summary: `Energy averaging ${now}/10 this week, down from ${baseline.toFixed(1)}`,
+      nudge: `🔋 Your energy is down to ${now}/10 from ${baseline.toFixed(1)} - schedule some recovery time`,
+    });
+  }
+
+  const earlierMoods = earlier.reduce((sum, w) => sum + w.moods, 0);
+  const earlierShare = earlierMoods > 0 ? earlier.reduce((sum, w) => sum + w.negativeMoods, 0) / earlierMoods : 0;
+  const latestShare = latest.moods > 0 ? latest.negativeMoods / latest.moods : 0;
+  if (latest.moods >= MIN_MOOD_ENTRIES && latestShare >= NEGATIVE_MOOD_SHARE && latestShare > earlierShare) {
+    const previousShare = previous && previous.moods > 0 ? previous.negativeMoods / previous.moods : 0;
+    signals.push({
+      key: 'negative_moods',
+      severity: previousShare >= NEGATIVE_MOOD_SHARE ? 'warning' : 'watch',
+      summary: `${latest.negativeMoods} of ${latest.moods} journal moods negative this week (${Math.round(latestShare * 100)}%, was ${Math.round(earlierShare * 100)}%)`,
+      nudge: `💭 ${latest.negativeMoods} of your ${latest.moods} journal moods this week were negative - worth easing off or talking it through`,
+    });
+  }
+
+  try {
+    const launches = await env.DB.prepare(
+      "SELECT lp.title, lp.created_at, (SELECT MAX(completed_at) FROM launch_checklist WHERE project_id = lp.id AND completed = 1) as last_activity FROM launch_projects lp WHERE lp.user_id = ? AND lp.status != 'complete'"
+    ).bind(userId).all();
+    const stalled = (launches.results as any[])
+      .map(lp => ({ title: lp.title, idle: daysBetween(String(lp.last_activity || lp.created_at).slice(0, 10), clock.today) }))
+      .filter(lp => lp.idle >= STALLED_LAUNCH_DAYS)
+      .sort((a, b) => b.idle - a.idle);
+    if (stalled.length > 0) {
+      signals.push({
+        key: 'stalled_launches',
+        severity: 'watch',
+        summary: `Stalled launches: ${stalled.map(lp => `${lp.title} (${lp.idle} days)`).join(', ')}`,
+        nudge: `🚀 ${stalled[0].title} hasn't moved in ${stalled[0].idle} days - pick one small item or re-plan the date`,
+      });
+    }
+  } catch {
+    // Launch tables might not exist yet
+  }
+
+  const warnings = signals.filter(s => s.severity === 'warning').length;
+  const level = warnings >= 2 || signals.length >= 3 ? 'strained' : signals.length > 0 ? 'watch' : 'ok';
+  return { weeks, signals, level };
+}
+
+// One line per metric, oldest week first, with the direction of the latest week against the first
+function trendLine(label: string, values: (number | null)[], format: (value: number) => string): string {
+  const known = values.filter((v): v is number => v !== null);
+  if (known.length === 0) return `${label}: no data`;
+  const first = known[0];
+  const last = known[known.length - 1];
+  const arrow = known.length < 2 || last === first ? '→' : last > first ? '↑' : '↓';
+  return `${label}: ${values.map(v => (v === null ? '–' : format(v))).join(' · ')} ${arrow}`;
+}
+
+export function formatWellbeingReport(report: WellbeingReport): string {
+  const heading = report.level === 'strained' ? 'showing strain' : report.level === 'watch' ? 'worth watching' : 'looking steady';
+  let out = `🌿 **Wellbeing** - ${heading}\n\n`;
+
+  if (report.signals.length > 0) {
+    for (const s of report.signals) out += `${s.severity === 'warning' ? '⛔' : '⚠️'} ${s.summary}\n`;
+  } else {
+    out += `No warning signs in the last week.\n`;
+  }
+
+  const w = report.weeks;
+  out += `\n**Weekly trend** (oldest → latest, ${w[0].from} → ${w[w.length - 1].to})\n`;
+  out += trendLine('Worked', w.map(x => x.workedMinutes), v => `${Math.round(v / 60)}h`) + '\n';
+  out += trendLine(`Long days (${LONG_SESSION_MINUTES / 60}h+)`, w.map(x => x.longSessions), v => String(v)) + '\n';
+  out += trendLine('Net tasks', w.map(x => x.completed - x.created), v => (v > 0 ? `+${v}` : String(v))) + '\n';
+  out += trendLine('Energy', w.map(x => x.energy), v => v.toFixed(1)) + '\n';
+  out += trendLine('Negative moods', w.map(x => (x.moods > 0 ? x.negativeMoods / x.moods : null)), v => `${Math.round(v * 100)}%`) + '\n';
+  return out.trimEnd();
+}
+
+// ==================
+// WHAT NEXT SCORING
+// ==================
+
+export interface ScoreFactor {
+  label: string;
+  points: number;
+}
+
+export interface ScoredTask {
+  task: any;
+  score: number;
+  factors: ScoreFactor[];
+  blocked: boolean;
+}
+
+// Points per signal. Due dates and blockers dominate; the rest breaks ties.
+export const SCORE_WEIGHTS = {
+  overdue: 40,
+  overduePerDay: 2,
+  overdueMax: 60,
+  dueToday: 35,
+  dueTomorrow: 25,
+  dueSoon: 15,          // within 3 days
+  dueThisWeek: 8,       // within 7 days
+  perPriorityStep: 10,  // per step above/below P3
+  agePerWeek: 3,
+  ageMax: 12,
+  active: 10,
+  sprint: 15,
+  sprintEndingSoon: 5,  // sprint ends within 3 days
+  launchCritical: 20,
+  launchItem: 5,
+  focusFit: 12,         // deep work at peak time
+  focusMismatch: -10,   // deep work late in the day
+  lightWorkOffPeak: 5,
+  hasOpenSubtasks: -10,
+  blocked: -50,
+};
+
+// Rank open tasks by what to work on next. Pass `tasks` to rank an already-filtered
+// list (set_focus); otherwise every open, un-snoozed task of the user is ranked.
+// Blocked tasks always sort after unblocked ones.
+export async function scoreTasks(env: any, userId: string, options: { clock?: UserClock; tasks?: any[] } = {}): Promise<ScoredTask[]> {
+  const clock = options.clock || await getUserClock(env, userId);
+  let tasks = options.tasks;
+  if (!tasks) {
+    const open = await env.DB.prepare(
+      "SELECT t.*, o.statement as objective_statement FROM tasks t LEFT JOIN objectives o ON t.objective_id = o.id WHERE t.user_id = ? AND t.status = 'open' AND (t.snoozed_until IS NULL OR t.snoozed_until <= ?)"
+    ).bind(userId, clock.today).all();
+    tasks = open.results as any[];
+  }
+  if (tasks.length === 0) return [];
+
+  const patterns = await getPatterns(env, userId);
+  const peakPattern = patterns.find((p: any) => p.pattern_type === 'peak_time');
+  const peakTime = peakPattern ? JSON.parse(peakPattern.pattern_data).time : null;
+  const blockers = await getOpenBlockers(env, userId);
+
+  // Objectives of the user's active sprints -> sprint end date
+  const sprintEnds = new Map<string, string>();
+  try {
+    const objectives = await env.DB.prepare(
+      "SELECT o.id, s.end_date FROM objectives o JOIN sprints s ON s.id = o.sprint_id WHERE s.user_id = ? AND s.status = 'active'"
+    ).bind(userId).all();
+    for (const row of objectives.results as any[]) sprintEnds.set(row.id, row.end_date);
+  } catch {
+    // Sprint tables might not exist yet
+  }
+
+  // Open launch checklist items linked to tasks, and whether they're CRITICAL
+  const launchItems = new Map<string, boolean>();
+  try {
+    const items = await env.DB.prepare(
+      'SELECT task_id, tags FROM launch_checklist WHERE completed = 0 AND task_id IS NOT NULL'
+    ).all();
+    for (const row of items.results as any[]) {
+      launchItems.set(row.task_id, launchItems.get(row.task_id) || (row.tags || '').includes('CRITICAL'));
+    }
+  } catch {
+    // Launch tables might not exist yet
+  }
+
+  const openSubtasks = new Map<string, number>();
+  const children = await env.DB.prepare(
+    "SELECT parent_task_id, COUNT(*) as count FROM tasks WHERE user_id = ? AND parent_task_id IS NOT NULL AND status = 'open' GROUP BY parent_task_id"
+  ).bind(userId).all();
+  for (const row of children.results as any[]) openSubtasks.set(row.parent_task_id, row.count);
+
+  const w = SCORE_WEIGHTS;
+  const scored = tasks.map((task: any): ScoredTask => {
+    const factors: ScoreFactor[] = [];
+    const add = (label: string, points: number) => { if (points !== 0) factors.push({ label, points }); };
+
+    if (task.due_date) {
+      const daysLeft = daysBetween(clock.today, task.due_date.split('T')[0]);
+      if (daysLeft < 0) add(`overdue ${-daysLeft}d`, Math.min(w.overdueMax, w.overdue + w.overduePerDay * -daysLeft));
+      else if (daysLeft === 0) add('due today', w.dueToday);
+      else if (daysLeft === 1) add('due tomorrow', w.dueTomorrow);
+      else if (daysLeft <= 3) add(`due in ${daysLeft}d`, w.dueSoon);
+      else if (daysLeft <= 7) add(`due in ${daysLeft}d`, w.dueThisWeek);
+    }
+
+    const priority = task.priority || 3;
+    add(`P${priority}`, (priority - 3) * w.perPriorityStep);
+
+    const daysOld = Math.floor((Date.now() - new Date(task.created_at).getTime()) / 86400000);
+    if (daysOld >= 7) add(`waiting ${daysOld}d`, Math.min(w.ageMax, Math.floor(daysOld / 7) * w.agePerWeek));
+
+    // Deep work belongs in the user's peak time (mornings until a pattern says otherwise)
+    const focus = task.focus_level || 'medium';
+    const isPeak = clock.timeOfDay === (peakTime || 'morning');
+    if (focus === 'high' && isPeak) add(`deep work at ${peakTime ? 'your peak time' : 'the start of the day'}`, w.focusFit);
+    else if (focus === 'high' && clock.timeOfDay === 'evening') add('deep work late in the day', w.focusMismatch);
+    else if (focus === 'low' && !isPeak) add('light work for off-peak hours', w.lightWorkOffPeak);
+
+    if (task.is_active) add('on your active list', w.active);
+    if (task.objective_id && sprintEnds.has(task.objective_id)) {
+      add(task.objective_statement ? `sprint: ${task.objective_statement}` : 'in the active sprint', w.sprint);
+      const sprintDaysLeft = daysBetween(clock.today, (sprintEnds.get(task.objective_id) as string).split('T')[0]);
+      if (sprintDaysLeft >= 0 && sprintDaysLeft <= 3) add(`sprint ends in ${sprintDaysLeft}d`, w.sprintEndingSoon);
+    }
+    if (launchItems.has(task.id)) add(launchItems.get(task.id) ? 'CRITICAL launch item' : 'launch checklist item', launchItems.get(task.id) ? w.launchCritical : w.launchItem);
+
+    const subtasks = openSubtasks.get(task.id) || 0;
+    if (subtasks > 0) add(`${subtasks} open subtask${subtasks === 1 ? '' : 's'} go first`, w.hasOpenSubtasks);
+
+    const blockedBy = blockers.get(task.id) || [];
+    if (blockedBy.length > 0) add(`blocked by "${blockedBy[0].text}"${blockedBy.length > 1 ? ` +${blockedBy.length - 1}` : ''}`, w.blocked);
+
+    return { task, score: factors.reduce((sum, f) => sum + f.points, 0), factors, blocked: blockedBy.length > 0 };
+  });
+
+  return scored.sort((a, b) =>
+    Number(a.blocked) - Number(b.blocked) || b.score - a.score || a.task.created_at.localeCompare(b.task.created_at)
+  );
+}
+
+// "+35 due today · +10 P4 · -10 deep work late in the day"
+export function explainScore(scored: ScoredTask): string {
+  if (scored.factors.length === 0) return 'nothing pressing';
+  return scored.factors.map(f => (f.points > 0 ? '+' : '') + f.points + ' ' + f.label).join(' · ');
+}
+
 // Auto-checkpoint helper - creates checkpoint when tasks are added/completed
 export async function autoCheckpoint(
   env: any, 
@@ -435,7 +539,7 @@ export async function autoCheckpoint(
 ) {
   try {
     const now = new Date();
-    const today = now.toISOString().split('T')[0];
+    const { today } = await getUserClock(env, userId, now);
     const ts = now.toISOString();
     
     // Get or create today's session
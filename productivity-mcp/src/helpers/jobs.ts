@@ -0,0 +1,225 @@
+// Background jobs - run by the Worker's scheduled (cron) handler, or on demand
+// via the run_job tool. Every run is recorded in job_runs.
+
+import { getCaughtUpDueDate } from './utils';
+import { logEvent } from './intelligence';
+import { analyzePatterns } from './patterns';
+import { getUserClock, type UserClock } from './datetime';
+import { purgeTrash, getTrashRetentionDays } from './trash';
+import { snapshotActiveSprints } from './sprints';
+import { closeStaleSessions } from './work-sessions';
+import { getDigestSettings, getDueDigests, sendDueDigests } from './digests';
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  // Local hour (0-23) after which the job runs once a day; omit to run on every tick
+  hour?: number;
+  // Custom schedule check, used instead of hour when the timing is per-user
+  due?: (env: any, userId: string, clock: UserClock) => Promise<boolean>;
+  run: (env: any, userId: string, clock: UserClock) => Promise<string>;
+}
+
+export interface JobResult {
+  job: string;
+  status: 'success' | 'error';
+  summary: string | null;
+  error: string | null;
+}
+
+// ==================
+// JOBS
+// ==================
+
+async function catchUpRecurringTasks(env: any, userId: string, clock: UserClock): Promise<string> {
+  const overdue = await env.DB.prepare(
+    "SELECT * FROM tasks WHERE user_id = ? AND status = 'open' AND recurrence IS NOT NULL AND due_date < ?"
+  ).bind(userId, clock.today).all();
+
+  const ts = new Date().toISOString();
+  let updated = 0, ended = 0;
+  for (const task of overdue.results as any[]) {
+    const newDate = getCaughtUpDueDate(task.recurrence, task.due_date, clock.today);
+    if (!newDate) { ended++; continue; }
+
+    await env.DB.prepare('UPDATE tasks SET due_date = ?, last_touched = ? WHERE id = ?').bind(newDate, ts, task.id).run();
+    await logEvent(env, userId, 'catchup', task.id, { oldDate: task.due_date, newDate, recurrence: task.recurrence, source: 'cron' });
+    updated++;
+  }
+
+  let summary = `Caught up ${updated} recurring task(s)`;
+  if (ended > 0) summary += `, ${ended} ended series left as-is`;
+  return summary;
+}
+
+async function refreshPatterns(env: any, userId: string): Promise<string> {
+  const analysis = await analyzePatterns(env, userId);
+  let summary = analysis.insights.length > 0 ? `${analysis.insights.length} pattern(s): ${analysis.insights.join('; ')}` : 'No patterns confirmed';
+  if (analysis.fading.length > 0) summary += `; ${analysis.fading.length} fading`;
+  if (analysis.expired.length > 0) summary += `; expired: ${analysis.expired.join(', ')}`;
+  return summary;
+}
+
+async function purgeExpiredMessages(env: any): Promise<string> {
+  const result = await env.DB.prepare("DELETE FROM messages WHERE expires_at < datetime('now')").run();
+  return `Purged ${result.meta?.changes || 0} expired message(s)`;
+}
+
+async function purgeExpiredTrash(env: any, userId: string): Promise<string> {
+  const retentionDays = await getTrashRetentionDays(env, userId);
+  const purged = await purgeTrash(env, userId, retentionDays);
+  return `Purged ${purged} task(s) trashed more than ${retentionDays} days ago`;
+}
+
+// Sessions from earlier days that never got a good_night - close them at the
+// last checkpoint so overnight hours don't count as work
+async function closeOvernightSessions(env: any, userId: string, clock: UserClock): Promise<string> {
+  const closed = await closeStaleSessions(env, userId, clock.today);
+  return `Closed ${closed} stale work session(s)`;
+}
+
+// Plain-text recap of yesterday plus what's on deck today
+async function buildDailyDigest(env: any, userId: string, clock: UserClock): Promise<string> {
+  const yesterday = clock.daysAgo(1);
+  const completed = await env.DB.prepare(
+    "SELECT text FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ? AND completed_at < ? ORDER BY completed_at ASC"
+  ).bind(userId, clock.startOf(yesterday), clock.startOf(clock.today)).all();
+  const added = await env.DB.prepare(
+    'SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND created_at >= ? AND created_at < ?'
+  ).bind(userId, clock.startOf(yesterday), clock.startOf(clock.today)).first();
+  const dueToday = await env.DB.prepare(
+    "SELECT text FROM tasks WHERE user_id = ? AND status = 'open' AND due_date = ? ORDER BY priority DESC"
+  ).bind(userId, clock.today).all();
+  const overdue = await env.DB.prepare(
+    "SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'open' AND due_date < ?"
+  ).bind(userId, clock.today).first();
+
+  let digest = `Digest for ${clock.today}\n`;
+  digest += `Yesterday: ${completed.results.length} done, ${added?.c || 0} added\n`;
+  for (const t of (completed.results as any[]).slice(0, 10)) digest += `  ✓ ${t.text}\n`;
+  digest += `Due today: ${dueToday.results.length}\n`;
+  for (const t of (dueToday.results as any[]).slice(0, 10)) digest += `  • ${t.text}\n`;
+  if ((overdue?.c || 0) > 0) digest += `Overdue: ${overdue.c}\n`;
+  return digest;
+}
+
+// Users who opted into digest emails get them on their own schedule; everyone
+// else keeps the 6am text digest in job_runs
+async function digestDue(env: any, userId: string, clock: UserClock): Promise<boolean> {
+  const settings = await getDigestSettings(env, userId);
+  if (!settings.enabled) return clock.hour >= 6 && !(await hasRunToday(env, userId, 'daily_digest', clock));
+  return (await getDueDigests(env, userId, clock, settings)).length > 0;
+}
+
+async function runDailyDigest(env: any, userId: string, clock: UserClock): Promise<string> {
+  const settings = await getDigestSettings(env, userId);
+  if (!settings.enabled) return buildDailyDigest(env, userId, clock);
+  return sendDueDigests(env, userId, clock, settings);
+}
+
+export const JOBS: JobDefinition[] = [
+  { name: 'recurring_catchup', description: 'Roll overdue recurring tasks forward to their next occurrence', hour: 1, run: catchUpRecurringTasks },
+  { name: 'trash_purge', description: 'Permanently delete tasks past the trash retention window', hour: 2, run: (env, userId) => purgeExpiredTrash(env, userId) },
+  { name: 'stale_sessions', description: 'Close work sessions left open from previous days', hour: 3, run: closeOvernightSessions },
+  { name: 'pattern_analysis', description: 'Re-analyze productivity patterns', hour: 4, run: (env, userId) => refreshPatterns(env, userId) },
+  { name: 'message_cleanup', description: 'Delete expired team messages', run: (env) => purgeExpiredMessages(env) },
+  { name: 'daily_digest', description: "Email the morning, evening and weekly digests on the user's schedule (or summarize yesterday at 6am when digests are off)", due: digestDue, run: runDailyDigest },
+  { name: 'sprint_snapshots', description: "Record each active sprint's burndown point for the day", hour: 23, run: snapshotActiveSprints },
+];
+
+export function getJob(name: string): JobDefinition | undefined {
+  return JOBS.find(j => j.name === name);
+}
+
+// ==================
+// RUNNER
+// ==================
+
+export async function runJob(env: any, userId: string, job: JobDefinition, trigger: 'cron' | 'manual', clock?: UserClock): Promise<JobResult> {
+  const id = crypto.randomUUID();
+  const started = Date.now();
+  const jobClock = clock || await getUserClock(env, userId);
+
+  let recorded = true;
+  try {
+    await env.DB.prepare(
+      "INSERT INTO job_runs (id, user_id, job_name, trigger_type, status, started_at) VALUES (?, ?, ?, ?, 'running', ?)"
+    ).bind(id, userId, job.name, trigger, new Date(started).toISOString()).run();
+  } catch {
+    // Table might not exist yet - still run the job
+    recorded = false;
+  }
+
+  let result: JobResult;
+  try {
+    const summary = await job.run(env, userId, jobClock);
+    result = { job: job.name, status: 'success', summary, error: null };
+  } catch (e: any) {
+    result = { job: job.name, status: 'error', summary: null, error: e?.message || String(e) };
+  }
+
+  if (recorded) {
+    const finished = Date.now();
+    await env.DB.prepare(
+      'UPDATE job_runs SET status = ?, summary = ?, error = ?, finished_at = ?, duration_ms = ? WHERE id = ?'
+    ).bind(result.status, result.summary, result.error, new Date(finished).toISOString(), finished - started, id).run();
+  }
+
+  return result;
+}
+
+// A cron invocation can't outlive this, so a run still 'running' after it crashed
+// or was evicted mid-job - it must not block the retry on the next tick
+const STALE_RUN_MINUTES = 15;
+
+async function hasRunToday(env: any, userId: string, jobName: string, clock: UserClock): Promise<boolean> {
+  try {
+    const now = Date.now();
+    await env.DB.prepare(
+      "UPDATE job_runs SET status = 'error', error = 'Never finished - the worker stopped mid-run', finished_at = ? WHERE user_id = ? AND job_name = ? AND status = 'running' AND started_at < ?"
+    ).bind(new Date(now).toISOString(), userId, jobName, new Date(now - STALE_RUN_MINUTES * 60000).toISOString()).run();
+
+    const ran = await env.DB.prepare(
+      "SELECT id FROM job_runs WHERE user_id = ? AND job_name = ? AND status IN ('running', 'success') AND started_at >= ? LIMIT 1"
+    ).bind(userId, jobName, clock.startOf(clock.today)).first();
+    return !!ran;
+  } catch {
+    return false;
+  }
+}
+
+// Daily jobs run on the first tick at or after their hour that hasn't already
+// succeeded today, so a missed cron tick just delays them
+async function isDue(env: any, userId: string, job: JobDefinition, clock: UserClock): Promise<boolean> {
+  if (job.due) return job.due(env, userId, clock);
+  if (job.hour === undefined) return true;
+  if (clock.hour < job.hour) return false;
+  return !(await hasRunToday(env, userId, job.name, clock));
+}
+
+export async function runScheduledJobs(env: any, userId: string, now: Date = new Date()): Promise<JobResult[]> {
+  const clock = await getUserClock(env, userId, now);
+  const results: JobResult[] = [];
+  for (const job of JOBS) {
+    if (!(await isDue(env, userId, job, clock))) continue;
+    const result = await runJob(env, userId, job, 'cron', clock);
+    results.push(result);
+  }
+  return results;
+}
+
+export async function getJobRuns(env: any, userId: string, options: { job?: string; status?: string; limit?: number } = {}): Promise<any[]> {
+  let query = 'SELECT * FROM job_runs WHERE user_id = ?';
+  const params: any[] = [userId];
+  if (options.job) { query += ' AND job_name = ?'; params.push(options.job); }
+  if (options.status) { query += ' AND status = ?'; params.push(options.status); }
+  query += ' ORDER BY started_at DESC LIMIT ?';
+  params.push(options.limit || 20);
+
+  try {
+    const result = await env.DB.prepare(query).bind(...params).all();
+    return result.results;
+  } catch {
+    return [];
+  }
+}
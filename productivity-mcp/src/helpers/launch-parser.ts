@@ -2,6 +2,27 @@
 
 import type { ParsedItem, ParsedLaunchDoc } from '../types';
 
+export interface ChecklistLine {
+  text: string;       // item text with [TAGS] removed
+  tags: string[];     // raw contents of each [TAG], in order
+  checked: boolean;   // - [x]
+  indent: number;     // leading spaces before the dash
+}
+
+// Match checklist items: - [ ] Item text [TAGS]  (or - [x] for done items)
+export function parseChecklistLine(line: string): ChecklistLine | null {
+  const match = line.match(/^(\s*)-\s*\[\s*([xX]?)\s*\]\s*(.+)$/);
+  if (!match) return null;
+
+  const tags = [...match[3].matchAll(/\[([^\]]+)\]/g)].map(m => m[1]);
+  return {
+    text: match[3].replace(/\s*\[[^\]]+\]/g, '').trim(),
+    tags,
+    checked: match[2] !== '',
+    indent: match[1].replace(/\t/g, '  ').length,
+  };
+}
+
 export function parseLaunchDocument(content: string): ParsedLaunchDoc {
   const lines = content.split('\n');
   const phases: string[] = [];
@@ -31,18 +52,13 @@ export function parseLaunchDocument(content: string): ParsedLaunchDoc {
     }
     
     // Match checklist items: - [ ] Item text [TAGS]
-    const itemMatch = line.match(/^-\s*\[\s*\]\s*(.+)$/);
-    if (itemMatch && currentPhase) {
-      let itemText = itemMatch[1].trim();
+    const item = parseChecklistLine(line);
+    if (item && !item.checked && item.indent === 0 && currentPhase) {
       const tags: string[] = [];
       let dueOffset: number | null = null;
       let isRecurring: string | null = null;
       
-      // Extract tags
-      const tagMatches = itemText.matchAll(/\[([^\]]+)\]/g);
-      for (const match of tagMatches) {
-        const tag = match[1];
-        
+      for (const tag of item.tags) {
         // Parse due offset: [DUE:LAUNCH-14] or [DUE:LAUNCH+7]
         const dueMatch = tag.match(/^DUE:LAUNCH([+-]\d+)$/i);
         if (dueMatch) {
@@ -64,13 +80,10 @@ export function parseLaunchDocument(content: string): ParsedLaunchDoc {
         tags.push(tag.toUpperCase());
       }
       
-      // Clean item text (remove tags)
-      itemText = itemText.replace(/\s*\[[^\]]+\]/g, '').trim();
-      
       items.push({
         phase: currentPhase,
         section: currentSection,
-        item_text: itemText,
+        item_text: item.text,
         sort_order: sortOrder++,
         tags,
         due_offset: dueOffset,
@@ -0,0 +1,648 @@
+// Pattern analysis - learns when and how the user works from task events, tasks and
+// journal entries. Every candidate is tested against the rest of the data (Welch's
+// test for averages, z-tests for shares), so confidence comes from sample size and
+// variance rather than raw counts. Patterns that stop showing up fade with a
+// half-life and are deleted once they drop below the user's minimum confidence.
+
+import { clockFor, getUserClock, toLocalDate, shiftDate, dayOfWeekOf, getTimeOfDayForHour, formatHour } from './datetime';
+
+export interface PatternSettings {
+  windowDays: number;       // How far back to look
+  minSamples: number;       // Fewest observations in a bucket before it can become a pattern
+  minConfidence: number;    // 0-1; below this a pattern isn't stored, and a stored one expires
+  halfLifeDays: number;     // Unconfirmed patterns lose half their confidence over this many days
+}
+
+export const DEFAULT_PATTERN_SETTINGS: PatternSettings = {
+  windowDays: 30,
+  minSamples: 4,
+  minConfidence: 0.6,
+  halfLifeDays: 14,
+};
+
+export const PATTERN_SOURCES = ['all', 'tasks', 'journal'] as const;
+export type PatternSource = typeof PATTERN_SOURCES[number];
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+export const NEGATIVE_MOODS = ['anxious', 'frustrated', 'sad', 'angry', 'overwhelmed', 'scattered'];
+const POSITIVE_MOODS = ['calm', 'excited', 'grateful', 'hopeful', 'content', 'focused'];
+
+// Open tasks at least this old count as delayed
+const STUCK_DAYS = 7;
+
+// Counts and 1-10 ratings are whole numbers, so no bucket is known more precisely
+// than its rounding error - without a floor a perfectly steady series reads as certain
+const VARIANCE_FLOOR = 1 / 12;
+
+// The average completion time is a pattern once we're confident it's within this
+// share (or half a day) of the true value
+const AVERAGE_TOLERANCE = 0.25;
+
+type PatternTable = 'user_patterns' | 'journal_patterns';
+
+interface PatternFinding {
+  table: PatternTable;
+  type: string;
+  data: any;
+  confidence: number;
+  samples: number;
+  statement: string;
+  evidence: string[];
+}
+
+export interface PatternAnalysis {
+  settings: PatternSettings;
+  from: string;             // Local dates analysed
+  to: string;
+  tested: number;
+  insights: string[];       // Confirmed this run
+  fading: string[];         // Not confirmed, still above the minimum
+  expired: string[];        // Dropped this run
+}
+
+export interface PatternReportEntry {
+  source: 'tasks' | 'journal';
+  type: string;
+  statement: string;
+  confidence: number;
+  confirmedConfidence: number | null;
+  confirmedAt: string | null;
+  samples: number | null;
+  details: string[];
+  fading: boolean;
+}
+
+// ==================== SETTINGS ====================
+
+export async function getPatternSettings(env: any, userId: string): Promise<PatternSettings> {
+  try {
+    const row = await env.DB.prepare(
+      'SELECT pattern_window_days, pattern_min_samples, pattern_min_confidence, pattern_half_life_days FROM user_settings WHERE user_id = ?'
+    ).bind(userId).first();
+    if (row) {
+      return {
+        windowDays: row.pattern_window_days ?? DEFAULT_PATTERN_SETTINGS.windowDays,
+        minSamples: row.pattern_min_samples ?? DEFAULT_PATTERN_SETTINGS.minSamples,
+        minConfidence: row.pattern_min_confidence ?? DEFAULT_PATTERN_SETTINGS.minConfidence,
+        halfLifeDays: row.pattern_half_life_days ?? DEFAULT_PATTERN_SETTINGS.halfLifeDays,
+      };
+    }
+  } catch {
+    // Columns might not exist yet
+  }
+  return { ...DEFAULT_PATTERN_SETTINGS };
+}
+
+// Fields left undefined keep their current value
+export async function setPatternSettings(env: any, userId: string, changes: Partial<PatternSettings>): Promise<PatternSettings> {
+  const next = { ...(await getPatternSettings(env, userId)) };
+  if (changes.windowDays !== undefined) next.windowDays = changes.windowDays;
+  if (changes.minSamples !== undefined) next.minSamples = changes.minSamples;
+  if (changes.minConfidence !== undefined) next.minConfidence = changes.minConfidence;
+  if (changes.halfLifeDays !== undefined) next.halfLifeDays = changes.halfLifeDays;
+
+  const ts = new Date().toISOString();
+  await env.DB.prepare(
+    `INSERT INTO user_settings (user_id, pattern_window_days, pattern_min_samples, pattern_min_confidence, pattern_half_life_days, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET pattern_window_days = excluded.pattern_window_days, pattern_min_samples = excluded.pattern_min_samples,
+       pattern_min_confidence = excluded.pattern_min_confidence, pattern_half_life_days = excluded.pattern_half_life_days, updated_at = excluded.updated_at`
+  ).bind(userId, next.windowDays, next.minSamples, next.minConfidence, next.halfLifeDays, ts, ts).run();
+  return next;
+}
+
+export function patternSettingsToJson(settings: PatternSettings) {
+  return {
+    window_days: settings.windowDays,
+    min_samples: settings.minSamples,
+    min_confidence: settings.minConfidence,
+    half_life_days: settings.halfLifeDays,
+  };
+}
+
+export function describePatternSettings(settings: PatternSettings): string {
+  return `last ${settings.windowDays} days · at least ${settings.minSamples} samples · ${pct(settings.minConfidence)} confidence to keep · half-life ${settings.halfLifeDays} days`;
+}
+
+// ==================== STATISTICS ====================
+
+function round(value: number, places = 2): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+function pct(share: number): string {
+  return Math.round(share * 100) + '%';
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+  if (values.length < 2) return VARIANCE_FLOOR;
+  const m = mean(values);
+  return Math.max(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1), VARIANCE_FLOOR);
+}
+
+function stdDev(values: number[]): number {
+  return Math.sqrt(variance(values));
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// How sure we are an effect of z standard errors is real: 0 at z <= 0, 0.68 at 1, 0.95 at 2.
+// `candidates` corrects for having picked the strongest of several buckets (Šidák).
+function confidenceFromZ(z: number, candidates = 1): number {
+  if (!Number.isFinite(z) || z <= 0) return 0;
+  return round((2 * normalCdf(z) - 1) ** Math.max(1, candidates));
+}
+
+// Welch's test: how many standard errors `group` sits above `rest`
+function welchZ(group: number[], rest: number[]): number {
+  if (group.length < 2 || rest.length < 2) return 0;
+  return (mean(group) - mean(rest)) / Math.sqrt(variance(group) / group.length + variance(rest) / rest.length);
+}
+
+// One share against the share you'd expect by chance
+function proportionZ(hits: number, n: number, expected: number): number {
+  if (n === 0 || expected <= 0 || expected >= 1) return 0;
+  return (hits / n - expected) / Math.sqrt((expected * (1 - expected)) / n);
+}
+
+// Two shares: how far hits1/n1 sits above hits2/n2
+function twoProportionZ(hits1: number, n1: number, hits2: number, n2: number): number {
+  if (n1 === 0 || n2 === 0) return 0;
+  const pooled = (hits1 + hits2) / (n1 + n2);
+  if (pooled === 0 || pooled === 1) return 0;
+  return (hits1 / n1 - hits2 / n2) / Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+}
+
+function describeSpread(label: string, values: number[], unit: string): string {
+  return `${label}: ${round(mean(values), 1)} ${unit} on average over ${values.length} (sd ${round(stdDev(values), 1)})`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// ==================== TASK PATTERNS ====================
+
+interface AnalysisWindow {
+  timeZone: string;
+  from: string;             // First local date analysed
+  to: string;               // Last local date analysed (yesterday - today isn't over)
+  days: string[];
+  fromInstant: string;
+  toInstant: string;
+}
+
+async function findTaskPatterns(env: any, userId: string, window: AnalysisWindow, settings: PatternSettings): Promise<PatternFinding[]> {
+  const findings: PatternFinding[] = [];
+  const { minSamples } = settings;
+
+  const events = await env.DB.prepare(
+    "SELECT created_at FROM task_events WHERE user_id = ? AND event_type = 'completed' AND created_at >= ? AND created_at < ?"
+  ).bind(userId, window.fromInstant, window.toInstant).all();
+  const completions = (events.results as any[]).map(e => clockFor(window.timeZone, new Date(e.created_at)));
+  const total = completions.length;
+
+  // 1. Peak hour - is one hour's share of completions bigger than an even spread?
+  const byHour = new Array(24).fill(0);
+  for (const c of completions) byHour[c.hour]++;
+  const activeHours = byHour.filter(n => n > 0).length;
+  if (total >= minSamples && activeHours >= 2) {
+    const peakHour = byHour.indexOf(Math.max(...byHour));
+    const expected = 1 / activeHours;
+    const z = proportionZ(byHour[peakHour], total, expected);
+    const busiest = byHour.map((n, hour) => ({ hour, n })).filter(h => h.n > 0).sort((a, b) => b.n - a.n).slice(0, 4);
+    findings.push({
+      table: 'user_patterns',
+      type: 'peak_time',
+      data: { hour: peakHour, time: getTimeOfDayForHour(peakHour), count: byHour[peakHour], share: round(byHour[peakHour] / total) },
+      confidence: confidenceFromZ(z, activeHours),
+      samples: total,
+      statement: `Most productive around ${formatHour(peakHour)}`,
+      evidence: [
+        `${formatHour(peakHour)}: ${byHour[peakHour]} of ${total} completions (${pct(byHour[peakHour] / total)})`,
+        `An even spread over your ${activeHours} active hours would be ${pct(expected)} each`,
+        `Busiest hours: ${busiest.map(h => `${formatHour(h.hour)} ${h.n}`).join(', ')}`,
+        `z = ${round(z)}, best of ${activeHours} hours`,
+      ],
+    });
+  }
+
+  // 2. Peak weekday - completions per day on that weekday vs every other day
+  const perDay: Record<string, number> = {};
+  for (const c of completions) perDay[c.today] = (perDay[c.today] || 0) + 1;
+  const byWeekday: number[][] = WEEKDAY_NAMES.map(() => []);
+  for (const date of window.days) byWeekday[dayOfWeekOf(date)].push(perDay[date] || 0);
+  const weekdays = byWeekday.map((values, dow) => ({ dow, values, avg: mean(values) })).filter(w => w.values.length >= 2);
+  if (total >= minSamples && weekdays.length >= 2) {
+    const peak = weekdays.reduce((best, w) => (w.avg > best.avg ? w : best));
+    const rest = weekdays.filter(w => w.dow !== peak.dow).flatMap(w => w.values);
+    const z = welchZ(peak.values, rest);
+    const day = WEEKDAY_NAMES[peak.dow];
+    findings.push({
+      table: 'user_patterns',
+      type: 'peak_day',
+      data: { day, avg: round(peak.avg, 1), others_avg: round(mean(rest), 1), count: peak.values.reduce((a, b) => a + b, 0) },
+      confidence: confidenceFromZ(z, weekdays.length),
+      samples: total,
+      statement: `Most productive on ${capitalize(day)}s`,
+      evidence: [
+        describeSpread(`${capitalize(day)}s`, peak.values, 'completions a day'),
+        describeSpread('Other days', rest, 'completions a day'),
+        `By weekday: ${weekdays.map(w => `${capitalize(WEEKDAY_NAMES[w.dow]).slice(0, 3)} ${round(w.avg, 1)}`).join(', ')}`,
+        `Welch z = ${round(z)}, best of ${weekdays.length} weekdays`,
+      ],
+    });
+  }
+
+  // 3. Completion rate by focus level vs the other levels
+  const focusStats = await env.DB.prepare(`
+    SELECT focus_level, COUNT(CASE WHEN status = 'done' THEN 1 END) as completed, COUNT(*) as total
+    FROM tasks
+    WHERE user_id = ? AND created_at >= ? AND status != 'deleted' AND focus_level IS NOT NULL
+    GROUP BY focus_level
+  `).bind(userId, window.fromInstant).all();
+  const levels = (focusStats.results as any[]).filter(s => s.total >= minSamples);
+  const allCompleted = (focusStats.results as any[]).reduce((sum, s) => sum + s.completed, 0);
+  const allTotal = (focusStats.results as any[]).reduce((sum, s) => sum + s.total, 0);
+  for (const stat of levels) {
+    const otherCompleted = allCompleted - stat.completed;
+    const otherTotal = allTotal - stat.total;
+    if (otherTotal < minSamples) continue;
+    const rate = stat.completed / stat.total;
+    const othersRate = otherCompleted / otherTotal;
+    const z = twoProportionZ(stat.completed, stat.total, otherCompleted, otherTotal);
+    const good = z > 0;
+    findings.push({
+      table: 'user_patterns',
+      type: `completion_rate_${stat.focus_level}`,
+      data: { rate: round(rate), total: stat.total, others_rate: round(othersRate) },
+      confidence: confidenceFromZ(Math.abs(z), levels.length),
+      samples: stat.total,
+      statement: good
+        ? `Great at ${stat.focus_level}-focus tasks (${pct(rate)} completion)`
+        : `Struggling with ${stat.focus_level}-focus tasks (${pct(rate)} completion)`,
+      evidence: [
+        `${stat.completed} of ${stat.total} ${stat.focus_level}-focus tasks created since ${window.from} are done (${pct(rate)})`,
+        `Other focus levels: ${otherCompleted} of ${otherTotal} (${pct(othersRate)})`,
+        `z = ${round(z)}, one of ${levels.length} focus levels tested`,
+      ],
+    });
+  }
+
+  // 4. Time to complete - how tightly the average is pinned down
+  const durations = await env.DB.prepare(`
+    SELECT julianday(completed_at) - julianday(created_at) as days
+    FROM tasks
+    WHERE user_id = ? AND status = 'done' AND completed_at IS NOT NULL AND completed_at >= ? AND completed_at < ?
+  `).bind(userId, window.fromInstant, window.toInstant).all();
+  const days = (durations.results as any[]).map(r => Math.max(0, r.days || 0));
+  if (days.length >= minSamples) {
+    const avg = mean(days);
+    const se = stdDev(days) / Math.sqrt(days.length);
+    const tolerance = Math.max(avg * AVERAGE_TOLERANCE, 0.5);
+    const sorted = [...days].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    findings.push({
+      table: 'user_patterns',
+      type: 'avg_completion_days',
+      data: { days: round(avg, 1), median: round(median, 1), sd: round(stdDev(days), 1) },
+      confidence: confidenceFromZ(tolerance / se),
+      samples: days.length,
+      statement: `Average task completion: ${round(avg, 1)} days`,
+      evidence: [
+        describeSpread(`${days.length} tasks completed since ${window.from}`, days, 'days'),
+        `Median ${round(median, 1)} days`,
+        `95% interval for the average: ${round(Math.max(0, avg - 1.96 * se), 1)}–${round(avg + 1.96 * se, 1)} days`,
+      ],
+    });
+  }
+
+  // 5. Avoidance - a category whose open tasks go stale more often than the rest
+  const openByCategory = await env.DB.prepare(`
+    SELECT category, COUNT(*) as total, SUM(CASE WHEN julianday('now') - julianday(created_at) >= ? THEN 1 ELSE 0 END) as stuck
+    FROM tasks
+    WHERE user_id = ? AND status = 'open'
+    GROUP BY category
+  `).bind(STUCK_DAYS, userId).all();
+  const categories = openByCategory.results as any[];
+  const openTotal = categories.reduce((sum, c) => sum + c.total, 0);
+  const stuckTotal = categories.reduce((sum, c) => sum + (c.stuck || 0), 0);
+  const candidates = categories.filter(c => c.category && c.total >= minSamples && c.stuck >= 2 && openTotal - c.total > 0);
+  const avoided = candidates
+    .map(c => ({ ...c, z: twoProportionZ(c.stuck, c.total, stuckTotal - c.stuck, openTotal - c.total) }))
+    .sort((a, b) => b.z - a.z)[0];
+  if (avoided) {
+    const otherStuck = stuckTotal - avoided.stuck;
+    const otherTotal = openTotal - avoided.total;
+    findings.push({
+      table: 'user_patterns',
+      type: 'avoidance_category',
+      data: { category: avoided.category, count: avoided.stuck, total: avoided.total, share: round(avoided.stuck / avoided.total), others_share: round(otherStuck / otherTotal) },
+      confidence: confidenceFromZ(avoided.z, candidates.length),
+      samples: avoided.total,
+      statement: `Tends to delay ${avoided.category} tasks`,
+      evidence: [
+        `${avoided.stuck} of ${avoided.total} open ${avoided.category} tasks are ${STUCK_DAYS}+ days old (${pct(avoided.stuck / avoided.total)})`,
+        `Other categories: ${otherStuck} of ${otherTotal} (${pct(otherStuck / otherTotal)})`,
+        `z = ${round(avoided.z)}, worst of ${candidates.length} categories`,
+      ],
+    });
+  }
+
+  return findings;
+}
+
+// ==================== JOURNAL PATTERNS ====================
+
+async function findJournalPatterns(env: any, userId: string, window: AnalysisWindow, settings: PatternSettings): Promise<PatternFinding[]> {
+  const findings: PatternFinding[] = [];
+  const { minSamples } = settings;
+
+  const entries = await env.DB.prepare(`
+    SELECT je.id, je.entry_date, je.mood, je.energy_level, COALESCE(dl.tasks_completed, 0) as tasks_completed
+    FROM journal_entries je
+    LEFT JOIN daily_logs dl ON dl.user_id = je.user_id AND dl.log_date = je.entry_date
+    WHERE je.user_id = ? AND je.entry_date >= ? AND je.entry_date <= ?
+  `).bind(userId, window.from, window.to).all();
+  const rows = entries.results as any[];
+  const withMood = rows.filter(r => r.mood);
+
+  // 6. Negative moods that cluster on one weekday
+  const moodTests: { day: string; mood: string; hits: number; n: number; otherHits: number; otherN: number; z: number }[] = [];
+  for (let dow = 0; dow < 7; dow++) {
+    const onDay = withMood.filter(r => dayOfWeekOf(r.entry_date) === dow);
+    if (onDay.length < minSamples) continue;
+    const others = withMood.filter(r => dayOfWeekOf(r.entry_date) !== dow);
+    for (const mood of NEGATIVE_MOODS) {
+      const hits = onDay.filter(r => r.mood === mood).length;
+      if (hits < 2) continue;
+      const otherHits = others.filter(r => r.mood === mood).length;
+      moodTests.push({ day: WEEKDAY_NAMES[dow], mood, hits, n: onDay.length, otherHits, otherN: others.length, z: twoProportionZ(hits, onDay.length, otherHits, others.length) });
+    }
+  }
+  for (const day of WEEKDAY_NAMES) {
+    const best = moodTests.filter(t => t.day === day).sort((a, b) => b.z - a.z)[0];
+    if (!best) continue;
+    findings.push({
+      table: 'journal_patterns',
+      type: `mood_day_${day}`,
+      data: { mood: best.mood, count: best.hits, entries: best.n, share: round(best.hits / best.n) },
+      confidence: confidenceFromZ(best.z, moodTests.length),
+      samples: best.n,
+      statement: `Often feel ${best.mood} on ${day}s`,
+      evidence: [
+        `${best.hits} of ${best.n} ${capitalize(day)} entries were ${best.mood} (${pct(best.hits / best.n)})`,
+        `Other days: ${best.otherHits} of ${best.otherN} (${best.otherN > 0 ? pct(best.otherHits / best.otherN) : 'n/a'})`,
+        `z = ${round(best.z)}, one of ${moodTests.length} weekday/mood pairs tested`,
+      ],
+    });
+  }
+
+  // 7. Energy by weekday - the highest and lowest days against the rest
+  const energyDays = WEEKDAY_NAMES
+    .map((day, dow) => ({ day, values: rows.filter(r => r.energy_level != null && dayOfWeekOf(r.entry_date) === dow).map(r => r.energy_level) }))
+    .filter(d => d.values.length >= Math.max(2, minSamples));
+  if (energyDays.length >= 3) {
+    const sorted = [...energyDays].sort((a, b) => mean(b.values) - mean(a.values));
+    for (const [type, pick, sign] of [['energy_high_day', sorted[0], 1], ['energy_low_day', sorted[sorted.length - 1], -1]] as const) {
+      const rest = energyDays.filter(d => d.day !== pick.day).flatMap(d => d.values);
+      const z = sign * welchZ(pick.values, rest);
+      findings.push({
+        table: 'journal_patterns',
+        type,
+        data: { day: pick.day, avg: round(mean(pick.values), 1), others_avg: round(mean(rest), 1) },
+        confidence: confidenceFromZ(z, energyDays.length),
+        samples: pick.values.length,
+        statement: `${sign > 0 ? 'Highest' : 'Lowest'} energy on ${pick.day}s (avg ${round(mean(pick.values), 1)}/10)`,
+        evidence: [
+          describeSpread(`${capitalize(pick.day)}s`, pick.values, '/10'),
+          describeSpread('Other days', rest, '/10'),
+          `Welch z = ${round(z)}, ${sign > 0 ? 'highest' : 'lowest'} of ${energyDays.length} weekdays`,
+        ],
+      });
+    }
+  }
+
+  // 8. Mood vs tasks completed that day
+  const moods = [...new Set(withMood.map(r => r.mood))]
+    .map(mood => ({ mood, values: withMood.filter(r => r.mood === mood).map(r => r.tasks_completed) }))
+    .filter(m => m.values.length >= Math.max(2, minSamples));
+  if (moods.length >= 2) {
+    const sorted = [...moods].sort((a, b) => mean(b.values) - mean(a.values));
+    for (const [type, pick, sign] of [['productive_mood', sorted[0], 1], ['unproductive_mood', sorted[sorted.length - 1], -1]] as const) {
+      const rest = withMood.filter(r => r.mood !== pick.mood).map(r => r.tasks_completed);
+      const z = sign * welchZ(pick.values, rest);
+      findings.push({
+        table: 'journal_patterns',
+        type,
+        data: { mood: pick.mood, avg_tasks: round(mean(pick.values), 1), others_avg: round(mean(rest), 1), entries: pick.values.length },
+        confidence: confidenceFromZ(z, moods.length),
+        samples: pick.values.length,
+        statement: sign > 0 ? `Most productive when feeling ${pick.mood} (avg ${round(mean(pick.values), 1)} tasks)` : `Least productive when feeling ${pick.mood}`,
+        evidence: [
+          describeSpread(`Days you felt ${pick.mood}`, pick.values, 'tasks done'),
+          describeSpread('Other journaled days', rest, 'tasks done'),
+          `Welch z = ${round(z)}, ${sign > 0 ? 'best' : 'worst'} of ${moods.length} moods`,
+        ],
+      });
+    }
+  }
+
+  // 9. People and things that come up with a particular mood
+  const mentions = await env.DB.prepare(`
+    SELECT ent.entity_value, ent.entity_type, je.id as entry_id, je.mood
+    FROM journal_entities ent
+    JOIN journal_entries je ON ent.entry_id = je.id
+    WHERE je.user_id = ? AND je.entry_date >= ? AND je.entry_date <= ? AND je.mood IS NOT NULL
+  `).bind(userId, window.from, window.to).all();
+  const entities = new Map<string, { type: string; moods: Map<string, string> }>();
+  for (const m of mentions.results as any[]) {
+    const entity = entities.get(m.entity_value) || { type: m.entity_type, moods: new Map<string, string>() };
+    entity.moods.set(m.entry_id, m.mood);
+    entities.set(m.entity_value, entity);
+  }
+  const entityTests: { value: string; type: string; mood: string; hits: number; n: number; otherHits: number; otherN: number; z: number }[] = [];
+  for (const [value, entity] of entities) {
+    const n = entity.moods.size;
+    if (n < minSamples) continue;
+    for (const mood of [...NEGATIVE_MOODS, ...POSITIVE_MOODS]) {
+      const hits = [...entity.moods.values()].filter(m => m === mood).length;
+      if (hits < 2) continue;
+      const otherHits = withMood.filter(r => r.mood === mood).length - hits;
+      const otherN = withMood.length - n;
+      entityTests.push({ value, type: entity.type, mood, hits, n, otherHits, otherN, z: twoProportionZ(hits, n, otherHits, otherN) });
+    }
+  }
+  for (const t of entityTests.sort((a, b) => b.z - a.z).slice(0, 10)) {
+    const negative = NEGATIVE_MOODS.includes(t.mood);
+    findings.push({
+      table: 'journal_patterns',
+      type: `entity_${negative ? 'negative' : 'positive'}_${t.value}`,
+      data: { entity_value: t.value, entity_type: t.type, mood: t.mood, mentions: t.hits, entries: t.n },
+      confidence: confidenceFromZ(t.z, entityTests.length),
+      samples: t.n,
+      statement: negative ? `Often feel ${t.mood} when "${t.value}" is mentioned` : `Often feel ${t.mood} around "${t.value}"`,
+      evidence: [
+        `${t.hits} of ${t.n} entries mentioning "${t.value}" were ${t.mood} (${pct(t.hits / t.n)})`,
+        `Entries without it: ${t.otherHits} of ${t.otherN} (${t.otherN > 0 ? pct(t.otherHits / t.otherN) : 'n/a'})`,
+        `z = ${round(t.z)}, one of ${entityTests.length} mention/mood pairs tested`,
+      ],
+    });
+  }
+
+  return findings;
+}
+
+// ==================== STORAGE ====================
+
+async function storeFinding(env: any, userId: string, finding: PatternFinding, ts: string) {
+  const evidence = JSON.stringify({ statement: finding.statement, details: finding.evidence });
+  const existing = await env.DB.prepare(
+    `SELECT id FROM ${finding.table} WHERE user_id = ? AND pattern_type = ?`
+  ).bind(userId, finding.type).first();
+
+  if (existing) {
+    await env.DB.prepare(
+      `UPDATE ${finding.table} SET pattern_data = ?, confidence = ?, sample_size = ?, evidence = ?, confirmed_confidence = ?, confirmed_at = ?, updated_at = ? WHERE user_id = ? AND pattern_type = ?`
+    ).bind(JSON.stringify(finding.data), finding.confidence, finding.samples, evidence, finding.confidence, ts, ts, userId, finding.type).run();
+  } else if (finding.table === 'journal_patterns') {
+    await env.DB.prepare(
+      'INSERT INTO journal_patterns (id, user_id, pattern_type, pattern_data, confidence, sample_size, evidence, confirmed_confidence, confirmed_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(crypto.randomUUID(), userId, finding.type, JSON.stringify(finding.data), finding.confidence, finding.samples, evidence, finding.confidence, ts, ts, ts).run();
+  } else {
+    await env.DB.prepare(
+      'INSERT INTO user_patterns (id, user_id, pattern_type, pattern_data, confidence, sample_size, evidence, confirmed_confidence, confirmed_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(crypto.randomUUID(), userId, finding.type, JSON.stringify(finding.data), finding.confidence, finding.samples, evidence, finding.confidence, ts, ts).run();
+  }
+}
+
+function parseEvidence(row: any): { statement: string | null; details: string[] } {
+  try {
+    const parsed = JSON.parse(row.evidence);
+    return { statement: parsed.statement || null, details: Array.isArray(parsed.details) ? parsed.details : [] };
+  } catch {
+    return { statement: null, details: [] };
+  }
+}
+
+function describeRow(row: any): string {
+  return parseEvidence(row).statement || row.pattern_type.replace(/_/g, ' ');
+}
+
+// Patterns not confirmed this run fade from their last confirmed confidence, and
+// are deleted once they fall below the minimum. Rows from before confidence was
+// tracked fade from their stored confidence and last update.
+async function decayPatterns(env: any, userId: string, table: PatternTable, confirmed: Set<string>, settings: PatternSettings, now: Date) {
+  const fading: string[] = [];
+  const expired: string[] = [];
+  const rows = await env.DB.prepare(`SELECT * FROM ${table} WHERE user_id = ?`).bind(userId).all();
+
+  for (const row of rows.results as any[]) {
+    if (confirmed.has(row.pattern_type)) continue;
+    const since = row.confirmed_at || row.updated_at || row.created_at;
+    const base = Math.min(1, row.confirmed_confidence ?? row.confidence ?? 0);
+    const ageDays = since ? Math.max(0, (now.getTime() - new Date(since).getTime()) / 86400000) : Infinity;
+    const confidence = round(base * 0.5 ** (ageDays / settings.halfLifeDays));
+
+    if (confidence < settings.minConfidence) {
+      await env.DB.prepare(`DELETE FROM ${table} WHERE user_id = ? AND pattern_type = ?`).bind(userId, row.pattern_type).run();
+      expired.push(describeRow(row));
+    } else {
+      await env.DB.prepare(`UPDATE ${table} SET confidence = ? WHERE user_id = ? AND pattern_type = ?`).bind(confidence, userId, row.pattern_type).run();
+      fading.push(`${describeRow(row)} (${pct(confidence)})`);
+    }
+  }
+  return { fading, expired };
+}
+
+// ==================== ANALYSIS ====================
+
+export async function analyzePatterns(env: any, userId: string, now: Date = new Date()): Promise<PatternAnalysis> {
+  const settings = await getPatternSettings(env, userId);
+  const clock = await getUserClock(env, userId, now);
+
+  // Start at the window edge or the user's first task event, whichever is later,
+  // so days before they used the system don't read as zero-completion days
+  let from = clock.daysAgo(settings.windowDays);
+  const first = await env.DB.prepare('SELECT MIN(created_at) as first FROM task_events WHERE user_id = ?').bind(userId).first();
+  if (first?.first) {
+    const firstDate = toLocalDate(first.first, clock.timeZone);
+    if (firstDate > from) from = firstDate;
+  }
+  const to = clock.daysAgo(1);
+  const days: string[] = [];
+  for (let d = from; d <= to; d = shiftDate(d, 1)) days.push(d);
+  const window: AnalysisWindow = { timeZone: clock.timeZone, from, to, days, fromInstant: clock.startOf(from), toInstant: clock.startOf(clock.today) };
+
+  const findings = await findTaskPatterns(env, userId, window, settings);
+  let journalAvailable = true;
+  try {
+    findings.push(...await findJournalPatterns(env, userId, window, settings));
+  } catch (e) {
+    // Journal tables might not exist yet - that's okay
+    console.error('Journal pattern analysis error:', e);
+    journalAvailable = false;
+  }
+
+  const ts = now.toISOString();
+  const confirmed: Record<PatternTable, Set<string>> = { user_patterns: new Set(), journal_patterns: new Set() };
+  const insights: string[] = [];
+  for (const finding of findings) {
+    if (finding.samples < settings.minSamples || finding.confidence < settings.minConfidence) continue;
+    await storeFinding(env, userId, finding, ts);
+    confirmed[finding.table].add(finding.type);
+    insights.push(`${finding.statement} · ${pct(finding.confidence)} confidence`);
+  }
+
+  const decayed = await decayPatterns(env, userId, 'user_patterns', confirmed.user_patterns, settings, now);
+  if (journalAvailable) {
+    const journal = await decayPatterns(env, userId, 'journal_patterns', confirmed.journal_patterns, settings, now);
+    decayed.fading.push(...journal.fading);
+    decayed.expired.push(...journal.expired);
+  }
+
+  return { settings, from, to, tested: findings.length, insights, ...decayed };
+}
+
+// ==================== REPORT ====================
+
+export async function getPatternReport(env: any, userId: string, source: PatternSource = 'all'): Promise<PatternReportEntry[]> {
+  const tables: { table: PatternTable; source: 'tasks' | 'journal' }[] = [];
+  if (source !== 'journal') tables.push({ table: 'user_patterns', source: 'tasks' });
+  if (source !== 'tasks') tables.push({ table: 'journal_patterns', source: 'journal' });
+
+  const entries: PatternReportEntry[] = [];
+  for (const { table, source: entrySource } of tables) {
+    try {
+      const rows = await env.DB.prepare(`SELECT * FROM ${table} WHERE user_id = ? ORDER BY confidence DESC`).bind(userId).all();
+      for (const row of rows.results as any[]) {
+        const evidence = parseEvidence(row);
+        entries.push({
+          source: entrySource,
+          type: row.pattern_type,
+          statement: describeRow(row),
+          confidence: row.confidence ?? 0,
+          confirmedConfidence: row.confirmed_confidence ?? null,
+          confirmedAt: row.confirmed_at ?? null,
+          samples: row.sample_size ?? null,
+          details: evidence.details,
+          fading: row.confirmed_confidence != null && row.confidence < row.confirmed_confidence,
+        });
+      }
+    } catch {
+      // Table might not exist yet
+    }
+  }
+  return entries;
+}
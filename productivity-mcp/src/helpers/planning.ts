@@ -0,0 +1,264 @@
+// Capacity planning - task estimates, actual time rolled up from progress_logs,
+// and the day-by-day week plan behind plan_week.
+
+import { getPatterns } from './intelligence';
+import { getOpenBlockers } from './dependencies';
+import { isRecurrenceDueOn } from './recurrence';
+import { dayOfWeekOf, type UserClock } from './datetime';
+import { getOpenTimer, elapsedSeconds } from './timers';
+
+export const DEFAULT_DAILY_CAPACITY_MINUTES = 360;
+
+// Used when a task has no estimate of its own, keyed by its focus_level
+export const DEFAULT_ESTIMATES: Record<string, number> = { low: 15, medium: 45, high: 90 };
+
+// plan_week's focus_level scales the daily capacity
+const FOCUS_CAPACITY_SCALE: Record<string, number> = { low: 0.6, normal: 1, high: 1.2 };
+
+// Share of a day's capacity that deep (high focus) work may take; more on the power day
+const DEEP_WORK_SHARE = 0.5;
+const PEAK_DAY_DEEP_WORK_SHARE = 0.75;
+
+// Don't plan the rest of today once the work day is effectively over
+const LAST_PLANNABLE_HOUR = 17;
+
+// Within a day, which focus levels go first for each peak_time
+const FOCUS_ORDER_BY_PEAK: Record<string, string[]> = {
+  morning: ['high', 'medium', 'low'],
+  afternoon: ['low', 'high', 'medium'],
+  evening: ['low', 'medium', 'high'],
+};
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export interface PlannedTask {
+  task: any;
+  minutes: number;       // remaining minutes planned for this day
+  estimated: boolean;    // false when the minutes come from DEFAULT_ESTIMATES
+  atRisk: boolean;       // lands after its due date
+}
+
+export interface PlanDay {
+  date: string;
+  dayName: string;
+  capacity: number;
+  recurring: PlannedTask[];
+  tasks: PlannedTask[];
+  used: number;
+  deepWork: number;
+  isPeakDay: boolean;
+}
+
+export interface WeekPlan {
+  days: PlanDay[];
+  overflow: PlannedTask[];
+  blocked: number;
+  dailyCapacity: number;
+  peakDay: string | null;
+  peakTime: string | null;
+}
+
+export interface WeekPlanOptions {
+  focusLevel?: 'high' | 'normal' | 'low';
+  capacityMinutes?: number;
+  includeWeekends?: boolean;
+}
+
+export async function getDailyCapacity(env: any, userId: string): Promise<number> {
+  try {
+    const row = await env.DB.prepare('SELECT daily_capacity_minutes FROM user_settings WHERE user_id = ?').bind(userId).first();
+    if (row?.daily_capacity_minutes != null) return row.daily_capacity_minutes;
+  } catch {
+    // Column might not exist yet
+  }
+  return DEFAULT_DAILY_CAPACITY_MINUTES;
+}
+
+export async function setDailyCapacity(env: any, userId: string, minutes: number) {
+  const ts = new Date().toISOString();
+  await env.DB.prepare(
+    'INSERT INTO user_settings (user_id, daily_capacity_minutes, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET daily_capacity_minutes = excluded.daily_capacity_minutes, updated_at = excluded.updated_at'
+  ).bind(userId, minutes, ts, ts).run();
+}
+
+// Minutes logged against each task, keyed by task id. Stopped timers are already
+// in progress_logs; a user's open timer is added on top so estimates stay live.
+// Pass null for userId to include every user's logs (teammate views).
+export async function getActualMinutesByTask(env: any, userId: string | null): Promise<Map<string, number>> {
+  const actuals = new Map<string, number>();
+  let query = 'SELECT task_id, SUM(minutes_spent) as minutes FROM progress_logs WHERE task_id IS NOT NULL AND minutes_spent > 0';
+  const bindings: any[] = [];
+  if (userId) {
+    query += ' AND user_id = ?';
+    bindings.push(userId);
+  }
+  const result = await env.DB.prepare(query + ' GROUP BY task_id').bind(...bindings).all();
+  for (const row of result.results as any[]) actuals.set(row.task_id, row.minutes);
+
+  if (userId) {
+    const timer = await getOpenTimer(env, userId);
+    if (timer) actuals.set(timer.task_id, (actuals.get(timer.task_id) || 0) + Math.floor(elapsedSeconds(timer) / 60));
+  }
+  return actuals;
+}
+
+export function estimateFor(task: any): number {
+  return task.estimated_minutes || DEFAULT_ESTIMATES[task.focus_level] || DEFAULT_ESTIMATES.medium;
+}
+
+// What's left of the estimate after logged time; never less than a short session
+export function remainingMinutes(task: any, actualMinutes: number = 0): number {
+  return Math.max(estimateFor(task) - actualMinutes, DEFAULT_ESTIMATES.low);
+}
+
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const mins = rounded % 60;
+  if (hours === 0) return mins + 'm';
+  return mins === 0 ? hours + 'h' : hours + 'h ' + mins + 'm';
+}
+
+// Due this week first (soonest first), then active, then by priority
+function comparePlanOrder(a: any, b: any, weekEnd: string): number {
+  const aDue = a.due_date ? a.due_date.split('T')[0] : null;
+  const bDue = b.due_date ? b.due_date.split('T')[0] : null;
+  const aSoon = aDue !== null && aDue <= weekEnd;
+  const bSoon = bDue !== null && bDue <= weekEnd;
+  if (aSoon !== bSoon) return aSoon ? -1 : 1;
+  if (aSoon && bSoon && aDue !== bDue) return aDue! < bDue! ? -1 : 1;
+  const aActive = a.is_active || a.objective_id ? 1 : 0;
+  const bActive = b.is_active || b.objective_id ? 1 : 0;
+  if (aActive !== bActive) return bActive - aActive;
+  if (a.priority !== b.priority) return b.priority - a.priority;
+  return (a.created_at || '').localeCompare(b.created_at || '');
+}
+
+function readPattern(patterns: any[], type: string, key: string): string | null {
+  const pattern = patterns.find(p => p.pattern_type === type);
+  if (!pattern) return null;
+  try {
+    return JSON.parse(pattern.pattern_data)[key] || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function buildWeekPlan(env: any, userId: string, clock: UserClock, options: WeekPlanOptions = {}): Promise<WeekPlan> {
+  const baseCapacity = options.capacityMinutes ?? await getDailyCapacity(env, userId);
+  const dailyCapacity = Math.round(baseCapacity * (FOCUS_CAPACITY_SCALE[options.focusLevel || 'normal'] ?? 1));
+
+  const patterns = await getPatterns(env, userId);
+  const peakDay = readPattern(patterns, 'peak_day', 'day');
+  const peakTime = readPattern(patterns, 'peak_time', 'time');
+
+  // Five working days, or seven with weekends
+  const span = options.includeWeekends ? 7 : 5;
+  const days: PlanDay[] = [];
+  for (let i = clock.hour >= LAST_PLANNABLE_HOUR ? 1 : 0; days.length < span; i++) {
+    const date = clock.daysFromNow(i);
+    const dow = dayOfWeekOf(date);
+    if (!options.includeWeekends && (dow === 0 || dow === 6)) continue;
+    const dayName = WEEKDAY_NAMES[dow];
+    days.push({ date, dayName, capacity: dailyCapacity, recurring: [], tasks: [], used: 0, deepWork: 0, isPeakDay: dayName === peakDay });
+  }
+  const weekEnd = days[days.length - 1].date;
+
+  const open = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'open'").bind(userId).all();
+  const blockers = await getOpenBlockers(env, userId);
+  const actuals = await getActualMinutesByTask(env, userId);
+
+  // Recurring occurrences are fixed - reserve their time before placing anything else
+  const oneOff: any[] = [];
+  for (const task of open.results as any[]) {
+    if (!task.recurrence) { oneOff.push(task); continue; }
+    const minutes = estimateFor(task);
+    for (const day of days) {
+      const dueDate = task.due_date ? task.due_date.split('T')[0] : null;
+      if (dueDate && dueDate > day.date) continue;
+      if (!isRecurrenceDueOn(task.recurrence, day.date, task.due_date)) continue;
+      day.recurring.push({ task, minutes, estimated: !!task.estimated_minutes, atRisk: false });
+      day.used += minutes;
+    }
+  }
+
+  let blocked = 0;
+  const overflow: PlannedTask[] = [];
+  const candidates = oneOff.filter(t => {
+    if (blockers.has(t.id)) { blocked++; return false; }
+    return !t.snoozed_until || t.snoozed_until.split('T')[0] <= weekEnd;
+  }).sort((a, b) => comparePlanOrder(a, b, weekEnd));
+
+  for (const task of candidates) {
+    const minutes = remainingMinutes(task, actuals.get(task.id));
+    const entry: PlannedTask = { task, minutes, estimated: !!task.estimated_minutes, atRisk: false };
+    const deep = task.focus_level === 'high';
+    const earliest = task.snoozed_until ? task.snoozed_until.split('T')[0] : '';
+    const due = task.due_date ? task.due_date.split('T')[0] : null;
+
+    // Days on or before the due date first; deep work prefers the power day
+    const order = days.filter(d => d.date >= earliest).sort((a, b) => {
+      const aOnTime = !due || a.date <= due ? 0 : 1;
+      const bOnTime = !due || b.date <= due ? 0 : 1;
+      if (aOnTime !== bOnTime) return aOnTime - bOnTime;
+      if (deep && a.isPeakDay !== b.isPeakDay) return a.isPeakDay ? -1 : 1;
+      return a.date < b.date ? -1 : 1;
+    });
+
+    const day = order.find(d => {
+      if (d.used + minutes > d.capacity) return false;
+      if (!deep) return true;
+      return d.deepWork + minutes <= d.capacity * (d.isPeakDay ? PEAK_DAY_DEEP_WORK_SHARE : DEEP_WORK_SHARE);
+    });
+    if (!day) { overflow.push(entry); continue; }
+
+    entry.atRisk = due !== null && day.date > due;
+    day.tasks.push(entry);
+    day.used += minutes;
+    if (deep) day.deepWork += minutes;
+  }
+
+  // Deep work lands in the user's peak time of day
+  const focusOrder = FOCUS_ORDER_BY_PEAK[peakTime || 'morning'] || FOCUS_ORDER_BY_PEAK.morning;
+  const rank = (p: PlannedTask) => {
+    const idx = focusOrder.indexOf(p.task.focus_level || 'medium');
+    return idx === -1 ? focusOrder.indexOf('medium') : idx;
+  };
+  for (const day of days) day.tasks.sort((a, b) => rank(a) - rank(b));
+
+  return { days, overflow, blocked, dailyCapacity, peakDay, peakTime };
+}
+
+export interface EstimateAccuracy {
+  count: number;              // done tasks with both an estimate and logged time
+  estimatedMinutes: number;
+  actualMinutes: number;
+  ratio: number;              // actual / estimate; > 1 means things take longer than planned
+  withinRange: number;        // tasks whose actual was within ±25% of the estimate
+}
+
+export async function getEstimateAccuracy(env: any, userId: string, since?: string): Promise<EstimateAccuracy | null> {
+  let query = `
+    SELECT t.estimated_minutes as estimate, SUM(p.minutes_spent) as actual
+    FROM tasks t
+    JOIN progress_logs p ON p.task_id = t.id
+    WHERE t.user_id = ? AND t.status = 'done' AND t.estimated_minutes > 0 AND p.minutes_spent > 0`;
+  const bindings: any[] = [userId];
+  if (since) { query += ' AND t.completed_at >= ?'; bindings.push(since); }
+  query += ' GROUP BY t.id';
+
+  let rows: any[];
+  try {
+    const result = await env.DB.prepare(query).bind(...bindings).all();
+    rows = result.results || [];
+  } catch {
+    // estimated_minutes might not exist yet
+    return null;
+  }
+  if (rows.length === 0) return null;
+
+  const estimatedMinutes = rows.reduce((sum, r) => sum + r.estimate, 0);
+  const actualMinutes = rows.reduce((sum, r) => sum + r.actual, 0);
+  const withinRange = rows.filter(r => Math.abs(r.actual - r.estimate) <= r.estimate * 0.25).length;
+  return { count: rows.length, estimatedMinutes, actualMinutes, ratio: actualMinutes / estimatedMinutes, withinRange };
+}
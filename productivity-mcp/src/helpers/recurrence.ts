@@ -0,0 +1,328 @@
+// Recurrence rules - a subset of RFC 5545 RRULE plus the legacy shorthands
+//
+// Supported parts: FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (with
+// ordinals like 2TU or -1FR), BYMONTHDAY, BYMONTH, BYSETPOS, COUNT, UNTIL, WKST.
+// Weeks always start on Monday. Unlike RFC 5545, a monthly day past the end of a
+// short month (31st, or the anchor's 30th in February) lands on the month's last
+// day instead of skipping the month. Examples:
+//   every 2nd Tuesday              FREQ=MONTHLY;BYDAY=2TU
+//   last business day of month     FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1
+//   every 3 weeks on Friday        FREQ=WEEKLY;INTERVAL=3;BYDAY=FR
+//   ten times, every other day     FREQ=DAILY;INTERVAL=2;COUNT=10
+
+export type RecurrenceFreq = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFreq;
+  interval: number;
+  byDay: { weekday: number; ordinal: number }[]; // weekday 0 = Sunday, ordinal 0 = every
+  byMonthDay: number[];
+  byMonth: number[]; // 1-12
+  bySetPos: number[];
+  count: number | null;
+  until: string | null; // YYYY-MM-DD, inclusive
+}
+
+export const RECURRENCE_HINT = 'Use daily, weekdays, weekly, biweekly, monthly, yearly, day lists like "mon,thu", or an RRULE like "FREQ=MONTHLY;BYDAY=2TU".';
+
+// Legacy shorthands stored in tasks.recurrence before RRULE support
+const RECURRENCE_ALIASES: Record<string, string> = {
+  daily: 'FREQ=DAILY',
+  weekdays: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+  weekly: 'FREQ=WEEKLY',
+  biweekly: 'FREQ=WEEKLY;INTERVAL=2',
+  monthly: 'FREQ=MONTHLY',
+  yearly: 'FREQ=YEARLY',
+};
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_SHORT = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Days since 1970-01-01 - keeps all arithmetic in whole calendar days
+function toDayNumber(dateStr: string): number {
+  const [y, m, d] = dateStr.split('T')[0].split('-').map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+}
+
+function fromDayNumber(n: number): string {
+  return new Date(n * 86400000).toISOString().split('T')[0];
+}
+
+function weekdayOf(dayNumber: number): number {
+  return (((dayNumber + 4) % 7) + 7) % 7; // 1970-01-01 was a Thursday
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function parseUntil(value: string): string | null {
+  const m = value.match(/^(\d{4})-?(\d{2})-?(\d{2})(?:T\d{6}Z?)?$/i);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+}
+
+function parseIntList(value: string, min: number, max: number, allowNegative: boolean): number[] | null {
+  const nums = value.split(',').map(v => Number(v.trim()));
+  for (const n of nums) {
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max || (n < 0 && !allowNegative)) return null;
+  }
+  return nums;
+}
+
+// Expand a shorthand ("weekly", "mon,thu") to its RRULE form; RRULEs pass through
+export function normalizeRecurrence(recurrence: string): string | null {
+  const text = recurrence.trim().replace(/^RRULE:/i, '');
+  if (!text) return null;
+  if (text.includes('=')) return text.toUpperCase();
+
+  const lower = text.toLowerCase();
+  if (RECURRENCE_ALIASES[lower]) return RECURRENCE_ALIASES[lower];
+
+  const days = lower.split(',').map(d => DAY_SHORT.indexOf(d.trim().slice(0, 3)));
+  if (days.length === 0 || days.includes(-1)) return null;
+  return 'FREQ=WEEKLY;BYDAY=' + days.map(d => DAY_CODES[d]).join(',');
+}
+
+// Parse a recurrence string into a rule. Returns null if any part is invalid
+// or unsupported, so callers can reject it instead of guessing.
+export function parseRecurrence(recurrence: string | null | undefined): RecurrenceRule | null {
+  if (!recurrence) return null;
+  const normalized = normalizeRecurrence(recurrence);
+  if (!normalized) return null;
+
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [], byMonth: [], bySetPos: [], count: null, until: null };
+  let hasFreq = false;
+
+  for (const part of normalized.split(';').filter(p => p.trim())) {
+    const [key, value] = part.split('=').map(s => s.trim());
+    if (!value) return null;
+
+    switch (key) {
+      case 'FREQ':
+        if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(value)) return null;
+        rule.freq = value as RecurrenceFreq;
+        hasFreq = true;
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(value);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) return null;
+        break;
+      case 'BYDAY':
+        for (const token of value.split(',')) {
+          const m = token.trim().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!m) return null;
+          const ordinal = m[1] ? Number(m[1]) : 0;
+          if (m[1] && (ordinal === 0 || Math.abs(ordinal) > 53)) return null;
+          rule.byDay.push({ weekday: DAY_CODES.indexOf(m[2]), ordinal });
+        }
+        break;
+      case 'BYMONTHDAY': {
+        const days = parseIntList(value, 1, 31, true);
+        if (!days) return null;
+        rule.byMonthDay = days;
+        break;
+      }
+      case 'BYMONTH': {
+        const months = parseIntList(value, 1, 12, false);
+        if (!months) return null;
+        rule.byMonth = months;
+        break;
+      }
+      case 'BYSETPOS': {
+        const positions = parseIntList(value, 1, 366, true);
+        if (!positions) return null;
+        rule.bySetPos = positions;
+        break;
+      }
+      case 'COUNT':
+        rule.count = Number(value);
+        if (!Number.isInteger(rule.count) || rule.count < 1) return null;
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        if (!rule.until) return null;
+        break;
+      case 'WKST':
+        // Weeks always start on Monday here
+        break;
+      default:
+        return null;
+    }
+  }
+
+  if (!hasFreq || (rule.count !== null && rule.until !== null)) return null;
+  // Ordinal weekdays only make sense within a month or year
+  if ((rule.freq === 'DAILY' || rule.freq === 'WEEKLY') && rule.byDay.some(d => d.ordinal !== 0)) return null;
+  return rule;
+}
+
+// Period index for a date: the day, Monday-based week, month or year it falls in
+function periodOf(freq: RecurrenceFreq, dayNumber: number): number {
+  const date = fromDayNumber(dayNumber);
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  switch (freq) {
+    case 'DAILY': return dayNumber;
+    case 'WEEKLY': return Math.floor((dayNumber - 4) / 7); // day 4 = Monday 1970-01-05
+    case 'MONTHLY': return year * 12 + (month - 1);
+    case 'YEARLY': return year;
+  }
+}
+
+// Day numbers in one month that satisfy BYMONTHDAY/BYDAY (or the anchor's day)
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, anchorDay: number): number[] {
+  const first = Date.UTC(year, month - 1, 1) / 86400000;
+  const dim = daysInMonth(year, month);
+
+  let days: number[] | null = null;
+  if (rule.byMonthDay.length > 0) {
+    days = rule.byMonthDay.map(d => (d > 0 ? Math.min(d, dim) : dim + d + 1)).filter(d => d >= 1);
+  }
+  if (rule.byDay.length > 0) {
+    const fromByDay: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let d = 1; d <= dim; d++) if (weekdayOf(first + d - 1) === weekday) matching.push(d);
+      if (ordinal === 0) fromByDay.push(...matching);
+      else {
+        const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (pick !== undefined) fromByDay.push(pick);
+      }
+    }
+    days = days ? days.filter(d => fromByDay.includes(d)) : fromByDay;
+  }
+  if (!days) days = [Math.min(anchorDay, dim)];
+
+  return days.map(d => first + d - 1);
+}
+
+// Every occurrence inside one period, sorted, before COUNT/UNTIL are applied
+function periodCandidates(rule: RecurrenceRule, period: number, anchor: number): number[] {
+  const anchorDate = fromDayNumber(anchor);
+  const anchorMonth = Number(anchorDate.slice(5, 7));
+  const anchorDay = Number(anchorDate.slice(8, 10));
+  let candidates: number[] = [];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const date = fromDayNumber(period);
+      const dom = Number(date.slice(8, 10));
+      const dim = daysInMonth(Number(date.slice(0, 4)), Number(date.slice(5, 7)));
+      const dayOk = rule.byDay.length === 0 || rule.byDay.some(d => d.weekday === weekdayOf(period));
+      const domOk = rule.byMonthDay.length === 0 || rule.byMonthDay.some(d => (d > 0 ? d : dim + d + 1) === dom);
+      if (dayOk && domOk) candidates = [period];
+      break;
+    }
+    case 'WEEKLY': {
+      const monday = period * 7 + 4;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [weekdayOf(anchor)];
+      for (let i = 0; i < 7; i++) if (weekdays.includes(weekdayOf(monday + i))) candidates.push(monday + i);
+      break;
+    }
+    case 'MONTHLY':
+      candidates = monthCandidates(rule, Math.floor(period / 12), (period % 12) + 1, anchorDay);
+      break;
+    case 'YEARLY': {
+      const yearlyOrdinals = rule.byMonth.length === 0 && rule.byMonthDay.length === 0 && rule.byDay.some(d => d.ordinal !== 0);
+      if (yearlyOrdinals) {
+        // BYDAY=20MO etc. counts weekdays across the whole year
+        const first = Date.UTC(period, 0, 1) / 86400000;
+        const last = Date.UTC(period, 11, 31) / 86400000;
+        for (const { weekday, ordinal } of rule.byDay) {
+          const matching: number[] = [];
+          for (let n = first; n <= last; n++) if (weekdayOf(n) === weekday) matching.push(n);
+          if (ordinal === 0) candidates.push(...matching);
+          else {
+            const pick = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+            if (pick !== undefined) candidates.push(pick);
+          }
+        }
+      } else {
+        const hasDayRule = rule.byMonthDay.length > 0 || rule.byDay.length > 0;
+        const months = rule.byMonth.length > 0 ? rule.byMonth : hasDayRule ? [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12] : [anchorMonth];
+        for (const m of months) candidates.push(...monthCandidates(rule, period, m, anchorDay));
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth.length > 0 && rule.freq !== 'YEARLY') {
+    candidates = candidates.filter(n => rule.byMonth.includes(Number(fromDayNumber(n).slice(5, 7))));
+  }
+
+  candidates = [...new Set(candidates)].sort((a, b) => a - b);
+  if (rule.bySetPos.length > 0) {
+    const picked = rule.bySetPos
+      .map(p => (p > 0 ? candidates[p - 1] : candidates[candidates.length + p]))
+      .filter((n): n is number => n !== undefined);
+    candidates = [...new Set(picked)].sort((a, b) => a - b);
+  }
+  return candidates;
+}
+
+// Next occurrence of a series anchored at `anchor` (its first/current occurrence,
+// which fixes the INTERVAL phase) that falls after `after` - or on it when
+// inclusive. Returns null once UNTIL has passed or nothing matches for ~1000 periods.
+export function nextOccurrence(rule: RecurrenceRule, anchor: string, after: string, inclusive = false): string | null {
+  const anchorNum = toDayNumber(anchor);
+  const afterNum = toDayNumber(after);
+  const untilNum = rule.until ? toDayNumber(rule.until) : null;
+
+  const start = periodOf(rule.freq, anchorNum);
+  const target = periodOf(rule.freq, Math.max(anchorNum, afterNum));
+  let period = start + Math.floor((target - start) / rule.interval) * rule.interval;
+
+  for (let i = 0; i < 1000; i++, period += rule.interval) {
+    for (const n of periodCandidates(rule, period, anchorNum)) {
+      if (n < anchorNum || n < afterNum || (n === afterNum && !inclusive)) continue;
+      if (untilNum !== null && n > untilNum) return null;
+      return fromDayNumber(n);
+    }
+    if (untilNum !== null && periodOf(rule.freq, untilNum) < period) return null;
+  }
+  return null;
+}
+
+// True if the series anchored at `anchor` has an occurrence on `date`
+export function occursOn(rule: RecurrenceRule, date: string, anchor: string): boolean {
+  const dateNum = toDayNumber(date);
+  if (rule.until && date > rule.until) return false;
+  const anchorNum = toDayNumber(anchor);
+  const diff = periodOf(rule.freq, dateNum) - periodOf(rule.freq, anchorNum);
+  if (((diff % rule.interval) + rule.interval) % rule.interval !== 0) return false;
+  return periodCandidates(rule, periodOf(rule.freq, dateNum), anchorNum).includes(dateNum);
+}
+
+// Convenience for routine views: is a task with this recurrence due on `date`?
+// Anchored on the task's due date when it has one.
+export function isRecurrenceDueOn(recurrence: string, date: string, dueDate?: string | null): boolean {
+  const rule = parseRecurrence(recurrence);
+  if (!rule) return false;
+  const anchor = dueDate ? dueDate.split('T')[0] : date;
+  if (anchor === date) return true;
+  return occursOn(rule, date, anchor);
+}
+
+// Plain monthly/yearly rules take their day from the anchor, so once a 31st
+// clamps to the 30th (or 28th) the series would stay there. Before rolling a
+// task forward, pin a late anchor day into the rule so later months get it back.
+export function pinAnchorDay(recurrence: string, anchor: string): string {
+  const rule = parseRecurrence(recurrence);
+  if (!rule || (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY')) return recurrence;
+  if (rule.byDay.length > 0 || rule.byMonthDay.length > 0 || rule.bySetPos.length > 0) return recurrence;
+
+  const day = Number(anchor.split('T')[0].slice(8, 10));
+  if (day < 29) return recurrence;
+  let pinned = normalizeRecurrence(recurrence) + ';BYMONTHDAY=' + day;
+  if (rule.freq === 'YEARLY' && rule.byMonth.length === 0) pinned += ';BYMONTH=' + Number(anchor.slice(5, 7));
+  return pinned;
+}
+
+// The recurrence string to carry onto the next instance: COUNT counts down by
+// one per completed occurrence. Returns null when this was the last one.
+export function remainingRecurrence(recurrence: string): string | null {
+  const rule = parseRecurrence(recurrence);
+  if (!rule || rule.count === null) return recurrence;
+  if (rule.count <= 1) return null;
+  return recurrence.replace(/COUNT=\d+/i, 'COUNT=' + (rule.count - 1));
+}
@@ -0,0 +1,110 @@
+// Full-text search - one FTS5 index (search_index) over tasks, notes, ideas,
+// check-ins, work logs, journal entries, skills and launch docs. The index is
+// created and backfilled by migrations/018-search-index.sql; the triggers that keep
+// it in sync live in migrations/029-search-index-rows.sql, so this file only reads.
+
+import { parseDateInput, DATE_INPUT_HINT } from './utils';
+import { shiftDate } from './datetime';
+
+export const SEARCH_TYPES = ['task', 'note', 'idea', 'check_in', 'work_log', 'journal', 'skill', 'launch_doc'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export const SEARCH_TYPE_LABELS: Record<SearchType, string> = {
+  task: '✅ Task',
+  note: '📝 Note',
+  idea: '💡 Idea',
+  check_in: '📍 Check-in',
+  work_log: '📒 Work log',
+  journal: '📓 Journal',
+  skill: '🧰 Skill',
+  launch_doc: '🚀 Launch doc',
+};
+
+// Titles count five times as much as body text when ranking
+const TITLE_WEIGHT = 5.0;
+const BODY_WEIGHT = 1.0;
+
+export interface SearchOptions {
+  types?: SearchType[];
+  since?: string;      // inclusive; natural language allowed
+  until?: string;      // inclusive; natural language allowed
+  limit?: number;
+}
+
+export interface SearchResult {
+  type: SearchType;
+  id: string;
+  title: string;
+  snippet: string;
+  date: string;        // YYYY-MM-DD
+  shared: boolean;     // skills and launch docs belong to everyone
+}
+
+// Turn what the user typed into a safe FTS5 query: "quoted phrases" stay
+// phrases, OR is kept, and bare words are prefix-matched ("launch" finds "launches")
+export function toFtsQuery(input: string): string | null {
+  const parts: string[] = [];
+  for (const token of input.match(/"[^"]*"|\S+/g) || []) {
+    if (token === 'OR') {
+      if (parts.length > 0 && parts[parts.length - 1] !== 'OR') parts.push('OR');
+      continue;
+    }
+    // An unclosed quote ("foo) falls through and is matched as a bare word
+    if (token.length > 1 && token.startsWith('"') && token.endsWith('"')) {
+      const phrase = token.slice(1, -1).trim();
+      if (phrase) parts.push('"' + phrase + '"');
+      continue;
+    }
+    const word = token.replace(/[^\p{L}\p{N}_'-]/gu, '');
+    if (word) parts.push('"' + word + '"*');
+  }
+  while (parts[parts.length - 1] === 'OR') parts.pop();
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+export async function searchEverything(env: any, userId: string, query: string, timeZone: string, options: SearchOptions = {}): Promise<{ results: SearchResult[] } | { error: string }> {
+  const match = toFtsQuery(query);
+  if (!match) return { error: 'Give me at least one word to search for' };
+
+  let sql = `
+    SELECT entity_type, entity_id, title, user_id, occurred_at,
+           snippet(search_index, -1, '**', '**', '…', 12) as snippet
+    FROM search_index
+    WHERE search_index MATCH ? AND (user_id = ? OR user_id IS NULL)`;
+  const bindings: any[] = [match, userId];
+
+  if (options.types && options.types.length > 0) {
+    sql += ` AND entity_type IN (${options.types.map(() => '?').join(', ')})`;
+    bindings.push(...options.types);
+  }
+
+  // occurred_at mixes timestamps and plain dates, so compare on the date part
+  for (const [key, op] of [['since', '>='], ['until', '<']] as const) {
+    const input = options[key];
+    if (!input) continue;
+    const date = parseDateInput(input, timeZone);
+    if (!date) return { error: `Couldn't understand ${key} "${input}". ${DATE_INPUT_HINT}` };
+    sql += ` AND substr(occurred_at, 1, 10) ${op} ?`;
+    bindings.push(key === 'until' ? shiftDate(date, 1) : date);
+  }
+
+  sql += ` ORDER BY bm25(search_index, ${TITLE_WEIGHT}, ${BODY_WEIGHT}) LIMIT ?`;
+  bindings.push(options.limit || 20);
+
+  try {
+    const result = await env.DB.prepare(sql).bind(...bindings).all();
+    return {
+      results: (result.results as any[]).map(r => ({
+        type: r.entity_type,
+        id: r.entity_id,
+        title: r.title || SEARCH_TYPE_LABELS[r.entity_type as SearchType] || r.entity_type,
+        snippet: r.snippet,
+        date: (r.occurred_at || '').slice(0, 10),
+        shared: r.user_id === null,
+      })),
+    };
+  } catch (e: any) {
+    if (String(e?.message || e).includes('no such table')) return { error: 'Search index not set up yet - run migrations/018-search-index.sql, then 029-search-index-rows.sql' };
+    throw e;
+  }
+}
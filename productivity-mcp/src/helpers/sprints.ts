@@ -0,0 +1,385 @@
+// Sprint history - daily burndown snapshots, velocity across finished sprints and
+// retrospectives. A sprint's tasks are the non-deleted tasks under its objectives.
+// Ending a sprint moves open tasks out of it, so the final counts are frozen onto
+// the sprints row first.
+
+import { type UserClock, daysBetween, dayOfWeekOf, shiftDate, toLocalDate } from './datetime';
+
+export const VELOCITY_SPRINT_COUNT = 5;
+
+export interface BurndownPoint {
+  date: string;
+  total: number;
+  completed: number;
+  remaining: number;
+  ideal: number;
+  source: 'snapshot' | 'reconstructed' | 'live';
+}
+
+export interface Burndown {
+  sprint: any;
+  start: string;
+  end: string;
+  points: BurndownPoint[];
+  projectedFinish: string | null;   // At the sprint's own completion rate so far
+}
+
+export interface SprintVelocity {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+  completed: number;
+  total: number;
+  workDays: number;
+  perWorkDay: number;
+}
+
+export interface VelocityHistory {
+  sprints: SprintVelocity[];
+  average: number | null;   // Tasks per work day over the recent completed sprints
+}
+
+// Weekdays from `from` to `to`, both inclusive
+export function countWorkDays(from: string, to: string): number {
+  let workDays = 0;
+  for (let current = from; current <= to; current = shiftDate(current, 1)) {
+    const day = dayOfWeekOf(current);
+    if (day !== 0 && day !== 6) workDays++;
+  }
+  return workDays;
+}
+
+export async function getSprintTasks(env: any, userId: string, sprintId: string): Promise<any[]> {
+  const result = await env.DB.prepare(
+    "SELECT t.* FROM tasks t JOIN objectives o ON o.id = t.objective_id WHERE o.sprint_id = ? AND t.user_id = ? AND t.status != 'deleted'"
+  ).bind(sprintId, userId).all();
+  return result.results || [];
+}
+
+function countTasks(tasks: any[]): { total: number; completed: number } {
+  return { total: tasks.length, completed: tasks.filter(t => t.status === 'done').length };
+}
+
+export async function snapshotSprint(env: any, userId: string, sprint: any, date: string): Promise<{ total: number; completed: number }> {
+  const counts = countTasks(await getSprintTasks(env, userId, sprint.id));
+  try {
+    await env.DB.prepare(
+      'INSERT INTO sprint_snapshots (id, sprint_id, user_id, snapshot_date, total_tasks, completed_tasks, created_at) VALUES (?, ?, ?, ?, ?, ?, ?) ON CONFLICT(sprint_id, snapshot_date) DO UPDATE SET total_tasks = excluded.total_tasks, completed_tasks = excluded.completed_tasks, created_at = excluded.created_at'
+    ).bind(crypto.randomUUID(), sprint.id, userId, date, counts.total, counts.completed, new Date().toISOString()).run();
+  } catch {
+    // Table might not exist yet
+  }
+  return counts;
+}
+
+// The sprint_snapshots job - one point per active sprint per day
+export async function snapshotActiveSprints(env: any, userId: string, clock: UserClock): Promise<string> {
+  const sprints = await env.DB.prepare("SELECT * FROM sprints WHERE user_id = ? AND status = 'active'").bind(userId).all();
+  for (const sprint of sprints.results as any[]) {
+    await snapshotSprint(env, userId, sprint, clock.today);
+  }
+  return `Recorded ${sprints.results.length} sprint snapshot(s) for ${clock.today}`;
+}
+
+// Freeze the final counts before end_sprint returns open tasks to their categories
+export async function recordSprintEnd(env: any, userId: string, sprint: any, clock: UserClock): Promise<{ total: number; completed: number }> {
+  const counts = await snapshotSprint(env, userId, sprint, clock.today);
+  try {
+    await env.DB.prepare(
+      'UPDATE sprints SET ended_at = ?, final_total_tasks = ?, final_completed_tasks = ? WHERE id = ?'
+    ).bind(new Date().toISOString(), counts.total, counts.completed, sprint.id).run();
+  } catch {
+    // Columns might not exist yet
+  }
+  return counts;
+}
+
+function sprintStart(sprint: any, timeZone: string): string {
+  return toLocalDate(sprint.created_at, timeZone);
+}
+
+// Last day the sprint ran: its end date, or the day it was ended early
+function sprintLastDay(sprint: any, timeZone: string): string {
+  if (sprint.ended_at) {
+    const ended = toLocalDate(sprint.ended_at, timeZone);
+    if (ended < sprint.end_date) return ended;
+  }
+  return sprint.end_date;
+}
+
+// Daily series from the sprint's first day to today (or its last day). Days the
+// snapshot job missed - including everything before it existed - are rebuilt from
+// completed_at against the current task list, so scope changes on those days are lost.
+export async function getSprintBurndown(env: any, userId: string, sprint: any, clock: UserClock): Promise<Burndown> {
+  const start = sprintStart(sprint, clock.timeZone);
+  const end = sprintLastDay(sprint, clock.timeZone);
+  const live = sprint.status === 'active';
+  const tasks = await getSprintTasks(env, userId, sprint.id);
+  const current = countTasks(tasks);
+
+  const snapshots = new Map<string, any>();
+  try {
+    const result = await env.DB.prepare('SELECT * FROM sprint_snapshots WHERE sprint_id = ? ORDER BY snapshot_date ASC').bind(sprint.id).all();
+    for (const s of result.results as any[]) snapshots.set(s.snapshot_date, s);
+  } catch {
+    // Table might not exist yet
+  }
+
+  const completedOn = tasks.filter(t => t.status === 'done' && t.completed_at).map(t => toLocalDate(t.completed_at, clock.timeZone));
+  const last = live && clock.today < end ? clock.today : end;
+  const points: BurndownPoint[] = [];
+
+  for (let date = start; date <= last; date = shiftDate(date, 1)) {
+    let point: Omit<BurndownPoint, 'ideal'>;
+    if (live && date === clock.today) {
+      point = { date, ...current, remaining: current.total - current.completed, source: 'live' };
+    } else if (snapshots.has(date)) {
+      const s = snapshots.get(date);
+      point = { date, total: s.total_tasks, completed: s.completed_tasks, remaining: s.total_tasks - s.completed_tasks, source: 'snapshot' };
+    } else {
+      const completed = completedOn.filter(d => d <= date).length;
+      const total = sprint.final_total_tasks ?? current.total;
+      point = { date, total, completed, remaining: Math.max(0, total - completed), source: 'reconstructed' };
+    }
+    points.push({ ...point, ideal: 0 });
+  }
+
+  // Ideal line: straight from the first day's scope to zero on the end date
+  const span = Math.max(1, daysBetween(start, sprint.end_date));
+  const startScope = points[0]?.total ?? current.total;
+  for (const p of points) {
+    p.ideal = Math.max(0, Math.round(startScope * (1 - daysBetween(start, p.date) / span) * 10) / 10);
+  }
+
+  let projectedFinish: string | null = null;
+  const latest = points[points.length - 1];
+  const elapsed = points.length;
+  if (live && latest && latest.remaining > 0 && latest.completed > 0) {
+    const perDay = latest.completed / elapsed;
+    projectedFinish = shiftDate(latest.date, Math.ceil(latest.remaining / perDay));
+  }
+
+  return { sprint, start, end, points, projectedFinish };
+}
+
+// Throughput of the most recent completed sprints (abandoned ones are left out)
+export async function getVelocityHistory(env: any, userId: string, timeZone: string, limit = VELOCITY_SPRINT_COUNT): Promise<VelocityHistory> {
+  const result = await env.DB.prepare(
+    "SELECT * FROM sprints WHERE user_id = ? AND status = 'completed' ORDER BY end_date DESC LIMIT ?"
+  ).bind(userId, limit).all();
+
+  const sprints: SprintVelocity[] = [];
+  for (const sprint of result.results as any[]) {
+    let total: number = sprint.final_total_tasks;
+    let completed: number = sprint.final_completed_tasks;
+    if (completed == null) {
+      // Ended before final counts were kept - done tasks stay attached to objectives
+      const counts = countTasks(await getSprintTasks(env, userId, sprint.id));
+      completed = counts.completed;
+      total = counts.total;
+    }
+    const start = sprintStart(sprint, timeZone);
+    const end = sprintLastDay(sprint, timeZone);
+    const workDays = Math.max(1, countWorkDays(start, end));
+    sprints.push({ id: sprint.id, name: sprint.name, start, end, completed, total, workDays, perWorkDay: Math.round((completed / workDays) * 100) / 100 });
+  }
+
+  const counted = sprints.filter(s => s.total > 0);
+  const average = counted.length > 0
+    ? Math.round((counted.reduce((sum, s) => sum + s.completed, 0) / counted.reduce((sum, s) => sum + s.workDays, 0)) * 100) / 100
+    : null;
+  return { sprints, average };
+}
+
+// How many tasks history says fit in the given work days
+export function sprintCapacity(velocity: VelocityHistory, workDays: number): number | null {
+  return velocity.average === null ? null : Math.round(velocity.average * workDays);
+}
+
+// "⚠️ 18 open tasks but your velocity fits about 11 in 6 work days" - null when it fits
+export function overloadWarning(openTasks: number, velocity: VelocityHistory, workDays: number): string | null {
+  const capacity = sprintCapacity(velocity, workDays);
+  if (capacity === null || openTasks <= capacity) return null;
+  return `⚠️ ${openTasks} open tasks, but at your pace (${velocity.average} tasks/work day over the last ${velocity.sprints.length} sprint${velocity.sprints.length === 1 ? '' : 's'}) about ${capacity} fit in ${workDays} work day${workDays === 1 ? '' : 's'}`;
+}
+
+// JSON shape for /api/sprints/:id/burndown
+export function burndownToJson(burndown: Burndown) {
+  return {
+    sprint_id: burndown.sprint.id,
+    name: burndown.sprint.name,
+    status: burndown.sprint.status,
+    start_date: burndown.start,
+    end_date: burndown.end,
+    projected_finish: burndown.projectedFinish,
+    points: burndown.points,
+  };
+}
+
+// ==================
+// ENDING & RETROS
+// ==================
+
+export type CarryOver = 'new_sprint' | 'return';
+
+export interface RetroNotes {
+  wins?: string | null;
+  misses?: string | null;
+  lessons?: string | null;
+}
+
+export interface RetroStats {
+  status: string;
+  total: number;
+  completed: number;
+  completion_pct: number;
+  work_days: number;
+  per_work_day: number;
+  objectives: { statement: string; total: number; completed: number }[];
+  carried_over: number;
+  returned: number;
+}
+
+export interface SprintEndResult {
+  retroId: string;
+  stats: RetroStats;
+  nextSprint: any | null;
+}
+
+// Unfinished tasks of a sprint, grouped under their objective statements
+export async function getUnfinishedByObjective(env: any, userId: string, sprintId: string): Promise<{ objective: any; tasks: any[] }[]> {
+  const objectives = await env.DB.prepare('SELECT * FROM objectives WHERE sprint_id = ? ORDER BY sort_order ASC').bind(sprintId).all();
+  const open = (await getSprintTasks(env, userId, sprintId)).filter(t => t.status === 'open');
+  return (objectives.results as any[])
+    .map(objective => ({ objective, tasks: open.filter(t => t.objective_id === objective.id) }))
+    .filter(group => group.tasks.length > 0);
+}
+
+function buildRetroStats(sprint: any, status: string, objectives: any[], tasks: any[], clock: UserClock): RetroStats {
+  const completed = tasks.filter(t => t.status === 'done').length;
+  const lastDay = clock.today < sprint.end_date ? clock.today : sprint.end_date;
+  const workDays = Math.max(1, countWorkDays(sprintStart(sprint, clock.timeZone), lastDay));
+  return {
+    status,
+    total: tasks.length,
+    completed,
+    completion_pct: tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0,
+    work_days: workDays,
+    per_work_day: Math.round((completed / workDays) * 100) / 100,
+    objectives: objectives.map(o => {
+      const objTasks = tasks.filter(t => t.objective_id === o.id);
+      return { statement: o.statement, total: objTasks.length, completed: objTasks.filter(t => t.status === 'done').length };
+    }),
+    carried_over: 0,
+    returned: 0,
+  };
+}
+
+// End a sprint: freeze its counts, move unfinished tasks into a new sprint under
+// copies of their objectives (or back to their original_category), and record the
+// retrospective with a stats snapshot.
+export async function endSprint(
+  env: any,
+  userId: string,
+  sprint: any,
+  clock: UserClock,
+  options: { status: 'completed' | 'abandoned'; carryOver: CarryOver; nextSprint?: { name: string; endDate: string }; retro?: RetroNotes }
+): Promise<SprintEndResult> {
+  const ts = new Date().toISOString();
+  await recordSprintEnd(env, userId, sprint, clock);
+
+  const objectives = (await env.DB.prepare('SELECT * FROM objectives WHERE sprint_id = ? ORDER BY sort_order ASC').bind(sprint.id).all()).results as any[];
+  const tasks = await getSprintTasks(env, userId, sprint.id);
+  const stats = buildRetroStats(sprint, options.status, objectives, tasks, clock);
+  const unfinished = tasks.filter(t => t.status === 'open');
+
+  let nextSprint: any = null;
+  if (options.carryOver === 'new_sprint' && options.nextSprint) {
+    nextSprint = { id: crypto.randomUUID(), user_id: userId, name: options.nextSprint.name, end_date: options.nextSprint.endDate, status: 'active', created_at: ts, updated_at: ts };
+    await env.DB.prepare(
+      'INSERT INTO sprints (id, user_id, name, end_date, status, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).bind(nextSprint.id, userId, nextSprint.name, nextSprint.end_date, 'active', ts, ts).run();
+
+    for (const objective of objectives) {
+      const objTasks = unfinished.filter(t => t.objective_id === objective.id);
+      if (objTasks.length === 0) continue;
+      const objectiveId = crypto.randomUUID();
+      await env.DB.prepare(
+        'INSERT INTO objectives (id, sprint_id, user_id, statement, sort_order, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+      ).bind(objectiveId, nextSprint.id, userId, objective.statement, objective.sort_order, ts).run();
+      for (const task of objTasks) {
+        await env.DB.prepare('UPDATE tasks SET objective_id = ?, last_touched = ? WHERE id = ?').bind(objectiveId, ts, task.id).run();
+      }
+      stats.carried_over += objTasks.length;
+    }
+  } else {
+    for (const task of unfinished) {
+      const restoreCategory = task.original_category || task.category || 'General';
+      await env.DB.prepare(
+        'UPDATE tasks SET objective_id = NULL, category = ?, last_touched = ? WHERE id = ?'
+      ).bind(restoreCategory, ts, task.id).run();
+      stats.returned++;
+    }
+  }
+
+  await env.DB.prepare('UPDATE sprints SET status = ?, updated_at = ? WHERE id = ?').bind(options.status, ts, sprint.id).run();
+
+  const retroId = crypto.randomUUID();
+  await env.DB.prepare(
+    'INSERT INTO sprint_retros (id, sprint_id, user_id, wins, misses, lessons, stats, carried_to_sprint_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(retroId, sprint.id, userId, options.retro?.wins || null, options.retro?.misses || null, options.retro?.lessons || null, JSON.stringify(stats), nextSprint?.id || null, ts, ts).run();
+
+  return { retroId, stats, nextSprint };
+}
+
+// Fill in or replace a retro's notes after the fact. Sprints ended before retros
+// existed get one created, with stats from the tasks still attached.
+export async function saveRetroNotes(env: any, userId: string, sprint: any, notes: RetroNotes, clock: UserClock): Promise<any> {
+  const ts = new Date().toISOString();
+  const existing = await env.DB.prepare('SELECT * FROM sprint_retros WHERE sprint_id = ? AND user_id = ?').bind(sprint.id, userId).first();
+
+  if (!existing) {
+    const objectives = (await env.DB.prepare('SELECT * FROM objectives WHERE sprint_id = ? ORDER BY sort_order ASC').bind(sprint.id).all()).results as any[];
+    const stats = buildRetroStats(sprint, sprint.status, objectives, await getSprintTasks(env, userId, sprint.id), clock);
+    const id = crypto.randomUUID();
+    await env.DB.prepare(
+      'INSERT INTO sprint_retros (id, sprint_id, user_id, wins, misses, lessons, stats, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(id, sprint.id, userId, notes.wins || null, notes.misses || null, notes.lessons || null, JSON.stringify(stats), ts, ts).run();
+    return { id, sprint_id: sprint.id, ...notes, stats: JSON.stringify(stats) };
+  }
+
+  const merged = {
+    wins: notes.wins !== undefined ? notes.wins : existing.wins,
+    misses: notes.misses !== undefined ? notes.misses : existing.misses,
+    lessons: notes.lessons !== undefined ? notes.lessons : existing.lessons,
+  };
+  await env.DB.prepare(
+    'UPDATE sprint_retros SET wins = ?, misses = ?, lessons = ?, updated_at = ? WHERE id = ?'
+  ).bind(merged.wins || null, merged.misses || null, merged.lessons || null, ts, existing.id).run();
+  return { ...existing, ...merged };
+}
+
+// Newest first, joined with the sprint's name and dates
+export async function listRetros(env: any, userId: string, options: { sprintId?: string; limit?: number } = {}): Promise<any[]> {
+  let query = `
+    SELECT r.*, s.name as sprint_name, s.end_date, s.created_at as sprint_created_at, n.name as carried_to_name
+    FROM sprint_retros r
+    JOIN sprints s ON s.id = r.sprint_id
+    LEFT JOIN sprints n ON n.id = r.carried_to_sprint_id
+    WHERE r.user_id = ?`;
+  const bindings: any[] = [userId];
+  if (options.sprintId) {
+    query += ' AND r.sprint_id = ?';
+    bindings.push(options.sprintId);
+  }
+  query += ' ORDER BY r.created_at DESC LIMIT ?';
+  bindings.push(options.limit ?? 10);
+  try {
+    const result = await env.DB.prepare(query).bind(...bindings).all();
+    return (result.results as any[]).map(r => ({ ...r, stats: JSON.parse(r.stats || '{}') }));
+  } catch {
+    // Table might not exist yet
+    return [];
+  }
+}
@@ -0,0 +1,228 @@
+// Subtask helpers - a task's children are rows in tasks with parent_task_id set.
+// break_down_task and task templates both create subtasks through here; list views
+// nest and roll up progress with the helpers below.
+
+import { inferFocusLevel } from './utils';
+import { logEvent, updateDailyLog } from './intelligence';
+import { trashTask, restoreTask } from './trash';
+
+export interface SubtaskSpec {
+  text: string;
+  priority?: number;
+  due_date?: string | null;
+  estimated_minutes?: number | null;
+  subtasks?: SubtaskSpec[];
+}
+
+export interface TaskTreeNode {
+  task: any;
+  children: TaskTreeNode[];
+}
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+// Create subtasks (and their own nested subtasks) under a parent. Children inherit
+// the parent's owner, category and project, and its priority unless they set one.
+// Returns how many tasks were created.
+export async function createSubtasks(env: any, parent: any, specs: SubtaskSpec[], eventData: any = {}): Promise<number> {
+  const ts = new Date().toISOString();
+  let created = 0;
+
+  for (const spec of specs) {
+    const subId = crypto.randomUUID();
+    const priority = spec.priority ?? parent.priority;
+    await env.DB.prepare(
+      'INSERT INTO tasks (id, user_id, text, priority, due_date, category, project, status, created_at, last_touched, parent_task_id, focus_level, estimated_minutes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(subId, parent.user_id, spec.text, priority, spec.due_date || null, parent.category, parent.project, 'open', ts, ts, parent.id, inferFocusLevel(spec.text), spec.estimated_minutes || null).run();
+    await logEvent(env, parent.user_id, 'created', subId, { text: spec.text, parentTask: parent.id, ...eventData });
+    created++;
+
+    if (spec.subtasks && spec.subtasks.length > 0) {
+      const child = { id: subId, user_id: parent.user_id, priority, category: parent.category, project: parent.project };
+      created += await createSubtasks(env, child, spec.subtasks, eventData);
+    }
+  }
+
+  return created;
+}
+
+// The task and all of its (non-trashed) descendants, in creation order at each level
+export async function getTaskTree(env: any, taskId: string): Promise<TaskTreeNode | null> {
+  const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(taskId).first();
+  if (!task) return null;
+  return { task, children: await getChildNodes(env, taskId, new Set([taskId])) };
+}
+
+async function getChildNodes(env: any, parentId: string, seen: Set<string>): Promise<TaskTreeNode[]> {
+  const result = await env.DB.prepare(
+    "SELECT * FROM tasks WHERE parent_task_id = ? AND status != 'deleted' ORDER BY created_at ASC, rowid ASC"
+  ).bind(parentId).all();
+
+  const nodes: TaskTreeNode[] = [];
+  for (const child of result.results as any[]) {
+    if (seen.has(child.id)) continue;
+    seen.add(child.id);
+    nodes.push({ task: child, children: await getChildNodes(env, child.id, seen) });
+  }
+  return nodes;
+}
+
+// ==================
+// ROLLUPS + NESTING
+// ==================
+
+// Done/total counts of each parent's direct (non-trashed) children
+export async function getSubtaskProgress(env: any, userId: string | null): Promise<Map<string, SubtaskProgress>> {
+  const progress = new Map<string, SubtaskProgress>();
+  let query = "SELECT parent_task_id, COUNT(*) as total, SUM(CASE WHEN status = 'done' THEN 1 ELSE 0 END) as done FROM tasks WHERE parent_task_id IS NOT NULL AND status != 'deleted'";
+  const bindings: any[] = [];
+  if (userId) {
+    query += ' AND user_id = ?';
+    bindings.push(userId);
+  }
+
+  const result = await env.DB.prepare(query + ' GROUP BY parent_task_id').bind(...bindings).all();
+  for (const row of result.results as any[]) {
+    progress.set(row.parent_task_id, { done: row.done || 0, total: row.total });
+  }
+  return progress;
+}
+
+// " (2/5 ✓)" after a parent's text - empty for tasks without subtasks
+export function formatSubtaskProgress(progress?: SubtaskProgress): string {
+  if (!progress || progress.total === 0) return '';
+  return ' (' + progress.done + '/' + progress.total + ' ✓)';
+}
+
+// Nest a flat, already-sorted task list: children go under their parent when the parent
+// is in the list too, otherwise they stay at the top level. Sibling order is kept.
+export function nestTasks(tasks: any[]): TaskTreeNode[] {
+  const nodes = new Map<string, TaskTreeNode>();
+  for (const task of tasks) nodes.set(task.id, { task, children: [] });
+
+  const roots: TaskTreeNode[] = [];
+  for (const task of tasks) {
+    const node = nodes.get(task.id) as TaskTreeNode;
+    const parent = task.parent_task_id && task.parent_task_id !== task.id ? nodes.get(task.parent_task_id) : undefined;
+    if (parent && !isAncestor(node, parent)) parent.children.push(node);
+    else roots.push(node);
+  }
+  return roots;
+}
+
+function isAncestor(node: TaskTreeNode, of: TaskTreeNode): boolean {
+  return node.children.some(child => child === of || isAncestor(child, of));
+}
+
+// Depth-first order for rendering nested lists
+export function flattenTaskTree(nodes: TaskTreeNode[], depth = 0): { task: any; depth: number }[] {
+  return nodes.flatMap(node => [{ task: node.task, depth }, ...flattenTaskTree(node.children, depth + 1)]);
+}
+
+// ==================
+// PARENT AUTO-COMPLETION
+// ==================
+
+export async function getAutoCompleteParents(env: any, userId: string): Promise<boolean> {
+  try {
+    const row = await env.DB.prepare('SELECT auto_complete_parents FROM user_settings WHERE user_id = ?').bind(userId).first();
+    return row?.auto_complete_parents === 1;
+  } catch {
+    // Column might not exist yet
+    return false;
+  }
+}
+
+export async function setAutoCompleteParents(env: any, userId: string, enabled: boolean) {
+  const ts = new Date().toISOString();
+  await env.DB.prepare(
+    'INSERT INTO user_settings (user_id, auto_complete_parents, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET auto_complete_parents = excluded.auto_complete_parents, updated_at = excluded.updated_at'
+  ).bind(userId, enabled ? 1 : 0, ts, ts).run();
+}
+
+// Call after a task is marked done. When that was the parent's last open child, the
+// parent is completed too if its owner turned auto_complete_parents on (walking up the
+// tree), otherwise it comes back as `ready` so the caller can offer to complete it.
+export async function handleSubtaskCompleted(env: any, actorId: string, task: any): Promise<{ completed: any[]; ready: any | null }> {
+  const completed: any[] = [];
+  let child = task;
+
+  while (child.parent_task_id) {
+    const parent = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(child.parent_task_id).first();
+    if (!parent || parent.status !== 'open' || completed.some(c => c.id === parent.id)) break;
+
+    const open = await env.DB.prepare(
+      "SELECT COUNT(*) as count FROM tasks WHERE parent_task_id = ? AND status = 'open'"
+    ).bind(parent.id).first();
+    if ((open?.count || 0) > 0) break;
+
+    if (!(await getAutoCompleteParents(env, parent.user_id))) return { completed, ready: parent };
+
+    const completedAt = new Date().toISOString();
+    await env.DB.prepare("UPDATE tasks SET status = 'done', completed_at = ?, is_active = 0 WHERE id = ?").bind(completedAt, parent.id).run();
+    await env.DB.prepare('UPDATE launch_checklist SET completed = 1, completed_at = ? WHERE task_id = ?').bind(completedAt, parent.id).run();
+    const daysToComplete = Math.round((Date.now() - new Date(parent.created_at).getTime()) / 86400000);
+    await logEvent(env, parent.user_id, 'completed', parent.id, {
+      text: parent.text, daysToComplete, focusLevel: parent.focus_level, category: parent.category, completedBy: actorId, autoCompleted: true, lastSubtask: child.id,
+    });
+    await updateDailyLog(env, parent.user_id, 'tasks_completed');
+
+    completed.push(parent);
+    child = parent;
+  }
+
+  return { completed, ready: null };
+}
+
+// ==================
+// DELETING PARENTS
+// ==================
+
+export async function countSubtasks(env: any, taskId: string): Promise<{ total: number; open: number }> {
+  const row = await env.DB.prepare(
+    "SELECT COUNT(*) as total, SUM(CASE WHEN status = 'open' THEN 1 ELSE 0 END) as open FROM tasks WHERE parent_task_id = ? AND status != 'deleted'"
+  ).bind(taskId).first();
+  return { total: row?.total || 0, open: row?.open || 0 };
+}
+
+// Trash every (non-trashed) descendant of a task. Returns how many were trashed.
+export async function trashSubtasks(env: any, actorId: string, taskId: string, seen: Set<string> = new Set([taskId])): Promise<number> {
+  const children = await env.DB.prepare("SELECT * FROM tasks WHERE parent_task_id = ? AND status != 'deleted'").bind(taskId).all();
+  let trashed = 0;
+  for (const child of children.results as any[]) {
+    if (seen.has(child.id)) continue;
+    seen.add(child.id);
+    await trashTask(env, actorId, child, { withParent: taskId });
+    trashed += 1 + await trashSubtasks(env, actorId, child.id, seen);
+  }
+  return trashed;
+}
+
+// Restore the descendants that were trashed together with a task (at or after its
+// own deleted_at), so restoring a cascaded delete brings the whole tree back
+export async function restoreSubtasks(env: any, actorId: string, task: any, seen: Set<string> = new Set([task.id])): Promise<number> {
+  if (!task.deleted_at) return 0;
+  const children = await env.DB.prepare(
+    "SELECT * FROM tasks WHERE parent_task_id = ? AND status = 'deleted' AND deleted_at >= ?"
+  ).bind(task.id, task.deleted_at).all();
+
+  let restored = 0;
+  for (const child of children.results as any[]) {
+    if (seen.has(child.id)) continue;
+    seen.add(child.id);
+    await restoreTask(env, actorId, child);
+    restored += 1 + await restoreSubtasks(env, actorId, child, seen);
+  }
+  return restored;
+}
+
+// Move a task's children up one level - to its own parent, or to the top level
+export async function reparentSubtasks(env: any, task: any): Promise<number> {
+  const result = await env.DB.prepare(
+    'UPDATE tasks SET parent_task_id = ?, last_touched = ? WHERE parent_task_id = ?'
+  ).bind(task.parent_task_id || null, new Date().toISOString(), task.id).run();
+  return result.meta?.changes || 0;
+}
@@ -0,0 +1,160 @@
+// Task tag helpers - many-to-many tags (tags + task_tags). Tag names are
+// matched case-insensitively per user.
+
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#/, '').replace(/\s+/g, ' ');
+}
+
+export async function findTag(env: any, userId: string, name: string): Promise<any | null> {
+  return await env.DB.prepare(
+    'SELECT * FROM tags WHERE user_id = ? AND name = ? COLLATE NOCASE'
+  ).bind(userId, normalizeTagName(name)).first();
+}
+
+export async function getOrCreateTag(env: any, userId: string, name: string): Promise<any> {
+  const existing = await findTag(env, userId, name);
+  if (existing) return existing;
+
+  const tag = { id: crypto.randomUUID(), user_id: userId, name: normalizeTagName(name), created_at: new Date().toISOString() };
+  await env.DB.prepare(
+    'INSERT INTO tags (id, user_id, name, created_at) VALUES (?, ?, ?, ?)'
+  ).bind(tag.id, tag.user_id, tag.name, tag.created_at).run();
+  return tag;
+}
+
+// Tags with how many open / total tasks carry them
+export async function listTags(env: any, userId: string): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare(`
+      SELECT g.*, COUNT(t.id) as task_count, SUM(CASE WHEN t.status = 'open' THEN 1 ELSE 0 END) as open_count
+      FROM tags g
+      LEFT JOIN task_tags tt ON tt.tag_id = g.id
+      LEFT JOIN tasks t ON t.id = tt.task_id
+      WHERE g.user_id = ?
+      GROUP BY g.id
+      ORDER BY g.name COLLATE NOCASE ASC
+    `).bind(userId).all();
+    return result.results || [];
+  } catch {
+    return [];
+  }
+}
+
+// Tag names for every task, keyed by task id. Pass null for userId to
+// include every user's tags (teammate views).
+export async function getTaskTagMap(env: any, userId: string | null): Promise<Map<string, string[]>> {
+  const tags = new Map<string, string[]>();
+  try {
+    let query = 'SELECT tt.task_id, g.name FROM task_tags tt JOIN tags g ON g.id = tt.tag_id';
+    const bindings: any[] = [];
+    if (userId) {
+      query += ' WHERE g.user_id = ?';
+      bindings.push(userId);
+    }
+    query += ' ORDER BY g.name COLLATE NOCASE ASC';
+    const result = await env.DB.prepare(query).bind(...bindings).all();
+    for (const row of result.results as any[]) {
+      if (!tags.has(row.task_id)) tags.set(row.task_id, []);
+      tags.get(row.task_id)!.push(row.name);
+    }
+  } catch {
+    // Table might not exist yet - no tags
+  }
+  return tags;
+}
+
+// WHERE fragment restricting a tasks query (aliased `alias`) to tasks carrying
+// any - or, with matchAll, every - of the given tags, matched against the user's own tags only
+export function tagFilterClause(userId: string, names: string[], matchAll = false, alias = 't'): { sql: string; bindings: any[] } {
+  const cleaned = [...new Set(names.map(normalizeTagName).filter(Boolean).map(n => n.toLowerCase()))];
+  if (cleaned.length === 0) return { sql: '', bindings: [] };
+
+  let sql = ` AND ${alias}.id IN (SELECT tt.task_id FROM task_tags tt JOIN tags g ON g.id = tt.tag_id WHERE g.user_id = ? AND LOWER(g.name) IN (${cleaned.map(() => '?').join(', ')})`;
+  const bindings: any[] = [userId, ...cleaned];
+  if (matchAll && cleaned.length > 1) {
+    sql += ' GROUP BY tt.task_id HAVING COUNT(DISTINCT LOWER(g.name)) = ?';
+    bindings.push(cleaned.length);
+  }
+  sql += ')';
+  return { sql, bindings };
+}
+
+// Attach tags (created on demand) to a task; returns the names actually added
+export async function tagTask(env: any, userId: string, taskId: string, names: string[]): Promise<string[]> {
+  const added: string[] = [];
+  const ts = new Date().toISOString();
+  for (const name of names) {
+    if (!normalizeTagName(name)) continue;
+    const tag = await getOrCreateTag(env, userId, name);
+    const result = await env.DB.prepare(
+      'INSERT OR IGNORE INTO task_tags (task_id, tag_id, created_at) VALUES (?, ?, ?)'
+    ).bind(taskId, tag.id, ts).run();
+    if (result.meta?.changes) added.push(tag.name);
+  }
+  return added;
+}
+
+export async function untagTask(env: any, userId: string, taskId: string, names: string[]): Promise<string[]> {
+  const removed: string[] = [];
+  for (const name of names) {
+    const tag = await findTag(env, userId, name);
+    if (!tag) continue;
+    const result = await env.DB.prepare(
+      'DELETE FROM task_tags WHERE task_id = ? AND tag_id = ?'
+    ).bind(taskId, tag.id).run();
+    if (result.meta?.changes) removed.push(tag.name);
+  }
+  return removed;
+}
+
+// Replace a task's tags with exactly the given set
+export async function setTaskTags(env: any, userId: string, taskId: string, names: string[]) {
+  await env.DB.prepare(
+    'DELETE FROM task_tags WHERE task_id = ? AND tag_id IN (SELECT id FROM tags WHERE user_id = ?)'
+  ).bind(taskId, userId).run();
+  await tagTask(env, userId, taskId, names);
+}
+
+// Move every task from the source tags onto the target, then drop the sources
+export async function mergeTags(env: any, userId: string, sourceNames: string[], targetName: string): Promise<{ target: any; merged: string[] }> {
+  const target = await getOrCreateTag(env, userId, targetName);
+  const ts = new Date().toISOString();
+  const merged: string[] = [];
+
+  for (const name of sourceNames) {
+    const source = await findTag(env, userId, name);
+    if (!source || source.id === target.id) continue;
+    await env.DB.prepare(
+      'INSERT OR IGNORE INTO task_tags (task_id, tag_id, created_at) SELECT task_id, ?, ? FROM task_tags WHERE tag_id = ?'
+    ).bind(target.id, ts, source.id).run();
+    await deleteTagById(env, source.id);
+    merged.push(source.name);
+  }
+
+  return { target, merged };
+}
+
+export async function deleteTagById(env: any, tagId: string) {
+  await env.DB.prepare('DELETE FROM task_tags WHERE tag_id = ?').bind(tagId).run();
+  await env.DB.prepare('DELETE FROM tags WHERE id = ?').bind(tagId).run();
+}
+
+// Give a new task the same tags (used for the next occurrence of a recurring task)
+export async function copyTaskTags(env: any, fromTaskId: string, toTaskId: string) {
+  try {
+    await env.DB.prepare(
+      'INSERT OR IGNORE INTO task_tags (task_id, tag_id, created_at) SELECT ?, tag_id, ? FROM task_tags WHERE task_id = ?'
+    ).bind(toTaskId, new Date().toISOString(), fromTaskId).run();
+  } catch {
+    // Table might not exist yet
+  }
+}
+
+// Drop every tag link for a task (used when the task itself goes away)
+export async function removeTaskTags(env: any, taskId: string) {
+  try {
+    await env.DB.prepare('DELETE FROM task_tags WHERE task_id = ?').bind(taskId).run();
+  } catch {
+    // Table might not exist yet
+  }
+}
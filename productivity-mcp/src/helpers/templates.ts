@@ -0,0 +1,218 @@
+// Task templates - a root task plus a tree of subtasks, saved with {{placeholders}}
+// and due dates relative to the day the template is used. Instantiating one goes
+// through createSubtasks, so the result is the same as add_task + break_down_task.
+
+import { needsBreakdown, isVagueTask, inferFocusLevel } from './utils';
+import { logEvent, updateDailyLog } from './intelligence';
+import { tagTask } from './tags';
+import { createSubtasks, type SubtaskSpec, type TaskTreeNode } from './subtasks';
+import { shiftDate, daysBetween, toLocalDate } from './datetime';
+
+export interface TemplateNode {
+  text: string;
+  priority?: number;
+  due_offset_days?: number;
+  estimated_minutes?: number;
+  subtasks?: TemplateNode[];
+}
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  text: string;
+  priority: number;
+  category: string | null;
+  project: string | null;
+  notes: string | null;
+  due_offset_days: number | null;
+  estimated_minutes: number | null;
+  tags: string[];
+  subtasks: TemplateNode[];
+  use_count: number;
+  last_used_at: string | null;
+}
+
+// {{name}}; {{date}} is always filled with the start date
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w -]+?)\s*\}\}/g;
+const BUILT_IN_PLACEHOLDERS = ['date'];
+
+function rowToTemplate(row: any): TaskTemplate {
+  return {
+    ...row,
+    tags: JSON.parse(row.tags || '[]'),
+    subtasks: JSON.parse(row.subtasks || '[]'),
+  };
+}
+
+export async function getTemplate(env: any, userId: string, name: string): Promise<TaskTemplate | null> {
+  const row = await env.DB.prepare('SELECT * FROM task_templates WHERE user_id = ? AND name = ? COLLATE NOCASE').bind(userId, name.trim()).first();
+  return row ? rowToTemplate(row) : null;
+}
+
+export async function listTemplates(env: any, userId: string): Promise<TaskTemplate[]> {
+  const result = await env.DB.prepare('SELECT * FROM task_templates WHERE user_id = ? ORDER BY use_count DESC, name ASC').bind(userId).all();
+  return (result.results as any[]).map(rowToTemplate);
+}
+
+// Insert or replace (by name) - returns true when an existing template was overwritten
+export async function saveTemplate(env: any, userId: string, template: Omit<TaskTemplate, 'id' | 'use_count' | 'last_used_at'>): Promise<boolean> {
+  const ts = new Date().toISOString();
+  const existing = await getTemplate(env, userId, template.name);
+  const fields = [
+    template.description, template.text, template.priority, template.category, template.project, template.notes,
+    template.due_offset_days, template.estimated_minutes, JSON.stringify(template.tags), JSON.stringify(template.subtasks),
+  ];
+
+  if (existing) {
+    await env.DB.prepare(
+      'UPDATE task_templates SET description = ?, text = ?, priority = ?, category = ?, project = ?, notes = ?, due_offset_days = ?, estimated_minutes = ?, tags = ?, subtasks = ?, updated_at = ? WHERE id = ?'
+    ).bind(...fields, ts, existing.id).run();
+    return true;
+  }
+
+  await env.DB.prepare(
+    'INSERT INTO task_templates (id, user_id, name, description, text, priority, category, project, notes, due_offset_days, estimated_minutes, tags, subtasks, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(crypto.randomUUID(), userId, template.name.trim(), ...fields, ts, ts).run();
+  return false;
+}
+
+export async function deleteTemplate(env: any, userId: string, name: string): Promise<boolean> {
+  const result = await env.DB.prepare('DELETE FROM task_templates WHERE user_id = ? AND name = ? COLLATE NOCASE').bind(userId, name.trim()).run();
+  return (result.meta?.changes || 0) > 0;
+}
+
+export function countTemplateTasks(nodes: TemplateNode[]): number {
+  return nodes.reduce((sum, n) => sum + 1 + countTemplateTasks(n.subtasks || []), 0);
+}
+
+// ==================
+// PLACEHOLDERS
+// ==================
+
+function templateStrings(template: Pick<TaskTemplate, 'text' | 'notes' | 'project' | 'subtasks'>): string[] {
+  const strings = [template.text, template.notes || '', template.project || ''];
+  const walk = (nodes: TemplateNode[]) => nodes.forEach(n => { strings.push(n.text); walk(n.subtasks || []); });
+  walk(template.subtasks);
+  return strings;
+}
+
+// Placeholder names the caller has to supply, in first-seen order
+export function getPlaceholders(template: Pick<TaskTemplate, 'text' | 'notes' | 'project' | 'subtasks'>): string[] {
+  const names = new Set<string>();
+  for (const s of templateStrings(template)) {
+    for (const match of s.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!BUILT_IN_PLACEHOLDERS.includes(match[1].toLowerCase())) names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+function fill(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (whole, name) => {
+    const key = Object.keys(values).find(k => k.toLowerCase() === name.toLowerCase());
+    return key !== undefined ? values[key] : whole;
+  });
+}
+
+// Swap literal text for {{placeholders}} when saving a real task tree,
+// e.g. { "The Last Light": "title" } turns the book's title into {{title}}
+function generalize(text: string, replacements: Record<string, string>): string {
+  let out = text;
+  for (const [literal, name] of Object.entries(replacements)) {
+    if (!literal) continue;
+    out = out.split(literal).join('{{' + name.replace(/[{}]/g, '').trim() + '}}');
+  }
+  return out;
+}
+
+// ==================
+// SAVE FROM / INSTANTIATE TO TASKS
+// ==================
+
+// Offsets are measured from the day the root task was created
+export function templateFromTree(tree: TaskTreeNode, timeZone: string, replacements: Record<string, string> = {}): Omit<TaskTemplate, 'id' | 'name' | 'description' | 'tags' | 'use_count' | 'last_used_at'> {
+  const baseDate = toLocalDate(tree.task.created_at, timeZone);
+  const offsetOf = (task: any) => task.due_date ? daysBetween(baseDate, task.due_date) : undefined;
+
+  const toNodes = (children: TaskTreeNode[], parentPriority: number): TemplateNode[] => children.map(child => {
+    const node: TemplateNode = { text: generalize(child.task.text, replacements) };
+    if (child.task.priority !== parentPriority) node.priority = child.task.priority;
+    const offset = offsetOf(child.task);
+    if (offset !== undefined) node.due_offset_days = offset;
+    if (child.task.estimated_minutes) node.estimated_minutes = child.task.estimated_minutes;
+    if (child.children.length > 0) node.subtasks = toNodes(child.children, child.task.priority);
+    return node;
+  });
+
+  return {
+    text: generalize(tree.task.text, replacements),
+    priority: tree.task.priority || 3,
+    category: tree.task.category || null,
+    project: tree.task.project ? generalize(tree.task.project, replacements) : null,
+    notes: tree.task.notes ? generalize(tree.task.notes, replacements) : null,
+    due_offset_days: offsetOf(tree.task) ?? null,
+    estimated_minutes: tree.task.estimated_minutes || null,
+    subtasks: toNodes(tree.children, tree.task.priority),
+  };
+}
+
+export interface InstantiateOptions {
+  userId: string;                    // owner of the new tasks
+  values: Record<string, string>;    // placeholder values
+  startDate: string;                 // YYYY-MM-DD that due offsets count from
+  priority?: number;                 // overrides the template's root priority
+  assignedBy?: string | null;
+}
+
+export async function instantiateTemplate(env: any, actorId: string, template: TaskTemplate, options: InstantiateOptions): Promise<{ rootId: string; created: number; dueDate: string | null; tags: string[] } | { missing: string[] }> {
+  const missing = getPlaceholders(template).filter(name => !Object.keys(options.values).some(k => k.toLowerCase() === name.toLowerCase()));
+  if (missing.length > 0) return { missing };
+
+  const values = { ...options.values, date: options.startDate };
+  const dueFor = (offset: number | null | undefined) => offset === null || offset === undefined ? null : shiftDate(options.startDate, offset);
+
+  const rootId = crypto.randomUUID();
+  const ts = new Date().toISOString();
+  const text = fill(template.text, values);
+  const priority = options.priority ?? template.priority;
+  const dueDate = dueFor(template.due_offset_days);
+  const project = template.project ? fill(template.project, values) : null;
+  const hasSubtasks = template.subtasks.length > 0;
+
+  await env.DB.prepare(
+    'INSERT INTO tasks (id, user_id, text, priority, due_date, category, project, status, created_at, last_touched, needs_breakdown, is_vague, focus_level, notes, assigned_by, estimated_minutes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(
+    rootId, options.userId, text, priority, dueDate, template.category, project, 'open', ts, ts,
+    !hasSubtasks && needsBreakdown(text) ? 1 : 0, isVagueTask(text) ? 1 : 0, inferFocusLevel(text),
+    template.notes ? fill(template.notes, values) : null, options.assignedBy || null, template.estimated_minutes,
+  ).run();
+
+  let tags: string[] = [];
+  const tagNames = [...template.tags, ...(template.category ? [template.category] : [])];
+  if (tagNames.length > 0) {
+    try {
+      tags = await tagTask(env, options.userId, rootId, tagNames);
+    } catch {
+      // Tags table might not exist yet - the tasks themselves are saved
+    }
+  }
+
+  await logEvent(env, options.userId, 'created', rootId, { text, priority, category: template.category, tags, source: 'template', template: template.name, assignedBy: options.assignedBy });
+
+  const toSpecs = (nodes: TemplateNode[]): SubtaskSpec[] => nodes.map(n => ({
+    text: fill(n.text, values),
+    priority: n.priority,
+    due_date: dueFor(n.due_offset_days),
+    estimated_minutes: n.estimated_minutes,
+    subtasks: n.subtasks ? toSpecs(n.subtasks) : undefined,
+  }));
+  const root = { id: rootId, user_id: options.userId, priority, category: template.category, project };
+  const subtaskCount = await createSubtasks(env, root, toSpecs(template.subtasks), { source: 'template', template: template.name });
+  if (hasSubtasks) await logEvent(env, options.userId, 'broken_down', rootId, { subtaskCount: template.subtasks.length, template: template.name });
+
+  await updateDailyLog(env, options.userId, 'tasks_created', 1 + subtaskCount);
+  await env.DB.prepare('UPDATE task_templates SET use_count = use_count + 1, last_used_at = ? WHERE id = ?').bind(ts, template.id).run();
+
+  return { rootId, created: 1 + subtaskCount, dueDate, tags };
+}
@@ -0,0 +1,139 @@
+// Focus timers - one open (running or paused) timer per user, bound to a task.
+// Stopping a timer writes a progress_logs row and a checkpoint, so timed work
+// shows up in actual-minute rollups, recaps and the work-session flow.
+
+import { logEvent, autoCheckpoint } from './intelligence';
+
+export type TimerResult = { timer: any } | { error: string };
+
+export async function getOpenTimer(env: any, userId: string): Promise<any | null> {
+  try {
+    return await env.DB.prepare(
+      "SELECT tt.*, t.text as task_text, t.category as task_category FROM task_timers tt LEFT JOIN tasks t ON t.id = tt.task_id WHERE tt.user_id = ? AND tt.status IN ('running', 'paused') LIMIT 1"
+    ).bind(userId).first();
+  } catch {
+    // Table might not exist yet
+    return null;
+  }
+}
+
+export function elapsedSeconds(timer: any, now: Date = new Date()): number {
+  let seconds = timer.accumulated_seconds || 0;
+  if (timer.status === 'running' && timer.segment_started_at) {
+    seconds += Math.max(0, Math.round((now.getTime() - new Date(timer.segment_started_at).getTime()) / 1000));
+  }
+  return seconds;
+}
+
+// "12m running" / "1h 05m paused" / "🍅 12/25m running"
+export function describeTimer(timer: any, now: Date = new Date()): string {
+  const minutes = Math.floor(elapsedSeconds(timer, now) / 60);
+  const elapsed = minutes >= 60 ? Math.floor(minutes / 60) + 'h ' + String(minutes % 60).padStart(2, '0') + 'm' : minutes + 'm';
+  let out = timer.planned_minutes ? '🍅 ' + elapsed + ' of ' + timer.planned_minutes + 'm' : '⏱️ ' + elapsed;
+  out += timer.status === 'paused' ? ' (paused)' : ' running';
+  if (timer.planned_minutes && minutes >= timer.planned_minutes) out += ' — time\'s up, take a break';
+  return out;
+}
+
+// Start a timer on a task, or resume the user's paused timer on the same task
+export async function startTimer(env: any, userId: string, taskId: string, plannedMinutes?: number | null): Promise<TimerResult & { resumed?: boolean }> {
+  const ts = new Date().toISOString();
+  const open = await getOpenTimer(env, userId);
+
+  if (open) {
+    if (open.task_id !== taskId) return { error: `A timer is already ${open.status} on "${open.task_text}". Stop it first.` };
+    if (open.status === 'running') return { error: `Already timing "${open.task_text}" (${describeTimer(open)})` };
+
+    await env.DB.prepare("UPDATE task_timers SET status = 'running', segment_started_at = ? WHERE id = ?").bind(ts, open.id).run();
+    return { timer: { ...open, status: 'running', segment_started_at: ts }, resumed: true };
+  }
+
+  const task = await env.DB.prepare('SELECT id, text, category, status FROM tasks WHERE id = ?').bind(taskId).first();
+  if (!task || task.status === 'deleted') return { error: 'Task not found' };
+  if (task.status === 'done') return { error: `"${task.text}" is already done` };
+
+  const id = crypto.randomUUID();
+  await env.DB.prepare(
+    "INSERT INTO task_timers (id, user_id, task_id, status, started_at, segment_started_at, planned_minutes, created_at) VALUES (?, ?, ?, 'running', ?, ?, ?, ?)"
+  ).bind(id, userId, taskId, ts, ts, plannedMinutes || null, ts).run();
+
+  return {
+    timer: { id, user_id: userId, task_id: taskId, task_text: task.text, task_category: task.category, status: 'running', started_at: ts, segment_started_at: ts, accumulated_seconds: 0, planned_minutes: plannedMinutes || null, pause_count: 0 },
+    resumed: false,
+  };
+}
+
+export async function pauseTimer(env: any, userId: string): Promise<TimerResult> {
+  const open = await getOpenTimer(env, userId);
+  if (!open) return { error: 'No timer running' };
+  if (open.status === 'paused') return { error: `Timer on "${open.task_text}" is already paused` };
+
+  const seconds = elapsedSeconds(open);
+  await env.DB.prepare(
+    "UPDATE task_timers SET status = 'paused', segment_started_at = NULL, accumulated_seconds = ?, pause_count = pause_count + 1 WHERE id = ?"
+  ).bind(seconds, open.id).run();
+  return { timer: { ...open, status: 'paused', segment_started_at: null, accumulated_seconds: seconds, pause_count: open.pause_count + 1 } };
+}
+
+// Stop the open timer. Unless discarded, the time is logged against the task.
+export async function stopTimer(env: any, userId: string, description?: string, discard = false): Promise<{ timer: any; minutes: number } | { error: string }> {
+  const open = await getOpenTimer(env, userId);
+  if (!open) return { error: 'No timer running' };
+
+  const now = new Date();
+  const ts = now.toISOString();
+  const seconds = elapsedSeconds(open, now);
+  const minutes = discard ? 0 : Math.max(1, Math.round(seconds / 60));
+
+  let progressLogId: string | null = null;
+  if (!discard) {
+    progressLogId = crypto.randomUUID();
+    const text = description || 'Focus session: ' + (open.task_text || 'task');
+    await env.DB.prepare(
+      'INSERT INTO progress_logs (id, user_id, logged_at, task_id, description, minutes_spent, was_planned) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).bind(progressLogId, userId, ts, open.task_id, text, minutes, 1).run();
+    await logEvent(env, userId, 'progress', open.task_id, { description: text, minutes_spent: minutes, timer: true, pauses: open.pause_count });
+    await autoCheckpoint(env, userId, 'timer', `⏱️ ${minutes}m on ${open.task_text || 'a task'}`, [open.task_category || 'focus'], open.task_id);
+  }
+
+  await env.DB.prepare(
+    "UPDATE task_timers SET status = 'stopped', stopped_at = ?, segment_started_at = NULL, accumulated_seconds = ?, minutes_logged = ?, progress_log_id = ? WHERE id = ?"
+  ).bind(ts, seconds, minutes, progressLogId, open.id).run();
+
+  return { timer: { ...open, status: 'stopped', stopped_at: ts, accumulated_seconds: seconds }, minutes };
+}
+
+// A completed or trashed task can't be worked on any more: stop whoever's timer is
+// on it, logging the time so far like stop_timer would
+export async function stopTaskTimers(env: any, taskId: string): Promise<{ userId: string; minutes: number }[]> {
+  let open: any;
+  try {
+    open = await env.DB.prepare(
+      "SELECT user_id FROM task_timers WHERE task_id = ? AND status IN ('running', 'paused')"
+    ).bind(taskId).all();
+  } catch {
+    // Table might not exist yet
+    return [];
+  }
+
+  const stopped: { userId: string; minutes: number }[] = [];
+  for (const timer of open.results as any[]) {
+    const result = await stopTimer(env, timer.user_id);
+    if (!('error' in result)) stopped.push({ userId: timer.user_id, minutes: result.minutes });
+  }
+  return stopped;
+}
+
+// Shape used by the REST endpoints and the dashboard
+export function timerToJson(timer: any, now: Date = new Date()) {
+  return {
+    id: timer.id,
+    task_id: timer.task_id,
+    task_text: timer.task_text || null,
+    status: timer.status,
+    started_at: timer.started_at,
+    elapsed_seconds: elapsedSeconds(timer, now),
+    planned_minutes: timer.planned_minutes,
+    pause_count: timer.pause_count || 0,
+  };
+}
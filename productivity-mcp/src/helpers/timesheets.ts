@@ -0,0 +1,473 @@
+// Timesheets - turn logged time into hours per client. Task time comes from
+// progress_logs (log_progress and stopped timers); work-session time nobody logged
+// is split across the tasks named in that session's checkpoints. billing_rates
+// map a launch, project, tag or category to a client, rate and billable flag.
+
+import { type UserClock, shiftDate, getWeekStart, toLocalDate } from './datetime';
+import { getTaskTagMap } from './tags';
+import { getSessionBreaks, computeSessionTime, staleSessionEnd } from './work-sessions';
+import { toCsv } from './import-export';
+import { formatMinutes } from './planning';
+
+// Most specific first - a task's launch beats its project, and so on
+export const BILLING_MATCH_TYPES = ['launch', 'project', 'tag', 'category'] as const;
+export type BillingMatchType = typeof BILLING_MATCH_TYPES[number];
+
+export const TIMESHEET_GROUPS = ['client', 'project', 'category', 'launch'] as const;
+export type TimesheetGroupBy = typeof TIMESHEET_GROUPS[number];
+
+export const TIMESHEET_PERIODS = ['this_week', 'last_week', 'this_month', 'last_month'] as const;
+export type TimesheetPeriod = typeof TIMESHEET_PERIODS[number];
+
+export const TIMESHEET_FORMATS = ['csv', 'markdown'] as const;
+export type TimesheetFormat = typeof TIMESHEET_FORMATS[number];
+
+// Unlogged session time below this is noise (a good_morning and nothing else)
+const MIN_SESSION_GAP_MINUTES = 5;
+
+export interface TimesheetEntry {
+  date: string;                 // Local YYYY-MM-DD
+  minutes: number;
+  source: 'log' | 'checkpoint' | 'session';
+  taskId: string | null;
+  taskText: string | null;
+  description: string | null;
+  project: string | null;
+  category: string | null;
+  launch: string | null;
+  tags: string[];
+  client: string | null;
+  billable: boolean;
+  rate: number | null;
+  amount: number;
+}
+
+export interface TimesheetGroup {
+  key: string | null;
+  minutes: number;
+  billableMinutes: number;
+  amount: number;
+  entries: TimesheetEntry[];
+}
+
+export interface Timesheet {
+  start: string;
+  end: string;
+  groupBy: TimesheetGroupBy;
+  client: string | null;
+  entries: TimesheetEntry[];
+  groups: TimesheetGroup[];
+  totals: { minutes: number; billableMinutes: number; amount: number; unmatchedMinutes: number };
+}
+
+export interface TimesheetOptions {
+  groupBy?: TimesheetGroupBy;
+  client?: string | null;
+  billableOnly?: boolean;
+  includeSessions?: boolean;
+}
+
+// ==================== DATE RANGE ====================
+
+// Explicit start/end win over a period; nothing at all means this month so far
+export function resolveTimesheetRange(
+  clock: UserClock,
+  input: { period?: TimesheetPeriod | null; start?: string | null; end?: string | null }
+): { start: string; end: string } | { error: string } {
+  const today = clock.today;
+  const monthStart = today.slice(0, 8) + '01';
+  let start: string, end: string;
+
+  if (input.start || input.end) {
+    for (const value of [input.start, input.end]) {
+      if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) return { error: `"${value}" isn't a YYYY-MM-DD date` };
+    }
+    start = input.start || monthStart;
+    end = input.end || today;
+  } else {
+    switch (input.period || 'this_month') {
+      case 'this_week':
+        start = getWeekStart(today);
+        end = today;
+        break;
+      case 'last_week':
+        start = shiftDate(getWeekStart(today), -7);
+        end = shiftDate(getWeekStart(today), -1);
+        break;
+      case 'last_month':
+        end = shiftDate(monthStart, -1);
+        start = end.slice(0, 8) + '01';
+        break;
+      default:
+        start = monthStart;
+        end = today;
+    }
+  }
+
+  if (start > end) return { error: `Start ${start} is after end ${end}` };
+  return { start, end };
+}
+
+// ==================== BILLING RATES ====================
+
+export async function listBillingRates(env: any, userId: string): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare(
+      'SELECT * FROM billing_rates WHERE user_id = ? ORDER BY client COLLATE NOCASE ASC, match_type ASC, match_value COLLATE NOCASE ASC'
+    ).bind(userId).all();
+    return result.results || [];
+  } catch {
+    // Table might not exist yet
+    return [];
+  }
+}
+
+// A capture portal slug stands in for the client's business name
+async function resolveClientName(env: any, userId: string, client: string): Promise<string> {
+  try {
+    const portal = await env.DB.prepare(
+      'SELECT client_name FROM capture_portals WHERE user_id = ? AND client_slug = ?'
+    ).bind(userId, client.toLowerCase()).first();
+    if (portal?.client_name) return portal.client_name;
+  } catch {
+    // Table might not exist yet
+  }
+  return client;
+}
+
+// Create or update the rate for one match. Fields left undefined keep their value.
+export async function setBillingRate(
+  env: any,
+  userId: string,
+  input: { matchType: BillingMatchType; matchValue: string; client?: string | null; hourlyRate?: number | null; billable?: boolean }
+): Promise<any> {
+  const matchValue = input.matchType === 'tag' ? input.matchValue.trim().replace(/^#/, '') : input.matchValue.trim();
+  const client = input.client ? await resolveClientName(env, userId, input.client.trim()) : input.client;
+  const ts = new Date().toISOString();
+
+  const existing = await env.DB.prepare(
+    'SELECT * FROM billing_rates WHERE user_id = ? AND match_type = ? AND match_value = ?'
+  ).bind(userId, input.matchType, matchValue).first();
+
+  if (existing) {
+    const rate = {
+      ...existing,
+      client: client === undefined ? existing.client : client || null,
+      hourly_rate: input.hourlyRate === undefined ? existing.hourly_rate : input.hourlyRate,
+      billable: input.billable === undefined ? existing.billable : input.billable ? 1 : 0,
+      updated_at: ts,
+    };
+    await env.DB.prepare(
+      'UPDATE billing_rates SET client = ?, hourly_rate = ?, billable = ?, updated_at = ? WHERE id = ?'
+    ).bind(rate.client, rate.hourly_rate, rate.billable, ts, existing.id).run();
+    return rate;
+  }
+
+  const rate = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    match_type: input.matchType,
+    match_value: matchValue,
+    client: client || null,
+    hourly_rate: input.hourlyRate ?? null,
+    billable: input.billable === false ? 0 : 1,
+    created_at: ts,
+    updated_at: ts,
+  };
+  await env.DB.prepare(
+    'INSERT INTO billing_rates (id, user_id, match_type, match_value, client, hourly_rate, billable, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  ).bind(rate.id, userId, rate.match_type, rate.match_value, rate.client, rate.hourly_rate, rate.billable, ts, ts).run();
+  return rate;
+}
+
+// By id, or by the project/category/launch/tag name when only one rate uses it
+export async function removeBillingRate(env: any, userId: string, idOrValue: string): Promise<any | { error: string }> {
+  const rates = await listBillingRates(env, userId);
+  let matches = rates.filter(r => r.id === idOrValue);
+  if (matches.length === 0) {
+    const value = idOrValue.trim().replace(/^#/, '').toLowerCase();
+    matches = rates.filter(r => String(r.match_value).toLowerCase() === value);
+  }
+  if (matches.length === 0) return { error: `No billing rate matches "${idOrValue}"` };
+  if (matches.length > 1) return { error: `"${idOrValue}" has ${matches.length} rates (${matches.map(r => r.match_type).join(', ')}) - give the ID instead` };
+
+  await env.DB.prepare('DELETE FROM billing_rates WHERE id = ?').bind(matches[0].id).run();
+  return matches[0];
+}
+
+export function describeBillingRate(rate: any): string {
+  const target = rate.match_type === 'tag' ? '#' + rate.match_value : rate.match_type + ' "' + rate.match_value + '"';
+  const client = rate.client || rate.match_value;
+  if (!rate.billable) return `${target} → ${client} (non-billable)`;
+  return `${target} → ${client} @ ${rate.hourly_rate != null ? formatMoney(rate.hourly_rate) + '/h' : 'no rate set'}`;
+}
+
+function matchRate(rates: any[], entry: { launch: string | null; project: string | null; tags: string[]; category: string | null }): any | null {
+  const same = (a: string | null, b: string) => !!a && a.toLowerCase() === String(b).toLowerCase();
+  for (const type of BILLING_MATCH_TYPES) {
+    const rate = rates.find(r => r.match_type === type && (type === 'tag' ? entry.tags.some(t => same(t, r.match_value)) : same(entry[type], r.match_value)));
+    if (rate) return rate;
+  }
+  return null;
+}
+
+export function formatMoney(amount: number): string {
+  return amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+// ==================== BUILDING ====================
+
+async function getTaskLaunchMap(env: any, userId: string): Promise<Map<string, string>> {
+  const launches = new Map<string, string>();
+  try {
+    const result = await env.DB.prepare(
+      'SELECT lc.task_id, lp.title FROM launch_checklist lc JOIN launch_projects lp ON lp.id = lc.project_id WHERE lp.user_id = ? AND lc.task_id IS NOT NULL'
+    ).bind(userId).all();
+    for (const row of result.results as any[]) launches.set(row.task_id, row.title);
+  } catch {
+    // Table might not exist yet
+  }
+  return launches;
+}
+
+export async function buildTimesheet(
+  env: any,
+  userId: string,
+  clock: UserClock,
+  range: { start: string; end: string },
+  options: TimesheetOptions = {}
+): Promise<Timesheet> {
+  const groupBy = options.groupBy || 'client';
+  const [rates, launches, tags] = await Promise.all([
+    listBillingRates(env, userId),
+    getTaskLaunchMap(env, userId),
+    getTaskTagMap(env, userId),
+  ]);
+
+  const entryFor = (date: string, minutes: number, source: TimesheetEntry['source'], task: any | null, description: string | null): TimesheetEntry => {
+    const base = {
+      date,
+      minutes,
+      source,
+      taskId: task?.id || null,
+      taskText: task?.text || null,
+      description,
+      project: task?.project || null,
+      category: task?.category || null,
+      launch: task ? launches.get(task.id) || null : null,
+      tags: task ? tags.get(task.id) || [] : [],
+    };
+    const rate = matchRate(rates, base);
+    const billable = !!rate?.billable;
+    const hourly = rate?.hourly_rate ?? null;
+    return {
+      ...base,
+      client: rate ? rate.client || rate.match_value : null,
+      billable,
+      rate: hourly,
+      amount: billable && hourly ? Math.round((minutes / 60) * hourly * 100) / 100 : 0,
+    };
+  };
+
+  const entries: TimesheetEntry[] = [];
+  const loggedByDay = new Map<string, number>();
+
+  const logs = await env.DB.prepare(
+    `SELECT pl.logged_at, pl.task_id, pl.description, pl.minutes_spent, t.id, t.text, t.project, t.category
+     FROM progress_logs pl LEFT JOIN tasks t ON t.id = pl.task_id
+     WHERE pl.user_id = ? AND pl.logged_at >= ? AND pl.logged_at < ? AND pl.minutes_spent > 0
+     ORDER BY pl.logged_at ASC`
+  ).bind(userId, clock.startOf(range.start), clock.startOf(shiftDate(range.end, 1))).all();
+
+  for (const log of logs.results as any[]) {
+    const date = toLocalDate(log.logged_at, clock.timeZone);
+    loggedByDay.set(date, (loggedByDay.get(date) || 0) + log.minutes_spent);
+    entries.push(entryFor(date, log.minutes_spent, 'log', log.id ? log : null, log.description || null));
+  }
+
+  if (options.includeSessions !== false) {
+    const sessions = await env.DB.prepare(
+      'SELECT * FROM work_sessions WHERE user_id = ? AND session_date >= ? AND session_date <= ? AND started_at IS NOT NULL ORDER BY session_date ASC'
+    ).bind(userId, range.start, range.end).all();
+    const now = new Date();
+
+    for (const session of sessions.results as any[]) {
+      let worked: number;
+      if (session.ended_at && session.total_minutes != null) {
+        worked = session.total_minutes;
+      } else {
+        // A past day's session nobody closed stops at its last sign of work, not now
+        const breaks = await getSessionBreaks(env, session.id);
+        const end = session.session_date < clock.today ? new Date(await staleSessionEnd(env, session, breaks)) : now;
+        worked = computeSessionTime(session, breaks, end).netMinutes;
+      }
+      const gap = worked - (loggedByDay.get(session.session_date) || 0);
+      if (gap < MIN_SESSION_GAP_MINUTES) continue;
+
+      // Weight each task by how many checkpoints mention it
+      const mentions = new Map<string, number>();
+      const checkpoints = await env.DB.prepare(
+        'SELECT task_ids FROM checkpoints WHERE session_id = ? AND task_ids IS NOT NULL'
+      ).bind(session.id).all();
+      for (const c of checkpoints.results as any[]) {
+        let ids: string[] = [];
+        try { ids = JSON.parse(c.task_ids || '[]'); } catch { ids = []; }
+        for (const id of ids) if (typeof id === 'string') mentions.set(id, (mentions.get(id) || 0) + 1);
+      }
+
+      const tasks: { task: any; weight: number }[] = [];
+      for (const [id, weight] of mentions) {
+        const task = await env.DB.prepare('SELECT id, text, project, category FROM tasks WHERE id = ? AND user_id = ?').bind(id, userId).first();
+        if (task) tasks.push({ task, weight });
+      }
+
+      if (tasks.length === 0) {
+        const summary = session.end_of_day_summary ? String(session.end_of_day_summary).slice(0, 120) : null;
+        entries.push(entryFor(session.session_date, gap, 'session', null, summary || 'Work session (no task logged)'));
+        continue;
+      }
+
+      // Largest share first so rounding leftovers land on the main task
+      tasks.sort((a, b) => b.weight - a.weight);
+      const totalWeight = tasks.reduce((n, t) => n + t.weight, 0);
+      let remaining = gap;
+      tasks.forEach(({ task, weight }, i) => {
+        const share = i === tasks.length - 1 ? remaining : Math.round((gap * weight) / totalWeight);
+        remaining -= share;
+        if (share > 0) entries.push(entryFor(session.session_date, share, 'checkpoint', task, 'Unlogged session time'));
+      });
+    }
+  }
+
+  let kept = entries;
+  if (options.client) {
+    const wanted = options.client.toLowerCase();
+    kept = kept.filter(e => e.client?.toLowerCase() === wanted);
+  }
+  if (options.billableOnly) kept = kept.filter(e => e.billable);
+  kept.sort((a, b) => a.date.localeCompare(b.date) || (a.taskText || '').localeCompare(b.taskText || ''));
+
+  const byKey = new Map<string | null, TimesheetGroup>();
+  for (const e of kept) {
+    const key = e[groupBy];
+    if (!byKey.has(key)) byKey.set(key, { key, minutes: 0, billableMinutes: 0, amount: 0, entries: [] });
+    const group = byKey.get(key)!;
+    group.minutes += e.minutes;
+    if (e.billable) group.billableMinutes += e.minutes;
+    group.amount = Math.round((group.amount + e.amount) * 100) / 100;
+    group.entries.push(e);
+  }
+  // Biggest first, the unassigned bucket last
+  const groups = [...byKey.values()].sort((a, b) => (a.key === null ? 1 : 0) - (b.key === null ? 1 : 0) || b.minutes - a.minutes);
+
+  return {
+    start: range.start,
+    end: range.end,
+    groupBy,
+    client: options.client || null,
+    entries: kept,
+    groups,
+    totals: {
+      minutes: kept.reduce((n, e) => n + e.minutes, 0),
+      billableMinutes: kept.reduce((n, e) => n + (e.billable ? e.minutes : 0), 0),
+      amount: Math.round(kept.reduce((n, e) => n + e.amount, 0) * 100) / 100,
+      unmatchedMinutes: kept.reduce((n, e) => n + (e.client === null ? e.minutes : 0), 0),
+    },
+  };
+}
+
+// ==================== OUTPUT ====================
+
+const GROUP_LABELS: Record<TimesheetGroupBy, string> = { client: 'Client', project: 'Project', category: 'Category', launch: 'Launch' };
+
+function hours(minutes: number): string {
+  return (minutes / 60).toFixed(2);
+}
+
+export function timesheetFilename(sheet: Timesheet, format: TimesheetFormat): string {
+  const who = sheet.client ? sheet.client.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') : 'all';
+  return `timesheet-${who}-${sheet.start}-to-${sheet.end}.${format === 'csv' ? 'csv' : 'md'}`;
+}
+
+export function timesheetToCsv(sheet: Timesheet): string {
+  const rows: any[][] = [['date', 'client', 'project', 'category', 'launch', 'task', 'description', 'source', 'minutes', 'hours', 'billable', 'rate', 'amount']];
+  for (const e of sheet.entries) {
+    rows.push([e.date, e.client, e.project, e.category, e.launch, e.taskText, e.description, e.source, e.minutes, hours(e.minutes), e.billable ? 'yes' : 'no', e.rate, e.amount.toFixed(2)]);
+  }
+  return toCsv(rows);
+}
+
+export function timesheetToMarkdown(sheet: Timesheet): string {
+  const cell = (value: string | null) => (value || '—').replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+  const label = GROUP_LABELS[sheet.groupBy];
+
+  let md = `# Timesheet — ${sheet.client || 'All clients'}\n\n`;
+  md += `${sheet.start} to ${sheet.end}\n\n`;
+  md += `| ${label} | Hours | Billable hours | Amount |\n|---|---:|---:|---:|\n`;
+  for (const g of sheet.groups) md += `| ${cell(g.key)} | ${hours(g.minutes)} | ${hours(g.billableMinutes)} | ${formatMoney(g.amount)} |\n`;
+  md += `| **Total** | **${hours(sheet.totals.minutes)}** | **${hours(sheet.totals.billableMinutes)}** | **${formatMoney(sheet.totals.amount)}** |\n`;
+
+  md += `\n## Detail\n\n| Date | Task | Client | Hours | Billable | Rate | Amount |\n|---|---|---|---:|:---:|---:|---:|\n`;
+  for (const e of sheet.entries) {
+    const what = e.taskText ? e.taskText + (e.description && e.source === 'log' ? ' — ' + e.description : '') : e.description;
+    md += `| ${e.date} | ${cell(what)} | ${cell(e.client)} | ${hours(e.minutes)} | ${e.billable ? '✓' : ''} | ${e.rate != null ? formatMoney(e.rate) : '—'} | ${formatMoney(e.amount)} |\n`;
+  }
+  return md;
+}
+
+export function formatTimesheet(sheet: Timesheet, format: TimesheetFormat): string {
+  return format === 'csv' ? timesheetToCsv(sheet) : timesheetToMarkdown(sheet);
+}
+
+// Plain-text summary for tool output
+export function summarizeTimesheet(sheet: Timesheet): string {
+  let out = `🧾 **Timesheet** ${sheet.start} → ${sheet.end}${sheet.client ? ` · ${sheet.client}` : ''}\n\n`;
+  if (sheet.entries.length === 0) return out + 'No time logged in this range.';
+
+  for (const g of sheet.groups) {
+    out += `**${g.key || `(no ${sheet.groupBy})`}** — ${formatMinutes(g.minutes)}`;
+    if (g.billableMinutes > 0) out += ` · 💵 ${formatMinutes(g.billableMinutes)} billable = ${formatMoney(g.amount)}`;
+    out += '\n';
+  }
+  out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+  out += `Total: ${formatMinutes(sheet.totals.minutes)} · Billable: ${formatMinutes(sheet.totals.billableMinutes)} · **${formatMoney(sheet.totals.amount)}**\n`;
+
+  const fromSessions = sheet.entries.filter(e => e.source !== 'log').reduce((n, e) => n + e.minutes, 0);
+  if (fromSessions > 0) out += `📍 ${formatMinutes(fromSessions)} came from work sessions and checkpoints rather than logged progress\n`;
+  if (sheet.totals.unmatchedMinutes > 0) out += `💡 ${formatMinutes(sheet.totals.unmatchedMinutes)} has no billing rate - set_billing_rate to assign it to a client\n`;
+  return out.trimEnd();
+}
+
+// JSON shape for /api/timesheets
+export function timesheetToJson(sheet: Timesheet) {
+  const entryJson = (e: TimesheetEntry) => ({
+    date: e.date,
+    minutes: e.minutes,
+    source: e.source,
+    task_id: e.taskId,
+    task_text: e.taskText,
+    description: e.description,
+    project: e.project,
+    category: e.category,
+    launch: e.launch,
+    tags: e.tags,
+    client: e.client,
+    billable: e.billable,
+    rate: e.rate,
+    amount: e.amount,
+  });
+  return {
+    start: sheet.start,
+    end: sheet.end,
+    group_by: sheet.groupBy,
+    client: sheet.client,
+    totals: {
+      minutes: sheet.totals.minutes,
+      billable_minutes: sheet.totals.billableMinutes,
+      amount: sheet.totals.amount,
+      unmatched_minutes: sheet.totals.unmatchedMinutes,
+    },
+    groups: sheet.groups.map(g => ({ key: g.key, minutes: g.minutes, billable_minutes: g.billableMinutes, amount: g.amount, entry_count: g.entries.length })),
+    entries: sheet.entries.map(entryJson),
+  };
+}
@@ -0,0 +1,67 @@
+// Task trash - deletes are soft (status = 'deleted') until the user's
+// retention window passes, then the trash_purge job removes the rows.
+
+import { logEvent } from './intelligence';
+import { removeTaskDependencies } from './dependencies';
+import { removeTaskTags } from './tags';
+import { stopTaskTimers } from './timers';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export async function getTrashRetentionDays(env: any, userId: string): Promise<number> {
+  try {
+    const row = await env.DB.prepare('SELECT trash_retention_days FROM user_settings WHERE user_id = ?').bind(userId).first();
+    if (row?.trash_retention_days != null) return row.trash_retention_days;
+  } catch {
+    // Column might not exist yet
+  }
+  return DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+export async function setTrashRetentionDays(env: any, userId: string, days: number) {
+  const ts = new Date().toISOString();
+  await env.DB.prepare(
+    'INSERT INTO user_settings (user_id, trash_retention_days, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(user_id) DO UPDATE SET trash_retention_days = excluded.trash_retention_days, updated_at = excluded.updated_at'
+  ).bind(userId, days, ts, ts).run();
+}
+
+// Move a task to the trash; its tags and dependency links are kept for restore
+export async function trashTask(env: any, actorId: string, task: any, eventData: any = {}) {
+  await env.DB.prepare(
+    "UPDATE tasks SET status = 'deleted', deleted_at = ?, deleted_from_status = ?, is_active = 0 WHERE id = ?"
+  ).bind(new Date().toISOString(), task.status, task.id).run();
+  await stopTaskTimers(env, task.id);
+  await logEvent(env, actorId, 'deleted', task.id, { text: task.text, status: task.status, ...eventData });
+}
+
+export async function restoreTask(env: any, actorId: string, task: any): Promise<string> {
+  const status = task.deleted_from_status || (task.completed_at ? 'done' : 'open');
+  await env.DB.prepare(
+    'UPDATE tasks SET status = ?, deleted_at = NULL, deleted_from_status = NULL, last_touched = ? WHERE id = ?'
+  ).bind(status, new Date().toISOString(), task.id).run();
+  await logEvent(env, actorId, 'restored', task.id, { text: task.text, status });
+  return status;
+}
+
+export async function listTrash(env: any, userId: string): Promise<any[]> {
+  const result = await env.DB.prepare(
+    "SELECT * FROM tasks WHERE user_id = ? AND status = 'deleted' ORDER BY deleted_at DESC"
+  ).bind(userId).all();
+  return result.results || [];
+}
+
+// Permanently remove trashed tasks older than the retention window.
+// task_events rows are kept so task_history still works afterwards.
+export async function purgeTrash(env: any, userId: string, retentionDays: number, now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - retentionDays * 86400000).toISOString();
+  const expired = await env.DB.prepare(
+    "SELECT id FROM tasks WHERE user_id = ? AND status = 'deleted' AND deleted_at < ?"
+  ).bind(userId, cutoff).all();
+
+  for (const task of expired.results as any[]) {
+    await env.DB.prepare('DELETE FROM tasks WHERE id = ?').bind(task.id).run();
+    await removeTaskDependencies(env, task.id);
+    await removeTaskTags(env, task.id);
+  }
+  return expired.results.length;
+}
@@ -1,5 +1,8 @@
 // Basic utility functions
 
+import { parseRecurrence, nextOccurrence } from './recurrence';
+import { DEFAULT_TIMEZONE, getTodayInTimezone, getHourInTimezone, getTimeOfDayForHour, dayOfWeekOf } from './datetime';
+
 export function needsBreakdown(text: string): boolean {
   const bigTaskIndicators = [
     /^(build|create|develop|design|write|edit|launch|implement|complete)\s+(a|the|my|our)\s+\w+/i,
@@ -31,15 +34,12 @@ export function inferFocusLevel(text: string): string {
   return 'medium';
 }
 
-export function getDayOfWeek(): string {
-  return ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][new Date().getDay()];
+export function getDayOfWeek(timeZone: string = DEFAULT_TIMEZONE): string {
+  return ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'][dayOfWeekOf(getTodayInTimezone(timeZone))];
 }
 
-export function getTimeOfDay(): string {
-  const hour = new Date().getHours();
-  if (hour < 12) return 'morning';
-  if (hour < 17) return 'afternoon';
-  return 'evening';
+export function getTimeOfDay(timeZone: string = DEFAULT_TIMEZONE): string {
+  return getTimeOfDayForHour(getHourInTimezone(timeZone));
 }
 
 export function normalizeUser(user: string): string {
@@ -52,96 +52,201 @@ export function getPreviousDate(dateStr: string): string {
   return date.toISOString().split('T')[0];
 }
 
-// Calculate next due date for recurring tasks
-// Supports: daily, weekdays, weekly, biweekly, monthly, yearly
-// Also supports specific days: "mon", "fri", "mon,thu", "tue,thu,sat"
-export function getNextDueDate(currentDue: string | null, recurrence: string): string {
-  const base = currentDue ? new Date(currentDue) : new Date();
-  const dayMap: Record<string, number> = {
-    'sun': 0, 'mon': 1, 'tue': 2, 'wed': 3, 'thu': 4, 'fri': 5, 'sat': 6
-  };
-  
-  switch (recurrence.toLowerCase()) {
-    case 'daily':
-      base.setDate(base.getDate() + 1);
-      break;
-    case 'weekdays':
-      // Move to next weekday (Mon-Fri)
-      do {
-        base.setDate(base.getDate() + 1);
-      } while (base.getDay() === 0 || base.getDay() === 6);
-      break;
-    case 'weekly':
-      base.setDate(base.getDate() + 7);
-      break;
-    case 'biweekly':
-      base.setDate(base.getDate() + 14);
-      break;
-    case 'monthly':
-      base.setMonth(base.getMonth() + 1);
-      break;
-    case 'yearly':
-      base.setFullYear(base.getFullYear() + 1);
-      break;
-    default:
-      // Handle specific days: "mon", "fri", "mon,thu", etc.
-      const targetDays = recurrence.toLowerCase().split(',')
-        .map(d => dayMap[d.trim()])
-        .filter(d => d !== undefined);
-      if (targetDays.length > 0) {
-        // Find next occurrence of any target day
-        do {
-          base.setDate(base.getDate() + 1);
-        } while (!targetDays.includes(base.getDay()));
+// ==================
+// DATE PARSING
+// ==================
+
+export const DATE_INPUT_HINT = 'Try YYYY-MM-DD, "today", "tomorrow", "friday", "next friday", "in 3 days", "in 2 weeks", "end of month" or "march 5".';
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Calendar arithmetic on YYYY-MM-DD strings - always UTC so DST never shifts the day
+function toUTCDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+function fromUTCDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(dateStr: string, days: number): string {
+  const d = toUTCDate(dateStr);
+  d.setUTCDate(d.getUTCDate() + days);
+  return fromUTCDate(d);
+}
+
+function addMonths(dateStr: string, months: number): string {
+  const d = toUTCDate(dateStr);
+  const day = d.getUTCDate();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  // Clamp to the end of shorter months (Jan 31 + 1 month = Feb 28/29)
+  const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+  d.setUTCDate(Math.min(day, lastDay));
+  return fromUTCDate(d);
+}
+
+function addBusinessDays(dateStr: string, days: number): string {
+  const d = toUTCDate(dateStr);
+  let remaining = days;
+  while (remaining > 0) {
+    d.setUTCDate(d.getUTCDate() + 1);
+    if (d.getUTCDay() !== 0 && d.getUTCDay() !== 6) remaining--;
+  }
+  return fromUTCDate(d);
+}
+
+function buildDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null;
+  return fromUTCDate(d);
+}
+
+function matchWeekday(word: string): number {
+  return WEEKDAY_NAMES.findIndex(name => name === word || name.slice(0, 3) === word || (word.length >= 3 && name.startsWith(word)));
+}
+
+function matchMonth(word: string): number {
+  return MONTH_NAMES.findIndex(name => name === word || (word.length >= 3 && name.startsWith(word)));
+}
+
+function parseCount(word: string): number | null {
+  const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 };
+  if (words[word] !== undefined) return words[word];
+  const n = parseInt(word, 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+// Resolve a date expression ("next friday", "in 3 days", "end of month",
+// "2026-03-05", "3/5") to YYYY-MM-DD relative to today in the user's timezone.
+// Returns null when the input can't be understood.
+export function parseDateInput(input: string, timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string | null {
+  const text = input.trim().toLowerCase().replace(/[,.]/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  const today = getTodayInTimezone(timeZone, now);
+  const todayDow = toUTCDate(today).getUTCDay();
+  const [thisYear, thisMonth] = today.split('-').map(Number);
+
+  // ISO date (optionally with a time part)
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:t.*)?$/);
+  if (iso) return buildDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  // US numeric: 3/5, 3/5/27, 3/5/2027
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+  if (us) {
+    const month = Number(us[1]), day = Number(us[2]);
+    if (us[3]) return buildDate(us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]), month, day);
+    const candidate = buildDate(thisYear, month, day);
+    if (!candidate) return null;
+    return candidate < today ? buildDate(thisYear + 1, month, day) : candidate;
+  }
+
+  switch (text) {
+    case 'today': case 'tonight': case 'now': case 'eod': return today;
+    case 'tomorrow': case 'tmrw': case 'tmr': return addDays(today, 1);
+    case 'yesterday': return addDays(today, -1);
+    case 'day after tomorrow': return addDays(today, 2);
+    case 'this weekend': case 'weekend': return addDays(today, (6 - todayDow + 7) % 7);
+    case 'next weekend': return addDays(today, ((6 - todayDow + 7) % 7) + 7);
+    case 'next week': return addDays(today, ((1 - todayDow + 7) % 7) || 7);
+    case 'next month': case 'start of next month': case 'beginning of next month':
+      return buildDate(thisMonth === 12 ? thisYear + 1 : thisYear, thisMonth === 12 ? 1 : thisMonth + 1, 1);
+    case 'next year': return addMonths(today, 12);
+    case 'end of week': case 'eow': case 'end of the week': return addDays(today, (5 - todayDow + 7) % 7);
+    case 'end of next week': return addDays(today, ((5 - todayDow + 7) % 7) + 7);
+    case 'end of month': case 'eom': case 'end of the month':
+      return fromUTCDate(new Date(Date.UTC(thisYear, thisMonth, 0)));
+    case 'end of next month': return fromUTCDate(new Date(Date.UTC(thisYear, thisMonth + 1, 0)));
+    case 'end of year': case 'eoy': case 'end of the year': return `${thisYear}-12-31`;
+  }
+
+  // "in 3 days", "in a week", "2 weeks from now", "in 5 business days"
+  const relative = text.match(/^(?:in )?(\w+) (business days?|weekdays?|days?|weeks?|months?|years?)(?: from (?:now|today))?$/);
+  if (relative && (text.startsWith('in ') || text.includes(' from '))) {
+    const n = parseCount(relative[1]);
+    if (n === null) return null;
+    const unit = relative[2];
+    if (unit.startsWith('business') || unit.startsWith('weekday')) return addBusinessDays(today, n);
+    if (unit.startsWith('day')) return addDays(today, n);
+    if (unit.startsWith('week')) return addDays(today, n * 7);
+    if (unit.startsWith('month')) return addMonths(today, n);
+    return addMonths(today, n * 12);
+  }
+
+  // "friday", "this friday" (today counts), "next friday" (strictly after today),
+  // "friday next week" / "next week friday" (the friday of the following week)
+  const weekday = text.match(/^(this |next |on )?([a-z]+)( next week)?$/) || text.match(/^next week ([a-z]+)$/);
+  if (weekday) {
+    const isNextWeekForm = text.startsWith('next week ') || !!weekday[3];
+    const dow = matchWeekday(isNextWeekForm && text.startsWith('next week ') ? weekday[1] : weekday[2]);
+    if (dow !== -1) {
+      if (isNextWeekForm) {
+        const nextMonday = addDays(today, ((1 - todayDow + 7) % 7) || 7);
+        return addDays(nextMonday, (dow + 6) % 7);
       }
-      break;
+      const diff = (dow - todayDow + 7) % 7;
+      if (weekday[1] === 'next ') return addDays(today, diff === 0 ? 7 : diff);
+      return addDays(today, diff);
+    }
   }
-  
-  return base.toISOString().split('T')[0];
+
+  // "march 5", "mar 5th", "march 5 2027", "5 march", "5th of march 2027"
+  const monthFirst = text.match(/^([a-z]+) (\d{1,2})(?:st|nd|rd|th)?(?: (\d{4}))?$/);
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)?(?: of)? ([a-z]+)(?: (\d{4}))?$/);
+  const named = monthFirst
+    ? { month: matchMonth(monthFirst[1]), day: Number(monthFirst[2]), year: monthFirst[3] }
+    : dayFirst ? { month: matchMonth(dayFirst[2]), day: Number(dayFirst[1]), year: dayFirst[3] } : null;
+  if (named && named.month !== -1) {
+    if (named.year) return buildDate(Number(named.year), named.month + 1, named.day);
+    const candidate = buildDate(thisYear, named.month + 1, named.day);
+    if (!candidate) return null;
+    return candidate < today ? buildDate(thisYear + 1, named.month + 1, named.day) : candidate;
+  }
+
+  return null;
+}
+
+// Echo a resolved date back with its weekday, and the original phrase when it differed
+export function formatResolvedDate(input: string, resolved: string): string {
+  const dow = WEEKDAY_NAMES[toUTCDate(resolved).getUTCDay()].slice(0, 3);
+  const label = dow.charAt(0).toUpperCase() + dow.slice(1);
+  if (input.trim() === resolved) return `${resolved} (${label})`;
+  return `${resolved} (${label}, from "${input.trim()}")`;
+}
+
+// Calculate next due date for recurring tasks
+// Accepts RRULE strings ("FREQ=MONTHLY;BYDAY=2TU") and the shorthands daily,
+// weekdays, weekly, biweekly, monthly, yearly or day lists like "mon,thu".
+// The current due date anchors the series; pass `after` to skip ahead (e.g. to
+// today for an overdue task). Returns null when the rule can't be parsed or
+// the series is over (COUNT used up, UNTIL passed).
+export function getNextDueDate(currentDue: string | null, recurrence: string, after?: string): string | null {
+  const rule = parseRecurrence(recurrence);
+  if (!rule) return null;
+  if (rule.count !== null && rule.count <= 1) return null;
+
+  const anchor = currentDue ? currentDue.split('T')[0] : getTodayInTimezone();
+  return nextOccurrence(rule, anchor, after && after > anchor ? after : anchor);
 }
 
 // Get the next valid due date from today (for catching up overdue recurring tasks)
-// Returns today if today matches the recurrence pattern, otherwise the next valid date
-export function getCaughtUpDueDate(recurrence: string): string {
-  const today = new Date();
-  const todayStr = today.toISOString().split('T')[0];
-  const dayOfWeek = today.getDay();
-  
-  const dayMap: Record<string, number> = {
-    'sun': 0, 'mon': 1, 'tue': 2, 'wed': 3, 'thu': 4, 'fri': 5, 'sat': 6
-  };
-  
-  switch (recurrence.toLowerCase()) {
-    case 'daily':
-      // Daily tasks are always valid today
-      return todayStr;
-    case 'weekdays':
-      // If today is a weekday (Mon-Fri), use today; otherwise find next weekday
-      if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-        return todayStr;
-      }
-      return getNextDueDate(todayStr, recurrence);
-    case 'weekly':
-    case 'biweekly':
-    case 'monthly':
-    case 'yearly':
-      // For these, just use today as the new anchor point
-      return todayStr;
-    default:
-      // Handle specific days: "mon", "fri", "mon,thu", etc.
-      const targetDays = recurrence.toLowerCase().split(',')
-        .map(d => dayMap[d.trim()])
-        .filter(d => d !== undefined);
-      if (targetDays.length > 0) {
-        // If today matches one of the target days, use today
-        if (targetDays.includes(dayOfWeek)) {
-          return todayStr;
-        }
-        // Otherwise find the next valid day
-        return getNextDueDate(todayStr, recurrence);
-      }
-      return todayStr;
+// Returns today if today is an occurrence, otherwise the next one. Rules with no
+// BY* part (plain weekly/monthly/yearly) re-anchor on today instead.
+// Returns null when the rule can't be parsed or the series has ended.
+export function getCaughtUpDueDate(recurrence: string, currentDue?: string | null, today: string = getTodayInTimezone()): string | null {
+  const rule = parseRecurrence(recurrence);
+  if (!rule) return null;
+
+  const hasByRules = rule.byDay.length > 0 || rule.byMonthDay.length > 0 || rule.byMonth.length > 0 || rule.bySetPos.length > 0;
+  if (!hasByRules && rule.freq !== 'DAILY') {
+    return rule.until && today > rule.until ? null : today;
   }
+
+  const anchor = currentDue ? currentDue.split('T')[0] : today;
+  return nextOccurrence(rule, anchor, today, true);
 }
 
 // ==================
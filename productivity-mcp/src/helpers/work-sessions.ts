@@ -0,0 +1,158 @@
+// Work sessions and breaks - a session runs from good_morning to good_night, and
+// breaks (lunch, errands) are intervals inside it. total_minutes on a closed
+// session is net worked time: the span minus breaks.
+
+import type { UserClock } from './datetime';
+import { pauseTimer, getOpenTimer } from './timers';
+
+export interface SessionTime {
+  grossMinutes: number;
+  breakMinutes: number;
+  netMinutes: number;
+  breakCount: number;
+  onBreak: any | null;   // The open break, if any
+}
+
+// Today's session, or an earlier one nobody closed (working past midnight)
+export async function getCurrentSession(env: any, userId: string, today: string): Promise<any | null> {
+  const session = await env.DB.prepare('SELECT * FROM work_sessions WHERE user_id = ? AND session_date = ?').bind(userId, today).first();
+  if (session) return session;
+  return await env.DB.prepare(
+    'SELECT * FROM work_sessions WHERE user_id = ? AND ended_at IS NULL AND started_at IS NOT NULL ORDER BY session_date DESC LIMIT 1'
+  ).bind(userId).first();
+}
+
+export async function getSessionBreaks(env: any, sessionId: string): Promise<any[]> {
+  try {
+    const result = await env.DB.prepare('SELECT * FROM session_breaks WHERE session_id = ? ORDER BY started_at ASC').bind(sessionId).all();
+    return result.results || [];
+  } catch {
+    // Table might not exist yet
+    return [];
+  }
+}
+
+// Breaks are clipped to the session span; an open break runs until `until`
+export function computeSessionTime(session: any, breaks: any[], until: Date): SessionTime {
+  const start = new Date(session.started_at).getTime();
+  const end = session.ended_at ? new Date(session.ended_at).getTime() : until.getTime();
+  const grossMinutes = Math.max(0, Math.round((end - start) / 60000));
+
+  let breakMs = 0;
+  for (const b of breaks) {
+    const from = Math.max(start, new Date(b.started_at).getTime());
+    const to = Math.min(end, b.ended_at ? new Date(b.ended_at).getTime() : end);
+    if (to > from) breakMs += to - from;
+  }
+  const breakMinutes = Math.round(breakMs / 60000);
+
+  return {
+    grossMinutes,
+    breakMinutes,
+    netMinutes: Math.max(0, grossMinutes - breakMinutes),
+    breakCount: breaks.length,
+    onBreak: breaks.find(b => !b.ended_at) || null,
+  };
+}
+
+export async function startBreak(env: any, userId: string, clock: UserClock, reason?: string | null): Promise<{ session: any; brk: any; pausedTimer: any | null } | { error: string }> {
+  const session = await getCurrentSession(env, userId, clock.today);
+  if (!session || session.ended_at) return { error: 'No work session running. Say good morning first.' };
+
+  const breaks = await getSessionBreaks(env, session.id);
+  const open = breaks.find(b => !b.ended_at);
+  if (open) return { error: `Already on a break since ${open.started_at}${open.reason ? ` (${open.reason})` : ''}` };
+
+  const ts = new Date().toISOString();
+  const brk = { id: crypto.randomUUID(), session_id: session.id, user_id: userId, started_at: ts, ended_at: null, reason: reason || null, created_at: ts };
+  await env.DB.prepare(
+    'INSERT INTO session_breaks (id, session_id, user_id, started_at, reason, created_at) VALUES (?, ?, ?, ?, ?, ?)'
+  ).bind(brk.id, session.id, userId, ts, brk.reason, ts).run();
+
+  // A running focus timer would otherwise count the break as work on the task
+  let pausedTimer: any = null;
+  const timer = await getOpenTimer(env, userId);
+  if (timer?.status === 'running') {
+    const paused = await pauseTimer(env, userId);
+    if (!('error' in paused)) pausedTimer = paused.timer;
+  }
+
+  return { session, brk, pausedTimer };
+}
+
+export async function endBreak(env: any, userId: string, clock: UserClock): Promise<{ session: any; brk: any; minutes: number } | { error: string }> {
+  const session = await getCurrentSession(env, userId, clock.today);
+  if (!session || session.ended_at) return { error: 'No work session running.' };
+
+  const open = (await getSessionBreaks(env, session.id)).find(b => !b.ended_at);
+  if (!open) return { error: 'Not on a break.' };
+
+  const now = new Date();
+  await env.DB.prepare('UPDATE session_breaks SET ended_at = ? WHERE id = ?').bind(now.toISOString(), open.id).run();
+  const minutes = Math.max(0, Math.round((now.getTime() - new Date(open.started_at).getTime()) / 60000));
+  return { session, brk: { ...open, ended_at: now.toISOString() }, minutes };
+}
+
+// Close a session at `endedAt`: open breaks end there too, and total_minutes is net of breaks
+export async function closeSession(env: any, session: any, endedAt: string, summary: string | null, summaryIfEmpty = false): Promise<SessionTime> {
+  const breaks = await getSessionBreaks(env, session.id);
+  for (const b of breaks) {
+    if (b.ended_at) continue;
+    const end = b.started_at > endedAt ? b.started_at : endedAt;
+    await env.DB.prepare('UPDATE session_breaks SET ended_at = ? WHERE id = ?').bind(end, b.id).run();
+    b.ended_at = end;
+  }
+
+  const time = computeSessionTime({ ...session, ended_at: endedAt }, breaks, new Date(endedAt));
+  const summarySql = summaryIfEmpty ? 'COALESCE(end_of_day_summary, ?)' : '?';
+  try {
+    await env.DB.prepare(
+      `UPDATE work_sessions SET ended_at = ?, total_minutes = ?, break_minutes = ?, end_of_day_summary = ${summarySql} WHERE id = ?`
+    ).bind(endedAt, time.netMinutes, time.breakMinutes, summary, session.id).run();
+  } catch {
+    // break_minutes might not exist yet
+    await env.DB.prepare(
+      `UPDATE work_sessions SET ended_at = ?, total_minutes = ?, end_of_day_summary = ${summarySql} WHERE id = ?`
+    ).bind(endedAt, time.netMinutes, summary, session.id).run();
+  }
+  return time;
+}
+
+// Where a session left open from an earlier day really ended: the last sign of
+// work - the latest checkpoint or return from a break - so the night isn't counted
+export async function staleSessionEnd(env: any, session: any, breaks: any[]): Promise<string> {
+  const last = await env.DB.prepare(
+    'SELECT MAX(checkpoint_time) as t FROM checkpoints WHERE session_id = ?'
+  ).bind(session.id).first();
+  let endedAt: string = last?.t || session.started_at || session.created_at;
+  for (const b of breaks) {
+    if (b.ended_at && b.ended_at > endedAt) endedAt = b.ended_at;
+  }
+  return endedAt;
+}
+
+// Sessions from earlier days that never got a good_night
+export async function closeStaleSessions(env: any, userId: string, today: string): Promise<number> {
+  const stale = await env.DB.prepare(
+    'SELECT * FROM work_sessions WHERE user_id = ? AND ended_at IS NULL AND session_date < ?'
+  ).bind(userId, today).all();
+
+  for (const session of stale.results as any[]) {
+    const endedAt = await staleSessionEnd(env, session, await getSessionBreaks(env, session.id));
+    await closeSession(env, { ...session, started_at: session.started_at || session.created_at }, endedAt, 'Auto-closed (no good_night)', true);
+  }
+  return stale.results.length;
+}
+
+// JSON shape for /api/work-sessions/*
+export function sessionToJson(session: any, breaks: any[], now: Date = new Date()) {
+  const time = computeSessionTime(session, breaks, now);
+  return {
+    ...session,
+    gross_minutes: time.grossMinutes,
+    break_minutes: time.breakMinutes,
+    net_minutes: time.netMinutes,
+    on_break: !!time.onBreak,
+    breaks: breaks.map(b => ({ id: b.id, started_at: b.started_at, ended_at: b.ended_at, reason: b.reason })),
+  };
+}
@@ -5,6 +5,7 @@ import { registerAllTools } from './tools';
 import { GOOGLE_TOKEN_URL, SERVICE_NAMES } from './oauth';
 import { createApiRoutes } from './api-routes';
 import { createCaptureRoutes } from './capture-routes';
+import { runScheduledJobs } from './helpers/jobs';
 
 // ==================
 // USER AGENTS
@@ -43,6 +44,11 @@ export { ProductivityMCP as IreneMCP };
 // ROUTING
 // ==================
 export default {
+  // Cron trigger (see "triggers" in wrangler.jsonc) - each worker runs jobs for its own user
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(runScheduledJobs(env, env.USER_ID || 'micaiah', new Date(controller.scheduledTime)));
+  },
+
   async fetch(request: Request, env: Env, ctx: ExecutionContext) {
     const url = new URL(request.url);
     const userId = env.USER_ID || 'micaiah';
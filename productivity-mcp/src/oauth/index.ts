@@ -170,3 +170,80 @@ export async function findOrCreateFolderPath(token: string, path: string): Promi
   
   return currentFolder;
 }
+
+// Multipart upload of a text file - used by save_to_drive and by tools that save exports
+export async function uploadTextToDrive(token: string, filename: string, content: string, mimeType: string, folderId?: string): Promise<{ id: string; name: string; webViewLink: string } | { error: string }> {
+  const meta: any = { name: filename, mimeType };
+  if (folderId) meta.parents = [folderId];
+
+  const boundary = '---b' + Date.now();
+  const body = '--' + boundary + '\r\nContent-Type: application/json\r\n\r\n' + JSON.stringify(meta) + '\r\n--' + boundary + '\r\nContent-Type: ' + mimeType + '\r\n\r\n' + content + '\r\n--' + boundary + '--';
+
+  const resp = await fetch(DRIVE_UPLOAD_URL + '/files?uploadType=multipart&fields=id,name,webViewLink,parents', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer ' + token, 'Content-Type': 'multipart/related; boundary=' + boundary },
+    body: body
+  });
+
+  if (!resp.ok) return { error: await resp.text() };
+  return await resp.json();
+}
+
+// UTF-8 safe base64 - btoa alone throws on emoji
+function utf8Base64(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+// The connected account's own address
+export async function getGmailAddress(token: string): Promise<string | null> {
+  const resp = await fetch(GMAIL_API_URL + '/users/me/profile', { headers: { Authorization: 'Bearer ' + token } });
+  if (!resp.ok) return null;
+  const profile: any = await resp.json();
+  return profile.emailAddress || null;
+}
+
+// MIME bodies are limited to 76-character lines
+function wrapBase64(base64: string): string {
+  return base64.replace(/.{76}/g, '$&\r\n');
+}
+
+// Send a plain-text email, or multipart/alternative when html is given
+export async function sendGmail(token: string, message: { to: string; subject: string; text: string; html?: string }): Promise<{ id: string } | { error: string }> {
+  const headers = [
+    'To: ' + message.to,
+    'Subject: =?UTF-8?B?' + utf8Base64(message.subject) + '?=',
+    'MIME-Version: 1.0',
+  ];
+  let mime: string;
+  if (message.html) {
+    const boundary = 'alt_' + crypto.randomUUID().replace(/-/g, '');
+    mime = [
+      ...headers,
+      'Content-Type: multipart/alternative; boundary="' + boundary + '"',
+      '',
+      '--' + boundary,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(utf8Base64(message.text)),
+      '--' + boundary,
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(utf8Base64(message.html)),
+      '--' + boundary + '--',
+    ].join('\r\n');
+  } else {
+    mime = [...headers, 'Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: base64', '', wrapBase64(utf8Base64(message.text))].join('\r\n');
+  }
+
+  const resp = await fetch(GMAIL_API_URL + '/users/me/messages/send', {
+    method: 'POST',
+    headers: { Authorization: 'Bearer ' + token, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ raw: utf8Base64(mime).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '') }),
+  });
+  if (!resp.ok) return { error: await resp.text() };
+  return await resp.json();
+}
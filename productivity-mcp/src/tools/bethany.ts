@@ -1,18 +1,26 @@
 import { z } from "zod";
 import { ToolContext } from '../types';
-import { formatSprintHeader } from './sprints';
+import { getOpenBlockers } from '../helpers/dependencies';
+import { isRecurrenceDueOn } from '../helpers/recurrence';
+import { getUserClock, daysBetween } from '../helpers/datetime';
+import { tagFilterClause } from '../helpers/tags';
+import { getOpenTimer, describeTimer } from '../helpers/timers';
+import { scoreTasks } from '../helpers/intelligence';
+import { formatMinutes } from '../helpers/planning';
+import { getCurrentSession, getSessionBreaks, computeSessionTime, startBreak, endBreak, closeSession, closeStaleSessions } from '../helpers/work-sessions';
 
-// Central Time helper
-function formatCentralTime(date: Date, options?: Intl.DateTimeFormatOptions): string {
-  return date.toLocaleString('en-US', { timeZone: 'America/Chicago', ...options });
+// Local time helpers - everything is shown in the user's own timezone
+function formatLocalTime(date: Date, timeZone: string, options?: Intl.DateTimeFormatOptions): string {
+  return date.toLocaleString('en-US', { timeZone, ...options });
 }
 
-function getCentralTime(date: Date): { time: string; date: string; dayName: string; dayShort: string } {
+function getLocalTime(date: Date, timeZone: string): { time: string; date: string; dayName: string; dayShort: string; zone: string } {
   return {
-    time: formatCentralTime(date, { hour: 'numeric', minute: '2-digit', hour12: true }),
-    date: formatCentralTime(date, { month: 'short', day: 'numeric' }),
-    dayName: formatCentralTime(date, { weekday: 'long' }),
-    dayShort: formatCentralTime(date, { weekday: 'short' }).toUpperCase().slice(0, 2),
+    time: formatLocalTime(date, timeZone, { hour: 'numeric', minute: '2-digit', hour12: true }),
+    date: formatLocalTime(date, timeZone, { month: 'short', day: 'numeric' }),
+    dayName: formatLocalTime(date, timeZone, { weekday: 'long' }),
+    dayShort: formatLocalTime(date, timeZone, { weekday: 'short' }).toUpperCase().slice(0, 2),
+    zone: new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date).find(p => p.type === 'timeZoneName')?.value || timeZone,
   };
 }
 
@@ -23,17 +31,19 @@ export function registerBethanyTools(ctx: ToolContext) {
     notes: z.string().optional().describe("Any context about today - energy level, focus, constraints"),
   }, async ({ notes }) => {
     const now = new Date();
-    const today = now.toISOString().split('T')[0];
+    const clock = await getUserClock(env, getCurrentUser(), now);
+    const today = clock.today;
     const ts = now.toISOString();
-    const central = getCentralTime(now);
-    const dayOfWeek = now.getDay();
-    const isWeekday = dayOfWeek >= 1 && dayOfWeek <= 5;
+    const local = getLocalTime(now, clock.timeZone);
     
+    // Yesterday's session may still be open - close it at its last checkpoint, not now
+    await closeStaleSessions(env, getCurrentUser(), today);
     const existing = await env.DB.prepare('SELECT * FROM work_sessions WHERE user_id = ? AND session_date = ?').bind(getCurrentUser(), today).first();
     
     let sessionId: string;
     if (existing) {
       sessionId = existing.id;
+      await endBreak(env, getCurrentUser(), clock);
       await env.DB.prepare('UPDATE work_sessions SET started_at = ? WHERE id = ?').bind(ts, sessionId).run();
     } else {
       sessionId = crypto.randomUUID();
@@ -58,29 +68,25 @@ export function registerBethanyTools(ctx: ToolContext) {
     
     const allTasks = await env.DB.prepare(`SELECT t.*, o.statement as objective_statement FROM tasks t LEFT JOIN objectives o ON t.objective_id = o.id WHERE t.user_id = ? AND t.status = 'open' AND (t.snoozed_until IS NULL OR t.snoozed_until <= ?) ORDER BY t.priority DESC, t.due_date ASC NULLS LAST, t.created_at ASC`).bind(getCurrentUser(), today).all();
     
-    const active: any[] = [], incoming: any[] = [], overdue: any[] = [], dueToday: any[] = [], routines: any[] = [], comingUp: any[] = [], backlog: any[] = [];
+    const blockers = await getOpenBlockers(env, getCurrentUser());
+    const active: any[] = [], incoming: any[] = [], overdue: any[] = [], dueToday: any[] = [], routines: any[] = [], comingUp: any[] = [], backlog: any[] = [], blocked: any[] = [];
     
     for (const t of allTasks.results as any[]) {
       const dueDate = t.due_date ? t.due_date.split('T')[0] : null;
       const hasRecurrence = !!t.recurrence;
-      const rec = (t.recurrence || '').toLowerCase();
+      t.blocked_by = blockers.get(t.id) || [];
       
       if (t.is_active || t.objective_id) { active.push(t); continue; }
       if (t.assigned_by) { incoming.push(t); continue; }
+      if (t.blocked_by.length > 0) { blocked.push(t); continue; }
       
-      let isRoutineToday = false;
-      if (hasRecurrence) {
-        if (rec === 'daily') isRoutineToday = true;
-        else if (rec === 'weekdays' && isWeekday) isRoutineToday = true;
-        else if (rec === 'weekly' && dueDate) { if (new Date(t.due_date).getDay() === dayOfWeek) isRoutineToday = true; }
-        else if (rec.includes(central.dayShort.toLowerCase())) isRoutineToday = true;
-      }
+      const isRoutineToday = hasRecurrence && isRecurrenceDueOn(t.recurrence, today, dueDate);
       
       if (dueDate && dueDate < today && !hasRecurrence) overdue.push(t);
       else if (dueDate === today && !hasRecurrence) dueToday.push(t);
       else if (isRoutineToday) routines.push(t);
       else if (dueDate && dueDate > today) {
-        const daysUntil = Math.ceil((new Date(dueDate).getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+        const daysUntil = daysBetween(today, dueDate);
         if (daysUntil <= 7) comingUp.push({ ...t, daysUntil }); else backlog.push(t);
       } else backlog.push(t);
     }
@@ -90,19 +96,31 @@ export function registerBethanyTools(ctx: ToolContext) {
     
     const launches = await env.DB.prepare(`SELECT lp.*, (SELECT COUNT(*) FROM launch_checklist WHERE project_id = lp.id) as total_items, (SELECT COUNT(*) FROM launch_checklist WHERE project_id = lp.id AND completed = 1) as done_items, (SELECT MAX(completed_at) FROM launch_checklist WHERE project_id = lp.id AND completed = 1) as last_activity FROM launch_projects lp WHERE lp.user_id = ? AND lp.status != 'complete' ORDER BY lp.target_launch_date ASC NULLS LAST`).bind(getCurrentUser()).all();
     const handoffs = await env.DB.prepare(`SELECT h.*, t.text as task_text FROM handoff_suggestions h JOIN tasks t ON h.task_id = t.id WHERE h.to_user = ? AND h.status = 'pending'`).bind(getCurrentUser()).all();
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    const yesterdayDone = await env.DB.prepare('SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = "done" AND DATE(completed_at) = ?').bind(getCurrentUser(), yesterday).first();
+    const yesterday = clock.daysAgo(1);
+    const yesterdayDone = await env.DB.prepare('SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = "done" AND completed_at >= ? AND completed_at < ?').bind(getCurrentUser(), clock.startOf(yesterday), clock.startOf(today)).first();
     const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
     const recentCheckins = await env.DB.prepare('SELECT thread_summary, project_name, created_at FROM check_ins WHERE user_id = ? AND created_at >= ? ORDER BY created_at DESC LIMIT 5').bind(getCurrentUser(), twentyFourHoursAgo).all();
     const lastCheckpoint = await env.DB.prepare(`SELECT * FROM checkpoints WHERE user_id = ? AND trigger_type = 'night' ORDER BY checkpoint_time DESC LIMIT 1`).bind(getCurrentUser()).first();
     
-    let out = `☀️ **Good Morning!** (${central.dayName}, ${central.date})\n⏰ Clocked in: ${central.time} Central\n`;
+    let out = `☀️ **Good Morning!** (${local.dayName}, ${local.date})\n⏰ Clocked in: ${local.time} ${local.zone}\n`;
     if (notes) out += `💭 ${notes}\n`;
     
+    const lastSession = await env.DB.prepare('SELECT * FROM work_sessions WHERE user_id = ? AND session_date < ? AND ended_at IS NOT NULL ORDER BY session_date DESC LIMIT 1').bind(getCurrentUser(), today).first();
+    if (lastSession?.total_minutes != null) {
+      const lastBreaks = await getSessionBreaks(env, lastSession.id);
+      const lastLocal = getLocalTime(new Date(lastSession.ended_at), clock.timeZone);
+      out += `🕘 Last session (${lastSession.session_date === yesterday ? 'yesterday' : lastLocal.dayName}): worked ${formatMinutes(lastSession.total_minutes)}`;
+      if (lastBreaks.length > 0) out += ` · ${lastBreaks.length} break${lastBreaks.length === 1 ? '' : 's'} (${formatMinutes(lastSession.break_minutes || 0)})`;
+      out += `\n`;
+    }
+    
+    const timer = await getOpenTimer(env, getCurrentUser());
+    if (timer) out += `\n⏱️ **Timer still open:** ${timer.task_text} — ${describeTimer(timer, now)}\n💡 stop_timer to log it (or discard: true if it ran overnight)\n`;
+    
     if (recentCheckins.results.length > 0) {
       out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📍 WHERE YOU LEFT OFF (last 24h)\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
       for (const c of recentCheckins.results as any[]) {
-        const timeStr = formatCentralTime(new Date(c.created_at), { weekday: 'short', hour: 'numeric', minute: '2-digit', hour12: true });
+        const timeStr = formatLocalTime(new Date(c.created_at), clock.timeZone, { weekday: 'short', hour: 'numeric', minute: '2-digit', hour12: true });
         out += `**${timeStr}**${c.project_name ? ` • ${c.project_name}` : ''}\n${c.thread_summary}\n\n`;
       }
     } else if (lastCheckpoint) {
@@ -111,11 +129,11 @@ export function registerBethanyTools(ctx: ToolContext) {
     
     out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n🎯 ACTIVE (${active.length})\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
     if (active.length === 0) out += `(none)\n💡 Use \`activate_task\` to add tasks here, or build a sprint.\n`;
-    else for (const t of active) out += `${t.priority >= 4 ? '🔴' : t.priority === 3 ? '🟡' : '⚪'} ${t.text}${t.objective_statement ? ` → ${t.objective_statement}` : ''}\n`;
+    else for (const t of active) out += `${t.priority >= 4 ? '🔴' : t.priority === 3 ? '🟡' : '⚪'} ${t.text}${t.objective_statement ? ` → ${t.objective_statement}` : ''}${t.blocked_by.length > 0 ? ` ⛔ waiting on ${t.blocked_by.map((b: any) => b.text).join(', ')}` : ''}\n`;
     
     if (activeSprint && sprintObjectives.length > 0) {
       out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📋 SPRINT: ${activeSprint.name}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
-      out += `⏳ ${Math.ceil((new Date(activeSprint.end_date).getTime() - now.getTime()) / (1000 * 60 * 60 * 24))} days remaining (ends ${activeSprint.end_date})\n\n`;
+      out += `⏳ ${daysBetween(today, activeSprint.end_date)} days remaining (ends ${activeSprint.end_date})\n\n`;
       let totalTasks = 0, completedTasks = 0;
       for (const obj of sprintObjectives) {
         const objTasksOpen = sprintTasks.get(obj.id) || [];
@@ -137,12 +155,14 @@ export function registerBethanyTools(ctx: ToolContext) {
     out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📅 DUE TODAY (${dueToday.length})\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
     if (dueToday.length === 0) out += `(none)\n`; else for (const t of dueToday) out += `• ${t.text}${t.category ? ` [${t.category}]` : ''}\n`;
     
-    out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n🔄 ROUTINES - ${central.dayName} (${routines.length})\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+    out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n🔄 ROUTINES - ${local.dayName} (${routines.length})\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
     if (routines.length === 0) out += `(none)\n`; else for (const t of routines) out += `• ${t.text} (${t.recurrence})\n`;
     
     out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📆 COMING UP - next 7 days (${comingUp.length})\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
     if (comingUp.length === 0) out += `(none)\n`; else for (const t of comingUp) out += `• ${t.text} (${t.due_date.split('T')[0]})${t.category ? ` [${t.category}]` : ''}\n`;
     
+    if (blocked.length > 0) { out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n⛔ BLOCKED (${blocked.length})\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`; for (const t of blocked) out += `• ${t.text} (waiting on ${t.blocked_by.map((b: any) => b.text).join(', ')})\n`; }
+    
     out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📋 BACKLOG (${backlog.length})\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
     if (backlog.length === 0) out += `(none)\n`;
     else { for (const [category, tasks] of Object.entries(backlogByCategory).sort((a, b) => b[1].length - a[1].length)) { out += `\n**[${category}]** (${tasks.length})\n`; for (const t of tasks) out += `${t.priority >= 4 ? '🔴' : t.priority === 3 ? '🟡' : ''}• ${t.text}\n`; } }
@@ -162,42 +182,47 @@ export function registerBethanyTools(ctx: ToolContext) {
     return { content: [{ type: "text", text: out }] };
   });
 
-  server.tool("set_focus", { focus: z.string().describe("What you want to focus on - category, project, 'overdue', 'active', specific tasks, or description") }, async ({ focus }) => {
-    const now = new Date(); const today = now.toISOString().split('T')[0]; const central = getCentralTime(now); const focusLower = focus.toLowerCase();
-    const allTasks = await env.DB.prepare(`SELECT t.*, o.statement as objective_statement FROM tasks t LEFT JOIN objectives o ON t.objective_id = o.id WHERE t.user_id = ? AND t.status = 'open' AND (t.snoozed_until IS NULL OR t.snoozed_until <= ?) ORDER BY t.priority DESC, t.due_date ASC NULLS LAST, t.created_at ASC`).bind(getCurrentUser(), today).all();
+  server.tool("set_focus", { focus: z.string().describe("What you want to focus on - category, project, '#tag', 'overdue', 'active', specific tasks, or description"), tags: z.array(z.string()).optional().describe("Only consider tasks with any of these tags") }, async ({ focus, tags }) => {
+    const now = new Date(); const clock = await getUserClock(env, getCurrentUser(), now); const today = clock.today; const local = getLocalTime(now, clock.timeZone); const focusLower = focus.toLowerCase();
+    const tagFilter = tagFilterClause(getCurrentUser(), [...(tags || []), ...(focus.trim().startsWith('#') ? [focus.trim()] : [])]);
+    const allTasks = await env.DB.prepare(`SELECT t.*, o.statement as objective_statement FROM tasks t LEFT JOIN objectives o ON t.objective_id = o.id WHERE t.user_id = ? AND t.status = 'open' AND (t.snoozed_until IS NULL OR t.snoozed_until <= ?)${tagFilter.sql} ORDER BY t.priority DESC, t.due_date ASC NULLS LAST, t.created_at ASC`).bind(getCurrentUser(), today, ...tagFilter.bindings).all();
     let focusedTasks: any[] = [], focusTitle = '';
-    if (focusLower === 'active') { focusTitle = 'Active Tasks'; focusedTasks = (allTasks.results as any[]).filter(t => t.is_active || t.objective_id); }
+    if (focusLower.startsWith('#')) { focusTitle = focus.trim(); focusedTasks = allTasks.results as any[]; }
+    else if (focusLower === 'active') { focusTitle = 'Active Tasks'; focusedTasks = (allTasks.results as any[]).filter(t => t.is_active || t.objective_id); }
     else if (focusLower === 'overdue') { focusTitle = 'Overdue Tasks'; focusedTasks = (allTasks.results as any[]).filter(t => t.due_date && t.due_date.split('T')[0] < today); }
     else if (focusLower === 'today' || focusLower === 'due today') { focusTitle = 'Due Today'; focusedTasks = (allTasks.results as any[]).filter(t => t.due_date && t.due_date.split('T')[0] === today); }
     else if (focusLower === 'incoming') { focusTitle = 'Incoming Tasks'; focusedTasks = (allTasks.results as any[]).filter(t => t.assigned_by); }
-    else if (focusLower === 'routines' || focusLower === 'recurring') { focusTitle = 'Daily Routines'; const dow = now.getDay(), wd = dow >= 1 && dow <= 5; focusedTasks = (allTasks.results as any[]).filter(t => { if (!t.recurrence) return false; const r = t.recurrence.toLowerCase(); return r === 'daily' || (r === 'weekdays' && wd) || r.includes(central.dayShort.toLowerCase()); }); }
+    else if (focusLower === 'routines' || focusLower === 'recurring') { focusTitle = 'Daily Routines'; focusedTasks = (allTasks.results as any[]).filter(t => t.recurrence && isRecurrenceDueOn(t.recurrence, today, t.due_date)); }
     else { focusTitle = focus; focusedTasks = (allTasks.results as any[]).filter(t => { const cat = (t.category || '').toLowerCase(), proj = (t.project || '').toLowerCase(), txt = (t.text || '').toLowerCase(); return cat.includes(focusLower) || proj.includes(focusLower) || txt.includes(focusLower) || focusLower.includes(cat) || focusLower.includes(proj); }); }
-    if (focusedTasks.length === 0) return { content: [{ type: "text", text: `No tasks found matching "${focus}".\n\nTry: a category name, project name, "overdue", "today", "active", "incoming", or keywords from task text.` }] };
-    focusedTasks.sort((a, b) => { const aO = a.due_date && a.due_date.split('T')[0] < today, bO = b.due_date && b.due_date.split('T')[0] < today; if (aO && !bO) return -1; if (!aO && bO) return 1; if (b.priority !== a.priority) return b.priority - a.priority; if (a.due_date && b.due_date) return a.due_date.localeCompare(b.due_date); if (a.due_date) return -1; if (b.due_date) return 1; return a.created_at.localeCompare(b.created_at); });
-    let out = `🎯 **TODAY'S FOCUS: ${focusTitle}**\n${central.dayName}, ${central.date}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n**Suggested Order:**\n\n`;
-    let num = 1; for (const t of focusedTasks) { const pri = t.priority >= 4 ? '🔴' : t.priority === 3 ? '🟡' : '⚪'; let meta = ''; if (t.due_date) { const dd = t.due_date.split('T')[0]; if (dd < today) meta = ` ⚠️ overdue (${dd})`; else if (dd === today) meta = ` 📅 due today`; else meta = ` (due ${dd})`; } if (t.recurrence) meta += ` 🔄${t.recurrence}`; if (t.assigned_by) meta += ` 📥 from ${t.assigned_by}`; if (t.objective_statement) meta += ` → ${t.objective_statement}`; out += `${num}. ${pri} ${t.text}${meta}\n`; num++; }
+    if (focusedTasks.length === 0) return { content: [{ type: "text", text: `No tasks found matching "${focus}".\n\nTry: a category name, project name, "#tag", "overdue", "today", "active", "incoming", or keywords from task text.` }] };
+    const ranked = await scoreTasks(env, getCurrentUser(), { clock, tasks: focusedTasks }); focusedTasks = ranked.map(r => r.task); const blockedIds = new Set(ranked.filter(r => r.blocked).map(r => r.task.id));
+    let out = `🎯 **TODAY'S FOCUS: ${focusTitle}**\n${local.dayName}, ${local.date}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n**Suggested Order:**\n\n`;
+    let num = 1; for (const t of focusedTasks) { const pri = t.priority >= 4 ? '🔴' : t.priority === 3 ? '🟡' : '⚪'; let meta = ''; if (t.due_date) { const dd = t.due_date.split('T')[0]; if (dd < today) meta = ` ⚠️ overdue (${dd})`; else if (dd === today) meta = ` 📅 due today`; else meta = ` (due ${dd})`; } if (t.recurrence) meta += ` 🔄${t.recurrence}`; if (t.assigned_by) meta += ` 📥 from ${t.assigned_by}`; if (t.objective_statement) meta += ` → ${t.objective_statement}`; if (blockedIds.has(t.id)) meta += ` ⛔ blocked`; out += `${num}. ${pri} ${t.text}${meta}\n`; num++; }
     out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📊 ${focusedTasks.length} tasks in focus\n`;
     const hp = focusedTasks.filter(t => t.priority >= 4).length, oc = focusedTasks.filter(t => t.due_date && t.due_date.split('T')[0] < today).length;
     if (oc > 0) out += `\n💡 ${oc} overdue - tackle these first`; if (hp > 0 && hp !== oc) out += `\n💡 ${hp} high priority items`;
+    out += `\n💡 Ordered by what_next score (due dates, priority, sprint, launch, time of day)`;
     out += `\n\n✅ Use \`complete_task\` as you finish each one!`;
     return { content: [{ type: "text", text: out }] };
   });
 
   server.tool("good_night", { notes: z.string().optional().describe("Where you left off") }, async ({ notes }) => {
-    const now = new Date(); const today = now.toISOString().split('T')[0]; const ts = now.toISOString(); const central = getCentralTime(now);
-    const session = await env.DB.prepare('SELECT * FROM work_sessions WHERE user_id = ? AND session_date = ?').bind(getCurrentUser(), today).first();
+    const now = new Date(); const clock = await getUserClock(env, getCurrentUser(), now); const today = clock.today; const ts = now.toISOString(); const local = getLocalTime(now, clock.timeZone);
+    const session = await getCurrentSession(env, getCurrentUser(), today);
     if (!session) return { content: [{ type: "text", text: "🌙 No work session found for today. Did you forget to say good morning?" }] };
-    const startTime = new Date(session.started_at); const startCentral = getCentralTime(startTime);
-    const totalMinutes = Math.round((now.getTime() - startTime.getTime()) / (1000 * 60)); const hours = Math.floor(totalMinutes / 60); const mins = totalMinutes % 60;
+    const startTime = new Date(session.started_at); const startLocal = getLocalTime(startTime, clock.timeZone);
     const checkpoints = await env.DB.prepare(`SELECT * FROM checkpoints WHERE user_id = ? AND session_id = ? ORDER BY checkpoint_time ASC`).bind(getCurrentUser(), session.id).all();
-    const completed = await env.DB.prepare(`SELECT * FROM tasks WHERE user_id = ? AND status = 'done' AND DATE(completed_at) = ? ORDER BY completed_at ASC`).bind(getCurrentUser(), today).all();
-    const added = await env.DB.prepare(`SELECT * FROM tasks WHERE user_id = ? AND DATE(created_at) = ? ORDER BY created_at ASC`).bind(getCurrentUser(), today).all();
+    const completed = await env.DB.prepare(`SELECT * FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ? AND completed_at < ? ORDER BY completed_at ASC`).bind(getCurrentUser(), clock.startOf(today), clock.startOf(clock.daysFromNow(1))).all();
+    const added = await env.DB.prepare(`SELECT * FROM tasks WHERE user_id = ? AND created_at >= ? AND created_at < ? ORDER BY created_at ASC`).bind(getCurrentUser(), clock.startOf(today), clock.startOf(clock.daysFromNow(1))).all();
     const nonMorning = (checkpoints.results as any[]).filter(c => c.trigger_type !== 'morning');
     let narrative = nonMorning.length > 0 ? nonMorning.map((c: any) => c.summary).join(' → ') : completed.results.length > 0 ? `Completed ${completed.results.length} task(s)` : 'No checkpoints recorded today.';
     const allTopics = new Set<string>(); for (const c of checkpoints.results as any[]) JSON.parse((c as any).topics || '[]').forEach((t: string) => allTopics.add(t)); allTopics.delete('day_start');
     await env.DB.prepare('INSERT INTO checkpoints (id, user_id, session_id, checkpoint_time, trigger_type, summary, topics, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)').bind(crypto.randomUUID(), getCurrentUser(), session.id, ts, 'night', notes || `Wrapped up: ${narrative.slice(0, 200)}`, JSON.stringify(Array.from(allTopics)), ts).run();
-    await env.DB.prepare(`UPDATE work_sessions SET ended_at = ?, total_minutes = ?, end_of_day_summary = ? WHERE id = ?`).bind(ts, totalMinutes, narrative, session.id).run();
-    let out = `🌙 **End of Day Report**\n${central.dayName}, ${central.date}\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n⏱️ TIME TRACKED\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\nIn:  ${startCentral.time} Central\nOut: ${central.time} Central\n**Total: ${hours}h ${mins}m**\n`;
+    const time = await closeSession(env, session, ts, narrative);
+    const hours = Math.floor(time.netMinutes / 60); const mins = time.netMinutes % 60;
+    let out = `🌙 **End of Day Report**\n${local.dayName}, ${local.date}\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n⏱️ TIME TRACKED\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\nIn:  ${startLocal.time} ${startLocal.zone}\nOut: ${local.time} ${local.zone}\n`;
+    if (time.breakCount > 0) out += `Span: ${formatMinutes(time.grossMinutes)}\n☕ Breaks: ${formatMinutes(time.breakMinutes)} (${time.breakCount})\n`;
+    out += `**Worked: ${hours}h ${mins}m**\n`;
     out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📊 STATS\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n✅ Completed: ${completed.results.length}\n➕ Added: ${added.results.length}\n📍 Checkpoints: ${checkpoints.results.length}\n`;
     const net = completed.results.length - added.results.length; out += net > 0 ? `📈 Net: +${net} (burned down the list!)\n` : net < 0 ? `📉 Net: ${net} (scope expanded)\n` : `📊 Net: 0 (balanced)\n`;
     if (completed.results.length > 0) { out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n✅ COMPLETED\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`; for (const t of completed.results as any[]) out += `• ${t.text}\n`; }
@@ -211,14 +236,14 @@ export function registerBethanyTools(ctx: ToolContext) {
         const doneCount = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE objective_id = ? AND user_id = ? AND status = 'done'").bind(obj.id, getCurrentUser()).first();
         totalTasks += (openCount?.c || 0) + (doneCount?.c || 0); completedTasks += (doneCount?.c || 0);
       }
-      out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📋 SPRINT STATUS\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n${activeSprint.name}: ${completedTasks}/${totalTasks} tasks (${totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0}%)\n⏳ ${Math.ceil((new Date(activeSprint.end_date).getTime() - now.getTime()) / (1000 * 60 * 60 * 24))} days remaining\n`;
+      out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n📋 SPRINT STATUS\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n${activeSprint.name}: ${completedTasks}/${totalTasks} tasks (${totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0}%)\n⏳ ${daysBetween(today, activeSprint.end_date)} days remaining\n`;
     }
     out += `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n🌟 Good work today!`;
     return { content: [{ type: "text", text: out }] };
   });
 
   server.tool("checkpoint", { summary: z.string().describe("1-2 sentence summary"), topics: z.array(z.string()).optional(), discoveries: z.string().optional(), task_ids: z.array(z.string()).optional(), trigger: z.enum(['task_added', 'task_completed', 'topic_shift', 'manual', 'auto']).optional().default('auto') }, async ({ summary, topics, discoveries, task_ids, trigger }) => {
-    const now = new Date(); const today = now.toISOString().split('T')[0]; const ts = now.toISOString();
+    const now = new Date(); const { today } = await getUserClock(env, getCurrentUser(), now); const ts = now.toISOString();
     let session = await env.DB.prepare('SELECT * FROM work_sessions WHERE user_id = ? AND session_date = ?').bind(getCurrentUser(), today).first(); let sessionId: string;
     if (!session) { sessionId = crypto.randomUUID(); await env.DB.prepare('INSERT INTO work_sessions (id, user_id, session_date, started_at, created_at) VALUES (?, ?, ?, ?, ?)').bind(sessionId, getCurrentUser(), today, ts, ts).run(); } else sessionId = session.id;
     await env.DB.prepare('INSERT INTO checkpoints (id, user_id, session_id, checkpoint_time, trigger_type, summary, topics, discoveries, task_ids, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').bind(crypto.randomUUID(), getCurrentUser(), sessionId, ts, trigger, summary, JSON.stringify(topics || []), discoveries || null, JSON.stringify(task_ids || []), ts).run();
@@ -226,12 +251,35 @@ export function registerBethanyTools(ctx: ToolContext) {
     return { content: [{ type: "text", text: `📍 Checkpoint #${count?.c || 1}: ${summary.slice(0, 50)}${summary.length > 50 ? '...' : ''}` }] };
   });
 
+  server.tool("take_break", { reason: z.string().optional().describe("Lunch, errand, school run...") }, async ({ reason }) => {
+    const now = new Date(); const clock = await getUserClock(env, getCurrentUser(), now);
+    const result = await startBreak(env, getCurrentUser(), clock, reason);
+    if ('error' in result) return { content: [{ type: "text", text: `❓ ${result.error}` }] };
+    const local = getLocalTime(now, clock.timeZone);
+    let out = `☕ On a break since ${local.time}${reason ? ` — ${reason}` : ''}\n`;
+    if (result.pausedTimer) out += `⏸️ Paused the timer on ${result.pausedTimer.task_text || 'your task'}\n`;
+    out += `💡 Say \`resume_work\` when you're back - break time won't count as worked`;
+    return { content: [{ type: "text", text: out }] };
+  });
+
+  server.tool("resume_work", {}, async () => {
+    const now = new Date(); const clock = await getUserClock(env, getCurrentUser(), now);
+    const result = await endBreak(env, getCurrentUser(), clock);
+    if ('error' in result) return { content: [{ type: "text", text: `❓ ${result.error}` }] };
+    const time = computeSessionTime(result.session, await getSessionBreaks(env, result.session.id), now);
+    let out = `▶️ Back to work after ${formatMinutes(result.minutes)}${result.brk.reason ? ` (${result.brk.reason})` : ''}\n`;
+    out += `⏱️ Worked so far: ${formatMinutes(time.netMinutes)} · ☕ ${formatMinutes(time.breakMinutes)} on ${time.breakCount} break${time.breakCount === 1 ? '' : 's'}`;
+    const timer = await getOpenTimer(env, getCurrentUser());
+    if (timer?.status === 'paused') out += `\n💡 Timer on ${timer.task_text} is paused - \`start_timer\` on it to pick it up`;
+    return { content: [{ type: "text", text: out }] };
+  });
+
   server.tool("work_history", { days: z.number().optional().default(7) }, async ({ days }) => {
-    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const clock = await getUserClock(env, getCurrentUser()); const since = clock.daysAgo(days);
     const sessions = await env.DB.prepare(`SELECT ws.*, (SELECT COUNT(*) FROM checkpoints WHERE session_id = ws.id) as checkpoint_count FROM work_sessions ws WHERE ws.user_id = ? AND ws.session_date >= ? ORDER BY ws.session_date DESC`).bind(getCurrentUser(), since).all();
     if (sessions.results.length === 0) return { content: [{ type: "text", text: `No work sessions in the last ${days} days.` }] };
     let out = `📅 **Work History** (${days} days)\n\n`; let totalMinutes = 0; const now = new Date();
-    for (const s of sessions.results as any[]) { let sessionMinutes = s.total_minutes || 0, isActive = false; if (!s.ended_at && s.started_at) { sessionMinutes = Math.round((now.getTime() - new Date(s.started_at).getTime()) / (1000 * 60)); isActive = true; } const hours = Math.floor(sessionMinutes / 60), mins = sessionMinutes % 60; totalMinutes += sessionMinutes; let timeRange = ''; if (s.started_at) { const sc = getCentralTime(new Date(s.started_at)); timeRange = s.ended_at ? ` (${sc.time} → ${getCentralTime(new Date(s.ended_at)).time})` : ` (${sc.time} → now)`; } out += `**${s.session_date}** — ${hours}h ${mins}m${timeRange}${isActive ? ' 🟢' : ''}\n`; if (s.end_of_day_summary) out += `  ${s.end_of_day_summary.slice(0, 100)}${s.end_of_day_summary.length > 100 ? '...' : ''}\n`; out += '\n'; }
+    for (const s of sessions.results as any[]) { let sessionMinutes = s.total_minutes || 0, breakMinutes = s.break_minutes || 0, isActive = false; if (!s.ended_at && s.started_at) { const live = computeSessionTime(s, await getSessionBreaks(env, s.id), now); sessionMinutes = live.netMinutes; breakMinutes = live.breakMinutes; isActive = true; } const hours = Math.floor(sessionMinutes / 60), mins = sessionMinutes % 60; totalMinutes += sessionMinutes; let timeRange = ''; if (s.started_at) { const sc = getLocalTime(new Date(s.started_at), clock.timeZone); timeRange = s.ended_at ? ` (${sc.time} → ${getLocalTime(new Date(s.ended_at), clock.timeZone).time})` : ` (${sc.time} → now)`; } out += `**${s.session_date}** — ${hours}h ${mins}m${timeRange}${breakMinutes > 0 ? ` ☕ ${formatMinutes(breakMinutes)}` : ''}${isActive ? ' 🟢' : ''}\n`; if (s.end_of_day_summary) out += `  ${s.end_of_day_summary.slice(0, 100)}${s.end_of_day_summary.length > 100 ? '...' : ''}\n`; out += '\n'; }
     const avgMinutes = Math.round(totalMinutes / sessions.results.length);
     out += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\nTotal: ${Math.floor(totalMinutes / 60)}h ${totalMinutes % 60}m across ${sessions.results.length} days\nAverage: ${Math.floor(avgMinutes / 60)}h ${avgMinutes % 60}m per day`;
     return { content: [{ type: "text", text: out }] };
@@ -0,0 +1,47 @@
+// Calendar feed tools - subscribe calendar apps to due tasks, sprint ends and launch dates
+
+import { z } from "zod";
+import type { ToolContext } from '../types';
+import { createCalendarFeed, listCalendarFeeds, revokeCalendarFeed, calendarFeedUrl } from '../helpers/calendar';
+
+export function registerCalendarTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool("create_calendar_feed", {
+    label: z.string().optional().describe('What the feed is for, e.g. "Phone" or "Work Google Calendar"'),
+  }, async ({ label }) => {
+    const feed = await createCalendarFeed(env, getCurrentUser(), label);
+    const url = calendarFeedUrl(env, feed.token);
+
+    let out = `📅 Calendar feed created${feed.label ? ` (${feed.label})` : ''}\n\n`;
+    out += `${url}\n\n`;
+    out += `Subscribe to this URL in Google Calendar ("From URL"), Apple Calendar or Outlook.\n`;
+    out += `Add ?tasks=todo to get tasks as to-dos instead of all-day events (not supported by Google).\n`;
+    out += `🔒 Anyone with the link can read the feed - revoke_calendar_feed if it leaks.`;
+    return { content: [{ type: "text", text: out }] };
+  });
+
+  server.tool("list_calendar_feeds", {
+    include_revoked: z.boolean().optional().default(false),
+  }, async ({ include_revoked }) => {
+    const feeds = await listCalendarFeeds(env, getCurrentUser(), include_revoked);
+    if (feeds.length === 0) return { content: [{ type: "text", text: "No calendar feeds yet. Use create_calendar_feed to make one." }] };
+
+    let out = `📅 **Calendar feeds**\n\n`;
+    for (const f of feeds) {
+      out += `${f.revoked_at ? '🚫' : '✅'} **${f.label || 'Unnamed feed'}** · created ${f.created_at.split('T')[0]}\n`;
+      out += f.revoked_at ? `   Revoked ${f.revoked_at.split('T')[0]}\n` : `   ${calendarFeedUrl(env, f.token)}\n`;
+      out += `   Last fetched: ${f.last_fetched_at ? f.last_fetched_at.replace('T', ' ').slice(0, 16) : 'never'}\n`;
+      out += `   ID: ${f.id}\n\n`;
+    }
+    return { content: [{ type: "text", text: out.trimEnd() }] };
+  });
+
+  server.tool("revoke_calendar_feed", {
+    feed: z.string().describe("Feed ID, or the token from its URL"),
+  }, async ({ feed }) => {
+    const result = await revokeCalendarFeed(env, getCurrentUser(), feed);
+    if ('error' in result) return { content: [{ type: "text", text: `❓ ${result.error}` }] };
+    return { content: [{ type: "text", text: `🚫 Revoked calendar feed${result.label ? ` "${result.label}"` : ''}. Calendars subscribed to it will stop updating.` }] };
+  });
+}
@@ -0,0 +1,78 @@
+// Digest tools - schedule the morning, evening and weekly digest emails
+
+import { z } from "zod";
+import type { ToolContext } from '../types';
+import { getUserClock } from '../helpers/datetime';
+import {
+  DIGEST_TYPES, DIGEST_SECTIONS, DIGEST_WEEKDAYS,
+  getDigestSettings, updateDigestSettings, isValidDigestAddress, describeDigestSchedule, listDigestSends,
+  buildDigest, renderDigestText, sendDigest,
+} from '../helpers/digests';
+
+const hourSchema = z.number().int().min(0).max(23).nullable().optional();
+
+export function registerDigestTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool("configure_digest", {
+    enabled: z.boolean().optional().describe("Turn the digest emails on or off"),
+    account: z.enum(['personal', 'company']).optional().describe("Gmail account to send from"),
+    email_to: z.string().nullable().optional().describe("Where to send them; null sends to the Gmail account itself"),
+    morning_hour: hourSchema.describe("Local hour (0-23) for the morning briefing, null to turn it off"),
+    evening_hour: hourSchema.describe("Local hour for the end-of-day recap, null to turn it off"),
+    weekly_day: z.enum(DIGEST_WEEKDAYS).optional().describe("Day for the weekly recap"),
+    weekly_hour: hourSchema.describe("Local hour for the weekly recap, null to turn it off"),
+    sections: z.array(z.enum(DIGEST_SECTIONS)).optional().describe("Sections to include, in any order"),
+    skip_inactive: z.boolean().optional().describe("Don't send on days with no activity (the morning digest still goes out when something is due)"),
+  }, async ({ enabled, account, email_to, morning_hour, evening_hour, weekly_day, weekly_hour, sections, skip_inactive }) => {
+    const emailTo = email_to === undefined ? undefined : (email_to?.trim() || null);
+    if (emailTo && !isValidDigestAddress(emailTo)) {
+      return { content: [{ type: "text", text: `⛔ email_to must be a single email address, like you@example.com` }] };
+    }
+    const changes = {
+      enabled, account, sections, skipInactive: skip_inactive, emailTo,
+      morningHour: morning_hour, eveningHour: evening_hour, weeklyHour: weekly_hour,
+      weeklyDay: weekly_day === undefined ? undefined : DIGEST_WEEKDAYS.indexOf(weekly_day),
+    };
+    const changed = Object.values(changes).some(v => v !== undefined);
+    const settings = changed
+      ? await updateDigestSettings(env, getCurrentUser(), changes)
+      : await getDigestSettings(env, getCurrentUser());
+
+    let out = changed ? `📬 **Digest settings updated**\n\n` : `📬 **Digest settings**\n\n`;
+    out += `Status: ${settings.enabled ? 'on' : 'off'}\n`;
+    out += `Schedule: ${describeDigestSchedule(settings)}\n`;
+    out += `Sections: ${settings.sections.length > 0 ? settings.sections.join(', ') : 'none'}\n`;
+    out += `From: Gmail (${settings.account}) → ${settings.emailTo || 'the same address'}\n`;
+    out += `Quiet days: ${settings.skipInactive ? 'skipped' : 'sent anyway'}\n`;
+
+    if (!changed) {
+      const sends = await listDigestSends(env, getCurrentUser(), 5);
+      if (sends.length > 0) {
+        out += `\n**Recent**\n`;
+        for (const s of sends) out += `• ${s.digest_date} ${s.digest_type}: ${s.status}${s.detail ? ` (${s.detail})` : ''}\n`;
+      }
+    }
+    if (!settings.enabled) out += `\nTurn them on with configure_digest enabled: true.`;
+    return { content: [{ type: "text", text: out.trimEnd() }] };
+  });
+
+  server.tool("send_digest", {
+    type: z.enum(DIGEST_TYPES).optional().default('morning'),
+    preview: z.boolean().optional().default(true).describe("Show the digest here instead of emailing it"),
+  }, async ({ type, preview }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const settings = await getDigestSettings(env, getCurrentUser());
+
+    if (preview) {
+      const report = await buildDigest(env, getCurrentUser(), type, clock, settings.sections);
+      let out = `📬 **${report.subject}**\n\n${renderDigestText(report).trimEnd()}`;
+      if (!report.active && settings.skipInactive) out += `\n\n_No activity - the scheduled send would skip this one._`;
+      return { content: [{ type: "text", text: out }] };
+    }
+
+    const result = await sendDigest(env, getCurrentUser(), type, clock, settings, true);
+    if (result.status !== 'sent') return { content: [{ type: "text", text: `⛔ ${result.detail}` }] };
+    return { content: [{ type: "text", text: `📬 Sent "${result.subject}" ${result.detail}` }] };
+  });
+}
@@ -2,7 +2,7 @@
 
 import { z } from "zod";
 import type { ToolContext } from '../types';
-import { getValidToken, buildOAuthUrl, findOrCreateFolderPath, DRIVE_API_URL, DRIVE_UPLOAD_URL } from '../oauth';
+import { getValidToken, buildOAuthUrl, findOrCreateFolderPath, uploadTextToDrive, DRIVE_API_URL, DRIVE_UPLOAD_URL } from '../oauth';
 
 export function registerDriveTools(ctx: ToolContext) {
   const { server, env, getCurrentUser } = ctx;
@@ -157,21 +157,11 @@ export function registerDriveTools(ctx: ToolContext) {
       
     } else {
       // Text upload using multipart (existing behavior)
-      const boundary = '---b' + Date.now();
-      const body = '--' + boundary + '\r\nContent-Type: application/json\r\n\r\n' + JSON.stringify(meta) + '\r\n--' + boundary + '\r\nContent-Type: ' + mime + '\r\n\r\n' + content + '\r\n--' + boundary + '--';
-      
-      const resp = await fetch(DRIVE_UPLOAD_URL + '/files?uploadType=multipart&fields=id,name,webViewLink,parents', {
-        method: 'POST',
-        headers: { Authorization: 'Bearer ' + token, 'Content-Type': 'multipart/related; boundary=' + boundary },
-        body: body
-      });
-      
-      if (!resp.ok) {
-        const err = await resp.text();
-        return { content: [{ type: "text", text: "⛔ Error saving file: " + err }] };
+      const file = await uploadTextToDrive(token, filename, content, mime, targetId);
+      if ('error' in file) {
+        return { content: [{ type: "text", text: "⛔ Error saving file: " + file.error }] };
       }
       
-      const file: any = await resp.json();
       return { content: [{ type: "text", text: '✅ Saved: ' + file.name + folderInfo + '\n' + file.webViewLink }] };
     }
   });
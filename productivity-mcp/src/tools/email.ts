@@ -2,8 +2,9 @@
 
 import { z } from "zod";
 import type { ToolContext } from '../types';
-import { getValidToken, GMAIL_API_URL, DRIVE_API_URL } from '../oauth';
+import { getValidToken, sendGmail, GMAIL_API_URL, DRIVE_API_URL } from '../oauth';
 import { logEvent, updateDailyLog } from '../helpers/intelligence';
+import { findSimilarTasks, formatSimilarTasks } from '../helpers/duplicates';
 
 /**
  * EMAIL ATTACHMENTS WORKFLOW
@@ -175,79 +176,72 @@ export function registerEmailTools(ctx: ToolContext) {
       return { content: [{ type: "text", text: `⛔ ${account} email not connected` }] };
     }
     
-    let encodedEmail: string;
-    
-    if (attachment_file_id) {
-      // Need Drive token to fetch the file
-      const driveToken = await getValidToken(env, getCurrentUser(), 'google_drive');
-      if (!driveToken) {
-        return { content: [{ type: "text", text: `⛔ Google Drive not connected. Required for attachments.` }] };
-      }
-      
-      // Get file metadata
-      const metaResp = await fetch(`${DRIVE_API_URL}/files/${attachment_file_id}?fields=id,name,mimeType`, {
-        headers: { Authorization: 'Bearer ' + driveToken }
-      });
-      
-      if (!metaResp.ok) {
-        return { content: [{ type: "text", text: `⛔ Could not find attachment file. Make sure the file ID is correct.` }] };
+    if (!attachment_file_id) {
+      const sent = await sendGmail(token, { to, subject, text: body });
+      if ('error' in sent) {
+        return { content: [{ type: "text", text: `⛔ Error sending email: ${sent.error}` }] };
       }
-      
-      const fileMeta: any = await metaResp.json();
-      
-      // Download file content
-      const fileResp = await fetch(`${DRIVE_API_URL}/files/${attachment_file_id}?alt=media`, {
-        headers: { Authorization: 'Bearer ' + driveToken }
-      });
-      
-      if (!fileResp.ok) {
-        return { content: [{ type: "text", text: `⛔ Could not download attachment file.` }] };
-      }
-      
-      const fileBuffer = await fileResp.arrayBuffer();
-      const fileBase64 = btoa(String.fromCharCode(...new Uint8Array(fileBuffer)));
-      
-      // Build multipart MIME message with attachment
-      const boundary = `boundary_${crypto.randomUUID().replace(/-/g, '')}`;
-      
-      const mimeMessage = [
-        `To: ${to}`,
-        `Subject: ${subject}`,
-        `MIME-Version: 1.0`,
-        `Content-Type: multipart/mixed; boundary="${boundary}"`,
-        '',
-        `--${boundary}`,
-        'Content-Type: text/plain; charset=utf-8',
-        '',
-        body,
-        '',
-        `--${boundary}`,
-        `Content-Type: ${fileMeta.mimeType || 'application/octet-stream'}`,
-        `Content-Disposition: attachment; filename="${fileMeta.name}"`,
-        'Content-Transfer-Encoding: base64',
-        '',
-        fileBase64,
-        '',
-        `--${boundary}--`
-      ].join('\r\n');
-      
-      encodedEmail = btoa(unescape(encodeURIComponent(mimeMessage)))
-        .replace(/\+/g, '-')
-        .replace(/\//g, '_')
-        .replace(/=+$/, '');
-    } else {
-      // Simple email without attachment
-      const email = [
-        `To: ${to}`,
-        `Subject: ${subject}`,
-        'Content-Type: text/plain; charset=utf-8',
-        '',
-        body
-      ].join('\r\n');
-      
-      encodedEmail = btoa(email).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+      return { content: [{ type: "text", text: `✅ Email sent to ${to}` }] };
+    }
+
+    // Need Drive token to fetch the file
+    const driveToken = await getValidToken(env, getCurrentUser(), 'google_drive');
+    if (!driveToken) {
+      return { content: [{ type: "text", text: `⛔ Google Drive not connected. Required for attachments.` }] };
     }
     
+    // Get file metadata
+    const metaResp = await fetch(`${DRIVE_API_URL}/files/${attachment_file_id}?fields=id,name,mimeType`, {
+      headers: { Authorization: 'Bearer ' + driveToken }
+    });
+    
+    if (!metaResp.ok) {
+      return { content: [{ type: "text", text: `⛔ Could not find attachment file. Make sure the file ID is correct.` }] };
+    }
+    
+    const fileMeta: any = await metaResp.json();
+    
+    // Download file content
+    const fileResp = await fetch(`${DRIVE_API_URL}/files/${attachment_file_id}?alt=media`, {
+      headers: { Authorization: 'Bearer ' + driveToken }
+    });
+    
+    if (!fileResp.ok) {
+      return { content: [{ type: "text", text: `⛔ Could not download attachment file.` }] };
+    }
+    
+    const fileBuffer = await fileResp.arrayBuffer();
+    const fileBase64 = btoa(String.fromCharCode(...new Uint8Array(fileBuffer)));
+    
+    // Build multipart MIME message with attachment
+    const boundary = `boundary_${crypto.randomUUID().replace(/-/g, '')}`;
+    
+    const mimeMessage = [
+      `To: ${to}`,
+      `Subject: ${subject}`,
+      `MIME-Version: 1.0`,
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      body,
+      '',
+      `--${boundary}`,
+      `Content-Type: ${fileMeta.mimeType || 'application/octet-stream'}`,
+      `Content-Disposition: attachment; filename="${fileMeta.name}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      fileBase64,
+      '',
+      `--${boundary}--`
+    ].join('\r\n');
+    
+    const encodedEmail = btoa(unescape(encodeURIComponent(mimeMessage)))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
     const resp = await fetch(`${GMAIL_API_URL}/users/me/messages/send`, {
       method: 'POST',
       headers: {
@@ -262,15 +256,15 @@ export function registerEmailTools(ctx: ToolContext) {
       return { content: [{ type: "text", text: `⛔ Error sending email: ${error}` }] };
     }
     
-    const attachmentNote = attachment_file_id ? ` (with attachment)` : '';
-    return { content: [{ type: "text", text: `✅ Email sent to ${to}${attachmentNote}` }] };
+    return { content: [{ type: "text", text: `✅ Email sent to ${to} (with attachment)` }] };
   });
 
   server.tool("email_to_task", {
     account: z.enum(['personal', 'company']),
     message_id: z.string(),
     priority: z.number().min(1).max(5).optional().default(3),
-  }, async ({ account, message_id, priority }) => {
+    force: z.boolean().optional().default(false).describe("Create the task even if it looks like a duplicate"),
+  }, async ({ account, message_id, priority, force }) => {
     const provider = account === 'personal' ? 'gmail_personal' : 'gmail_company';
     const token = await getValidToken(env, getCurrentUser(), provider);
     
@@ -292,10 +286,24 @@ export function registerEmailTools(ctx: ToolContext) {
     const from = headers.find((h: any) => h.name === 'From')?.value || 'Unknown';
     const subject = headers.find((h: any) => h.name === 'Subject')?.value || '(no subject)';
     
+    const taskText = `Reply to: ${subject}`;
+
+    if (!force) {
+      const existing = await env.DB.prepare(
+        "SELECT id, text FROM tasks WHERE user_id = ? AND status = 'open' AND notes LIKE ?"
+      ).bind(getCurrentUser(), `%Email ID: ${message_id}%`).first();
+      if (existing) {
+        return { content: [{ type: "text", text: `♊ Already a task for this email: "${existing.text}" · ID: ${existing.id}` }] };
+      }
+      const similar = await findSimilarTasks(env, getCurrentUser(), taskText);
+      if (similar.length > 0) {
+        return { content: [{ type: "text", text: `♊ Looks like you already have this:\n${formatSimilarTasks(similar)}\n\n💡 email_to_task again with force: true to create it anyway` }] };
+      }
+    }
+
     // Create task
     const taskId = crypto.randomUUID();
     const ts = new Date().toISOString();
-    const taskText = `Reply to: ${subject}`;
     const notes = `From: ${from}\nEmail ID: ${message_id}\nAccount: ${account}`;
     
     await env.DB.prepare(
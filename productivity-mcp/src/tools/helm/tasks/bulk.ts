@@ -0,0 +1,74 @@
+// Bulk task operations: filter the backlog, then apply one action to every match
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { getUserClock } from '../../../helpers/datetime';
+import {
+  BULK_ACTIONS,
+  MAX_BULK_TASKS,
+  findBulkTargets,
+  resolveBulkValue,
+  describeBulkAction,
+  applyBulkAction,
+} from '../../../helpers/bulk';
+
+const PREVIEW_LIMIT = 25;
+
+export function registerTaskBulkTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser, getTeammates } = ctx;
+
+  server.tool('bulk_update_tasks', {
+    action: z.enum(BULK_ACTIONS).describe('What to do to every matching task'),
+    value: z.union([z.string(), z.number()]).optional().describe('reprioritize: 1-5 · recategorize: category · snooze: date like "monday" (default tomorrow) · reassign: username'),
+    dry_run: z.boolean().optional().default(true).describe('Preview matches without changing anything (default true)'),
+    status: z.enum(['open', 'done', 'all']).optional().default('open'),
+    category: z.string().optional(),
+    project: z.string().optional(),
+    tags: z.array(z.string()).optional().describe('Tasks with any of these tags'),
+    priority: z.number().min(1).max(5).optional(),
+    min_priority: z.number().min(1).max(5).optional(),
+    max_priority: z.number().min(1).max(5).optional(),
+    older_than_days: z.number().optional().describe('Created at least this many days ago'),
+    newer_than_days: z.number().optional().describe('Created within this many days'),
+    due_after: z.string().optional().describe('Due on or after (YYYY-MM-DD or "today", "next monday"...)'),
+    due_before: z.string().optional().describe('Due on or before (use "yesterday" for overdue)'),
+    no_due_date: z.boolean().optional(),
+    text_contains: z.string().optional(),
+    has_recurrence: z.boolean().optional(),
+  }, async ({ action, value, dry_run, ...filter }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+
+    const resolved = resolveBulkValue(action, value, clock, getTeammates());
+    if ('error' in resolved) return { content: [{ type: 'text', text: '❓ ' + resolved.error }] };
+
+    const found = await findBulkTargets(env, getCurrentUser(), filter, clock);
+    if ('error' in found) return { content: [{ type: 'text', text: '❓ ' + found.error }] };
+
+    const { tasks } = found;
+    if (tasks.length === 0) return { content: [{ type: 'text', text: 'No tasks match that filter.' }] };
+
+    const label = describeBulkAction(action, resolved.value);
+    if (dry_run) {
+      let out = '🔍 **Preview:** ' + label + ' → ' + tasks.length + ' task(s)\n\n';
+      for (const t of tasks.slice(0, PREVIEW_LIMIT)) {
+        out += '• ' + t.text;
+        if (t.category) out += ' [' + t.category + ']';
+        if (t.due_date) out += ' (due: ' + t.due_date + ')';
+        out += ' P' + t.priority + '\n';
+      }
+      if (tasks.length > PREVIEW_LIMIT) out += '…and ' + (tasks.length - PREVIEW_LIMIT) + ' more\n';
+      out += tasks.length > MAX_BULK_TASKS
+        ? '\n⚠️ That\'s over the ' + MAX_BULK_TASKS + '-task limit for one run - narrow the filter before applying'
+        : '\n💡 Run again with dry_run: false to apply';
+      return { content: [{ type: 'text', text: out }] };
+    }
+    if (tasks.length > MAX_BULK_TASKS) {
+      return { content: [{ type: 'text', text: '⛔ ' + tasks.length + ' tasks match - one run can change at most ' + MAX_BULK_TASKS + '. Narrow the filter (e.g. category, tags, older_than_days) and run it in parts.' }] };
+    }
+
+    const changed = await applyBulkAction(env, getCurrentUser(), tasks, action, resolved.value);
+    let out = '✅ ' + label.charAt(0).toUpperCase() + label.slice(1) + ': ' + changed + ' task(s) updated';
+    if (changed < tasks.length) out += ' (' + (tasks.length - changed) + ' already in that state)';
+    return { content: [{ type: 'text', text: out }] };
+  });
+}
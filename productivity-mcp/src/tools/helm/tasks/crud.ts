@@ -7,8 +7,27 @@ import {
   isVagueTask,
   inferFocusLevel,
   normalizeUser,
+  parseDateInput,
+  formatResolvedDate,
+  DATE_INPUT_HINT,
 } from '../../../helpers/utils';
 import { logEvent, updateDailyLog, autoCheckpoint } from '../../../helpers/intelligence';
+import { getOpenBlockers } from '../../../helpers/dependencies';
+import { parseRecurrence, RECURRENCE_HINT } from '../../../helpers/recurrence';
+import { getUserClock } from '../../../helpers/datetime';
+import { getTaskTagMap, tagFilterClause, tagTask, setTaskTags } from '../../../helpers/tags';
+import { trashTask, getTrashRetentionDays } from '../../../helpers/trash';
+import { getActualMinutesByTask, formatMinutes } from '../../../helpers/planning';
+import { findSimilarTasks, formatSimilarTasks } from '../../../helpers/duplicates';
+import {
+  getSubtaskProgress,
+  formatSubtaskProgress,
+  nestTasks,
+  flattenTaskTree,
+  countSubtasks,
+  trashSubtasks,
+  reparentSubtasks,
+} from '../../../helpers/subtasks';
 
 export function registerTaskCrudTools(ctx: ToolContext) {
   const { server, env, getCurrentUser } = ctx;
@@ -17,8 +36,11 @@ export function registerTaskCrudTools(ctx: ToolContext) {
     status: z.enum(['open', 'done', 'all']).optional().default('open'),
     category: z.string().optional(),
     project: z.string().optional(),
+    tags: z.array(z.string()).optional().describe('Only tasks with any of these tags'),
+    match_all_tags: z.boolean().optional().default(false).describe('Require every tag in `tags` instead of any'),
     include_teammate: z.boolean().optional().default(false),
-  }, async ({ status, category, project, include_teammate }) => {
+    hide_blocked: z.boolean().optional().default(false).describe('Hide tasks still waiting on an open blocker'),
+  }, async ({ status, category, project, tags, match_all_tags, include_teammate, hide_blocked }) => {
     let query = 'SELECT t.*, o.statement as objective_statement FROM tasks t LEFT JOIN objectives o ON t.objective_id = o.id WHERE 1=1';
     const bindings: any[] = [];
 
@@ -29,6 +51,8 @@ export function registerTaskCrudTools(ctx: ToolContext) {
     if (status !== 'all') {
       query += ' AND t.status = ?';
       bindings.push(status);
+    } else {
+      query += " AND t.status != 'deleted'";
     }
     if (category) {
       query += ' AND t.category = ?';
@@ -38,30 +62,53 @@ export function registerTaskCrudTools(ctx: ToolContext) {
       query += ' AND t.project = ?';
       bindings.push(project);
     }
+    if (tags && tags.length > 0) {
+      const tagFilter = tagFilterClause(getCurrentUser(), tags, match_all_tags);
+      query += tagFilter.sql;
+      bindings.push(...tagFilter.bindings);
+    }
     query += ' ORDER BY t.priority DESC, t.created_at ASC';
 
     const result = await env.DB.prepare(query).bind(...bindings).all();
+    const blockers = await getOpenBlockers(env, include_teammate ? null : getCurrentUser());
+    const tagMap = await getTaskTagMap(env, include_teammate ? null : getCurrentUser());
+    const actuals = await getActualMinutesByTask(env, include_teammate ? null : getCurrentUser());
+    const progress = await getSubtaskProgress(env, include_teammate ? null : getCurrentUser());
     const tasks = result.results.map((t: any) => ({
       ...t,
       days_old: Math.floor((Date.now() - new Date(t.created_at).getTime()) / 86400000),
-    }));
+      blocked_by: t.status === 'open' ? blockers.get(t.id) || [] : [],
+      tags: tagMap.get(t.id) || [],
+      actual_minutes: actuals.get(t.id) || 0,
+      subtasks: progress.get(t.id),
+    })).filter((t: any) => !hide_blocked || t.blocked_by.length === 0);
 
     if (tasks.length === 0) {
       return { content: [{ type: 'text', text: 'No tasks found.\n\n💬 What have you been working on?' }] };
     }
 
+    // Subtasks are shown under their parent but keep their number in the flat
+    // priority order, so complete_task's position still matches
+    const positions = new Map(tasks.map((t: any, index: number) => [t.id, index + 1]));
     let output = 'Found ' + tasks.length + ' tasks:\n\n';
-    tasks.forEach((t: any, index: number) => {
+    for (const { task: t, depth } of flattenTaskTree(nestTasks(tasks))) {
       const p = t.priority >= 4 ? '🔴' : t.priority === 3 ? '🟡' : '⚪';
-      let line = (index + 1) + '. ' + p + ' ' + t.text;
+      const indent = '   '.repeat(depth);
+      let line = indent + (depth > 0 ? '↳ ' : '') + positions.get(t.id) + '. ' + p + ' ' + t.text + formatSubtaskProgress(t.subtasks);
       if (t.category) line += ' [' + t.category + ']';
+      if (t.tags.length > 0) line += ' ' + t.tags.map((tag: string) => '#' + tag).join(' ');
       if (t.due_date) line += ' (due: ' + t.due_date + ')';
       if (t.recurrence) line += ' 🔄' + t.recurrence;
+      if (t.estimated_minutes || t.actual_minutes) {
+        line += ' ⏱️ ' + (t.actual_minutes ? formatMinutes(t.actual_minutes) : '0m');
+        if (t.estimated_minutes) line += '/' + formatMinutes(t.estimated_minutes);
+      }
       if (t.assigned_by) line += ' 📥 from ' + t.assigned_by;
       if (t.is_active) line += ' 🎯';
       if (t.objective_statement) line += ' → ' + t.objective_statement;
-      output += line + '\n   ID: ' + t.id + '\n';
-    });
+      if (t.blocked_by.length > 0) line += '\n' + indent + '   ⛔ blocked by: ' + t.blocked_by.map((b: any) => b.text).join(', ');
+      output += line + '\n' + indent + '   ID: ' + t.id + '\n';
+    }
 
     return { content: [{ type: 'text', text: output }] };
   });
@@ -69,35 +116,69 @@ export function registerTaskCrudTools(ctx: ToolContext) {
   server.tool('add_task', {
     text: z.string(),
     priority: z.number().min(1).max(5).optional().default(3),
-    due_date: z.string().optional(),
+    due_date: z.string().optional().describe('YYYY-MM-DD or natural language like "friday", "next tuesday", "in 3 days", "end of month"'),
     category: z.string().optional(),
     project: z.string().optional(),
+    tags: z.array(z.string()).optional().describe('Tags like ["Email", "Launch X"] - created if they don\'t exist. The category is added as a tag too.'),
     notes: z.string().optional(),
     for_user: z.string().optional().describe('Username to assign task to (e.g., "micaiah" or "irene"). Defaults to current user.'),
-    recurrence: z.string().optional().describe('daily, weekdays, weekly, biweekly, monthly, yearly, or specific days like "mon,thu" or "fri"'),
+    recurrence: z.string().optional().describe('daily, weekdays, weekly, biweekly, monthly, yearly, specific days like "mon,thu" or "fri", or an RRULE like "FREQ=MONTHLY;BYDAY=2TU" (2nd Tuesday), "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1" (last business day), "FREQ=WEEKLY;INTERVAL=3;BYDAY=FR;COUNT=6"'),
     is_active: z.boolean().optional().describe('Add directly to Active list'),
-  }, async ({ text, priority, due_date, category, project, notes, for_user, recurrence, is_active }) => {
+    estimated_minutes: z.number().int().min(1).max(2400).optional().describe('How long you expect it to take, in minutes - plan_week uses it to fill your days'),
+    force: z.boolean().optional().default(false).describe('Add it even if it looks like a duplicate of an open task'),
+  }, async ({ text, priority, due_date, category, project, tags, notes, for_user, recurrence, is_active, estimated_minutes, force }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const parsedDueDate = due_date ? parseDateInput(due_date, clock.timeZone) : null;
+    if (due_date && !parsedDueDate) {
+      return { content: [{ type: 'text', text: '❓ Couldn\'t understand due date "' + due_date + '". ' + DATE_INPUT_HINT }] };
+    }
+    if (recurrence && !parseRecurrence(recurrence)) {
+      return { content: [{ type: 'text', text: '❓ Couldn\'t understand recurrence "' + recurrence + '". ' + RECURRENCE_HINT }] };
+    }
+
     const targetUser = normalizeUser(for_user || getCurrentUser());
     const assignedBy = (for_user && normalizeUser(for_user) !== getCurrentUser()) ? getCurrentUser() : null;
+
+    if (!force) {
+      const similar = await findSimilarTasks(env, targetUser, text);
+      if (similar.length > 0) {
+        let resp = '♊ Looks like ' + (assignedBy ? targetUser + ' already has' : 'you already have') + ' this:\n' + formatSimilarTasks(similar);
+        resp += '\n\n💡 update_task the existing one, or add_task again with force: true to add it anyway';
+        return { content: [{ type: 'text', text: resp }] };
+      }
+    }
+
     const id = crypto.randomUUID();
     const ts = new Date().toISOString();
     const focusLevel = inferFocusLevel(text);
 
-    const effectiveDueDate = due_date || (recurrence ? new Date().toISOString().split('T')[0] : null);
+    const effectiveDueDate = parsedDueDate || (recurrence ? clock.today : null);
 
     await env.DB.prepare(
-      'INSERT INTO tasks (id, user_id, text, priority, due_date, category, project, status, created_at, last_touched, needs_breakdown, is_vague, focus_level, notes, recurrence, assigned_by, is_active) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-    ).bind(id, targetUser, text, priority, effectiveDueDate, category || null, project || null, 'open', ts, ts, needsBreakdown(text) ? 1 : 0, isVagueTask(text) ? 1 : 0, focusLevel, notes || null, recurrence || null, assignedBy, is_active ? 1 : 0).run();
+      'INSERT INTO tasks (id, user_id, text, priority, due_date, category, project, status, created_at, last_touched, needs_breakdown, is_vague, focus_level, notes, recurrence, assigned_by, is_active, estimated_minutes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(id, targetUser, text, priority, effectiveDueDate, category || null, project || null, 'open', ts, ts, needsBreakdown(text) ? 1 : 0, isVagueTask(text) ? 1 : 0, focusLevel, notes || null, recurrence || null, assignedBy, is_active ? 1 : 0, estimated_minutes || null).run();
 
-    await logEvent(env, targetUser, 'created', id, { text, priority, category, focusLevel, recurrence, assignedBy });
+    let addedTags: string[] = [];
+    const tagNames = [...(tags || []), ...(category ? [category] : [])];
+    if (tagNames.length > 0) {
+      try {
+        addedTags = await tagTask(env, targetUser, id, tagNames);
+      } catch {
+        // Tags table might not exist yet - the task itself is saved
+      }
+    }
+
+    await logEvent(env, targetUser, 'created', id, { text, priority, category, tags: addedTags, focusLevel, recurrence, assignedBy, estimatedMinutes: estimated_minutes });
     await updateDailyLog(env, targetUser, 'tasks_created');
     await autoCheckpoint(env, targetUser, 'task_added', `Added task: ${text}`, [category || project || 'general'], id);
 
     let resp = 'Added: "' + text + '"';
     if (for_user && normalizeUser(for_user) !== getCurrentUser()) resp += ' (assigned to ' + targetUser + ' — will appear in their Incoming)';
     if (priority >= 4) resp += ' 🔴';
-    if (effectiveDueDate) resp += ' - due ' + effectiveDueDate;
+    if (effectiveDueDate) resp += ' - due ' + (due_date ? formatResolvedDate(due_date, effectiveDueDate) : effectiveDueDate);
     if (recurrence) resp += ' 🔄 ' + recurrence;
+    if (estimated_minutes) resp += ' ⏱️ ' + formatMinutes(estimated_minutes);
+    if (addedTags.length > 0) resp += ' ' + addedTags.map(n => '#' + n).join(' ');
     if (is_active) resp += ' 🎯 (active)';
 
     if (needsBreakdown(text)) resp += '\n\n💡 This looks like a big task. Want to break it down?';
@@ -109,22 +190,41 @@ export function registerTaskCrudTools(ctx: ToolContext) {
   server.tool('update_task', {
     task_id: z.string(),
     priority: z.number().min(1).max(5).optional(),
-    due_date: z.string().optional(),
+    due_date: z.string().optional().describe('YYYY-MM-DD or natural language like "friday", "in 2 weeks". Set to empty string to clear the due date.'),
     category: z.string().optional(),
+    tags: z.array(z.string()).optional().describe('Replace the task\'s tags with exactly these (empty array clears them). Use tag_task/untag_task to add or remove one.'),
     notes: z.string().optional(),
-    recurrence: z.string().optional().describe('daily, weekdays, weekly, biweekly, monthly, yearly, or specific days like "mon,thu". Set to empty string to remove recurrence.'),
-  }, async ({ task_id, priority, due_date, category, notes, recurrence }) => {
+    recurrence: z.string().optional().describe('daily, weekdays, weekly, biweekly, monthly, yearly, specific days like "mon,thu", or an RRULE like "FREQ=MONTHLY;BYDAY=2TU". Set to empty string to remove recurrence.'),
+    estimated_minutes: z.number().int().min(0).max(2400).optional().describe('Expected minutes of work. Set to 0 to clear the estimate.'),
+  }, async ({ task_id, priority, due_date, category, tags, notes, recurrence, estimated_minutes }) => {
     const updates: string[] = [];
     const bindings: any[] = [];
     const changes: any = {};
 
+    const { timeZone } = await getUserClock(env, getCurrentUser());
+    const parsedDueDate = due_date ? parseDateInput(due_date, timeZone) : null;
+    if (due_date && !parsedDueDate) {
+      return { content: [{ type: 'text', text: '❓ Couldn\'t understand due date "' + due_date + '". ' + DATE_INPUT_HINT }] };
+    }
+    if (recurrence && !parseRecurrence(recurrence)) {
+      return { content: [{ type: 'text', text: '❓ Couldn\'t understand recurrence "' + recurrence + '". ' + RECURRENCE_HINT }] };
+    }
+
     if (priority !== undefined) { updates.push('priority = ?'); bindings.push(priority); changes.priority = priority; }
-    if (due_date !== undefined) { updates.push('due_date = ?'); bindings.push(due_date); changes.due_date = due_date; }
+    if (due_date !== undefined) { updates.push('due_date = ?'); bindings.push(parsedDueDate); changes.due_date = parsedDueDate; }
     if (category !== undefined) { updates.push('category = ?'); bindings.push(category); changes.category = category; }
     if (notes !== undefined) { updates.push('notes = ?'); bindings.push(notes); changes.notes = notes; }
     if (recurrence !== undefined) { updates.push('recurrence = ?'); bindings.push(recurrence === '' ? null : recurrence); changes.recurrence = recurrence; }
+    if (estimated_minutes !== undefined) { updates.push('estimated_minutes = ?'); bindings.push(estimated_minutes || null); changes.estimated_minutes = estimated_minutes || null; }
+
+    if (tags !== undefined) {
+      const task = await env.DB.prepare('SELECT user_id FROM tasks WHERE id = ?').bind(task_id).first();
+      if (!task) return { content: [{ type: 'text', text: 'Task not found' }] };
+      await setTaskTags(env, task.user_id, task_id, tags);
+      changes.tags = tags;
+    }
 
-    if (updates.length === 0) return { content: [{ type: 'text', text: 'No updates' }] };
+    if (updates.length === 0 && tags === undefined) return { content: [{ type: 'text', text: 'No updates' }] };
 
     updates.push('last_touched = ?');
     bindings.push(new Date().toISOString());
@@ -134,18 +234,46 @@ export function registerTaskCrudTools(ctx: ToolContext) {
     await logEvent(env, getCurrentUser(), 'updated', task_id, changes);
 
     let resp = '✏️ Updated';
+    if (due_date !== undefined) resp += parsedDueDate ? ' - due ' + formatResolvedDate(due_date, parsedDueDate) : ' (due date cleared)';
     if (recurrence !== undefined) resp += recurrence ? ' (now recurring: ' + recurrence + ')' : ' (recurrence removed)';
+    if (estimated_minutes !== undefined) resp += estimated_minutes ? ' ⏱️ ' + formatMinutes(estimated_minutes) : ' (estimate cleared)';
+    if (tags !== undefined) resp += tags.length > 0 ? ' 🏷️ ' + tags.map(n => '#' + n).join(' ') : ' (tags cleared)';
 
     return { content: [{ type: 'text', text: resp }] };
   });
 
-  server.tool('delete_task', { task_id: z.string() }, async ({ task_id }) => {
-    const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(task_id).first();
+  server.tool('delete_task', {
+    task_id: z.string(),
+    subtasks: z.enum(['cascade', 'reparent']).optional().describe('For tasks with subtasks: cascade trashes them too, reparent moves them up a level'),
+  }, async ({ task_id, subtasks }) => {
+    const task = await env.DB.prepare("SELECT * FROM tasks WHERE id = ? AND status != 'deleted'").bind(task_id).first();
     if (!task) return { content: [{ type: 'text', text: 'Not found' }] };
 
-    await logEvent(env, getCurrentUser(), 'deleted', task_id, { text: task.text });
-    await env.DB.prepare('DELETE FROM tasks WHERE id = ?').bind(task_id).run();
+    const children = await countSubtasks(env, task.id);
+    let parent: any = null;
+    if (task.parent_task_id) parent = await env.DB.prepare('SELECT text FROM tasks WHERE id = ?').bind(task.parent_task_id).first();
+    const moveTo = parent ? 'under "' + parent.text + '"' : 'to the top level';
+
+    if (children.total > 0 && !subtasks) {
+      let out = '❓ "' + task.text + '" has ' + children.total + ' subtask' + (children.total === 1 ? '' : 's') + ' (' + children.open + ' open). What should happen to them?\n';
+      out += '• subtasks: "cascade" - move them to the trash too\n';
+      out += '• subtasks: "reparent" - keep them, moved ' + moveTo;
+      return { content: [{ type: 'text', text: out }] };
+    }
+
+    let resp = '';
+    if (children.total > 0 && subtasks === 'reparent') {
+      const moved = await reparentSubtasks(env, task);
+      resp = '\n↰ ' + moved + ' subtask' + (moved === 1 ? '' : 's') + ' moved ' + moveTo;
+    }
+
+    await trashTask(env, getCurrentUser(), task, subtasks ? { subtasks } : {});
+    if (children.total > 0 && subtasks === 'cascade') {
+      const trashed = await trashSubtasks(env, getCurrentUser(), task.id);
+      resp = '\n🗑️ ' + trashed + ' subtask' + (trashed === 1 ? '' : 's') + ' trashed with it';
+    }
+    const retention = await getTrashRetentionDays(env, task.user_id);
 
-    return { content: [{ type: 'text', text: '🗑️ Deleted: "' + task.text + '"' }] };
+    return { content: [{ type: 'text', text: '🗑️ Moved to trash: "' + task.text + '"' + resp + '\n♻️ restore_task can bring it back for ' + retention + ' days' }] };
   });
 }
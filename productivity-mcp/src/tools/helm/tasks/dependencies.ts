@@ -0,0 +1,84 @@
+// Task dependencies: "blocked by" links between tasks
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { logEvent } from '../../../helpers/intelligence';
+import { getDependencyEdges, wouldCreateCycle } from '../../../helpers/dependencies';
+
+export function registerTaskDependencyTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('add_dependency', {
+    task_id: z.string().describe('The task that has to wait'),
+    blocked_by_task_id: z.string().describe('The task that must be finished first'),
+  }, async ({ task_id, blocked_by_task_id }) => {
+    const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ? AND user_id = ?').bind(task_id, getCurrentUser()).first();
+    if (!task) return { content: [{ type: 'text', text: 'Task not found' }] };
+    const blocker = await env.DB.prepare('SELECT * FROM tasks WHERE id = ? AND user_id = ?').bind(blocked_by_task_id, getCurrentUser()).first();
+    if (!blocker) return { content: [{ type: 'text', text: 'Blocking task not found' }] };
+
+    if (await wouldCreateCycle(env, task_id, blocked_by_task_id)) {
+      return { content: [{ type: 'text', text: '🔁 Can\'t link: "' + blocker.text + '" already waits on "' + task.text + '" (that would be a cycle)' }] };
+    }
+
+    const existing = await env.DB.prepare(
+      'SELECT id FROM task_dependencies WHERE task_id = ? AND blocked_by_task_id = ?'
+    ).bind(task_id, blocked_by_task_id).first();
+    if (existing) return { content: [{ type: 'text', text: 'Already linked' }] };
+
+    await env.DB.prepare(
+      'INSERT INTO task_dependencies (id, user_id, task_id, blocked_by_task_id, created_at) VALUES (?, ?, ?, ?, ?)'
+    ).bind(crypto.randomUUID(), task.user_id, task_id, blocked_by_task_id, new Date().toISOString()).run();
+    await logEvent(env, getCurrentUser(), 'dependency_added', task_id, { blockedBy: blocked_by_task_id });
+
+    let resp = '⛓️ "' + task.text + '" is now blocked by "' + blocker.text + '"';
+    if (blocker.status === 'done') resp += '\n✅ (blocker is already done, so it won\'t hold anything up)';
+    return { content: [{ type: 'text', text: resp }] };
+  });
+
+  server.tool('remove_dependency', {
+    task_id: z.string(),
+    blocked_by_task_id: z.string().optional().describe('Omit to remove every blocker from the task'),
+  }, async ({ task_id, blocked_by_task_id }) => {
+    const task = await env.DB.prepare('SELECT id FROM tasks WHERE id = ? AND user_id = ?').bind(task_id, getCurrentUser()).first();
+    if (!task) return { content: [{ type: 'text', text: 'Task not found' }] };
+
+    const result = blocked_by_task_id
+      ? await env.DB.prepare(
+        'DELETE FROM task_dependencies WHERE task_id = ? AND blocked_by_task_id = ?'
+      ).bind(task_id, blocked_by_task_id).run()
+      : await env.DB.prepare('DELETE FROM task_dependencies WHERE task_id = ?').bind(task_id).run();
+
+    if (!result.meta.changes) return { content: [{ type: 'text', text: 'No matching dependency' }] };
+    await logEvent(env, getCurrentUser(), 'dependency_removed', task_id, { blockedBy: blocked_by_task_id || 'all' });
+
+    return { content: [{ type: 'text', text: '🔓 Removed ' + result.meta.changes + ' dependenc' + (result.meta.changes === 1 ? 'y' : 'ies') }] };
+  });
+
+  server.tool('list_dependencies', {
+    include_done: z.boolean().optional().default(false).describe('Include links where both tasks are finished'),
+  }, async ({ include_done }) => {
+    // Links into the trash are never shown; finished-on-both-sides links only on request
+    const edges = (await getDependencyEdges(env, getCurrentUser()))
+      .filter((e: any) => e.task_status !== 'deleted' && e.blocked_by_status !== 'deleted')
+      .filter((e: any) => include_done || e.task_status !== 'done' || e.blocked_by_status !== 'done');
+
+    if (edges.length === 0) return { content: [{ type: 'text', text: 'No task dependencies.' }] };
+
+    const byTask = new Map<string, any[]>();
+    for (const e of edges) {
+      if (!byTask.has(e.task_id)) byTask.set(e.task_id, []);
+      byTask.get(e.task_id)!.push(e);
+    }
+
+    let out = '⛓️ **Task Dependencies**\n\n';
+    for (const links of byTask.values()) {
+      const waiting = links.some((l: any) => l.blocked_by_status === 'open');
+      out += (links[0].task_status === 'done' ? '✅' : waiting ? '⛔' : '🟢') + ' ' + links[0].task_text + '\n';
+      for (const l of links) {
+        out += '   ' + (l.blocked_by_status === 'done' ? '✓' : '○') + ' waits on: ' + l.blocked_by_text + ' (ID: ' + l.blocked_by_task_id + ')\n';
+      }
+    }
+    return { content: [{ type: 'text', text: out }] };
+  });
+}
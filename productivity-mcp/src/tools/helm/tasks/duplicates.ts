@@ -0,0 +1,46 @@
+// Duplicate tasks: find near-identical open tasks and fold them together
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { DUPLICATE_THRESHOLD, findDuplicateGroups, mergeTasks } from '../../../helpers/duplicates';
+
+export function registerTaskDuplicateTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('find_duplicate_tasks', {
+    category: z.string().optional(),
+    threshold: z.number().min(0.5).max(1).optional().default(DUPLICATE_THRESHOLD).describe('How alike the text must be, 0.5 (loose) to 1 (same words). Default 0.75'),
+    limit: z.number().int().min(1).max(50).optional().default(10).describe('Most groups to show'),
+  }, async ({ category, threshold, limit }) => {
+    const groups = await findDuplicateGroups(env, getCurrentUser(), { threshold, category });
+    if (groups.length === 0) return { content: [{ type: 'text', text: '✨ No duplicate tasks found' + (category ? ' in ' + category : '') + '.' }] };
+
+    const extra = groups.reduce((n, g) => n + g.duplicates.length, 0);
+    let out = '♊ **' + groups.length + ' group' + (groups.length === 1 ? '' : 's') + ' of likely duplicates** (' + extra + ' task' + (extra === 1 ? '' : 's') + ' could be merged away)\n\n';
+
+    groups.slice(0, limit).forEach((group, i) => {
+      out += (i + 1) + '. Keep: "' + group.keep.text + '"' + (group.keep.due_date ? ' (due: ' + group.keep.due_date + ')' : '') + ' · ID: ' + group.keep.id + '\n';
+      for (const d of group.duplicates) {
+        out += '   ≈ "' + d.task.text + '" ' + Math.round(d.score * 100) + '%' + (d.task.due_date ? ' (due: ' + d.task.due_date + ')' : '') + ' · ID: ' + d.task.id + '\n';
+      }
+      out += '   → merge_tasks keep_id: "' + group.keep.id + '", merge_ids: [' + group.duplicates.map(d => '"' + d.task.id + '"').join(', ') + ']\n\n';
+    });
+    if (groups.length > limit) out += '…and ' + (groups.length - limit) + ' more group' + (groups.length - limit === 1 ? '' : 's') + '\n';
+    out += '💡 Merging combines notes, history, progress, tags and subtasks; the duplicates go to the trash';
+    return { content: [{ type: 'text', text: out.trimEnd() }] };
+  });
+
+  server.tool('merge_tasks', {
+    keep_id: z.string().describe('Task that survives the merge'),
+    merge_ids: z.array(z.string()).min(1).describe('Duplicates to fold into it'),
+  }, async ({ keep_id, merge_ids }) => {
+    const result = await mergeTasks(env, getCurrentUser(), keep_id, merge_ids);
+    if ('error' in result) return { content: [{ type: 'text', text: '❓ ' + result.error }] };
+
+    const { keep, merged } = result;
+    let out = '🔀 Merged ' + merged.length + ' task' + (merged.length === 1 ? '' : 's') + ' into "' + keep.text + '"\n';
+    for (const t of merged) out += '• "' + t.text + '" → 🗑️ trash (ID: ' + t.id + ')\n';
+    out += '\n💡 restore_task brings a merged task back if this was a mistake';
+    return { content: [{ type: 'text', text: out }] };
+  });
+}
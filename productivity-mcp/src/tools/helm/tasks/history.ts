@@ -0,0 +1,40 @@
+// Task history: a task's timeline rebuilt from task_events
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { getTaskTimeline } from '../../../helpers/history';
+import { getUserClock } from '../../../helpers/datetime';
+
+export function registerTaskHistoryTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('task_history', {
+    task_id: z.string(),
+  }, async ({ task_id }) => {
+    const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(task_id).first();
+    const timeline = await getTaskTimeline(env, task_id);
+    if (!task && timeline.length === 0) return { content: [{ type: 'text', text: 'Task not found' }] };
+
+    const { timeZone } = await getUserClock(env, getCurrentUser());
+    const when = (iso: string) => new Date(iso).toLocaleString('en-US', { timeZone, month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+    let out = '📜 **History: ' + (task ? task.text : 'task ' + task_id) + '**\n';
+    if (task) {
+      out += 'Status: ' + task.status + (task.due_date ? ' · due ' + task.due_date : '') + (task.recurrence ? ' · 🔄' + task.recurrence : '') + '\n';
+    } else {
+      out += 'Status: purged from the trash\n';
+    }
+    out += '\n';
+
+    if (timeline.length === 0) {
+      out += 'No events recorded' + (task ? ' (created ' + when(task.created_at) + ')' : '') + '\n';
+    }
+    for (const entry of timeline) {
+      out += when(entry.at) + ' — ' + entry.summary;
+      if (task && entry.actor !== task.user_id) out += ' (' + entry.actor + ')';
+      out += '\n';
+    }
+
+    return { content: [{ type: 'text', text: out }] };
+  });
+}
@@ -0,0 +1,82 @@
+// Task import/export: move tasks in and out as CSV, JSON, Markdown checklists or Todoist CSV
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { getUserClock } from '../../../helpers/datetime';
+import { TASK_FILE_FORMATS, planImport, importTasks, getExportTasks, formatTaskExport, normalizeTaskText } from '../../../helpers/import-export';
+
+const PREVIEW_LIMIT = 25;
+
+export function registerTaskImportExportTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('export_tasks', {
+    format: z.enum(TASK_FILE_FORMATS).describe('csv, json, markdown (- [ ] checklist) or todoist (CSV Todoist can import)'),
+    status: z.enum(['open', 'done', 'all']).optional().default('open'),
+    category: z.string().optional(),
+    project: z.string().optional(),
+  }, async ({ format, status, category, project }) => {
+    const { timeZone } = await getUserClock(env, getCurrentUser());
+    const tasks = await getExportTasks(env, getCurrentUser(), { status, category, project });
+    if (tasks.length === 0) return { content: [{ type: 'text', text: 'No tasks match that filter.' }] };
+
+    const file = formatTaskExport(tasks, format, timeZone);
+    const fence = format === 'markdown' ? 'markdown' : format === 'json' ? 'json' : 'csv';
+    let out = '📤 Exported ' + tasks.length + ' task' + (tasks.length === 1 ? '' : 's') + ' as ' + format;
+    if (format === 'todoist' && status !== 'open') out += ' (Todoist only takes open tasks - done ones were left out)';
+    out += '\n\n```' + fence + '\n' + file.trimEnd() + '\n```';
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('import_tasks', {
+    content: z.string().describe('The file contents'),
+    format: z.enum(TASK_FILE_FORMATS).optional().describe('Detected from the content when left out'),
+    category: z.string().optional().describe('Category for imported tasks that don\'t have one'),
+    skip_duplicates: z.boolean().optional().default(true).describe('Skip tasks that match or look like an existing task or an earlier row'),
+    dry_run: z.boolean().optional().default(true).describe('Report what would be imported without creating anything (default true)'),
+  }, async ({ content, format, category, skip_duplicates, dry_run }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const plan = await planImport(env, getCurrentUser(), content, { format, timeZone: clock.timeZone, today: clock.today, category, skipDuplicates: skip_duplicates });
+    if ('error' in plan) return { content: [{ type: 'text', text: '❓ ' + plan.error }] };
+
+    let out = '';
+    if (dry_run) {
+      out += '🔍 **Import preview** (' + plan.format + ')\n';
+      out += '➕ ' + plan.create.length + ' to create';
+      if (plan.duplicates.length > 0) out += ' · ♊ ' + plan.duplicates.length + ' duplicate' + (plan.duplicates.length === 1 ? '' : 's') + ' skipped';
+      if (plan.problems.length > 0) out += ' · ⚠️ ' + plan.problems.length + ' with problems';
+      out += '\n\n';
+
+      for (const t of plan.create.slice(0, PREVIEW_LIMIT)) {
+        out += '• ' + (t.status === 'done' ? '✅ ' : '') + t.text + ' P' + t.priority;
+        if (t.category) out += ' [' + t.category + ']';
+        if (t.due_date) out += ' (due: ' + t.due_date + ')';
+        if (t.recurrence) out += ' 🔄' + t.recurrence;
+        if (t.tags.length > 0) out += ' ' + t.tags.map(tag => '#' + tag).join(' ');
+        out += '\n';
+      }
+      if (plan.create.length > PREVIEW_LIMIT) out += '…and ' + (plan.create.length - PREVIEW_LIMIT) + ' more\n';
+    } else {
+      const created = await importTasks(env, getCurrentUser(), plan);
+      out += '📥 Imported ' + created + ' task' + (created === 1 ? '' : 's') + ' from ' + plan.format;
+      if (plan.duplicates.length > 0) out += '\n♊ ' + plan.duplicates.length + ' duplicate' + (plan.duplicates.length === 1 ? '' : 's') + ' skipped';
+      out += '\n';
+    }
+
+    if (plan.duplicates.length > 0 && dry_run) {
+      out += '\n**Duplicates:**\n';
+      for (const d of plan.duplicates.slice(0, PREVIEW_LIMIT)) {
+        out += '• line ' + d.line + ': ' + d.text;
+        if (normalizeTaskText(d.match) !== normalizeTaskText(d.text)) out += ' (looks like "' + d.match + '"' + (d.existing ? ')' : ' earlier in the file)');
+        else out += d.existing ? ' (already a task)' : ' (repeated in the file)';
+        out += '\n';
+      }
+    }
+    if (plan.problems.length > 0) {
+      out += '\n**' + (dry_run ? 'Will be skipped' : 'Skipped') + ':**\n';
+      for (const p of plan.problems.slice(0, PREVIEW_LIMIT)) out += '• line ' + p.line + (p.text ? ' "' + p.text + '"' : '') + ': ' + p.error + '\n';
+    }
+    if (dry_run && plan.create.length > 0) out += '\n💡 Run again with dry_run: false to import';
+    return { content: [{ type: 'text', text: out.trimEnd() }] };
+  });
+}
@@ -6,12 +6,30 @@ import { registerTaskCrudTools } from './crud';
 import { registerTaskWorkflowTools } from './workflow';
 import { registerTaskRecurringTools } from './recurring';
 import { registerTaskReportingTools } from './reporting';
+import { registerTaskDependencyTools } from './dependencies';
+import { registerTaskTagTools } from './tags';
+import { registerTaskBulkTools } from './bulk';
+import { registerTaskTrashTools } from './trash';
+import { registerTaskHistoryTools } from './history';
+import { registerTaskTemplateTools } from './templates';
+import { registerTaskTimerTools } from './timers';
+import { registerTaskImportExportTools } from './import-export';
+import { registerTaskDuplicateTools } from './duplicates';
 
 export function registerHelmTaskTools(ctx: ToolContext) {
   registerTaskCrudTools(ctx);
   registerTaskWorkflowTools(ctx);
   registerTaskRecurringTools(ctx);
   registerTaskReportingTools(ctx);
+  registerTaskDependencyTools(ctx);
+  registerTaskTagTools(ctx);
+  registerTaskBulkTools(ctx);
+  registerTaskTrashTools(ctx);
+  registerTaskHistoryTools(ctx);
+  registerTaskTemplateTools(ctx);
+  registerTaskTimerTools(ctx);
+  registerTaskImportExportTools(ctx);
+  registerTaskDuplicateTools(ctx);
 }
 
 export {
@@ -19,4 +37,13 @@ export {
   registerTaskWorkflowTools,
   registerTaskRecurringTools,
   registerTaskReportingTools,
+  registerTaskDependencyTools,
+  registerTaskTagTools,
+  registerTaskBulkTools,
+  registerTaskTrashTools,
+  registerTaskHistoryTools,
+  registerTaskTemplateTools,
+  registerTaskTimerTools,
+  registerTaskImportExportTools,
+  registerTaskDuplicateTools,
 };
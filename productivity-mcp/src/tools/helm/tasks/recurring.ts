@@ -4,6 +4,7 @@ import { z } from 'zod';
 import type { ToolContext } from '../../../types';
 import { normalizeUser, getCaughtUpDueDate } from '../../../helpers/utils';
 import { logEvent } from '../../../helpers/intelligence';
+import { getUserClock } from '../../../helpers/datetime';
 
 export function registerTaskRecurringTools(ctx: ToolContext) {
   const { server, env, getCurrentUser } = ctx;
@@ -13,7 +14,7 @@ export function registerTaskRecurringTools(ctx: ToolContext) {
     user: z.string().optional().describe('Catch up tasks for a specific user (admin only)'),
   }, async ({ dry_run, user }) => {
     const targetUser = user ? normalizeUser(user) : getCurrentUser();
-    const today = new Date().toISOString().split('T')[0];
+    const { today } = await getUserClock(env, targetUser);
 
     const overdueTasks = await env.DB.prepare(
       "SELECT * FROM tasks WHERE user_id = ? AND status = 'open' AND recurrence IS NOT NULL AND due_date < ?"
@@ -27,9 +28,11 @@ export function registerTaskRecurringTools(ctx: ToolContext) {
     out += `Found ${overdueTasks.results.length} overdue recurring task(s) for ${targetUser}:\n\n`;
 
     const updates: Array<{ task: any; newDate: string }> = [];
+    const ended: any[] = [];
 
     for (const task of overdueTasks.results as any[]) {
-      const newDate = getCaughtUpDueDate(task.recurrence);
+      const newDate = getCaughtUpDueDate(task.recurrence, task.due_date, today);
+      if (!newDate) { ended.push(task); continue; }
       updates.push({ task, newDate });
 
       out += `• **${task.text}**\n`;
@@ -37,6 +40,12 @@ export function registerTaskRecurringTools(ctx: ToolContext) {
       out += `  Pattern: 🔄${task.recurrence}\n\n`;
     }
 
+    if (ended.length > 0) {
+      out += `🏁 **Series ended or rule not understood** (left as-is, complete or fix the recurrence):\n`;
+      for (const task of ended) out += `• ${task.text} (🔄${task.recurrence})\n`;
+      out += '\n';
+    }
+
     if (!dry_run) {
       const ts = new Date().toISOString();
       for (const { task, newDate } of updates) {
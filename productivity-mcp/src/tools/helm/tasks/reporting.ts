@@ -1,27 +1,32 @@
-// Task reporting tools: summaries, stats, patterns, insights
+// Task reporting tools: summaries, stats, patterns, insights, forecasts, wellbeing
 
 import { z } from 'zod';
 import type { ToolContext } from '../../../types';
-import { getDayOfWeek } from '../../../helpers/utils';
-import { getPatterns, generateNudges, analyzeAndStorePatterns } from '../../../helpers/intelligence';
+import { getPatterns, generateNudges, scoreTasks, explainScore, DEFAULT_WELLBEING_WEEKS, getWellbeing, formatWellbeingReport } from '../../../helpers/intelligence';
+import { PATTERN_SOURCES, analyzePatterns, getPatternReport, getPatternSettings, describePatternSettings } from '../../../helpers/patterns';
+import { getUserClock, getWeekStart, daysBetween, formatHour, toLocalDate } from '../../../helpers/datetime';
+import { buildWeekPlan, getEstimateAccuracy, formatMinutes } from '../../../helpers/planning';
+import { type ForecastFilter, DEFAULT_FORECAST_HISTORY_DAYS, forecastCompletion, formatForecast } from '../../../helpers/forecast';
+import { parseDateInput, DATE_INPUT_HINT } from '../../../helpers/utils';
+import { getSessionBreaks, computeSessionTime } from '../../../helpers/work-sessions';
 
 export function registerTaskReportingTools(ctx: ToolContext) {
   const { server, env, getCurrentUser } = ctx;
 
   server.tool('get_daily_summary', {}, async () => {
-    const today = new Date().toISOString().split('T')[0];
+    const clock = await getUserClock(env, getCurrentUser());
+    const dayStart = clock.startOf(clock.today);
+    const dayEnd = clock.startOf(clock.daysFromNow(1));
 
     const open = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'open'").bind(getCurrentUser()).all();
-    const done = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'done' AND DATE(completed_at) = ?").bind(getCurrentUser(), today).first();
-    const progress = await env.DB.prepare("SELECT COUNT(*) as c FROM progress_logs WHERE user_id = ? AND DATE(logged_at) = ?").bind(getCurrentUser(), today).first();
+    const done = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ? AND completed_at < ?").bind(getCurrentUser(), dayStart, dayEnd).first();
+    const progress = await env.DB.prepare("SELECT COUNT(*) as c FROM progress_logs WHERE user_id = ? AND logged_at >= ? AND logged_at < ?").bind(getCurrentUser(), dayStart, dayEnd).first();
 
     const patterns = await getPatterns(env, getCurrentUser());
-    const nudges = generateNudges(patterns, open.results);
+    const nudges = generateNudges(patterns, open.results, clock);
 
-    const upcoming = open.results.filter((t: any) => t.due_date).sort((a: any, b: any) => new Date(a.due_date).getTime() - new Date(b.due_date).getTime());
-    const highPriority = open.results.filter((t: any) => t.priority >= 4);
-    const activeTasks = open.results.filter((t: any) => t.is_active || t.objective_id);
-    const suggestedTask = activeTasks[0] || upcoming[0] || highPriority[0] || open.results[0];
+    const [suggested] = await scoreTasks(env, getCurrentUser(), { clock });
+    const suggestedTask = suggested?.task;
 
     const activeSprint = await env.DB.prepare("SELECT * FROM sprints WHERE user_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1").bind(getCurrentUser()).first();
     const activeLaunch = await env.DB.prepare("SELECT * FROM launch_projects WHERE user_id = ? AND status != 'complete' ORDER BY updated_at DESC LIMIT 1").bind(getCurrentUser()).first();
@@ -30,7 +35,7 @@ export function registerTaskReportingTools(ctx: ToolContext) {
     const incomingCount = open.results.filter((t: any) => t.assigned_by).length;
     const activeCount = open.results.filter((t: any) => t.is_active || t.objective_id).length;
 
-    let output = '📋 **Daily Summary - ' + getDayOfWeek().charAt(0).toUpperCase() + getDayOfWeek().slice(1) + '**\n\n';
+    let output = '📋 **Daily Summary - ' + clock.dayName.charAt(0).toUpperCase() + clock.dayName.slice(1) + '**\n\n';
     output += '✅ Completed today: ' + (done?.c || 0) + '\n';
     output += '📝 Progress logged: ' + (progress?.c || 0) + ' entries\n';
     output += '📬 Open tasks: ' + open.results.length;
@@ -40,12 +45,12 @@ export function registerTaskReportingTools(ctx: ToolContext) {
     output += '\n';
 
     if (activeSprint) {
-      const daysRemaining = Math.ceil((new Date(activeSprint.end_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+      const daysRemaining = daysBetween(clock.today, activeSprint.end_date);
       output += '\n📋 **Active Sprint:** ' + activeSprint.name + ' (' + daysRemaining + ' days remaining)\n';
     }
 
     if (activeLaunch) {
-      const daysToLaunch = activeLaunch.target_launch_date ? Math.ceil((new Date(activeLaunch.target_launch_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24)) : null;
+      const daysToLaunch = activeLaunch.target_launch_date ? daysBetween(clock.today, activeLaunch.target_launch_date) : null;
       output += '\n🚀 **Active Launch:** ' + activeLaunch.title;
       if (daysToLaunch !== null) output += ' (' + daysToLaunch + ' days)';
       output += '\n   Phase: ' + activeLaunch.current_phase;
@@ -61,20 +66,46 @@ export function registerTaskReportingTools(ctx: ToolContext) {
       if (suggestedTask.due_date) output += ' (due ' + suggestedTask.due_date + ')';
       if (suggestedTask.recurrence) output += ' 🔄';
       if (suggestedTask.is_active || suggestedTask.objective_id) output += ' 🎯';
+      output += '\n   Why: ' + explainScore(suggested) + '\n💡 what_next shows the full ranking';
     }
 
     return { content: [{ type: 'text', text: output }] };
   });
 
+  server.tool('what_next', {
+    limit: z.number().int().min(1).max(20).optional().default(5),
+    category: z.string().optional(),
+    include_blocked: z.boolean().optional().default(false).describe('Also list blocked tasks (they always rank last)'),
+  }, async ({ limit, category, include_blocked }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    let ranked = await scoreTasks(env, getCurrentUser(), { clock });
+    if (category) ranked = ranked.filter(r => (r.task.category || '').toLowerCase() === category.toLowerCase());
+    const blockedCount = ranked.filter(r => r.blocked).length;
+    if (!include_blocked) ranked = ranked.filter(r => !r.blocked);
+
+    if (ranked.length === 0) {
+      return { content: [{ type: 'text', text: blockedCount > 0 ? '⛔ Everything open is blocked (' + blockedCount + ' tasks). Try list_dependencies.' : 'Nothing open' + (category ? ' in [' + category + ']' : '') + ' - enjoy it! 🎉' }] };
+    }
+
+    let output = '🧭 **What next** — ' + clock.dayName + ' ' + clock.timeOfDay + '\n\n';
+    ranked.slice(0, limit).forEach((r, i) => {
+      output += (i + 1) + '. ' + (r.blocked ? '⛔ ' : '') + '**' + r.task.text + '** — ' + r.score + ' pts\n';
+      output += '   ' + explainScore(r) + '\n';
+      output += '   ID: ' + r.task.id + '\n';
+    });
+    if (ranked.length > limit) output += '\n…and ' + (ranked.length - limit) + ' more';
+    if (!include_blocked && blockedCount > 0) output += '\n⛔ ' + blockedCount + ' blocked task' + (blockedCount === 1 ? '' : 's') + ' not shown';
+    return { content: [{ type: 'text', text: output.trimEnd() }] };
+  });
+
   server.tool('weekly_recap', {}, async () => {
-    const now = new Date();
-    const monday = new Date(now);
-    monday.setDate(now.getDate() - now.getDay() + 1);
-    monday.setHours(0, 0, 0, 0);
+    const clock = await getUserClock(env, getCurrentUser());
+    const monday = getWeekStart(clock.today);
+    const weekStart = clock.startOf(monday);
 
-    const done = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ?").bind(getCurrentUser(), monday.toISOString()).first();
-    const added = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND created_at >= ?").bind(getCurrentUser(), monday.toISOString()).first();
-    const dailyStats = await env.DB.prepare('SELECT log_date, tasks_completed, tasks_created FROM daily_logs WHERE user_id = ? AND log_date >= ? ORDER BY log_date').bind(getCurrentUser(), monday.toISOString().split('T')[0]).all();
+    const done = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ?").bind(getCurrentUser(), weekStart).first();
+    const added = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND created_at >= ?").bind(getCurrentUser(), weekStart).first();
+    const dailyStats = await env.DB.prepare('SELECT log_date, tasks_completed, tasks_created FROM daily_logs WHERE user_id = ? AND log_date >= ? ORDER BY log_date').bind(getCurrentUser(), monday).all();
 
     let recap = '📊 Weekly Recap\n\n✅ Completed: ' + (done?.c || 0) + '\n➕ Added: ' + (added?.c || 0);
     if (dailyStats.results.length > 0) {
@@ -88,39 +119,46 @@ export function registerTaskReportingTools(ctx: ToolContext) {
   server.tool('plan_week', {
     focus_level: z.enum(['high', 'normal', 'low']).optional().default('normal'),
     constraints: z.string().optional(),
-  }, async ({ focus_level, constraints }) => {
-    const tasks = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'open' ORDER BY priority DESC, due_date ASC").bind(getCurrentUser()).all();
-    const patterns = await getPatterns(env, getCurrentUser());
+    capacity_minutes: z.number().int().min(30).max(960).optional().describe('Minutes of task work per day (defaults to your daily capacity setting)'),
+    include_weekends: z.boolean().optional().default(false),
+  }, async ({ focus_level, constraints, capacity_minutes, include_weekends }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const week = await buildWeekPlan(env, getCurrentUser(), clock, { focusLevel: focus_level, capacityMinutes: capacity_minutes, includeWeekends: include_weekends });
 
-    let plan = '📅 Week Plan\n\nFocus level: ' + focus_level + '\n';
+    let plan = '📅 Week Plan\n\nFocus level: ' + focus_level + ' · Capacity: ' + formatMinutes(week.dailyCapacity) + '/day\n';
     if (constraints) plan += 'Constraints: ' + constraints + '\n';
+    if (week.peakDay) plan += '💪 Your power day: ' + week.peakDay + ' (deep work goes there first)\n';
+    if (week.peakTime) plan += '⏰ Peak time: ' + week.peakTime + ' (days are ordered so deep work lands then)\n';
+
+    for (const day of week.days) {
+      plan += '\n**' + day.dayName.charAt(0).toUpperCase() + day.dayName.slice(1) + ' ' + day.date + '** — ' + formatMinutes(day.used) + ' / ' + formatMinutes(day.capacity);
+      if (day.isPeakDay) plan += ' 💪';
+      if (day.used > day.capacity) plan += ' ⚠️ over capacity';
+      plan += '\n';
+      if (day.recurring.length === 0 && day.tasks.length === 0) { plan += '  (open)\n'; continue; }
+      for (const entry of [...day.recurring, ...day.tasks]) {
+        plan += '  • ' + entry.task.text + ' (' + formatMinutes(entry.minutes) + (entry.estimated ? '' : '~') + ')';
+        if (entry.task.recurrence) plan += ' 🔄';
+        if (entry.task.focus_level === 'high') plan += ' 🧠';
+        if (entry.task.is_active || entry.task.objective_id) plan += ' 🎯';
+        if (entry.atRisk) plan += ' ⚠️ due ' + entry.task.due_date;
+        plan += '\n';
+      }
+    }
 
-    const peakDayPattern = patterns.find(p => p.pattern_type === 'peak_day');
-    if (peakDayPattern) plan += '\n💪 Your power day: ' + JSON.parse(peakDayPattern.pattern_data).day + '\n';
-
-    plan += '\n**Open tasks:** ' + tasks.results.length + '\n';
-
-    const recurringTasks = tasks.results.filter((t: any) => t.recurrence);
-    if (recurringTasks.length > 0) plan += '**Recurring:** ' + recurringTasks.length + ' tasks\n';
-
-    const activeTasks = tasks.results.filter((t: any) => t.is_active || t.objective_id);
-    if (activeTasks.length > 0) plan += '**Active:** ' + activeTasks.length + ' tasks 🎯\n';
-
-    const now = new Date();
-    const urgent = tasks.results.filter((t: any) => {
-      if (!t.due_date) return t.priority >= 4;
-      return (new Date(t.due_date).getTime() - now.getTime()) / (1000 * 60 * 60 * 24) <= 3;
-    });
-
-    if (urgent.length > 0) {
-      plan += '\n🔴 **Urgent this week:**\n';
-      urgent.slice(0, 5).forEach((t: any) => {
-        plan += '• ' + t.text;
-        if (t.due_date) plan += ' (due ' + t.due_date + ')';
-        if (t.recurrence) plan += ' 🔄';
+    if (week.overflow.length > 0) {
+      const overflowMinutes = week.overflow.reduce((sum, e) => sum + e.minutes, 0);
+      plan += '\n📦 **Doesn\'t fit this week** (' + week.overflow.length + ' tasks, ' + formatMinutes(overflowMinutes) + '):\n';
+      for (const entry of week.overflow.slice(0, 5)) {
+        plan += '• ' + entry.task.text + ' (' + formatMinutes(entry.minutes) + ')';
+        if (entry.task.due_date) plan += ' (due ' + entry.task.due_date + ')';
+        if (entry.minutes > week.dailyCapacity) plan += ' — bigger than a day, break it down';
         plan += '\n';
-      });
+      }
+      if (week.overflow.length > 5) plan += '…and ' + (week.overflow.length - 5) + ' more\n';
     }
+    if (week.blocked > 0) plan += '\n⛓️ ' + week.blocked + ' blocked task(s) left out until their blockers are done\n';
+    plan += '\n_~ = default estimate from focus level; add estimated_minutes to tasks for a tighter plan_\n';
 
     const activeSprint = await env.DB.prepare("SELECT * FROM sprints WHERE user_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1").bind(getCurrentUser()).first();
     if (activeSprint) {
@@ -131,38 +169,41 @@ export function registerTaskReportingTools(ctx: ToolContext) {
     if (activeLaunches.results.length > 0) {
       plan += '\n🚀 **Active Launches:**\n';
       for (const launch of activeLaunches.results as any[]) {
-        const daysToLaunch = launch.target_launch_date ? Math.ceil((new Date(launch.target_launch_date).getTime() - now.getTime()) / (1000 * 60 * 60 * 24)) : null;
+        const daysToLaunch = launch.target_launch_date ? daysBetween(clock.today, launch.target_launch_date) : null;
         plan += '• ' + launch.title + ' - Phase: ' + launch.current_phase;
         if (daysToLaunch !== null) plan += ' (' + daysToLaunch + ' days)';
         plan += '\n';
       }
     }
 
-    if (focus_level === 'low') {
-      plan += '\n⚠️ Low focus week - stick to quick wins and essentials only';
-      const quickWins = tasks.results.filter((t: any) => t.focus_level === 'low');
-      if (quickWins.length > 0) {
-        plan += '\n\n**Quick wins available:**\n';
-        quickWins.slice(0, 3).forEach((t: any) => { plan += '• ' + t.text + '\n'; });
-      }
-    }
+    if (focus_level === 'low') plan += '\n⚠️ Low focus week - capacity trimmed to essentials and quick wins\n';
 
     return { content: [{ type: 'text', text: plan }] };
   });
 
   server.tool('get_stats', {}, async () => {
-    const total = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ?").bind(getCurrentUser()).first();
+    const total = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status != 'deleted'").bind(getCurrentUser()).first();
     const open = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'open'").bind(getCurrentUser()).first();
     const done = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'done'").bind(getCurrentUser()).first();
     const recurring = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'open' AND recurrence IS NOT NULL").bind(getCurrentUser()).first();
     const active = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'open' AND (is_active = 1 OR objective_id IS NOT NULL)").bind(getCurrentUser()).first();
 
-    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const clock = await getUserClock(env, getCurrentUser());
+    const weekAgo = clock.startOf(clock.daysAgo(7));
     const weekDone = await env.DB.prepare("SELECT COUNT(*) as c FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ?").bind(getCurrentUser(), weekAgo).first();
 
     let stats = '📊 Stats\n\nTotal: ' + (total?.c || 0) + '\nOpen: ' + (open?.c || 0) + '\nActive: ' + (active?.c || 0) + ' 🎯\nDone: ' + (done?.c || 0) + '\nRecurring: ' + (recurring?.c || 0) + ' 🔄\n\nLast 7 days: ' + (weekDone?.c || 0) + ' completed';
     if (total?.c > 0) stats += '\nCompletion rate: ' + Math.round((done?.c || 0) / total.c * 100) + '%';
 
+    const accuracy = await getEstimateAccuracy(env, getCurrentUser());
+    if (accuracy) {
+      stats += '\n\n⏱️ **Estimates** (' + accuracy.count + ' finished tasks with time logged)\n';
+      stats += 'Estimated ' + formatMinutes(accuracy.estimatedMinutes) + ' · actual ' + formatMinutes(accuracy.actualMinutes) + ' (' + accuracy.ratio.toFixed(2) + 'x)\n';
+      stats += 'Within ±25%: ' + Math.round(accuracy.withinRange / accuracy.count * 100) + '%';
+      if (accuracy.ratio > 1.25) stats += '\n💡 Tasks run ' + Math.round((accuracy.ratio - 1) * 100) + '% over estimate - pad new estimates';
+      else if (accuracy.ratio < 0.75) stats += '\n💡 Tasks finish ' + Math.round((1 - accuracy.ratio) * 100) + '% under estimate - you can plan more per day';
+    }
+
     return { content: [{ type: 'text', text: stats }] };
   });
 
@@ -198,12 +239,82 @@ export function registerTaskReportingTools(ctx: ToolContext) {
   });
 
   server.tool('analyze_patterns', {}, async () => {
-    const insights = await analyzeAndStorePatterns(env, getCurrentUser());
-    if (insights.length === 0) return { content: [{ type: 'text', text: '📊 Not enough data yet. Keep using the system and check back in a week!' }] };
+    const analysis = await analyzePatterns(env, getCurrentUser());
+    const footer = '\n_' + describePatternSettings(analysis.settings) + ' (set_pattern_analysis to change). pattern_report shows the evidence._';
+    if (analysis.insights.length === 0 && analysis.fading.length === 0 && analysis.expired.length === 0) {
+      return { content: [{ type: 'text', text: '📊 Not enough data yet to be confident about any patterns (' + analysis.tested + ' tested). Keep using the system and check back in a week!' + footer }] };
+    }
 
-    let output = '📊 **Your Productivity Patterns**\n\n';
-    insights.forEach(i => { output += '• ' + i + '\n'; });
-    return { content: [{ type: 'text', text: output }] };
+    let output = '📊 **Your Productivity Patterns** (' + analysis.from + ' → ' + analysis.to + ')\n\n';
+    analysis.insights.forEach(i => { output += '• ' + i + '\n'; });
+    if (analysis.fading.length > 0) {
+      output += '\n**Fading** (not seen this time):\n';
+      analysis.fading.forEach(f => { output += '• ' + f + '\n'; });
+    }
+    if (analysis.expired.length > 0) {
+      output += '\n**No longer holding:**\n';
+      analysis.expired.forEach(e => { output += '• ' + e + '\n'; });
+    }
+    return { content: [{ type: 'text', text: output + footer }] };
+  });
+
+  server.tool('pattern_report', {
+    source: z.enum(PATTERN_SOURCES).optional().default('all').describe("'tasks' for user_patterns, 'journal' for journal_patterns"),
+  }, async ({ source }) => {
+    const entries = await getPatternReport(env, getCurrentUser(), source);
+    if (entries.length === 0) return { content: [{ type: 'text', text: '🔬 No stored patterns yet. Run analyze_patterns (it also runs nightly).' }] };
+
+    const settings = await getPatternSettings(env, getCurrentUser());
+    let out = '🔬 **Pattern report**\n_' + describePatternSettings(settings) + '_\n\n';
+    for (const e of entries) {
+      out += '**' + e.statement + '** (' + e.source + ': ' + e.type + ')\n';
+      out += 'Confidence ' + Math.round(e.confidence * 100) + '%';
+      if (e.fading && e.confirmedAt) out += ' - fading, last confirmed ' + e.confirmedAt.split('T')[0] + ' at ' + Math.round((e.confirmedConfidence || 0) * 100) + '%';
+      else if (e.confirmedAt) out += ' · confirmed ' + e.confirmedAt.split('T')[0];
+      if (e.samples !== null) out += ' · ' + e.samples + ' samples';
+      out += '\n';
+      if (e.details.length > 0) e.details.forEach(d => { out += '  • ' + d + '\n'; });
+      else out += '  • No evidence recorded - it will be re-tested on the next analyze_patterns\n';
+      out += '\n';
+    }
+    return { content: [{ type: 'text', text: out.trimEnd() }] };
+  });
+
+  server.tool('forecast_completion', {
+    project: z.string().optional().describe('Only tasks in this project'),
+    category: z.string().optional().describe('Only tasks in this category'),
+    sprint: z.string().optional().describe("Sprint ID, or 'current' for the active sprint"),
+    launch: z.string().optional().describe('Launch project ID or title - forecasts its open checklist items'),
+    target_date: z.string().optional().describe('Date to check against (defaults to the sprint end or launch date); YYYY-MM-DD or natural language'),
+    history_days: z.number().int().min(14).max(180).optional().default(DEFAULT_FORECAST_HISTORY_DAYS).describe('How many past days of throughput to sample from'),
+  }, async ({ project, category, sprint, launch, target_date, history_days }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const filter: ForecastFilter = { project, category };
+
+    if (sprint) {
+      const row = sprint === 'current'
+        ? await env.DB.prepare("SELECT id FROM sprints WHERE user_id = ? AND status = 'active' ORDER BY created_at DESC LIMIT 1").bind(getCurrentUser()).first()
+        : await env.DB.prepare('SELECT id FROM sprints WHERE id = ? AND user_id = ?').bind(sprint, getCurrentUser()).first();
+      if (!row) return { content: [{ type: 'text', text: sprint === 'current' ? '⛔ No active sprint' : '⛔ Sprint not found' }] };
+      filter.sprintId = row.id;
+    }
+    if (launch) {
+      const row = await env.DB.prepare('SELECT id FROM launch_projects WHERE id = ? OR (title LIKE ? AND user_id = ?) ORDER BY updated_at DESC LIMIT 1')
+        .bind(launch, '%' + launch + '%', getCurrentUser()).first();
+      if (!row) return { content: [{ type: 'text', text: '⛔ No launch project found' }] };
+      filter.launchId = row.id;
+    }
+
+    let targetDate: string | undefined;
+    if (target_date) {
+      const parsed = parseDateInput(target_date, clock.timeZone);
+      if (!parsed) return { content: [{ type: 'text', text: '❓ Couldn\'t understand target date "' + target_date + '". ' + DATE_INPUT_HINT }] };
+      targetDate = parsed;
+    }
+
+    const forecast = await forecastCompletion(env, getCurrentUser(), clock, filter, { historyDays: history_days, targetDate });
+    if ('error' in forecast) return { content: [{ type: 'text', text: '⛔ ' + forecast.error }] };
+    return { content: [{ type: 'text', text: formatForecast(forecast) }] };
   });
 
   server.tool('get_insights', {}, async () => {
@@ -216,14 +327,14 @@ export function registerTaskReportingTools(ctx: ToolContext) {
     for (const pattern of patterns) {
       const data = JSON.parse(pattern.pattern_data);
       switch (pattern.pattern_type) {
-        case 'peak_time': output += '⏰ You\'re most productive in the ' + data.time + '\n'; break;
+        case 'peak_time': output += typeof data.hour === 'number' ? '⏰ You\'re most productive around ' + formatHour(data.hour) + '\n' : '⏰ You\'re most productive in the ' + data.time + '\n'; break;
         case 'peak_day': output += '📅 ' + data.day.charAt(0).toUpperCase() + data.day.slice(1) + 's are your power days\n'; break;
         case 'avg_completion_days': output += '⏱️ You complete tasks in ' + data.days + ' days on average\n'; break;
         case 'avoidance_category': output += '⚠️ You tend to delay ' + data.category + ' tasks\n'; break;
       }
     }
 
-    const nudges = generateNudges(patterns, open.results);
+    const nudges = generateNudges(patterns, open.results, await getUserClock(env, getCurrentUser()));
     if (nudges.length > 0) {
       output += '\n**Right now:**\n';
       nudges.forEach(n => { output += n + '\n'; });
@@ -232,33 +343,46 @@ export function registerTaskReportingTools(ctx: ToolContext) {
     return { content: [{ type: 'text', text: output }] };
   });
 
+  server.tool('wellbeing_report', {
+    weeks: z.number().int().min(2).max(12).optional().default(DEFAULT_WELLBEING_WEEKS).describe('How many weeks of trend to show'),
+  }, async ({ weeks }) => {
+    const report = await getWellbeing(env, getCurrentUser(), await getUserClock(env, getCurrentUser()), weeks);
+    let out = formatWellbeingReport(report);
+    if (report.signals.length > 0) out += '\n\n**Try:**\n' + report.signals.map(s => s.nudge).join('\n');
+    return { content: [{ type: 'text', text: out }] };
+  });
+
   server.tool('end_of_day_recap', {}, async () => {
     const now = new Date();
-    const today = now.toISOString().split('T')[0];
+    const clock = await getUserClock(env, getCurrentUser(), now);
+    const today = clock.today;
+    const dayStart = clock.startOf(today);
+    const dayEnd = clock.startOf(clock.daysFromNow(1));
 
     const session = await env.DB.prepare('SELECT * FROM work_sessions WHERE user_id = ? AND session_date = ?').bind(getCurrentUser(), today).first();
-    const checkpoints = await env.DB.prepare("SELECT * FROM checkpoints WHERE user_id = ? AND DATE(checkpoint_time) = ? ORDER BY checkpoint_time ASC").bind(getCurrentUser(), today).all();
-    const completed = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'done' AND DATE(completed_at) = ? ORDER BY completed_at ASC").bind(getCurrentUser(), today).all();
-    const added = await env.DB.prepare('SELECT * FROM tasks WHERE user_id = ? AND DATE(created_at) = ?').bind(getCurrentUser(), today).all();
-    const progressLogs = await env.DB.prepare('SELECT * FROM progress_logs WHERE user_id = ? AND DATE(logged_at) = ?').bind(getCurrentUser(), today).all();
+    const checkpoints = await env.DB.prepare("SELECT * FROM checkpoints WHERE user_id = ? AND checkpoint_time >= ? AND checkpoint_time < ? ORDER BY checkpoint_time ASC").bind(getCurrentUser(), dayStart, dayEnd).all();
+    const completed = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ? AND completed_at < ? ORDER BY completed_at ASC").bind(getCurrentUser(), dayStart, dayEnd).all();
+    const added = await env.DB.prepare('SELECT * FROM tasks WHERE user_id = ? AND created_at >= ? AND created_at < ?').bind(getCurrentUser(), dayStart, dayEnd).all();
+    const progressLogs = await env.DB.prepare('SELECT * FROM progress_logs WHERE user_id = ? AND logged_at >= ? AND logged_at < ?').bind(getCurrentUser(), dayStart, dayEnd).all();
 
-    const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    const yesterdayCompleted = await env.DB.prepare("SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'done' AND DATE(completed_at) = ?").bind(getCurrentUser(), yesterday).first();
+    const yesterdayCompleted = await env.DB.prepare("SELECT COUNT(*) as count FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ? AND completed_at < ?").bind(getCurrentUser(), clock.startOf(clock.daysAgo(1)), dayStart).first();
 
-    const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    const weekStats = await env.DB.prepare("SELECT COUNT(*) as total, COUNT(DISTINCT DATE(completed_at)) as days FROM tasks WHERE user_id = ? AND status = 'done' AND DATE(completed_at) >= ?").bind(getCurrentUser(), weekAgo).first();
-    const weeklyAvg = weekStats?.days > 0 ? Math.round(weekStats.total / weekStats.days) : 0;
+    const weekAgo = clock.startOf(clock.daysAgo(7));
+    const weekDone = await env.DB.prepare("SELECT completed_at FROM tasks WHERE user_id = ? AND status = 'done' AND completed_at >= ?").bind(getCurrentUser(), weekAgo).all();
+    const activeDays = new Set((weekDone.results as any[]).map(t => toLocalDate(t.completed_at, clock.timeZone))).size;
+    const weeklyAvg = activeDays > 0 ? Math.round(weekDone.results.length / activeDays) : 0;
 
     let out = '📊 **End of Day Recap**\n\n';
 
     if (session) {
       const startTime = new Date(session.started_at);
       const endTime = session.ended_at ? new Date(session.ended_at) : now;
-      const totalMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
-      const hours = Math.floor(totalMinutes / 60);
-      const mins = totalMinutes % 60;
-      out += '⏱️ **Time:** ' + hours + 'h ' + mins + 'm (' + startTime.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
-      out += session.ended_at ? ' → ' + endTime.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }) + ')' : ' → now)';
+      const time = computeSessionTime(session, await getSessionBreaks(env, session.id), now);
+      const hours = Math.floor(time.netMinutes / 60);
+      const mins = time.netMinutes % 60;
+      out += '⏱️ **Time:** ' + hours + 'h ' + mins + 'm (' + startTime.toLocaleTimeString('en-US', { timeZone: clock.timeZone, hour: 'numeric', minute: '2-digit' });
+      out += session.ended_at ? ' → ' + endTime.toLocaleTimeString('en-US', { timeZone: clock.timeZone, hour: 'numeric', minute: '2-digit' }) + ')' : ' → now)';
+      if (time.breakCount > 0) out += ' · ☕ ' + formatMinutes(time.breakMinutes) + ' on breaks';
       out += '\n\n';
     }
 
@@ -320,7 +444,7 @@ export function registerTaskReportingTools(ctx: ToolContext) {
       discoveries.forEach(d => { out += '• ' + d + '\n'; });
     }
 
-    const dueSoon = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'open' AND due_date IS NOT NULL AND due_date <= date('now', '+3 days') ORDER BY due_date ASC").bind(getCurrentUser()).all();
+    const dueSoon = await env.DB.prepare("SELECT * FROM tasks WHERE user_id = ? AND status = 'open' AND due_date IS NOT NULL AND due_date <= ? ORDER BY due_date ASC").bind(getCurrentUser(), clock.daysFromNow(3)).all();
     if (dueSoon.results.length > 0) {
       out += '\n**⚠️ Due soon:**\n';
       for (const t of dueSoon.results.slice(0, 3) as any[]) out += '• ' + t.text + ' (' + t.due_date + ')' + (t.recurrence ? ' 🔄' : '') + '\n';
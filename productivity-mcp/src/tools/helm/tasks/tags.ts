@@ -0,0 +1,103 @@
+// Task tags: many-to-many labels, managed per user
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { logEvent } from '../../../helpers/intelligence';
+import {
+  normalizeTagName,
+  findTag,
+  getOrCreateTag,
+  listTags,
+  tagTask,
+  untagTask,
+  mergeTags,
+  deleteTagById,
+} from '../../../helpers/tags';
+
+export function registerTaskTagTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('list_tags', {}, async () => {
+    const tags = await listTags(env, getCurrentUser());
+    if (tags.length === 0) return { content: [{ type: 'text', text: 'No tags yet. Add some with create_tag, tag_task, or the tags field on add_task.' }] };
+
+    let out = '🏷️ **Tags**\n\n';
+    for (const tag of tags) {
+      out += '• #' + tag.name + ' — ' + (tag.open_count || 0) + ' open / ' + tag.task_count + ' total\n';
+    }
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('create_tag', { name: z.string() }, async ({ name }) => {
+    if (!normalizeTagName(name)) return { content: [{ type: 'text', text: 'Tag name can\'t be empty' }] };
+    const existing = await findTag(env, getCurrentUser(), name);
+    if (existing) return { content: [{ type: 'text', text: '#' + existing.name + ' already exists' }] };
+
+    const tag = await getOrCreateTag(env, getCurrentUser(), name);
+    return { content: [{ type: 'text', text: '🏷️ Created #' + tag.name }] };
+  });
+
+  server.tool('rename_tag', {
+    name: z.string().describe('Current tag name'),
+    new_name: z.string(),
+  }, async ({ name, new_name }) => {
+    const tag = await findTag(env, getCurrentUser(), name);
+    if (!tag) return { content: [{ type: 'text', text: 'Tag not found: ' + name }] };
+    const newName = normalizeTagName(new_name);
+    if (!newName) return { content: [{ type: 'text', text: 'Tag name can\'t be empty' }] };
+
+    const clash = await findTag(env, getCurrentUser(), newName);
+    if (clash && clash.id !== tag.id) {
+      return { content: [{ type: 'text', text: '#' + clash.name + ' already exists. Use merge_tags to combine them.' }] };
+    }
+
+    await env.DB.prepare('UPDATE tags SET name = ? WHERE id = ?').bind(newName, tag.id).run();
+    return { content: [{ type: 'text', text: '✏️ Renamed #' + tag.name + ' → #' + newName }] };
+  });
+
+  server.tool('merge_tags', {
+    sources: z.array(z.string()).describe('Tags to fold in (they are deleted afterwards)'),
+    target: z.string().describe('Tag that keeps all the tasks (created if missing)'),
+  }, async ({ sources, target }) => {
+    const { target: kept, merged } = await mergeTags(env, getCurrentUser(), sources, target);
+    if (merged.length === 0) return { content: [{ type: 'text', text: 'Nothing to merge — none of those tags exist (or they already are #' + kept.name + ')' }] };
+
+    return { content: [{ type: 'text', text: '🔀 Merged ' + merged.map(n => '#' + n).join(', ') + ' into #' + kept.name }] };
+  });
+
+  server.tool('delete_tag', { name: z.string() }, async ({ name }) => {
+    const tag = await findTag(env, getCurrentUser(), name);
+    if (!tag) return { content: [{ type: 'text', text: 'Tag not found: ' + name }] };
+
+    await deleteTagById(env, tag.id);
+    return { content: [{ type: 'text', text: '🗑️ Deleted #' + tag.name + ' (tasks themselves are untouched)' }] };
+  });
+
+  server.tool('tag_task', {
+    task_id: z.string(),
+    tags: z.array(z.string()),
+  }, async ({ task_id, tags }) => {
+    const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(task_id).first();
+    if (!task) return { content: [{ type: 'text', text: 'Task not found' }] };
+
+    const added = await tagTask(env, task.user_id, task_id, tags);
+    if (added.length === 0) return { content: [{ type: 'text', text: 'Already tagged' }] };
+    await logEvent(env, getCurrentUser(), 'tagged', task_id, { tags: added });
+
+    return { content: [{ type: 'text', text: '🏷️ "' + task.text + '" tagged ' + added.map(n => '#' + n).join(' ') }] };
+  });
+
+  server.tool('untag_task', {
+    task_id: z.string(),
+    tags: z.array(z.string()),
+  }, async ({ task_id, tags }) => {
+    const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(task_id).first();
+    if (!task) return { content: [{ type: 'text', text: 'Task not found' }] };
+
+    const removed = await untagTask(env, task.user_id, task_id, tags);
+    if (removed.length === 0) return { content: [{ type: 'text', text: 'None of those tags were on the task' }] };
+    await logEvent(env, getCurrentUser(), 'untagged', task_id, { tags: removed });
+
+    return { content: [{ type: 'text', text: '🏷️ Removed ' + removed.map(n => '#' + n).join(' ') + ' from "' + task.text + '"' }] };
+  });
+}
@@ -0,0 +1,201 @@
+// Task templates: save a task tree once, then stamp it out with add_task + break_down_task behavior
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { normalizeUser, parseDateInput, formatResolvedDate, DATE_INPUT_HINT } from '../../../helpers/utils';
+import { getUserClock } from '../../../helpers/datetime';
+import { getTaskTree } from '../../../helpers/subtasks';
+import { formatMinutes } from '../../../helpers/planning';
+import {
+  getTemplate,
+  listTemplates,
+  saveTemplate,
+  deleteTemplate,
+  getPlaceholders,
+  countTemplateTasks,
+  templateFromTree,
+  instantiateTemplate,
+  type TemplateNode,
+} from '../../../helpers/templates';
+
+function formatOffset(days: number): string {
+  if (days === 0) return 'start day';
+  return days > 0 ? '+' + days + 'd' : days + 'd';
+}
+
+function describeNodes(nodes: TemplateNode[], depth = 1): string {
+  let out = '';
+  for (const n of nodes) {
+    out += '  '.repeat(depth) + '• ' + n.text;
+    if (n.priority) out += ' P' + n.priority;
+    if (n.due_offset_days !== undefined) out += ' (due ' + formatOffset(n.due_offset_days) + ')';
+    if (n.estimated_minutes) out += ' ⏱️ ' + formatMinutes(n.estimated_minutes);
+    out += '\n';
+    if (n.subtasks) out += describeNodes(n.subtasks, depth + 1);
+  }
+  return out;
+}
+
+const subtaskSchema = z.object({
+  text: z.string(),
+  priority: z.number().min(1).max(5).optional(),
+  due_offset_days: z.number().int().optional().describe('Days after the start date (negative = before)'),
+  estimated_minutes: z.number().int().min(1).optional(),
+  subtasks: z.array(z.string()).optional().describe('Sub-subtasks'),
+});
+
+export function registerTaskTemplateTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('save_task_template', {
+    task_id: z.string().describe('Root task - it and all of its subtasks are saved'),
+    name: z.string().describe('Template name, e.g. "Publish book on KDP"'),
+    description: z.string().optional(),
+    placeholders: z.record(z.string(), z.string()).optional().describe('Text to turn into placeholders, e.g. {"The Last Light": "title"} saves it as {{title}}'),
+    tags: z.array(z.string()).optional().describe('Tags for the root task when the template is used'),
+    overwrite: z.boolean().optional().default(false),
+  }, async ({ task_id, name, description, placeholders, tags, overwrite }) => {
+    const tree = await getTaskTree(env, task_id);
+    if (!tree) return { content: [{ type: 'text', text: 'Task not found' }] };
+
+    const existing = await getTemplate(env, getCurrentUser(), name);
+    if (existing && !overwrite) {
+      return { content: [{ type: 'text', text: '❓ A template named "' + existing.name + '" already exists. Pass overwrite: true to replace it.' }] };
+    }
+
+    const { timeZone } = await getUserClock(env, getCurrentUser());
+    const body = templateFromTree(tree, timeZone, placeholders || {});
+    await saveTemplate(env, getCurrentUser(), { ...body, name: name.trim(), description: description || null, tags: tags || [] });
+
+    const found = getPlaceholders(body);
+    let out = (existing ? '♻️ Replaced' : '📋 Saved') + ' template "' + name.trim() + '" (' + (1 + countTemplateTasks(body.subtasks)) + ' tasks)\n\n';
+    out += '**' + body.text + '**\n' + describeNodes(body.subtasks);
+    if (found.length > 0) out += '\nPlaceholders: ' + found.map(p => '{{' + p + '}}').join(', ');
+    out += '\n💡 Use it with use_task_template';
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('create_task_template', {
+    name: z.string(),
+    text: z.string().describe('Root task text - use {{placeholders}} like "Publish {{title}} on KDP"; {{date}} is the start date'),
+    subtasks: z.array(z.union([z.string(), subtaskSchema])).optional().default([]),
+    description: z.string().optional(),
+    priority: z.number().min(1).max(5).optional().default(3),
+    category: z.string().optional(),
+    project: z.string().optional(),
+    notes: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    due_offset_days: z.number().int().optional().describe('Root task due this many days after the start date'),
+    estimated_minutes: z.number().int().min(1).optional(),
+    overwrite: z.boolean().optional().default(false),
+  }, async ({ name, text, subtasks, description, priority, category, project, notes, tags, due_offset_days, estimated_minutes, overwrite }) => {
+    const existing = await getTemplate(env, getCurrentUser(), name);
+    if (existing && !overwrite) {
+      return { content: [{ type: 'text', text: '❓ A template named "' + existing.name + '" already exists. Pass overwrite: true to replace it.' }] };
+    }
+
+    const nodes: TemplateNode[] = subtasks.map(s => typeof s === 'string' ? { text: s } : {
+      text: s.text,
+      priority: s.priority,
+      due_offset_days: s.due_offset_days,
+      estimated_minutes: s.estimated_minutes,
+      subtasks: s.subtasks?.map(text => ({ text })),
+    });
+
+    const template = {
+      name: name.trim(),
+      description: description || null,
+      text,
+      priority,
+      category: category || null,
+      project: project || null,
+      notes: notes || null,
+      due_offset_days: due_offset_days ?? null,
+      estimated_minutes: estimated_minutes || null,
+      tags: tags || [],
+      subtasks: nodes,
+    };
+    await saveTemplate(env, getCurrentUser(), template);
+
+    const found = getPlaceholders(template);
+    let out = (existing ? '♻️ Replaced' : '📋 Created') + ' template "' + template.name + '" (' + (1 + countTemplateTasks(nodes)) + ' tasks)';
+    if (found.length > 0) out += '\nPlaceholders: ' + found.map(p => '{{' + p + '}}').join(', ');
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('list_task_templates', {
+    name: z.string().optional().describe('Show one template in full'),
+  }, async ({ name }) => {
+    if (name) {
+      const template = await getTemplate(env, getCurrentUser(), name);
+      if (!template) return { content: [{ type: 'text', text: 'No template named "' + name + '"' }] };
+
+      let out = '📋 **' + template.name + '**\n';
+      if (template.description) out += template.description + '\n';
+      out += '\n**' + template.text + '** P' + template.priority;
+      if (template.category) out += ' [' + template.category + ']';
+      if (template.due_offset_days !== null) out += ' (due ' + formatOffset(template.due_offset_days) + ')';
+      if (template.estimated_minutes) out += ' ⏱️ ' + formatMinutes(template.estimated_minutes);
+      if (template.tags.length > 0) out += ' ' + template.tags.map(t => '#' + t).join(' ');
+      out += '\n' + describeNodes(template.subtasks);
+      const found = getPlaceholders(template);
+      if (found.length > 0) out += '\nPlaceholders: ' + found.map(p => '{{' + p + '}}').join(', ') + '\n';
+      out += '\nUsed ' + template.use_count + ' time' + (template.use_count === 1 ? '' : 's');
+      if (template.last_used_at) out += ' (last ' + template.last_used_at.split('T')[0] + ')';
+      return { content: [{ type: 'text', text: out }] };
+    }
+
+    const templates = await listTemplates(env, getCurrentUser());
+    if (templates.length === 0) {
+      return { content: [{ type: 'text', text: 'No templates yet.\n\n💡 Build a task with subtasks, then save_task_template to reuse it.' }] };
+    }
+
+    let out = '📋 **Task Templates** (' + templates.length + ')\n\n';
+    for (const t of templates) {
+      out += '• **' + t.name + '** — ' + (1 + countTemplateTasks(t.subtasks)) + ' tasks';
+      const found = getPlaceholders(t);
+      if (found.length > 0) out += ' · needs ' + found.map(p => '{{' + p + '}}').join(', ');
+      if (t.use_count > 0) out += ' · used ' + t.use_count + '×';
+      out += '\n';
+      if (t.description) out += '   ' + t.description + '\n';
+    }
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('use_task_template', {
+    name: z.string(),
+    values: z.record(z.string(), z.string()).optional().describe('Placeholder values, e.g. {"title": "The Last Light"}'),
+    start_date: z.string().optional().describe('Day the due offsets count from (default today). YYYY-MM-DD or "next monday"...'),
+    priority: z.number().min(1).max(5).optional().describe("Override the template's priority for the root task"),
+    for_user: z.string().optional().describe('Create the tasks for a teammate'),
+  }, async ({ name, values, start_date, priority, for_user }) => {
+    const template = await getTemplate(env, getCurrentUser(), name);
+    if (!template) return { content: [{ type: 'text', text: 'No template named "' + name + '". Try list_task_templates.' }] };
+
+    const clock = await getUserClock(env, getCurrentUser());
+    const startDate = start_date ? parseDateInput(start_date, clock.timeZone) : clock.today;
+    if (!startDate) return { content: [{ type: 'text', text: '❓ Couldn\'t understand start date "' + start_date + '". ' + DATE_INPUT_HINT }] };
+
+    const targetUser = normalizeUser(for_user || getCurrentUser());
+    const assignedBy = targetUser !== getCurrentUser() ? getCurrentUser() : null;
+    const result = await instantiateTemplate(env, getCurrentUser(), template, { userId: targetUser, values: values || {}, startDate, priority, assignedBy });
+    if ('missing' in result) {
+      return { content: [{ type: 'text', text: '❓ "' + template.name + '" needs values for: ' + result.missing.map(p => '{{' + p + '}}').join(', ') }] };
+    }
+
+    let out = '📋 Created ' + result.created + ' task' + (result.created === 1 ? '' : 's') + ' from "' + template.name + '"';
+    if (assignedBy) out += ' for ' + targetUser + ' (in their Incoming)';
+    if (start_date) out += '\nStarting ' + formatResolvedDate(start_date, startDate);
+    if (result.dueDate) out += '\nDue ' + result.dueDate;
+    if (result.tags.length > 0) out += ' ' + result.tags.map(t => '#' + t).join(' ');
+    out += '\nRoot task ID: ' + result.rootId;
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('delete_task_template', {
+    name: z.string(),
+  }, async ({ name }) => {
+    const deleted = await deleteTemplate(env, getCurrentUser(), name);
+    return { content: [{ type: 'text', text: deleted ? '🗑️ Deleted template "' + name + '" (tasks created from it are unchanged)' : 'No template named "' + name + '"' }] };
+  });
+}
@@ -0,0 +1,46 @@
+// Focus timers: time work on a task instead of guessing minutes_spent afterwards
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { startTimer, pauseTimer, stopTimer, describeTimer } from '../../../helpers/timers';
+import { formatMinutes } from '../../../helpers/planning';
+
+export function registerTaskTimerTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('start_timer', {
+    task_id: z.string().describe('Task to time. Starting the paused timer\'s task resumes it.'),
+    minutes: z.number().int().min(1).max(240).optional().describe('Planned length, e.g. 25 for a pomodoro'),
+  }, async ({ task_id, minutes }) => {
+    const result = await startTimer(env, getCurrentUser(), task_id, minutes);
+    if ('error' in result) return { content: [{ type: 'text', text: '⏱️ ' + result.error }] };
+
+    const { timer } = result;
+    let out = result.resumed ? '▶️ Resumed: "' + timer.task_text + '" — ' + describeTimer(timer) : '▶️ Timing: "' + timer.task_text + '"';
+    if (!result.resumed && timer.planned_minutes) out += ' 🍅 ' + timer.planned_minutes + 'm';
+    out += '\n💡 pause_timer for a break, stop_timer to log the time';
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('pause_timer', {}, async () => {
+    const result = await pauseTimer(env, getCurrentUser());
+    if ('error' in result) return { content: [{ type: 'text', text: '⏱️ ' + result.error }] };
+    return { content: [{ type: 'text', text: '⏸️ Paused "' + result.timer.task_text + '" — ' + describeTimer(result.timer) + '\n💡 start_timer on the same task to resume' }] };
+  });
+
+  server.tool('stop_timer', {
+    description: z.string().optional().describe('What you got done - saved with the progress log'),
+    discard: z.boolean().optional().default(false).describe("Throw the time away instead of logging it"),
+  }, async ({ description, discard }) => {
+    const result = await stopTimer(env, getCurrentUser(), description, discard);
+    if ('error' in result) return { content: [{ type: 'text', text: '⏱️ ' + result.error }] };
+
+    const { timer, minutes } = result;
+    if (discard) return { content: [{ type: 'text', text: '⏹️ Timer on "' + timer.task_text + '" discarded - nothing logged' }] };
+
+    let out = '⏹️ Logged ' + formatMinutes(minutes) + ' on "' + timer.task_text + '"';
+    if (timer.pause_count > 0) out += ' (' + timer.pause_count + ' pause' + (timer.pause_count === 1 ? '' : 's') + ')';
+    if (timer.planned_minutes && minutes >= timer.planned_minutes) out += '\n🍅 Pomodoro done — take a break';
+    return { content: [{ type: 'text', text: out }] };
+  });
+}
@@ -0,0 +1,57 @@
+// Task trash: deleted tasks wait here until the retention window purges them
+
+import { z } from 'zod';
+import type { ToolContext } from '../../../types';
+import { listTrash, restoreTask, getTrashRetentionDays } from '../../../helpers/trash';
+import { restoreSubtasks } from '../../../helpers/subtasks';
+
+export function registerTaskTrashTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool('list_trash', {}, async () => {
+    const tasks = await listTrash(env, getCurrentUser());
+    const retention = await getTrashRetentionDays(env, getCurrentUser());
+    if (tasks.length === 0) return { content: [{ type: 'text', text: '🗑️ Trash is empty. Deleted tasks are kept ' + retention + ' days.' }] };
+
+    let out = '🗑️ **Trash** (' + tasks.length + ') — kept ' + retention + ' days, then purged\n\n';
+    for (const t of tasks) {
+      const purgeOn = new Date(new Date(t.deleted_at).getTime() + retention * 86400000).toISOString().split('T')[0];
+      out += '• ' + t.text;
+      if (t.deleted_from_status === 'done') out += ' ✅';
+      out += '\n   deleted ' + t.deleted_at.split('T')[0] + ' · purged after ' + purgeOn + ' · ID: ' + t.id + '\n';
+    }
+    out += '\n💡 Use restore_task to bring one back';
+    return { content: [{ type: 'text', text: out }] };
+  });
+
+  server.tool('restore_task', {
+    task_id: z.string().optional(),
+    search: z.string().optional().describe('Match trashed tasks by text'),
+  }, async ({ task_id, search }) => {
+    let task: any = null;
+    if (task_id) {
+      task = await env.DB.prepare("SELECT * FROM tasks WHERE id = ? AND status = 'deleted'").bind(task_id).first();
+    } else if (search) {
+      const results = await env.DB.prepare(
+        "SELECT * FROM tasks WHERE user_id = ? AND status = 'deleted' AND text LIKE ? ORDER BY deleted_at DESC LIMIT 5"
+      ).bind(getCurrentUser(), '%' + search + '%').all();
+
+      if (results.results.length > 1) {
+        let out = 'Multiple matches in the trash:\n';
+        results.results.forEach((t: any, i: number) => { out += (i + 1) + '. ' + t.text + ' (ID: ' + t.id + ')\n'; });
+        return { content: [{ type: 'text', text: out }] };
+      }
+      task = results.results[0] || null;
+    } else {
+      return { content: [{ type: 'text', text: 'Need task_id or search text' }] };
+    }
+
+    if (!task) return { content: [{ type: 'text', text: 'No matching task in the trash (it may have been purged)' }] };
+
+    const status = await restoreTask(env, getCurrentUser(), task);
+    const subtasks = await restoreSubtasks(env, getCurrentUser(), task);
+    let out = '♻️ Restored: "' + task.text + '"' + (status === 'done' ? ' (as completed)' : '');
+    if (subtasks > 0) out += '\n🌳 ' + subtasks + ' subtask' + (subtasks === 1 ? '' : 's') + ' deleted with it came back too';
+    return { content: [{ type: 'text', text: out }] };
+  });
+}
@@ -2,8 +2,12 @@
 
 import { z } from 'zod';
 import type { ToolContext } from '../../../types';
-import { inferFocusLevel, getNextDueDate } from '../../../helpers/utils';
-import { logEvent, updateDailyLog, autoCheckpoint } from '../../../helpers/intelligence';
+import { parseDateInput, formatResolvedDate, DATE_INPUT_HINT } from '../../../helpers/utils';
+import { logEvent, autoCheckpoint } from '../../../helpers/intelligence';
+import { completeTask } from '../../../helpers/completion';
+import { getUserClock } from '../../../helpers/datetime';
+import { formatMinutes } from '../../../helpers/planning';
+import { createSubtasks, countSubtasks } from '../../../helpers/subtasks';
 
 export function registerTaskWorkflowTools(ctx: ToolContext) {
   const { server, env, getCurrentUser } = ctx;
@@ -65,43 +69,38 @@ export function registerTaskWorkflowTools(ctx: ToolContext) {
       return { content: [{ type: 'text', text: 'Need task_id, search text, or position number' }] };
     }
 
-    if (!task) return { content: [{ type: 'text', text: 'Task not found' }] };
-
-    const completedAt = new Date().toISOString();
-    await env.DB.prepare("UPDATE tasks SET status = 'done', completed_at = ?, is_active = 0 WHERE id = ?").bind(completedAt, task.id).run();
-
-    // Check if linked to launch checklist
-    const checklistItem = await env.DB.prepare('SELECT * FROM launch_checklist WHERE task_id = ?').bind(task.id).first();
-    if (checklistItem) {
-      await env.DB.prepare('UPDATE launch_checklist SET completed = 1, completed_at = ? WHERE id = ?').bind(completedAt, checklistItem.id).run();
-    }
+    if (!task || task.status === 'deleted') return { content: [{ type: 'text', text: 'Task not found' }] };
+    if (task.status === 'done') return { content: [{ type: 'text', text: '"' + task.text + '" is already done' }] };
 
-    const daysToComplete = Math.round((Date.now() - new Date(task.created_at).getTime()) / 86400000);
-
-    const taskOwner = task.user_id;
-    await logEvent(env, taskOwner, 'completed', task.id, { text: task.text, daysToComplete, focusLevel: task.focus_level, category: task.category, completedBy: getCurrentUser() });
-    await updateDailyLog(env, taskOwner, 'tasks_completed');
+    const done = await completeTask(env, getCurrentUser(), task);
+    if (!done) return { content: [{ type: 'text', text: '"' + task.text + '" is already done' }] };
     await autoCheckpoint(env, getCurrentUser(), 'task_completed', `Completed: ${task.text}`, [task.category || task.project || 'general'], task.id);
 
     let resp = '✅ Completed: "' + task.text + '"';
     if (isTeammateTask) resp += '\n👥 (Task owned by ' + task.user_id + ')';
-    if (daysToComplete === 0) resp += '\n⚡ Same-day completion!';
-    else if (daysToComplete <= 1) resp += '\n🎯 Quick turnaround!';
-    if (checklistItem) resp += '\n📋 Launch checklist item also marked complete';
-
-    // Handle recurring task
-    if (task.recurrence) {
-      const nextDue = getNextDueDate(task.due_date, task.recurrence);
-      const newId = crypto.randomUUID();
-      const ts = new Date().toISOString();
-
-      await env.DB.prepare(
-        'INSERT INTO tasks (id, user_id, text, priority, due_date, category, project, status, created_at, last_touched, focus_level, notes, recurrence) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-      ).bind(newId, task.user_id, task.text, task.priority, nextDue, task.category, task.project, 'open', ts, ts, task.focus_level, task.notes, task.recurrence).run();
-
-      await logEvent(env, task.user_id, 'created', newId, { text: task.text, recurrence: task.recurrence, source: 'recurring' });
-      resp += '\n🔄 Next occurrence created for ' + nextDue;
+    if (done.daysToComplete === 0) resp += '\n⚡ Same-day completion!';
+    else if (done.daysToComplete <= 1) resp += '\n🎯 Quick turnaround!';
+    if (done.checklistItem) resp += '\n📋 Launch checklist item also marked complete';
+    for (const t of done.stoppedTimers) resp += '\n⏱️ Stopped ' + (t.userId === getCurrentUser() ? 'your' : t.userId + '\'s') + ' timer - ' + t.minutes + 'm logged';
+
+    if (done.unblocked.length > 0) {
+      resp += '\n🔓 Unblocked:';
+      for (const u of done.unblocked) {
+        resp += '\n   • ' + u.text;
+        if (u.user_id !== getCurrentUser()) resp += ' (' + u.user_id + ')';
+      }
+    }
+
+    for (const parent of done.rollup.completed) resp += '\n🌳 Last subtask done - also completed "' + parent.text + '"';
+    if (done.rollup.ready) {
+      resp += '\n🌳 That was the last open subtask of "' + done.rollup.ready.text + '". Complete it too? (task_id: ' + done.rollup.ready.id + ')';
+      resp += '\n💡 set_auto_complete_parents to do this automatically';
     }
+    const subtasks = await countSubtasks(env, task.id);
+    if (subtasks.open > 0) resp += '\n📎 ' + subtasks.open + ' of its ' + subtasks.total + ' subtasks are still open';
+
+    if (done.next) resp += '\n🔄 Next occurrence created for ' + done.next.dueDate;
+    else if (done.seriesEnded) resp += '\n🏁 That was the last occurrence of this series';
 
     return { content: [{ type: 'text', text: resp }] };
   });
@@ -155,21 +154,26 @@ export function registerTaskWorkflowTools(ctx: ToolContext) {
 
   server.tool('snooze_task', {
     task_id: z.string(),
-    until: z.string().optional(),
+    until: z.string().optional().describe('YYYY-MM-DD or natural language like "monday", "next week", "in 3 days"'),
     days: z.number().optional(),
   }, async ({ task_id, until, days }) => {
     const task = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(task_id).first();
     if (!task) return { content: [{ type: 'text', text: 'Task not found' }] };
 
+    const clock = await getUserClock(env, getCurrentUser());
     let snoozeUntil: string;
-    if (until) snoozeUntil = until;
-    else if (days) { const d = new Date(); d.setDate(d.getDate() + days); snoozeUntil = d.toISOString().split('T')[0]; }
-    else { const d = new Date(); d.setDate(d.getDate() + 1); snoozeUntil = d.toISOString().split('T')[0]; }
+    if (until) {
+      const parsed = parseDateInput(until, clock.timeZone);
+      if (!parsed) return { content: [{ type: 'text', text: '❓ Couldn\'t understand "' + until + '". ' + DATE_INPUT_HINT }] };
+      snoozeUntil = parsed;
+    }
+    else if (days) snoozeUntil = clock.daysFromNow(days);
+    else snoozeUntil = clock.daysFromNow(1);
 
     await env.DB.prepare('UPDATE tasks SET snoozed_until = ?, last_touched = ? WHERE id = ?').bind(snoozeUntil, new Date().toISOString(), task_id).run();
     await logEvent(env, getCurrentUser(), 'snoozed', task_id, { until: snoozeUntil });
 
-    return { content: [{ type: 'text', text: '😴 Snoozed until ' + snoozeUntil + ': "' + task.text + '"' }] };
+    return { content: [{ type: 'text', text: '😴 Snoozed until ' + (until ? formatResolvedDate(until, snoozeUntil) : snoozeUntil) + ': "' + task.text + '"' }] };
   });
 
   server.tool('break_down_task', {
@@ -179,14 +183,7 @@ export function registerTaskWorkflowTools(ctx: ToolContext) {
     const parent = await env.DB.prepare('SELECT * FROM tasks WHERE id = ?').bind(task_id).first();
     if (!parent) return { content: [{ type: 'text', text: 'Task not found' }] };
 
-    const ts = new Date().toISOString();
-    for (const sub of subtasks) {
-      const subId = crypto.randomUUID();
-      await env.DB.prepare(
-        'INSERT INTO tasks (id, user_id, text, priority, category, project, status, created_at, last_touched, parent_task_id, focus_level) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-      ).bind(subId, parent.user_id, sub, parent.priority, parent.category, parent.project, 'open', ts, ts, task_id, inferFocusLevel(sub)).run();
-      await logEvent(env, parent.user_id, 'created', subId, { text: sub, parentTask: task_id });
-    }
+    await createSubtasks(env, parent, subtasks.map(text => ({ text })));
 
     await env.DB.prepare('UPDATE tasks SET needs_breakdown = 0 WHERE id = ?').bind(task_id).run();
     await logEvent(env, parent.user_id, 'broken_down', task_id, { subtaskCount: subtasks.length });
@@ -204,6 +201,18 @@ export function registerTaskWorkflowTools(ctx: ToolContext) {
     ).bind(crypto.randomUUID(), getCurrentUser(), new Date().toISOString(), task_id || null, description, minutes_spent || null, task_id ? 1 : 0).run();
 
     await logEvent(env, getCurrentUser(), 'progress', task_id || null, { description, minutes_spent });
-    return { content: [{ type: 'text', text: '📝 Logged: ' + description }] };
+
+    let resp = '📝 Logged: ' + description;
+    if (task_id && minutes_spent) {
+      const task = await env.DB.prepare('SELECT estimated_minutes FROM tasks WHERE id = ?').bind(task_id).first();
+      const logged = await env.DB.prepare('SELECT SUM(minutes_spent) as m FROM progress_logs WHERE task_id = ?').bind(task_id).first();
+      const spent = logged?.m || 0;
+      resp += '\n⏱️ ' + formatMinutes(spent) + ' so far';
+      if (task?.estimated_minutes) {
+        resp += ' of ' + formatMinutes(task.estimated_minutes) + ' estimated';
+        if (spent > task.estimated_minutes) resp += ' — over estimate';
+      }
+    }
+    return { content: [{ type: 'text', text: resp }] };
   });
 }
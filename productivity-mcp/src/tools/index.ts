@@ -7,11 +7,11 @@
  * CATEGORIES:
  * - helm/        → Personal productivity (tasks, sprints, workday)
  * - team/        → Team collaboration
- * - tracking/    → Work tracking (checkins, journal)
+ * - tracking/    → Work tracking (checkins, journal, timesheets)
  * - launch/      → Project launches
  * - content/     → Publishing (blog, authors)
  * - integrations/→ External services (drive, github, etc.)
- * - system/      → System tools (notes, skills, connections)
+ * - system/      → System tools (notes, skills, connections, settings, jobs, search, calendar, digests)
  * - client/      → Client-facing tools (capture portals)
  * - ai/          → AI agent integrations (Manus)
  */
@@ -33,6 +33,7 @@ import { registerHandoffTools } from './handoff';
 // === TRACKING ===
 import { registerCheckinsTools } from './checkins';
 import { registerJournalTools } from './journal';
+import { registerTimesheetTools } from './timesheets';
 
 // === LAUNCH ===
 import { registerLaunchTools } from './launch';
@@ -54,6 +55,11 @@ import { registerAnalyticsTools } from './analytics';
 // === SYSTEM ===
 import { registerNotesTools } from './notes';
 import { registerSkillsTools } from './skills';
+import { registerSettingsTools } from './settings';
+import { registerJobTools } from './jobs';
+import { registerSearchTools } from './search';
+import { registerCalendarTools } from './calendar';
+import { registerDigestTools } from './digests';
 
 // === CLIENT ===
 import { registerCaptureTools } from './capture';
@@ -76,6 +82,7 @@ export function registerAllTools(ctx: ToolContext) {
   // Tracking
   registerCheckinsTools(ctx);
   registerJournalTools(ctx);
+  registerTimesheetTools(ctx);
   
   // Launch
   registerLaunchTools(ctx);
@@ -97,6 +104,11 @@ export function registerAllTools(ctx: ToolContext) {
   // System
   registerNotesTools(ctx);
   registerSkillsTools(ctx);
+  registerSettingsTools(ctx);
+  registerJobTools(ctx);
+  registerSearchTools(ctx);
+  registerCalendarTools(ctx);
+  registerDigestTools(ctx);
   
   // Client
   registerCaptureTools(ctx);
@@ -114,6 +126,7 @@ export {
   registerHandoffTools,
   registerCheckinsTools,
   registerJournalTools,
+  registerTimesheetTools,
   registerLaunchTools,
   registerBlogTools,
   registerAuthorsTools,
@@ -127,6 +140,11 @@ export {
   registerAnalyticsTools,
   registerNotesTools,
   registerSkillsTools,
+  registerSettingsTools,
+  registerJobTools,
+  registerSearchTools,
+  registerCalendarTools,
+  registerDigestTools,
   registerCaptureTools,
   registerManusTools,
 };
@@ -0,0 +1,55 @@
+// Background job tools - inspect scheduled job history and trigger jobs by hand
+
+import { z } from "zod";
+import type { ToolContext } from '../types';
+import { JOBS, getJob, runJob, getJobRuns } from '../helpers/jobs';
+
+const STATUS_EMOJI: Record<string, string> = { success: '✅', error: '❌', running: '⏳' };
+
+export function registerJobTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool("job_history", {
+    job: z.string().optional().describe(`Filter by job: ${JOBS.map(j => j.name).join(', ')}`),
+    status: z.enum(['success', 'error', 'running']).optional().describe("Filter by run status"),
+    limit: z.number().optional().default(20),
+    show_output: z.boolean().optional().default(false).describe("Include each run's full summary (e.g. the digest text)"),
+  }, async ({ job, status, limit, show_output }) => {
+    const runs = await getJobRuns(env, getCurrentUser(), { job, status, limit });
+
+    if (runs.length === 0) {
+      let out = job || status ? 'No job runs match those filters.' : 'No job runs recorded yet. Jobs run hourly from the cron trigger.';
+      out += `\n\n**Jobs:**\n`;
+      for (const j of JOBS) out += `• ${j.name}${j.hour !== undefined ? ` (daily after ${j.hour}:00)` : j.due ? ' (on your schedule)' : ' (every run)'} - ${j.description}\n`;
+      return { content: [{ type: "text", text: out }] };
+    }
+
+    let out = `🗓️ **Job History** (${runs.length})\n\n`;
+    for (const run of runs) {
+      const duration = run.duration_ms != null ? ` · ${run.duration_ms}ms` : '';
+      out += `${STATUS_EMOJI[run.status] || '•'} **${run.job_name}** ${run.started_at.slice(0, 16).replace('T', ' ')} UTC (${run.trigger_type}${duration})\n`;
+      if (run.error) out += `   ⚠️ ${run.error}\n`;
+      else if (run.summary) {
+        const summary = show_output ? run.summary : run.summary.split('\n')[0].slice(0, 120);
+        out += `   ${summary.replace(/\n/g, '\n   ')}\n`;
+      }
+    }
+
+    return { content: [{ type: "text", text: out }] };
+  });
+
+  server.tool("run_job", {
+    job: z.string().describe(`Job to run now: ${JOBS.map(j => j.name).join(', ')}`),
+  }, async ({ job }) => {
+    const definition = getJob(job);
+    if (!definition) {
+      return { content: [{ type: "text", text: `Unknown job "${job}". Available: ${JOBS.map(j => j.name).join(', ')}` }] };
+    }
+
+    const result = await runJob(env, getCurrentUser(), definition, 'manual');
+    if (result.status === 'error') {
+      return { content: [{ type: "text", text: `❌ ${job} failed: ${result.error}` }] };
+    }
+    return { content: [{ type: "text", text: `✅ ${job}\n\n${result.summary}` }] };
+  });
+}
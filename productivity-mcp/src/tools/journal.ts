@@ -3,7 +3,8 @@
 import { z } from "zod";
 import type { ToolContext } from '../types';
 import { getValidToken, GMAIL_API_URL } from '../oauth';
-import { extractEntities, refineJournalContent, getDayOfWeek } from '../helpers/utils';
+import { extractEntities, refineJournalContent } from '../helpers/utils';
+import { getUserClock, getWeekStart, shiftDate } from '../helpers/datetime';
 
 // Mood options
 const MOOD_OPTIONS = ['anxious', 'calm', 'excited', 'frustrated', 'grateful', 'hopeful', 'sad', 'angry', 'content', 'overwhelmed', 'focused', 'scattered'] as const;
@@ -84,7 +85,7 @@ export function registerJournalTools(ctx: ToolContext) {
     const userId = getCurrentUser();
     const id = crypto.randomUUID();
     const ts = new Date().toISOString();
-    const today = ts.split('T')[0];
+    const { today } = await getUserClock(env, userId);
     
     // Refine content for Penzu
     const refinedContent = refineJournalContent(content, entry_type);
@@ -152,7 +153,7 @@ export function registerJournalTools(ctx: ToolContext) {
     entry_type: z.enum(ENTRY_TYPES).optional(),
   }, async ({ days, mood, entry_type }) => {
     const userId = getCurrentUser();
-    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const since = (await getUserClock(env, userId)).daysAgo(days);
     
     let query = 'SELECT * FROM journal_entries WHERE user_id = ? AND entry_date >= ?';
     const params: any[] = [userId, since];
@@ -247,7 +248,7 @@ export function registerJournalTools(ctx: ToolContext) {
     days: z.number().optional().default(30),
   }, async ({ query, days }) => {
     const userId = getCurrentUser();
-    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const since = (await getUserClock(env, userId)).daysAgo(days);
     const lowerQuery = query.toLowerCase();
     
     // Search in content
@@ -301,7 +302,7 @@ export function registerJournalTools(ctx: ToolContext) {
     days: z.number().optional().default(30),
   }, async ({ days }) => {
     const userId = getCurrentUser();
-    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const since = (await getUserClock(env, userId)).daysAgo(days);
     
     // Mood breakdown
     const moodStats = await env.DB.prepare(`
@@ -539,12 +540,9 @@ async function getJournalStreak(env: any, userId: string): Promise<{
   wednesday: boolean;
   friday: boolean;
 }> {
-  // Get this week's Monday
-  const now = new Date();
-  const monday = new Date(now);
-  monday.setDate(now.getDate() - now.getDay() + 1);
-  monday.setHours(0, 0, 0, 0);
-  const mondayStr = monday.toISOString().split('T')[0];
+  // Get this week's Monday (in the user's timezone)
+  const { today } = await getUserClock(env, userId);
+  const mondayStr = getWeekStart(today);
   
   // Get entries this week
   const thisWeekEntries = await env.DB.prepare(`
@@ -555,29 +553,22 @@ async function getJournalStreak(env: any, userId: string): Promise<{
   const dates = new Set((thisWeekEntries.results as any[]).map(e => e.entry_date));
   
   // Check Mon/Wed/Fri
-  const wed = new Date(monday);
-  wed.setDate(monday.getDate() + 2);
-  const fri = new Date(monday);
-  fri.setDate(monday.getDate() + 4);
-  
   const hasMonday = dates.has(mondayStr);
-  const hasWednesday = dates.has(wed.toISOString().split('T')[0]);
-  const hasFriday = dates.has(fri.toISOString().split('T')[0]);
+  const hasWednesday = dates.has(shiftDate(mondayStr, 2));
+  const hasFriday = dates.has(shiftDate(mondayStr, 4));
   
   // Calculate streak (consecutive days with entries)
   let streak = 0;
-  let checkDate = new Date();
-  checkDate.setHours(0, 0, 0, 0);
+  let dateStr = today;
   
   while (true) {
-    const dateStr = checkDate.toISOString().split('T')[0];
     const hasEntry = await env.DB.prepare(
       'SELECT 1 FROM journal_entries WHERE user_id = ? AND entry_date = ?'
     ).bind(userId, dateStr).first();
     
     if (hasEntry) {
       streak++;
-      checkDate.setDate(checkDate.getDate() - 1);
+      dateStr = shiftDate(dateStr, -1);
     } else {
       break;
     }
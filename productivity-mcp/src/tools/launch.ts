@@ -3,8 +3,11 @@
 import { z } from "zod";
 import type { ToolContext } from '../types';
 import { parseLaunchDocument } from '../helpers/launch-parser';
-import { getPreviousDate } from '../helpers/utils';
+import { getPreviousDate, parseDateInput, formatResolvedDate, DATE_INPUT_HINT } from '../helpers/utils';
+import { getUserClock, daysBetween } from '../helpers/datetime';
 import { inferFocusLevel } from '../helpers/utils';
+import { findSimilarTasks } from '../helpers/duplicates';
+import { SUMMARY_FORECAST_TRIALS, forecastCompletion, formatForecastLine } from '../helpers/forecast';
 
 export function registerLaunchTools(ctx: ToolContext) {
   const { server, env, getCurrentUser } = ctx;
@@ -112,10 +115,15 @@ export function registerLaunchTools(ctx: ToolContext) {
   server.tool("create_launch", {
     title: z.string(),
     launch_doc_ids: z.array(z.string()).describe("Array of document IDs to use"),
-    target_launch_date: z.string().optional().describe("YYYY-MM-DD format"),
+    target_launch_date: z.string().optional().describe("YYYY-MM-DD, or natural language like 'march 5' or 'in 6 weeks'"),
     genre: z.string().optional(),
     shared: z.boolean().optional().default(false),
-  }, async ({ title, launch_doc_ids, target_launch_date, genre, shared }) => {
+  }, async ({ title, launch_doc_ids, target_launch_date: targetInput, genre, shared }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const target_launch_date = targetInput ? parseDateInput(targetInput, clock.timeZone) : null;
+    if (targetInput && !target_launch_date) {
+      return { content: [{ type: "text", text: `❓ Couldn't understand target launch date "${targetInput}". ${DATE_INPUT_HINT}` }] };
+    }
     const projectId = crypto.randomUUID();
     const ts = new Date().toISOString();
     
@@ -182,9 +190,9 @@ export function registerLaunchTools(ctx: ToolContext) {
     out += `Documents: ${docs.map(d => d.name).join(', ')}\n`;
     out += `Total checklist items: ${allItems.length}\n`;
     out += `Phases: ${allPhases.join(' → ')}\n`;
-    if (target_launch_date) {
-      const days = Math.ceil((new Date(target_launch_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-      out += `Target: ${target_launch_date} (${days} days)\n`;
+    if (targetInput && target_launch_date) {
+      const days = daysBetween(clock.today, target_launch_date);
+      out += `Target: ${formatResolvedDate(targetInput, target_launch_date)} (${days} days)\n`;
     } else {
       out += `Target: Not set\n`;
     }
@@ -259,9 +267,10 @@ export function registerLaunchTools(ctx: ToolContext) {
       LIMIT 30
     `).bind(project.id).all();
     
+    const clock = await getUserClock(env, getCurrentUser());
+    const { today } = clock;
     let streak = 0;
     if (streakResult.results.length > 0) {
-      const today = new Date().toISOString().split('T')[0];
       let checkDate = today;
       for (const row of streakResult.results as any[]) {
         if (row.post_date === checkDate || row.post_date === getPreviousDate(checkDate)) {
@@ -278,14 +287,19 @@ export function registerLaunchTools(ctx: ToolContext) {
     out += `Phase: ${project.current_phase} (${phaseStats.results.findIndex((p: any) => p.phase === project.current_phase) + 1} of ${phaseStats.results.length})\n`;
     
     if (project.target_launch_date) {
-      const days = Math.ceil((new Date(project.target_launch_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+      const days = daysBetween(today, project.target_launch_date);
       out += `Target: ${project.target_launch_date} (${days} days)\n`;
     }
     
     const totalDone = phaseStats.results.reduce((sum: number, p: any) => sum + p.done, 0);
     const totalItems = phaseStats.results.reduce((sum: number, p: any) => sum + p.total, 0);
     const pct = totalItems > 0 ? Math.round((totalDone / totalItems) * 100) : 0;
-    out += `Progress: ${totalDone}/${totalItems} complete (${pct}%)\n\n`;
+    out += `Progress: ${totalDone}/${totalItems} complete (${pct}%)\n`;
+    if (totalDone < totalItems) {
+      const forecast = await forecastCompletion(env, getCurrentUser(), clock, { launchId: project.id }, { trials: SUMMARY_FORECAST_TRIALS });
+      if (!('error' in forecast)) out += `${formatForecastLine(forecast)}\n`;
+    }
+    out += `\n`;
     
     // Phase breakdown
     out += `**${project.current_phase.toUpperCase()} PHASE:**\n`;
@@ -335,19 +349,26 @@ export function registerLaunchTools(ctx: ToolContext) {
       return { content: [{ type: "text", text: "📋 No active launch projects" }] };
     }
     
+    const clock = await getUserClock(env, getCurrentUser());
+    const { today } = clock;
     let out = '📋 **All Active Launches**\n\n';
     
     for (const p of projects.results as any[]) {
       const pct = p.total_items > 0 ? Math.round((p.done_items / p.total_items) * 100) : 0;
       let days = '';
       if (p.target_launch_date) {
-        const d = Math.ceil((new Date(p.target_launch_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+        const d = daysBetween(today, p.target_launch_date);
         days = ` | ${d} days`;
       }
       
       out += `**${p.title}** (${p.user_id})\n`;
       out += `  Phase: ${p.current_phase} | ${pct}% complete${days}\n`;
-      out += `  Status: ${p.status}\n\n`;
+      out += `  Status: ${p.status}\n`;
+      if (p.done_items < p.total_items) {
+        const forecast = await forecastCompletion(env, getCurrentUser(), clock, { launchId: p.id }, { trials: SUMMARY_FORECAST_TRIALS });
+        if (!('error' in forecast)) out += `  ${formatForecastLine(forecast).replace('\n', '\n  ')}\n`;
+      }
+      out += `\n`;
     }
     
     return { content: [{ type: "text", text: out }] };
@@ -377,7 +398,7 @@ export function registerLaunchTools(ctx: ToolContext) {
     }
     
     const now = new Date();
-    const today = now.toISOString().split('T')[0];
+    const { today } = await getUserClock(env, getCurrentUser(), now);
     let out = '';
     
     for (const project of projects as any[]) {
@@ -652,7 +673,8 @@ export function registerLaunchTools(ctx: ToolContext) {
   server.tool("surface_launch_tasks", {
     project_id: z.string(),
     count: z.number().optional().default(5),
-  }, async ({ project_id, count }) => {
+    force: z.boolean().optional().default(false).describe("Create tasks even for items that look like an existing open task (otherwise they're linked to it)"),
+  }, async ({ project_id, count, force }) => {
     const project = await env.DB.prepare('SELECT * FROM launch_projects WHERE id = ?').bind(project_id).first();
     if (!project) {
       return { content: [{ type: "text", text: "⛔ Project not found" }] };
@@ -675,8 +697,19 @@ export function registerLaunchTools(ctx: ToolContext) {
     
     const ts = new Date().toISOString();
     const surfaced: string[] = [];
+    const linked: string[] = [];
     
     for (const item of candidates.results as any[]) {
+      if (!force) {
+        // Link the item to the task you already have, so it isn't offered again on every call
+        const similar = await findSimilarTasks(env, getCurrentUser(), item.item_text, { limit: 1 });
+        if (similar.length > 0) {
+          await env.DB.prepare('UPDATE launch_checklist SET task_id = ? WHERE id = ?').bind(similar[0].task.id, item.id).run();
+          linked.push(`• ${item.item_text} → "${similar[0].task.text}" (ID: ${similar[0].task.id})`);
+          continue;
+        }
+      }
+
       // Create task
       const taskId = crypto.randomUUID();
       const tags = JSON.parse(item.tags || '[]');
@@ -696,7 +729,12 @@ export function registerLaunchTools(ctx: ToolContext) {
       surfaced.push(`• ${item.item_text}${tagStr}`);
     }
     
-    return { content: [{ type: "text", text: `✅ Surfaced ${surfaced.length} items to your task list:\n\n${surfaced.join('\n')}` }] };
+    let out = surfaced.length > 0 ? `✅ Surfaced ${surfaced.length} items to your task list:\n\n${surfaced.join('\n')}` : '✅ Nothing new surfaced.';
+    if (linked.length > 0) {
+      out += `\n\n♊ Linked ${linked.length} to tasks you already have instead of creating duplicates:\n${linked.join('\n')}`;
+      out += `\n💡 Use force: true to always create new tasks`;
+    }
+    return { content: [{ type: "text", text: out }] };
   });
 
   server.tool("complete_checklist_item", {
@@ -826,7 +864,7 @@ export function registerLaunchTools(ctx: ToolContext) {
     metrics: z.record(z.record(z.number())).describe("{ type: { name: value } }"),
   }, async ({ project_id, metrics }) => {
     const ts = new Date().toISOString();
-    const today = ts.split('T')[0];
+    const { today } = await getUserClock(env, getCurrentUser());
     
     let logged: string[] = [];
     
@@ -847,7 +885,7 @@ export function registerLaunchTools(ctx: ToolContext) {
     metric_type: z.string().optional(),
     days: z.number().optional().default(30),
   }, async ({ project_id, metric_type, days }) => {
-    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const since = (await getUserClock(env, getCurrentUser())).daysAgo(days);
     
     let query = 'SELECT * FROM launch_metrics WHERE project_id = ? AND recorded_date >= ?';
     const params: any[] = [project_id, since];
@@ -889,7 +927,7 @@ export function registerLaunchTools(ctx: ToolContext) {
     notes: z.string().optional(),
   }, async ({ project_id, scripted, filmed, edited, scheduled, platform, notes }) => {
     const ts = new Date().toISOString();
-    const today = ts.split('T')[0];
+    const { today } = await getUserClock(env, getCurrentUser());
     
     await env.DB.prepare(
       'INSERT INTO content_batches (id, project_id, user_id, batch_date, platform, videos_scripted, videos_filmed, videos_edited, videos_scheduled, notes, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
@@ -916,7 +954,7 @@ export function registerLaunchTools(ctx: ToolContext) {
     notes: z.string().optional(),
   }, async ({ project_id, platform, count, notes }) => {
     const ts = new Date().toISOString();
-    const today = ts.split('T')[0];
+    const { today } = await getUserClock(env, getCurrentUser());
     
     await env.DB.prepare(
       'INSERT INTO posting_log (id, project_id, user_id, post_date, platform, post_count, notes, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
@@ -952,6 +990,7 @@ export function registerLaunchTools(ctx: ToolContext) {
     platform: z.string().optional(),
   }, async ({ project_id, platform }) => {
     const platforms = platform ? [platform] : ['tiktok', 'email', 'substack', 'instagram', 'youtube'];
+    const { today } = await getUserClock(env, getCurrentUser());
     let out = '🔥 **Posting Streaks**\n\n';
     
     for (const p of platforms) {
@@ -965,7 +1004,6 @@ export function registerLaunchTools(ctx: ToolContext) {
       if (streakResult.results.length === 0) continue;
       
       let streak = 0;
-      const today = new Date().toISOString().split('T')[0];
       let checkDate = today;
       
       for (const row of streakResult.results as any[]) {
@@ -997,7 +1035,7 @@ export function registerLaunchTools(ctx: ToolContext) {
     next_week_focus: z.string(),
   }, async ({ project_id, wins, struggles, patterns, next_week_focus }) => {
     const ts = new Date().toISOString();
-    const today = ts.split('T')[0];
+    const { today } = await getUserClock(env, getCurrentUser());
     
     // Get week number
     const startOfYear = new Date(new Date().getFullYear(), 0, 1);
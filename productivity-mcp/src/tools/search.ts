@@ -0,0 +1,34 @@
+// Search tool - one ranked full-text search across everything the user has written
+
+import { z } from "zod";
+import type { ToolContext } from '../types';
+import { getUserClock } from '../helpers/datetime';
+import { SEARCH_TYPES, SEARCH_TYPE_LABELS, searchEverything } from '../helpers/search';
+
+export function registerSearchTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool("search_everything", {
+    query: z.string().describe('Words to find. Words match prefixes ("launch" finds "launches"), "quoted phrases" match exactly, OR widens the search'),
+    types: z.array(z.enum(SEARCH_TYPES)).optional().describe("Only these kinds of items (default: all)"),
+    since: z.string().optional().describe('On or after (YYYY-MM-DD or "last monday", "30 days ago"...)'),
+    until: z.string().optional().describe("On or before"),
+    limit: z.number().int().min(1).max(100).optional().default(20),
+  }, async ({ query, types, since, until, limit }) => {
+    const { timeZone } = await getUserClock(env, getCurrentUser());
+    const found = await searchEverything(env, getCurrentUser(), query, timeZone, { types, since, until, limit });
+    if ('error' in found) return { content: [{ type: "text", text: `❓ ${found.error}` }] };
+
+    const { results } = found;
+    if (results.length === 0) return { content: [{ type: "text", text: `🔎 Nothing found for "${query}".` }] };
+
+    let out = `🔎 **${results.length} result${results.length === 1 ? '' : 's'} for "${query}"**\n\n`;
+    for (const r of results) {
+      out += `${SEARCH_TYPE_LABELS[r.type]} · ${r.date}${r.shared ? ' · shared' : ''}\n`;
+      out += `**${r.title}**\n`;
+      if (r.snippet) out += `   ${r.snippet.replace(/\s+/g, ' ').trim()}\n`;
+      out += `   ID: ${r.id}\n\n`;
+    }
+    return { content: [{ type: "text", text: out.trimEnd() }] };
+  });
+}
@@ -0,0 +1,77 @@
+// User settings tools - timezone and other per-user preferences
+
+import { z } from "zod";
+import type { ToolContext } from '../types';
+import { getUserClock, isValidTimezone, setUserTimezone, clockFor } from '../helpers/datetime';
+import { getTrashRetentionDays, setTrashRetentionDays } from '../helpers/trash';
+import { getDailyCapacity, setDailyCapacity, formatMinutes } from '../helpers/planning';
+import { getAutoCompleteParents, setAutoCompleteParents } from '../helpers/subtasks';
+import { getPatternSettings, setPatternSettings, describePatternSettings } from '../helpers/patterns';
+
+export function registerSettingsTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool("get_settings", {}, async () => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const localTime = new Date().toLocaleTimeString('en-US', { timeZone: clock.timeZone, hour: 'numeric', minute: '2-digit' });
+
+    let out = `⚙️ **Settings for ${getCurrentUser()}**\n\n`;
+    out += `🌍 Timezone: ${clock.timeZone}\n`;
+    out += `📅 Today: ${clock.today} (${clock.dayName})\n`;
+    out += `⏰ Local time: ${localTime}\n`;
+    out += `🗑️ Trash kept: ${await getTrashRetentionDays(env, getCurrentUser())} days\n`;
+    out += `⏱️ Daily capacity: ${formatMinutes(await getDailyCapacity(env, getCurrentUser()))} of task work\n`;
+    out += `🌳 Parent tasks: ${await getAutoCompleteParents(env, getCurrentUser()) ? 'completed automatically with their last subtask' : 'suggested for completion with their last subtask'}\n`;
+    out += `🔬 Pattern analysis: ${describePatternSettings(await getPatternSettings(env, getCurrentUser()))}\n`;
+    return { content: [{ type: "text", text: out }] };
+  });
+
+  server.tool("set_timezone", {
+    timezone: z.string().describe("IANA timezone name, e.g. 'America/New_York', 'Europe/London', 'Asia/Tokyo'"),
+  }, async ({ timezone }) => {
+    const tz = timezone.trim();
+    if (!isValidTimezone(tz)) {
+      return { content: [{ type: "text", text: `❓ Unknown timezone "${tz}". Use an IANA name like 'America/Chicago' or 'Europe/Berlin'.` }] };
+    }
+
+    await setUserTimezone(env, getCurrentUser(), tz);
+    const clock = clockFor(tz);
+    return { content: [{ type: "text", text: `🌍 Timezone set to ${tz}\nToday is ${clock.today} (${clock.dayName}) for you.` }] };
+  });
+
+  server.tool("set_trash_retention", {
+    days: z.number().int().min(1).max(365).describe("How many days deleted tasks stay restorable before they're purged"),
+  }, async ({ days }) => {
+    await setTrashRetentionDays(env, getCurrentUser(), days);
+    return { content: [{ type: "text", text: `🗑️ Deleted tasks will be kept ${days} days before they're purged for good.` }] };
+  });
+
+  server.tool("set_daily_capacity", {
+    minutes: z.number().int().min(30).max(960).describe("Minutes of task work you can realistically do in a day (meetings and breaks excluded)"),
+  }, async ({ minutes }) => {
+    await setDailyCapacity(env, getCurrentUser(), minutes);
+    return { content: [{ type: "text", text: `⏱️ Daily capacity set to ${formatMinutes(minutes)}. plan_week will fill each day up to that.` }] };
+  });
+
+  server.tool("set_auto_complete_parents", {
+    enabled: z.boolean().describe("Complete a parent task automatically when its last open subtask is completed"),
+  }, async ({ enabled }) => {
+    await setAutoCompleteParents(env, getCurrentUser(), enabled);
+    const text = enabled
+      ? `🌳 Parent tasks will now be completed automatically when their last subtask is done.`
+      : `🌳 Parent tasks stay open when their last subtask is done - complete_task will suggest closing them.`;
+    return { content: [{ type: "text", text }] };
+  });
+
+  server.tool("set_pattern_analysis", {
+    window_days: z.number().int().min(7).max(365).optional().describe("How many days of history analyze_patterns looks at"),
+    min_samples: z.number().int().min(2).max(100).optional().describe("Fewest observations (completions, tasks, journal entries) behind a pattern"),
+    min_confidence: z.number().min(0.5).max(0.99).optional().describe("Confidence (0-1) a pattern needs to be stored; stored patterns expire when they fade below it"),
+    half_life_days: z.number().int().min(1).max(180).optional().describe("Days for an unconfirmed pattern to lose half its confidence"),
+  }, async ({ window_days, min_samples, min_confidence, half_life_days }) => {
+    const settings = await setPatternSettings(env, getCurrentUser(), {
+      windowDays: window_days, minSamples: min_samples, minConfidence: min_confidence, halfLifeDays: half_life_days,
+    });
+    return { content: [{ type: "text", text: `🔬 Pattern analysis: ${describePatternSettings(settings)}\nRun analyze_patterns to re-test with these settings.` }] };
+  });
+}
@@ -3,37 +3,31 @@
 
 import { z } from "zod";
 import type { ToolContext } from '../types';
+import { parseDateInput, formatResolvedDate, DATE_INPUT_HINT } from '../helpers/utils';
+import { getUserClock, getTodayInTimezone, daysBetween, dayOfWeekOf } from '../helpers/datetime';
+import { getSubtaskProgress, formatSubtaskProgress, nestTasks, flattenTaskTree } from '../helpers/subtasks';
+import {
+  countWorkDays, getSprintTasks, getSprintBurndown, getVelocityHistory, sprintCapacity, overloadWarning,
+  getUnfinishedByObjective, endSprint, saveRetroNotes, listRetros,
+} from '../helpers/sprints';
+import { SUMMARY_FORECAST_TRIALS, forecastCompletion, formatForecastLine } from '../helpers/forecast';
 
-// Helper: Calculate days remaining until end date
-function getDaysRemaining(endDate: string): number {
-  const end = new Date(endDate);
-  const now = new Date();
-  now.setHours(0, 0, 0, 0);
-  return Math.ceil((end.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Helper: Calculate days remaining until end date (today = the user's local date)
+function getDaysRemaining(endDate: string, today: string): number {
+  return daysBetween(today, endDate);
 }
 
 // Helper: Calculate work days remaining (excludes weekends)
-function getWorkDaysRemaining(endDate: string): number {
-  const end = new Date(endDate);
-  const now = new Date();
-  now.setHours(0, 0, 0, 0);
-  
-  let workDays = 0;
-  const current = new Date(now);
-  
-  while (current <= end) {
-    const day = current.getDay();
-    if (day !== 0 && day !== 6) workDays++;
-    current.setDate(current.getDate() + 1);
-  }
-  
-  return workDays;
+function getWorkDaysRemaining(endDate: string, today: string): number {
+  return countWorkDays(today, endDate.split('T')[0]);
 }
 
 // Exported for use in bethany.ts
-export function formatSprintHeader(sprint: any): string {
-  const daysRemaining = getDaysRemaining(sprint.end_date);
-  const workDaysRemaining = getWorkDaysRemaining(sprint.end_date);
+export function formatSprintHeader(sprint: any, today: string = getTodayInTimezone()): string {
+  const daysRemaining = getDaysRemaining(sprint.end_date, today);
+  const workDaysRemaining = getWorkDaysRemaining(sprint.end_date, today);
   
   let header = `📋 **${sprint.name}**\n`;
   header += `📅 Ends: ${sprint.end_date}\n`;
@@ -50,7 +44,7 @@ export function formatSprintHeader(sprint: any): string {
 }
 
 // Exported for use in bethany.ts
-export function calculateSprintProgress(sprint: any, objectives: any[], tasksByObjective: Map<string, any[]>): {
+export function calculateSprintProgress(sprint: any, objectives: any[], tasksByObjective: Map<string, any[]>, today: string = getTodayInTimezone()): {
   totalTasks: number;
   completedTasks: number;
   daysRemaining: number;
@@ -66,8 +60,8 @@ export function calculateSprintProgress(sprint: any, objectives: any[], tasksByO
     completedTasks += tasks.filter((t: any) => t.status === 'done').length;
   }
   
-  const daysRemaining = getDaysRemaining(sprint.end_date);
-  const workDaysRemaining = getWorkDaysRemaining(sprint.end_date);
+  const daysRemaining = getDaysRemaining(sprint.end_date, today);
+  const workDaysRemaining = getWorkDaysRemaining(sprint.end_date, today);
   const remaining = totalTasks - completedTasks;
   
   let velocity = '0';
@@ -87,8 +81,14 @@ export function registerSprintTools(ctx: ToolContext) {
 
   server.tool("create_sprint", {
     name: z.string().describe("Sprint name (e.g., 'January Sprint', 'This Week', 'Q1 Push')"),
-    end_date: z.string().describe("When the sprint ends (YYYY-MM-DD)"),
-  }, async ({ name, end_date }) => {
+    end_date: z.string().describe("When the sprint ends (YYYY-MM-DD, or natural language like 'friday', 'in 2 weeks', 'end of month')"),
+    expected_tasks: z.number().int().min(1).optional().describe("How many tasks you plan to pull in - checked against your velocity from past sprints"),
+  }, async ({ name, end_date: endDateInput, expected_tasks }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const end_date = parseDateInput(endDateInput, clock.timeZone);
+    if (!end_date) {
+      return { content: [{ type: "text", text: `❓ Couldn't understand end date "${endDateInput}". ${DATE_INPUT_HINT}` }] };
+    }
     const ts = new Date().toISOString();
     const id = crypto.randomUUID();
     
@@ -96,12 +96,20 @@ export function registerSprintTools(ctx: ToolContext) {
       'INSERT INTO sprints (id, user_id, name, end_date, status, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
     ).bind(id, getCurrentUser(), name, end_date, 'active', ts, ts).run();
     
-    const daysRemaining = getDaysRemaining(end_date);
-    const workDaysRemaining = getWorkDaysRemaining(end_date);
+    const daysRemaining = getDaysRemaining(end_date, clock.today);
+    const workDaysRemaining = getWorkDaysRemaining(end_date, clock.today);
     
     let out = `✅ **Sprint Created: ${name}**\n\n`;
-    out += `📅 Ends: ${end_date}\n`;
+    out += `📅 Ends: ${formatResolvedDate(endDateInput, end_date)}\n`;
     out += `⏳ ${daysRemaining} days (${workDaysRemaining} work days)\n`;
+
+    const velocity = await getVelocityHistory(env, getCurrentUser(), clock.timeZone);
+    const capacity = sprintCapacity(velocity, workDaysRemaining);
+    if (capacity !== null) {
+      out += `📈 At your pace (${velocity.average} tasks/work day) about ${capacity} tasks fit\n`;
+      const warning = expected_tasks ? overloadWarning(expected_tasks, velocity, workDaysRemaining) : null;
+      if (warning) out += `\n${warning} - consider fewer objectives or a later end date\n`;
+    }
     out += `\n💡 Now add objectives with \`add_objective\` - what are you pushing for?`;
     
     return { content: [{ type: "text", text: out }] };
@@ -223,6 +231,15 @@ export function registerSprintTools(ctx: ToolContext) {
     let out = `✅ Pulled into sprint:\n\n`;
     out += `📋 "${task.text}"\n`;
     out += `▸ ${objective.statement}\n`;
+
+    const sprint = await env.DB.prepare('SELECT * FROM sprints WHERE id = ?').bind(objective.sprint_id).first();
+    if (sprint?.status === 'active') {
+      const clock = await getUserClock(env, getCurrentUser());
+      const openTasks = (await getSprintTasks(env, getCurrentUser(), sprint.id)).filter(t => t.status === 'open').length;
+      const velocity = await getVelocityHistory(env, getCurrentUser(), clock.timeZone);
+      const warning = overloadWarning(openTasks, velocity, getWorkDaysRemaining(sprint.end_date, clock.today));
+      if (warning) out += `\n${warning}\n`;
+    }
     out += `\n💡 Use \`activate_task\` when ready to work on it today.`;
     
     return { content: [{ type: "text", text: out }] };
@@ -293,7 +310,9 @@ export function registerSprintTools(ctx: ToolContext) {
     let totalTasks = 0;
     let completedTasks = 0;
     
-    let out = formatSprintHeader(sprint);
+    const { today } = await getUserClock(env, getCurrentUser());
+    const subtaskProgress = await getSubtaskProgress(env, getCurrentUser());
+    let out = formatSprintHeader(sprint, today);
     out += `\n`;
     
     if (objectives.results.length === 0) {
@@ -303,7 +322,7 @@ export function registerSprintTools(ctx: ToolContext) {
       for (const obj of objectives.results as any[]) {
         // Get tasks for this objective - FIX: Added user_id filter
         const tasks = await env.DB.prepare(
-          'SELECT * FROM tasks WHERE objective_id = ? AND user_id = ? ORDER BY status ASC, is_active DESC, priority DESC, created_at ASC'
+          "SELECT * FROM tasks WHERE objective_id = ? AND user_id = ? AND status != 'deleted' ORDER BY status ASC, is_active DESC, priority DESC, created_at ASC"
         ).bind(obj.id, getCurrentUser()).all();
         
         const objTasks = tasks.results as any[];
@@ -325,11 +344,12 @@ export function registerSprintTools(ctx: ToolContext) {
         if (objTasks.length === 0) {
           out += `   (no tasks yet)\n`;
         } else {
-          for (const t of objTasks) {
+          for (const { task: t, depth } of flattenTaskTree(nestTasks(objTasks))) {
             const status = t.status === 'done' ? '✓' : t.is_active ? '●' : '○';
             const priority = t.priority >= 4 ? ' 🔴' : '';
             const active = t.is_active ? ' 🎯' : '';
-            out += `   ${status} ${t.text}${priority}${active}\n`;
+            const indent = '   '.repeat(depth + 1) + (depth > 0 ? '↳ ' : '');
+            out += `${indent}${status} ${t.text}${formatSubtaskProgress(subtaskProgress.get(t.id))}${priority}${active}\n`;
           }
         }
       }
@@ -340,12 +360,20 @@ export function registerSprintTools(ctx: ToolContext) {
     const pct = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
     out += `📊 Progress: ${completedTasks}/${totalTasks} tasks (${pct}%)\n`;
     
-    const daysRemaining = getDaysRemaining(sprint.end_date);
+    const daysRemaining = getDaysRemaining(sprint.end_date, today);
     const remaining = totalTasks - completedTasks;
     if (remaining > 0 && daysRemaining > 0) {
       const velocity = (remaining / daysRemaining).toFixed(1);
       out += `📈 Need ${velocity} tasks/day to finish on time\n`;
     }
+    if (sprint.status === 'active' && remaining > 0) {
+      const clock = await getUserClock(env, getCurrentUser());
+      const warning = overloadWarning(remaining, await getVelocityHistory(env, getCurrentUser(), clock.timeZone), getWorkDaysRemaining(sprint.end_date, today));
+      if (warning) out += `${warning}\n`;
+      const forecast = await forecastCompletion(env, getCurrentUser(), clock, { sprintId: sprint.id }, { trials: SUMMARY_FORECAST_TRIALS });
+      if (!('error' in forecast)) out += `${formatForecastLine(forecast)}\n`;
+    }
+    out += `💡 \`sprint_burndown\` for the day-by-day chart\n`;
     
     return { content: [{ type: "text", text: out }] };
   });
@@ -372,11 +400,12 @@ export function registerSprintTools(ctx: ToolContext) {
       }] };
     }
     
+    const { today } = await getUserClock(env, getCurrentUser());
     let out = `📋 **Sprints** (${status})\n\n`;
     
     for (const s of sprints.results as any[]) {
       const statusIcon = s.status === 'active' ? '🟢' : s.status === 'completed' ? '✅' : '❌';
-      const daysRemaining = getDaysRemaining(s.end_date);
+      const daysRemaining = getDaysRemaining(s.end_date, today);
       const daysText = daysRemaining < 0 ? `ended ${Math.abs(daysRemaining)}d ago` : `${daysRemaining}d left`;
       out += `${statusIcon} **${s.name}** (${s.status})\n`;
       out += `   Ends: ${s.end_date} (${daysText})\n`;
@@ -387,10 +416,16 @@ export function registerSprintTools(ctx: ToolContext) {
 
   server.tool("update_sprint", {
     sprint_id: z.string().optional().describe("Sprint ID (defaults to most recent active sprint)"),
-    status: z.enum(['active', 'completed', 'abandoned']).optional(),
-    end_date: z.string().optional().describe("New end date (YYYY-MM-DD)"),
+    status: z.enum(['active', 'completed', 'abandoned']).optional().describe("Use end_sprint to complete or abandon a sprint"),
+    end_date: z.string().optional().describe("New end date (YYYY-MM-DD, or natural language like 'next friday')"),
     name: z.string().optional().describe("New name"),
-  }, async ({ sprint_id, status, end_date, name }) => {
+  }, async ({ sprint_id, status, end_date: endDateInput, name }) => {
+    const { timeZone } = await getUserClock(env, getCurrentUser());
+    const end_date = endDateInput ? parseDateInput(endDateInput, timeZone) : null;
+    if (endDateInput && !end_date) {
+      return { content: [{ type: "text", text: `❓ Couldn't understand end date "${endDateInput}". ${DATE_INPUT_HINT}` }] };
+    }
+
     let sprint: any;
     if (sprint_id) {
       sprint = await env.DB.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(sprint_id, getCurrentUser()).first();
@@ -399,6 +434,10 @@ export function registerSprintTools(ctx: ToolContext) {
     }
     
     if (!sprint) return { content: [{ type: "text", text: "Sprint not found" }] };
+    // Ending goes through end_sprint so unfinished work is carried over and the retro and final burndown point are recorded
+    if ((status === 'completed' || status === 'abandoned') && status !== sprint.status) {
+      return { content: [{ type: "text", text: `⛔ Use end_sprint with status: "${status}" to end "${sprint.name}" - it handles unfinished tasks and the retro` }] };
+    }
     
     const updates: string[] = [];
     const bindings: any[] = [];
@@ -417,7 +456,7 @@ export function registerSprintTools(ctx: ToolContext) {
     
     let out = `✏️ Updated sprint: "${sprint.name}"`;
     if (status) out += `\nStatus: ${status}`;
-    if (end_date) out += `\nNew end date: ${end_date}`;
+    if (endDateInput && end_date) out += `\nNew end date: ${formatResolvedDate(endDateInput, end_date)}`;
     if (name) out += `\nNew name: ${name}`;
     
     return { content: [{ type: "text", text: out }] };
@@ -426,9 +465,13 @@ export function registerSprintTools(ctx: ToolContext) {
   server.tool("end_sprint", {
     sprint_id: z.string().optional().describe("Sprint ID (defaults to most recent active sprint)"),
     status: z.enum(['completed', 'abandoned']).optional().default('completed'),
-  }, async ({ sprint_id, status }) => {
-    const ts = new Date().toISOString();
-    
+    carry_over: z.enum(['new_sprint', 'return']).optional().describe("Unfinished tasks: 'new_sprint' moves them into a new sprint under the same objectives, 'return' sends them back to their original categories"),
+    next_sprint_name: z.string().optional().describe("Name for the carry-over sprint (default: '<name> (continued)')"),
+    next_end_date: z.string().optional().describe("End date for the carry-over sprint (YYYY-MM-DD or natural language like 'in 2 weeks')"),
+    wins: z.string().optional().describe("Retro: what went well"),
+    misses: z.string().optional().describe("Retro: what didn't get done or went badly"),
+    lessons: z.string().optional().describe("Retro: what to do differently next sprint"),
+  }, async ({ sprint_id, status, carry_over, next_sprint_name, next_end_date, wins, misses, lessons }) => {
     let sprint: any;
     if (sprint_id) {
       sprint = await env.DB.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(sprint_id, getCurrentUser()).first();
@@ -437,42 +480,179 @@ export function registerSprintTools(ctx: ToolContext) {
     }
     
     if (!sprint) return { content: [{ type: "text", text: "No active sprint found" }] };
+    if (sprint.status !== 'active') return { content: [{ type: "text", text: `"${sprint.name}" already ended (${sprint.status}). Use \`sprint_retro\` to add notes to its retro.` }] };
+    
+    const clock = await getUserClock(env, getCurrentUser());
+    const unfinished = await getUnfinishedByObjective(env, getCurrentUser(), sprint.id);
+    const unfinishedCount = unfinished.reduce((n, g) => n + g.tasks.length, 0);
+    
+    // Unfinished work needs a decision before the sprint closes
+    if (unfinishedCount > 0 && !carry_over) {
+      let out = `❓ "${sprint.name}" has ${unfinishedCount} unfinished task(s):\n`;
+      for (const { objective, tasks } of unfinished) {
+        out += `\n▸ ${objective.statement}\n`;
+        for (const t of tasks) out += `   ○ ${t.text}\n`;
+      }
+      out += `\nRun end_sprint again with:\n`;
+      out += `• carry_over: "new_sprint" and next_end_date - carry them into a new sprint, objectives kept\n`;
+      out += `• carry_over: "return" - send them back to their original categories\n`;
+      out += `\n💡 Add wins, misses and lessons in the same call to record the retro`;
+      return { content: [{ type: "text", text: out }] };
+    }
     
-    // Get all objectives for this sprint
-    const objectives = await env.DB.prepare(
-      'SELECT id FROM objectives WHERE sprint_id = ?'
-    ).bind(sprint.id).all();
-    
-    const objectiveIds = (objectives.results as any[]).map(o => o.id);
-    
-    // Find incomplete tasks and return them to their original categories
-    // FIX: Added user_id filter to only affect current user's tasks
-    let returnedCount = 0;
-    if (objectiveIds.length > 0) {
-      const placeholders = objectiveIds.map(() => '?').join(',');
-      const incompleteTasks = await env.DB.prepare(
-        `SELECT * FROM tasks WHERE objective_id IN (${placeholders}) AND user_id = ? AND status = 'open'`
-      ).bind(...objectiveIds, getCurrentUser()).all();
-      
-      for (const task of incompleteTasks.results as any[]) {
-        const restoreCategory = task.original_category || task.category || 'General';
-        await env.DB.prepare(
-          'UPDATE tasks SET objective_id = NULL, category = ?, last_touched = ? WHERE id = ?'
-        ).bind(restoreCategory, ts, task.id).run();
-        returnedCount++;
+    let nextSprint: { name: string; endDate: string } | undefined;
+    if (carry_over === 'new_sprint') {
+      const endDate = next_end_date ? parseDateInput(next_end_date, clock.timeZone) : null;
+      if (!endDate) {
+        return { content: [{ type: "text", text: next_end_date ? `❓ Couldn't understand end date "${next_end_date}". ${DATE_INPUT_HINT}` : "❓ carry_over: \"new_sprint\" needs next_end_date for the new sprint" }] };
       }
+      nextSprint = { name: next_sprint_name || `${sprint.name} (continued)`, endDate };
     }
     
-    // Mark sprint as complete/abandoned
-    await env.DB.prepare(
-      'UPDATE sprints SET status = ?, updated_at = ? WHERE id = ?'
-    ).bind(status, ts, sprint.id).run();
+    const result = await endSprint(env, getCurrentUser(), sprint, clock, {
+      status,
+      carryOver: carry_over || 'return',
+      nextSprint,
+      retro: { wins, misses, lessons },
+    });
+    const { stats } = result;
     
     let out = `✅ Sprint "${sprint.name}" ${status}\n`;
-    if (returnedCount > 0) {
-      out += `\n📤 ${returnedCount} incomplete task(s) returned to their original categories.`;
+    out += `📊 Finished ${stats.completed}/${stats.total} tasks (${stats.completion_pct}%)`;
+    if (status === 'completed') out += ` · ${stats.per_work_day.toFixed(1)} tasks/work day`;
+    out += `\n`;
+    if (result.nextSprint) {
+      out += `\n➡️ ${stats.carried_over} task(s) carried into "${result.nextSprint.name}" (ends ${formatResolvedDate(next_end_date!, result.nextSprint.end_date)})`;
+      out += `\n   ID: ${result.nextSprint.id}\n`;
+    }
+    if (stats.returned > 0) {
+      out += `\n📤 ${stats.returned} incomplete task(s) returned to their original categories.\n`;
+    }
+    
+    if (wins || misses || lessons) {
+      out += `\n📝 Retro saved`;
+    } else {
+      out += `\n💡 What went well, what slipped, what would you change? Record it with \`sprint_retro\``;
     }
     
+    return { content: [{ type: "text", text: out.trimEnd() }] };
+  });
+
+  server.tool("sprint_retro", {
+    sprint_id: z.string().optional().describe("Sprint ID (defaults to the most recently ended sprint)"),
+    wins: z.string().optional().describe("What went well"),
+    misses: z.string().optional().describe("What didn't get done or went badly"),
+    lessons: z.string().optional().describe("What to do differently next sprint"),
+  }, async ({ sprint_id, wins, misses, lessons }) => {
+    if (wins === undefined && misses === undefined && lessons === undefined) {
+      return { content: [{ type: "text", text: "❓ Give at least one of wins, misses or lessons" }] };
+    }
+
+    let sprint: any;
+    if (sprint_id) {
+      sprint = await env.DB.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(sprint_id, getCurrentUser()).first();
+    } else {
+      sprint = await env.DB.prepare("SELECT * FROM sprints WHERE user_id = ? AND status != 'active' ORDER BY updated_at DESC LIMIT 1").bind(getCurrentUser()).first();
+    }
+    if (!sprint) return { content: [{ type: "text", text: "No ended sprint found" }] };
+    if (sprint.status === 'active') return { content: [{ type: "text", text: `"${sprint.name}" is still running - retros are for ended sprints. Pass wins/misses/lessons to \`end_sprint\` when you close it.` }] };
+
+    const clock = await getUserClock(env, getCurrentUser());
+    await saveRetroNotes(env, getCurrentUser(), sprint, { wins, misses, lessons }, clock);
+    return { content: [{ type: "text", text: `📝 Retro for "${sprint.name}" updated\n💡 \`list_retros\` to look back across sprints` }] };
+  });
+
+  server.tool("list_retros", {
+    sprint_id: z.string().optional().describe("Show just this sprint's retro"),
+    limit: z.number().int().min(1).max(50).optional().default(5),
+  }, async ({ sprint_id, limit }) => {
+    const retros = await listRetros(env, getCurrentUser(), { sprintId: sprint_id, limit });
+    if (retros.length === 0) {
+      return { content: [{ type: "text", text: sprint_id ? "No retro for that sprint yet." : "No retros yet - they're recorded when you `end_sprint`." }] };
+    }
+
+    let out = `🔁 **Sprint retros**\n`;
+    for (const r of retros) {
+      const stats = r.stats;
+      out += `\n**${r.sprint_name}** (ended ${r.created_at.split('T')[0]}${stats.status === 'abandoned' ? ', abandoned' : ''})\n`;
+      if (stats.total !== undefined) {
+        out += `📊 ${stats.completed}/${stats.total} tasks (${stats.completion_pct}%) · ${stats.per_work_day}/work day`;
+        if (stats.carried_over > 0) out += ` · ➡️ ${stats.carried_over} carried to "${r.carried_to_name || 'next sprint'}"`;
+        if (stats.returned > 0) out += ` · 📤 ${stats.returned} returned`;
+        out += `\n`;
+        for (const o of stats.objectives || []) {
+          out += `   ${o.completed === o.total && o.total > 0 ? '✅' : o.completed > 0 ? '◐' : '○'} ${o.statement} (${o.completed}/${o.total})\n`;
+        }
+      }
+      if (r.wins) out += `🏆 Wins: ${r.wins}\n`;
+      if (r.misses) out += `🕳️ Misses: ${r.misses}\n`;
+      if (r.lessons) out += `💡 Lessons: ${r.lessons}\n`;
+      if (!r.wins && !r.misses && !r.lessons) out += `_No notes - add them with \`sprint_retro\`_\n`;
+    }
+    return { content: [{ type: "text", text: out.trimEnd() }] };
+  });
+
+  // ============================================
+  // SPRINT HISTORY
+  // ============================================
+
+  server.tool("sprint_burndown", {
+    sprint_id: z.string().optional().describe("Sprint ID (defaults to most recent active sprint, then the last one ended)"),
+  }, async ({ sprint_id }) => {
+    let sprint: any;
+    if (sprint_id) {
+      sprint = await env.DB.prepare('SELECT * FROM sprints WHERE id = ? AND user_id = ?').bind(sprint_id, getCurrentUser()).first();
+    } else {
+      sprint = await env.DB.prepare("SELECT * FROM sprints WHERE user_id = ? ORDER BY CASE WHEN status = 'active' THEN 0 ELSE 1 END, created_at DESC LIMIT 1").bind(getCurrentUser()).first();
+    }
+    if (!sprint) return { content: [{ type: "text", text: "No sprint found. Create one with `create_sprint`." }] };
+
+    const clock = await getUserClock(env, getCurrentUser());
+    const burndown = await getSprintBurndown(env, getCurrentUser(), sprint, clock);
+    if (burndown.points.length === 0) return { content: [{ type: "text", text: `"${sprint.name}" hasn't started yet.` }] };
+
+    const scale = Math.max(1, ...burndown.points.map(p => p.total));
+    let out = `📉 **Burndown: ${sprint.name}** (${burndown.start} → ${sprint.end_date})\n\n`;
+    for (const p of burndown.points) {
+      const filled = Math.round((p.remaining / scale) * 20);
+      const day = DAY_NAMES[dayOfWeekOf(p.date)];
+      out += `\`${p.date.slice(5)} ${day}\` ${'█'.repeat(filled)}${'░'.repeat(20 - filled)} ${p.remaining} left`;
+      out += p.remaining > p.ideal ? ` (ideal ${p.ideal})` : ' ✓';
+      if (p.source === 'live') out += ' ← today';
+      out += `\n`;
+    }
+
+    const latest = burndown.points[burndown.points.length - 1];
+    out += `\n📊 ${latest.completed}/${latest.total} done`;
+    if (burndown.points[0].total !== latest.total) out += ` · scope ${latest.total > burndown.points[0].total ? '+' : ''}${latest.total - burndown.points[0].total} since day 1`;
+    out += `\n`;
+    if (burndown.projectedFinish) {
+      out += burndown.projectedFinish <= sprint.end_date
+        ? `🎯 On pace to finish ${burndown.projectedFinish}\n`
+        : `⚠️ At this pace you'll finish ${burndown.projectedFinish}, ${daysBetween(sprint.end_date, burndown.projectedFinish)} day(s) after the end date\n`;
+    }
+    if (burndown.points.some(p => p.source === 'reconstructed')) {
+      out += `\n_Days without a snapshot are rebuilt from completion dates._`;
+    }
+    return { content: [{ type: "text", text: out.trimEnd() }] };
+  });
+
+  server.tool("sprint_velocity", {
+    count: z.number().int().min(1).max(20).optional().default(5).describe("How many recent completed sprints to include"),
+  }, async ({ count }) => {
+    const { timeZone } = await getUserClock(env, getCurrentUser());
+    const velocity = await getVelocityHistory(env, getCurrentUser(), timeZone, count);
+    if (velocity.sprints.length === 0) {
+      return { content: [{ type: "text", text: "No completed sprints yet - velocity shows up after your first `end_sprint`." }] };
+    }
+
+    let out = `🚀 **Sprint velocity** (last ${velocity.sprints.length})\n\n`;
+    for (const s of velocity.sprints) {
+      out += `• **${s.name}** (${s.start} → ${s.end}): ${s.completed}/${s.total} done in ${s.workDays} work day${s.workDays === 1 ? '' : 's'} · ${s.perWorkDay}/day\n`;
+    }
+    if (velocity.average !== null) {
+      out += `\n📈 Average: **${velocity.average} tasks/work day** (about ${Math.round(velocity.average * 5)} a week)`;
+    }
     return { content: [{ type: "text", text: out }] };
   });
 
@@ -709,7 +709,8 @@ export function registerTaskTools(ctx: ToolContext) {
     const updates: Array<{task: any, newDate: string}> = [];
     
     for (const task of overdueTasks.results as any[]) {
-      const newDate = getCaughtUpDueDate(task.recurrence);
+      const newDate = getCaughtUpDueDate(task.recurrence, task.due_date, today);
+      if (!newDate) continue;
       updates.push({ task, newDate });
       
       out += `• **${task.text}**\n`;
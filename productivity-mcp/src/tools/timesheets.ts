@@ -0,0 +1,84 @@
+// Timesheet tools - billable hours per client from logged progress and work sessions
+
+import { z } from "zod";
+import type { ToolContext } from '../types';
+import { getUserClock } from '../helpers/datetime';
+import { getValidToken, findOrCreateFolderPath, uploadTextToDrive } from '../oauth';
+import {
+  BILLING_MATCH_TYPES, TIMESHEET_GROUPS, TIMESHEET_PERIODS, TIMESHEET_FORMATS,
+  resolveTimesheetRange, buildTimesheet, formatTimesheet, summarizeTimesheet, timesheetFilename,
+  listBillingRates, setBillingRate, removeBillingRate, describeBillingRate,
+} from '../helpers/timesheets';
+
+export function registerTimesheetTools(ctx: ToolContext) {
+  const { server, env, getCurrentUser } = ctx;
+
+  server.tool("generate_timesheet", {
+    period: z.enum(TIMESHEET_PERIODS).optional().describe("Defaults to this_month. Ignored when start_date/end_date are given"),
+    start_date: z.string().optional().describe("YYYY-MM-DD"),
+    end_date: z.string().optional().describe("YYYY-MM-DD, defaults to today"),
+    group_by: z.enum(TIMESHEET_GROUPS).optional().default('client'),
+    client: z.string().optional().describe("Only this client's time"),
+    billable_only: z.boolean().optional().default(false),
+    include_sessions: z.boolean().optional().default(true).describe("Count work-session time that wasn't logged against a task, split by checkpoints"),
+    format: z.enum(TIMESHEET_FORMATS).optional().describe("Return the full timesheet as csv or markdown instead of a summary"),
+    save_to_drive: z.boolean().optional().default(false).describe("Save the file to Google Drive (markdown unless format is csv)"),
+    folder_path: z.string().optional().describe("Drive folder for the saved file, e.g. 'Clients/Timesheets'"),
+  }, async ({ period, start_date, end_date, group_by, client, billable_only, include_sessions, format, save_to_drive, folder_path }) => {
+    const clock = await getUserClock(env, getCurrentUser());
+    const range = resolveTimesheetRange(clock, { period, start: start_date, end: end_date });
+    if ('error' in range) return { content: [{ type: "text", text: `❓ ${range.error}` }] };
+
+    const sheet = await buildTimesheet(env, getCurrentUser(), clock, range, { groupBy: group_by, client, billableOnly: billable_only, includeSessions: include_sessions });
+    let out = summarizeTimesheet(sheet);
+    if (sheet.entries.length === 0) return { content: [{ type: "text", text: out }] };
+
+    if (save_to_drive) {
+      const fileFormat = format || 'markdown';
+      const token = await getValidToken(env, getCurrentUser(), 'google_drive');
+      if (!token) return { content: [{ type: "text", text: out + "\n\n⛔ Drive not connected. Run: connect_service google_drive" }] };
+
+      let folderId: string | undefined;
+      if (folder_path) {
+        const folder = await findOrCreateFolderPath(token, folder_path);
+        if (!folder) return { content: [{ type: "text", text: out + `\n\n⛔ Could not find or create folder path: ${folder_path}` }] };
+        folderId = folder.id;
+      }
+      const filename = timesheetFilename(sheet, fileFormat);
+      const file = await uploadTextToDrive(token, filename, formatTimesheet(sheet, fileFormat), fileFormat === 'csv' ? 'text/csv' : 'text/markdown', folderId);
+      if ('error' in file) return { content: [{ type: "text", text: out + "\n\n⛔ Error saving file: " + file.error }] };
+      out += `\n\n✅ Saved: ${file.name}${folder_path ? ` in "${folder_path}"` : ''}\n${file.webViewLink}`;
+    } else if (format) {
+      out += `\n\n\`\`\`${format}\n${formatTimesheet(sheet, format).trimEnd()}\n\`\`\``;
+    }
+    return { content: [{ type: "text", text: out }] };
+  });
+
+  server.tool("set_billing_rate", {
+    match_type: z.enum(BILLING_MATCH_TYPES).describe("What the rate applies to. A task's launch wins over its project, then tags, then category"),
+    match_value: z.string().describe("The launch title, project, tag or category name"),
+    client: z.string().optional().describe("Client to bill (a capture portal slug works too). Defaults to match_value"),
+    hourly_rate: z.number().min(0).optional().describe("Dollars per hour"),
+    billable: z.boolean().optional().describe("false for internal work you want on the timesheet but not the invoice"),
+  }, async ({ match_type, match_value, client, hourly_rate, billable }) => {
+    const rate = await setBillingRate(env, getCurrentUser(), { matchType: match_type, matchValue: match_value, client, hourlyRate: hourly_rate, billable });
+    return { content: [{ type: "text", text: `💵 ${describeBillingRate(rate)}\nID: ${rate.id}` }] };
+  });
+
+  server.tool("list_billing_rates", {}, async () => {
+    const rates = await listBillingRates(env, getCurrentUser());
+    if (rates.length === 0) return { content: [{ type: "text", text: "No billing rates yet. Use set_billing_rate to map a project, category, launch or tag to a client." }] };
+
+    let out = `💵 **Billing rates**\n\n`;
+    for (const r of rates) out += `• ${describeBillingRate(r)} · ID: ${r.id}\n`;
+    return { content: [{ type: "text", text: out.trimEnd() }] };
+  });
+
+  server.tool("remove_billing_rate", {
+    rate: z.string().describe("Rate ID, or the project/category/launch/tag name it matches"),
+  }, async ({ rate }) => {
+    const result = await removeBillingRate(env, getCurrentUser(), rate);
+    if ('error' in result) return { content: [{ type: "text", text: `❓ ${result.error}` }] };
+    return { content: [{ type: "text", text: `🗑️ Removed: ${describeBillingRate(result)}` }] };
+  });
+}